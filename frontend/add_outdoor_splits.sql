@@ -0,0 +1,6 @@
+-- Add outdoor_splits column to workout_sessions for outdoor split and lap times
+ALTER TABLE workout_sessions
+ADD COLUMN IF NOT EXISTS outdoor_splits JSONB DEFAULT NULL;
+
+-- Add a comment for documentation
+COMMENT ON COLUMN workout_sessions.outdoor_splits IS 'Split and lap times for outdoor exercise sessions. Object of {unit, splits, laps}; each split is {distanceMiles, durationSeconds}.';
@@ -0,0 +1,14 @@
+-- Add updated_at column to workout_sessions so edits made offline can be checked
+-- against newer edits from another device before they are synced
+ALTER TABLE public.workout_sessions
+ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL;
+
+-- Add a comment for documentation
+COMMENT ON COLUMN public.workout_sessions.updated_at IS 'When the session was last edited. Used by the app''s offline sync queue for conflict detection.';
+
+-- Set updated_at from the database clock on every edit, so versions from different devices compare
+DROP TRIGGER IF EXISTS set_workout_sessions_updated_at ON public.workout_sessions;
+CREATE TRIGGER set_workout_sessions_updated_at
+BEFORE UPDATE ON public.workout_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
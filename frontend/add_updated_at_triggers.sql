@@ -0,0 +1,45 @@
+-- Let the server set updated_at on every table the offline sync queue checks for conflicts.
+-- The app compares a row's current updated_at with the one it last read, so the value must
+-- come from the database clock, not from whichever device wrote the row.
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+-- Activating a plan or advancing its rotation isn't an edit of the plan itself
+DROP TRIGGER IF EXISTS set_plans_updated_at ON public.plans;
+CREATE TRIGGER set_plans_updated_at
+BEFORE UPDATE ON public.plans
+FOR EACH ROW
+WHEN (
+  (to_jsonb(OLD) - 'is_active' - 'rotation_state' - 'updated_at')
+  IS DISTINCT FROM (to_jsonb(NEW) - 'is_active' - 'rotation_state' - 'updated_at')
+)
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS set_plan_workouts_updated_at ON public.plan_workouts;
+CREATE TRIGGER set_plan_workouts_updated_at
+BEFORE UPDATE ON public.plan_workouts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS set_workout_templates_updated_at ON public.workout_templates;
+CREATE TRIGGER set_workout_templates_updated_at
+BEFORE UPDATE ON public.workout_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS set_schedules_updated_at ON public.schedules;
+CREATE TRIGGER set_schedules_updated_at
+BEFORE UPDATE ON public.schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS set_custom_exercises_updated_at ON public.custom_exercises;
+CREATE TRIGGER set_custom_exercises_updated_at
+BEFORE UPDATE ON public.custom_exercises
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
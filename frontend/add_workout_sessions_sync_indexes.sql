@@ -0,0 +1,7 @@
+-- Indexes backing incremental workout history hydration:
+-- keyset pagination walks (date, id) newest first, and delta syncs filter on updated_at
+CREATE INDEX IF NOT EXISTS workout_sessions_user_date_id_idx
+ON public.workout_sessions (user_id, date DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS workout_sessions_user_updated_at_idx
+ON public.workout_sessions (user_id, updated_at);
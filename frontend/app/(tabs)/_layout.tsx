@@ -115,6 +115,20 @@ export default function TabLayout() {
             title: 'Weekly Volume',
           }}
         />
+        <Tabs.Screen
+          name="personal-records"
+          options={{
+            href: null,
+            title: 'Personal Records',
+          }}
+        />
+        <Tabs.Screen
+          name="body-metrics"
+          options={{
+            href: null,
+            title: 'Body Metrics',
+          }}
+        />
       </Tabs>
     </View>
   );
@@ -0,0 +1,257 @@
+/**
+ * Body Metrics Page
+ * Dated log of bodyweight, body-fat % and circumference measurements with a trend chart
+ * per metric. Weigh-ins here also drive bodyweight exercise volume for workouts on those dates.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, ScrollView, BackHandler } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Text } from '@/components/atoms/Text';
+import { Button } from '@/components/atoms/Button';
+import { SurfaceCard } from '@/components/atoms/SurfaceCard';
+import { QuickFilterChip } from '@/components/atoms/QuickFilterChip';
+import { BodyMetricTrendChart } from '@/components/molecules/BodyMetricTrendChart';
+import { BodyMetricsLogModal } from '@/components/molecules/BodyMetricsLogModal';
+import { DeleteConfirmationModal } from '@/components/molecules/DeleteConfirmationModal';
+import { TabSwipeContainer } from '@/components/templates/TabSwipeContainer';
+import { spacing } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+import { useBodyMetricsStore } from '@/store/bodyMetricsStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useUserProfileStore } from '@/store/userProfileStore';
+import { BODY_MEASUREMENT_LABELS, BODY_MEASUREMENT_SITES } from '@/types/bodyMetrics';
+import type { BodyMetricEntry, BodyMetricEntryInput, BodyMetricKey } from '@/types/bodyMetrics';
+import { convertInchesToSizeUnit, getBodyMetricSeries } from '@/utils/bodyMetrics';
+import { parseLocalISODate } from '@/utils/date';
+import { triggerHaptic } from '@/utils/haptics';
+
+const formatEntryDate = (date: string): string => {
+  return parseLocalISODate(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const BodyMetricsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const router = useRouter();
+  const entries = useBodyMetricsStore((state) => state.entries);
+  const logEntry = useBodyMetricsStore((state) => state.logEntry);
+  const removeEntry = useBodyMetricsStore((state) => state.removeEntry);
+  const profileWeight = useUserProfileStore((state) => state.profile?.weightLbs);
+  const updateProfileField = useUserProfileStore((state) => state.updateProfileField);
+  const { weightUnit, sizeUnit, convertWeight, formatWeight } = useSettingsStore();
+  const [selectedMetric, setSelectedMetric] = useState<BodyMetricKey>('weight');
+  const [isLogModalVisible, setIsLogModalVisible] = useState(false);
+  const [editDate, setEditDate] = useState<string | undefined>(undefined);
+  const [pendingDelete, setPendingDelete] = useState<BodyMetricEntry | null>(null);
+
+  // Weight and body fat are always offered; circumferences only once one has been logged
+  const metricOptions = useMemo((): { key: BodyMetricKey; label: string }[] => {
+    const measured = BODY_MEASUREMENT_SITES.filter((site) => entries.some((entry) => entry.measurements[site]));
+    return [
+      { key: 'weight', label: 'Weight' },
+      { key: 'bodyFat', label: 'Body Fat' },
+      ...measured.map((site) => ({ key: site, label: BODY_MEASUREMENT_LABELS[site] })),
+    ];
+  }, [entries]);
+
+  const chartPoints = useMemo(() => {
+    const series = getBodyMetricSeries(entries, selectedMetric);
+    // Weights are stored in lbs; body fat is unitless
+    if (selectedMetric === 'weight') {
+      return weightUnit === 'kg' ? series.map((point) => ({ ...point, value: convertWeight(point.value) })) : series;
+    }
+    if (selectedMetric === 'bodyFat') return series;
+    return series.map((point) => ({ ...point, value: convertInchesToSizeUnit(point.value, sizeUnit) }));
+  }, [entries, selectedMetric, convertWeight, sizeUnit, weightUnit]);
+
+  const formatChartValue = useCallback((value: number): string => {
+    const rounded = Math.round(value * 10) / 10;
+    if (selectedMetric === 'weight') return `${rounded} ${weightUnit}`;
+    if (selectedMetric === 'bodyFat') return `${rounded}%`;
+    return `${rounded} ${sizeUnit}`;
+  }, [selectedMetric, weightUnit, sizeUnit]);
+
+  const chartTitle = metricOptions.find((option) => option.key === selectedMetric)?.label ?? 'Weight';
+
+  const handleBackPress = useCallback(() => {
+    router.replace('/(tabs)/profile');
+  }, [router]);
+
+  // Handle Android hardware back button
+  useEffect(() => {
+    const backAction = () => {
+      handleBackPress();
+      return true;
+    };
+
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', backAction);
+    return () => backHandler.remove();
+  }, [handleBackPress]);
+
+  const openLogModal = useCallback((date?: string) => {
+    triggerHaptic('selection');
+    setEditDate(date);
+    setIsLogModalVisible(true);
+  }, []);
+
+  const handleSave = useCallback(async (input: BodyMetricEntryInput) => {
+    const saved = await logEntry(input);
+    if (!saved?.weightLbs) return;
+
+    // The profile weight tracks the most recent weigh-in
+    const latestWeighIn = [...useBodyMetricsStore.getState().entries].reverse().find((entry) => entry.weightLbs);
+    if (latestWeighIn?.date === saved.date && saved.weightLbs !== profileWeight) {
+      updateProfileField('weightLbs', saved.weightLbs);
+    }
+  }, [logEntry, profileWeight, updateProfileField]);
+
+  const handleConfirmDelete = useCallback(() => {
+    if (pendingDelete) {
+      removeEntry(pendingDelete.id);
+    }
+    setPendingDelete(null);
+  }, [pendingDelete, removeEntry]);
+
+  const describeEntry = (entry: BodyMetricEntry): string => {
+    const parts: string[] = [];
+    if (entry.bodyFatPercent) parts.push(`${entry.bodyFatPercent}% body fat`);
+    const measuredCount = Object.keys(entry.measurements).length;
+    if (measuredCount > 0) parts.push(`${measuredCount} measurement${measuredCount === 1 ? '' : 's'}`);
+    return [formatEntryDate(entry.date), ...parts].join(' · ');
+  };
+
+  const history = useMemo(() => [...entries].reverse(), [entries]);
+
+  return (
+    <TabSwipeContainer contentContainerStyle={[styles.contentContainer, { backgroundColor: theme.primary.bg }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBackPress} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color={theme.text.primary} />
+        </TouchableOpacity>
+        <Text variant="heading2" color="primary" numberOfLines={1} style={styles.title}>
+          Body Metrics
+        </Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <SurfaceCard tone="card" padding="lg" showAccentStripe={false}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {metricOptions.map((option) => (
+            <QuickFilterChip
+              key={option.key}
+              label={option.label}
+              active={selectedMetric === option.key}
+              onPress={() => setSelectedMetric(option.key)}
+            />
+          ))}
+        </ScrollView>
+        <BodyMetricTrendChart title={chartTitle} points={chartPoints} formatValue={formatChartValue} />
+      </SurfaceCard>
+
+      <Button label="Log Body Metrics" variant="primary" onPress={() => openLogModal()} />
+
+      <SurfaceCard tone="card" padding="lg" showAccentStripe={false}>
+        <Text variant="heading3" color="primary" style={styles.cardTitle}>
+          History
+        </Text>
+        {history.length > 0 ? history.map((entry, index) => (
+          <View
+            key={entry.id}
+            style={[styles.entryRow, index < history.length - 1 && { borderBottomColor: theme.border.light, borderBottomWidth: StyleSheet.hairlineWidth }]}
+          >
+            <TouchableOpacity style={styles.entryDetails} onPress={() => openLogModal(entry.date)}>
+              <Text variant="bodySemibold" color="primary">
+                {entry.weightLbs ? formatWeight(entry.weightLbs) : 'No weight'}
+              </Text>
+              <Text variant="caption" color="tertiary">
+                {describeEntry(entry)}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => { triggerHaptic('selection'); setPendingDelete(entry); }}
+              style={styles.deleteButton}
+            >
+              <Ionicons name="trash-outline" size={18} color={theme.text.tertiary} />
+            </TouchableOpacity>
+          </View>
+        )) : (
+          <Text variant="body" color="secondary">
+            Log your weight regularly so bodyweight exercise volume reflects what you weighed at the time.
+          </Text>
+        )}
+      </SurfaceCard>
+
+      <BodyMetricsLogModal
+        visible={isLogModalVisible}
+        entries={entries}
+        initialDate={editDate}
+        onClose={() => setIsLogModalVisible(false)}
+        onSave={handleSave}
+      />
+
+      <DeleteConfirmationModal
+        visible={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Delete Entry"
+        message={pendingDelete ? `Delete the body metrics logged on ${formatEntryDate(pendingDelete.date)}?` : undefined}
+      />
+    </TabSwipeContainer>
+  );
+};
+
+const styles = StyleSheet.create({
+  contentContainer: {
+    flexGrow: 1,
+    paddingTop: spacing.md,
+    paddingHorizontal: spacing.md,
+    gap: spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingBottom: spacing.sm,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  placeholder: {
+    width: 40,
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  cardTitle: {
+    marginBottom: spacing.sm,
+  },
+  chipRow: {
+    gap: spacing.xs,
+    paddingBottom: spacing.md,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  entryDetails: {
+    flex: 1,
+    gap: spacing.xxs,
+  },
+  deleteButton: {
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
+
+export default BodyMetricsScreen;
@@ -17,6 +17,9 @@ import { formatDateToLocalISO, getDeviceCurrentDate, parseLocalISODate } from '@
 import { formatWorkoutTitle, getWorkoutSummary } from '@/utils/workout';
 import { useWorkoutSessionsStore, type WorkoutSessionsState } from '@/store/workoutSessionsStore';
 import { usePlansStore, type PlansState } from '@/store/plansStore';
+import { useDeloadStore } from '@/store/deloadStore';
+import { getWeekStartKey } from '@/utils/chartUtils';
+import { getWeekDates } from '@/utils/fatigue';
 
 const getWorkoutLocalISO = (workout: WorkoutSessionsState['workouts'][number]): string | null => {
   if (workout.startTime) {
@@ -58,7 +61,10 @@ const CalendarScreen: React.FC = () => {
 
   const workouts = useWorkoutSessionsStore((state: WorkoutSessionsState) => state.workouts);
   const hydrateWorkouts = useWorkoutSessionsStore((state: WorkoutSessionsState) => state.hydrateWorkouts);
+  const hasMoreHistory = useWorkoutSessionsStore((state: WorkoutSessionsState) => state.hasMoreHistory);
+  const loadOlderWorkouts = useWorkoutSessionsStore((state: WorkoutSessionsState) => state.loadOlderWorkouts);
   const plans = usePlansStore((state: PlansState) => state.plans);
+  const deloadWeeks = useDeloadStore((state) => state.deloadWeeks);
 
   const markers = useMemo<string[]>(() => {
     const unique = new Set<string>();
@@ -73,6 +79,19 @@ const CalendarScreen: React.FC = () => {
 
   const markersSet = useMemo(() => new Set(markers), [markers]);
 
+  // Page in older history as the calendar is scrolled back past what's loaded
+  useEffect(() => {
+    if (!hasMoreHistory) return;
+    const monthDate = parseLocalISODate(currentMonth);
+    void loadOlderWorkouts(new Date(monthDate.getFullYear(), monthDate.getMonth(), 1).toISOString());
+  }, [currentMonth, hasMoreHistory, loadOlderWorkouts]);
+
+  const deloadDates = useMemo(() => deloadWeeks.flatMap(getWeekDates), [deloadWeeks]);
+  const isSelectedDeloadDay = useMemo(
+    () => deloadWeeks.includes(getWeekStartKey(parseLocalISODate(selectedDate))),
+    [deloadWeeks, selectedDate]
+  );
+
   const friendlyFormatter = useMemo(
     () => new Intl.DateTimeFormat('en-US', { weekday: 'long', month: 'long', day: 'numeric' }),
     []
@@ -169,6 +188,7 @@ const CalendarScreen: React.FC = () => {
           selectedDate={selectedDate}
           onSelectDate={handleSelectDate}
           markers={markers}
+          highlights={deloadDates}
           onDayLongPress={handleDayLongPress}
           currentMonth={currentMonth}
           onCurrentMonthChange={setCurrentMonth}
@@ -176,9 +196,16 @@ const CalendarScreen: React.FC = () => {
       </View>
 
       <View style={styles.summarySection}>
-        <Text variant="heading3" color="primary">
-          {friendlyDateLabel}
-        </Text>
+        <View style={styles.summaryHeader}>
+          <Text variant="heading3" color="primary">
+            {friendlyDateLabel}
+          </Text>
+          {isSelectedDeloadDay ? (
+            <Text variant="caption" style={{ color: theme.accent.info }}>
+              Deload week · lighter suggested sessions
+            </Text>
+          ) : null}
+        </View>
 
         {hasWorkouts ? (
           <View style={styles.workoutList}>
@@ -247,6 +274,9 @@ const styles = StyleSheet.create({
     width: '100%',
     gap: spacing.md,
   },
+  summaryHeader: {
+    gap: spacing.xs,
+  },
   summaryPressable: {
     width: '100%',
   },
@@ -97,6 +97,8 @@ const CreateWorkoutScreen: React.FC = () => {
     handleAddExercise,
     handleRemoveExercise,
     handleReorderExercises,
+    handleToggleExerciseLink,
+    handleUpdateExerciseTargets,
     handleSavePlan,
     setEditingPlanId,
     setIsLoading,
@@ -264,6 +266,8 @@ const CreateWorkoutScreen: React.FC = () => {
               onAddExercise={handleAddExerciseFromSearch}
               onRemoveExercise={handleRemoveExercise}
               onReorderExercises={handleReorderExercises}
+              onToggleExerciseLink={handleToggleExerciseLink}
+              onUpdateExerciseTargets={handleUpdateExerciseTargets}
               onSave={handleSavePress}
               saveLabel={saveLabel}
               isSaving={isSaving}
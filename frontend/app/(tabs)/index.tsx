@@ -31,17 +31,16 @@ import { WEEKDAY_LABELS } from '@/constants/schedule';
 import type { ScheduleDayKey } from '@/types/schedule';
 import { triggerHaptic } from '@/utils/haptics';
 import { useWorkoutSessionsStore, type WorkoutSessionsState } from '@/store/workoutSessionsStore';
-import type { Workout, WorkoutExercise, SetLog } from '@/types/workout';
+import type { Workout } from '@/types/workout';
 import { useSessionStore } from '@/store/sessionStore';
 import { useUserProfileStore } from '@/store/userProfileStore';
 import { useBirthdayWelcome } from '@/hooks/useBirthdayWelcome';
 import { WorkoutInProgressModal } from '@/components/molecules/WorkoutInProgressModal';
+import { DeloadRecommendationCard } from '@/components/molecules/DeloadRecommendationCard';
 import type { ProgramWorkout } from '@/types/premadePlan';
-import { createSetsWithSmartSuggestions } from '@/utils/workout';
-import { detectCompoundIsolationSplit } from '@/utils/smartSuggestions';
-import { exercises as exerciseCatalogData } from '@/constants/exercises';
+import { buildSessionSeed } from '@/utils/sessionSeed';
+import { formatPlanWeekLabel, getPlanWeekContext } from '@/utils/planPeriodization';
 import { useSettingsStore } from '@/store/settingsStore';
-import type { RepRange } from '@/types/smartSuggestions';
 import { useActiveScheduleStore, computeTodaysWorkout } from '@/store/activeScheduleStore';
 import { useCustomExerciseStore } from '@/store/customExerciseStore';
 import { useOutdoorSessionStore } from '@/store/outdoorSessionStore';
@@ -639,11 +638,18 @@ const DashboardScreen: React.FC = () => {
       }
 
       const exerciseCount = getExerciseCount(workoutId);
+      const exerciseCountLabel = `${exerciseCount} ${exerciseCount === 1 ? 'exercise' : 'exercises'}`;
+      const planWeekContext = activeScheduleRule.type === 'plan-driven' && activeScheduleResult.planWeek
+        ? getPlanWeekContext(
+          activeScheduleResult.planWeek,
+          userPrograms.find((program) => program.id === activeScheduleRule.planId)?.metadata,
+        )
+        : null;
       return {
         variant: 'activeSchedule',
         dayLabel: workoutName,
         workoutId,
-        context: `${exerciseCount} ${exerciseCount === 1 ? 'exercise' : 'exercises'}`,
+        context: planWeekContext ? `${formatPlanWeekLabel(planWeekContext)} · ${exerciseCountLabel}` : exerciseCountLabel,
       };
     }
 
@@ -705,40 +711,12 @@ const DashboardScreen: React.FC = () => {
 
     triggerHaptic('selection');
 
-    const doStartSession = () => {
+    const doStartSession = async () => {
       setCompletionOverlayVisible(false);
 
       const target = todaysPlan || rotationWorkout;
       if (!target) return;
 
-      const userGoal = useUserProfileStore.getState().profile?.primaryGoal;
-      const historySetCounts: Record<string, number> = {};
-      const suggestedSetsMap: Record<string, SetLog[]> = {};
-      const dataPointsMap: Record<string, any[]> = {};
-      const repRangesMap: Record<string, RepRange[]> = {};
-      const workoutExercises: WorkoutExercise[] = (target.exercises ?? []).map((exercise) => {
-        const result = createSetsWithSmartSuggestions(exercise.name, workouts, smartSuggestionsEnabled, undefined, undefined, customExercises, userGoal);
-        historySetCounts[exercise.name] = result.historySetCount;
-        if (result.smartSuggestedSets.length > 0) {
-          suggestedSetsMap[exercise.name] = result.smartSuggestedSets;
-        }
-        if (result.dataPoints && result.dataPoints.length > 0) {
-          dataPointsMap[exercise.name] = result.dataPoints;
-        }
-        if (result.repRanges && result.repRanges.length > 0) {
-          repRangesMap[exercise.name] = result.repRanges;
-        }
-        return {
-          name: exercise.name,
-          sets: result.sets,
-        };
-      });
-
-      const hasSplit = detectCompoundIsolationSplit(
-        workouts,
-        (name) => exerciseCatalogData.find((e) => e.name === name)?.isCompound ?? false,
-      );
-
       const planId = todaysCardState.variant === 'rotation'
         ? todaysCardState.programId
         : (todaysPlan?.id ?? '');
@@ -747,8 +725,13 @@ const DashboardScreen: React.FC = () => {
         : todaysCardState.variant === 'standaloneRotation'
           ? `${todaysCardState.dayLabel}: ${todaysPlan?.name ?? 'Workout'}`
           : (todaysPlan?.name ?? null);
+      const seed = await buildSessionSeed(target.exercises ?? [], {
+        planId,
+        smartSuggestionsEnabled,
+        customExercises,
+      });
 
-      startSession(planId, workoutExercises, sessionName, historySetCounts, suggestedSetsMap, dataPointsMap, repRangesMap, hasSplit);
+      startSession(planId, seed.exercises, sessionName, seed.historySetCounts, seed.suggestedSets, seed.exerciseDataPoints, seed.exerciseRepRanges, seed.hasCompoundIsolationSplit, seed.planWeek, seed.exerciseTargets);
       router.push('/(tabs)/workout');
     };
 
@@ -757,8 +740,8 @@ const DashboardScreen: React.FC = () => {
       return;
     }
 
-    doStartSession();
-  }, [todaysPlan, rotationWorkout, startSession, router, setCompletionOverlayVisible, todaysCardState, workouts, isSessionActive, currentSession, isOutdoorSessionActive, outdoorExerciseName]);
+    void doStartSession();
+  }, [todaysPlan, rotationWorkout, startSession, router, setCompletionOverlayVisible, todaysCardState, isSessionActive, currentSession, isOutdoorSessionActive, outdoorExerciseName]);
 
   const recentWorkouts = useMemo<Workout[]>(() => {
     if (workouts.length === 0) {
@@ -1019,7 +1002,7 @@ const DashboardScreen: React.FC = () => {
                             {todaysCardState.workoutId && (
                               <Pressable
                                 style={styles.planStartButton}
-                                onPress={() => {
+                                onPress={async () => {
                                   if (isOutdoorSessionActive) {
                                     triggerHaptic('selection');
                                     router.push({ pathname: '/outdoor-session', params: { exercise: outdoorExerciseName ?? '' } });
@@ -1051,35 +1034,13 @@ const DashboardScreen: React.FC = () => {
                                   }
 
                                   if (targetWorkout) {
-                                    const userGoal2 = useUserProfileStore.getState().profile?.primaryGoal;
-                                    const historySetCounts: Record<string, number> = {};
-                                    const suggestedSetsMap2: Record<string, SetLog[]> = {};
-                                    const dataPointsMap2: Record<string, any[]> = {};
-                                    const repRangesMap2: Record<string, RepRange[]> = {};
-                                    const workoutExercises: WorkoutExercise[] = (targetWorkout.exercises ?? []).map((exercise) => {
-                                      const result = createSetsWithSmartSuggestions(exercise.name, workouts, smartSuggestionsEnabled, undefined, undefined, customExercises, userGoal2);
-                                      historySetCounts[exercise.name] = result.historySetCount;
-                                      if (result.smartSuggestedSets.length > 0) {
-                                        suggestedSetsMap2[exercise.name] = result.smartSuggestedSets;
-                                      }
-                                      if (result.dataPoints && result.dataPoints.length > 0) {
-                                        dataPointsMap2[exercise.name] = result.dataPoints;
-                                      }
-                                      if (result.repRanges && result.repRanges.length > 0) {
-                                        repRangesMap2[exercise.name] = result.repRanges;
-                                      }
-                                      return {
-                                        name: exercise.name,
-                                        sets: result.sets,
-                                      };
+                                    const seed = await buildSessionSeed(targetWorkout.exercises ?? [], {
+                                      planId,
+                                      smartSuggestionsEnabled,
+                                      customExercises,
                                     });
 
-                                    const hasSplit2 = detectCompoundIsolationSplit(
-                                      workouts,
-                                      (name) => exerciseCatalogData.find((e) => e.name === name)?.isCompound ?? false,
-                                    );
-
-                                    startSession(planId, workoutExercises, sessionName, historySetCounts, suggestedSetsMap2, dataPointsMap2, repRangesMap2, hasSplit2);
+                                    startSession(planId, seed.exercises, sessionName, seed.historySetCounts, seed.suggestedSets, seed.exerciseDataPoints, seed.exerciseRepRanges, seed.hasCompoundIsolationSplit, seed.planWeek, seed.exerciseTargets);
                                   }
 
                                   router.push('/(tabs)/workout');
@@ -1271,7 +1232,7 @@ const DashboardScreen: React.FC = () => {
                 </SurfaceCard>
             </Animated.View>
 
-
+            <DeloadRecommendationCard />
 
             <Animated.View style={recentWorkoutsAnimatedStyle}>
               <SurfaceCard tone="card" padding="xl" showAccentStripe={true} style={{ borderWidth: 0 }}>
@@ -0,0 +1,457 @@
+/**
+ * Personal Records Page
+ * Full PR history for every weighted exercise: rep maxes (1RM–12RM), best volume set,
+ * best session volume and a timeline of broken records. Each record links to its workout.
+ * Also where training maxes for percentage-based programs are set.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, Switch, TouchableOpacity, TextInput, BackHandler } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Text } from '@/components/atoms/Text';
+import { SurfaceCard } from '@/components/atoms/SurfaceCard';
+import { TabSwipeContainer } from '@/components/templates/TabSwipeContainer';
+import { TrainingMaxModal } from '@/components/molecules/TrainingMaxModal';
+import { exercises as exerciseCatalog } from '@/constants/exercises';
+import { radius, spacing } from '@/constants/theme';
+import { useFullWorkoutHistory } from '@/hooks/useFullWorkoutHistory';
+import { useTheme } from '@/hooks/useTheme';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useCustomExerciseStore } from '@/store/customExerciseStore';
+import { useTrainingMaxStore } from '@/store/trainingMaxStore';
+import type { ExercisePersonalRecords, PersonalRecordEvent, PersonalRecordSource } from '@/types/personalRecords';
+import { TRAINING_MAX_SOURCE_LABELS } from '@/types/trainingMax';
+import { computePersonalRecords, getExerciseBests, getPersonalRecordTimeline } from '@/utils/personalRecords';
+import { seedTrainingMaxFromE1RM } from '@/utils/trainingMax';
+import { normalizeSearchText } from '@/utils/strings';
+import { triggerHaptic } from '@/utils/haptics';
+
+const RECENT_PR_LIMIT = 10;
+
+const formatRecordDate = (date: string): string => {
+  return new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+interface RecordRowProps {
+  label: string;
+  value: string;
+  detail?: string | null;
+  date?: string | null;
+  onPress?: () => void;
+  showDivider?: boolean;
+}
+
+const RecordRow: React.FC<RecordRowProps> = ({ label, value, detail, date, onPress, showDivider = true }) => {
+  const { theme } = useTheme();
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      disabled={!onPress}
+      style={[styles.recordRow, showDivider && { borderBottomColor: theme.border.light, borderBottomWidth: StyleSheet.hairlineWidth }]}
+    >
+      <View style={styles.recordLabel}>
+        <Text variant="bodySemibold" color="primary">
+          {label}
+        </Text>
+        {(detail || date) ? (
+          <Text variant="caption" color="tertiary">
+            {[detail, date ? formatRecordDate(date) : null].filter(Boolean).join(' · ')}
+          </Text>
+        ) : null}
+      </View>
+      <View style={styles.recordValue}>
+        <Text variant="bodySemibold" color={onPress ? 'orange' : 'tertiary'}>
+          {value}
+        </Text>
+        {onPress && <Ionicons name="chevron-forward" size={16} color={theme.text.tertiary} />}
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const PersonalRecordsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const router = useRouter();
+  // Records span the whole history, not just the newest page
+  const { workouts } = useFullWorkoutHistory();
+  const customExercises = useCustomExerciseStore((state) => state.customExercises);
+  const { formatWeight } = useSettingsStore();
+  const e1rmFormula = useSettingsStore((state) => state.e1rmFormula);
+  const trainingMaxes = useTrainingMaxStore((state) => state.trainingMaxes);
+  const autoBumpEnabled = useTrainingMaxStore((state) => state.autoBumpEnabled);
+  const { setTrainingMax, removeTrainingMax, setAutoBumpEnabled } = useTrainingMaxStore();
+  const [selectedExercise, setSelectedExercise] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isTrainingMaxModalVisible, setTrainingMaxModalVisible] = useState(false);
+
+  const records = useMemo(
+    () => computePersonalRecords(workouts, customExercises),
+    [workouts, customExercises],
+  );
+
+  const recentEvents = useMemo(
+    () => getPersonalRecordTimeline(records).slice(0, RECENT_PR_LIMIT),
+    [records],
+  );
+
+  const filteredRecords = useMemo(() => {
+    const query = normalizeSearchText(searchQuery);
+    if (!query) return records;
+    return records.filter((record) => normalizeSearchText(record.exerciseName).includes(query));
+  }, [records, searchQuery]);
+
+  const selectedRecords = useMemo(
+    () => records.find((record) => record.exerciseName === selectedExercise) ?? null,
+    [records, selectedExercise],
+  );
+
+  const trainingMaxEntries = useMemo(
+    () => Object.entries(trainingMaxes).sort(([a], [b]) => a.localeCompare(b)),
+    [trainingMaxes],
+  );
+
+  // What the selected exercise's training max would be if seeded from its e1RM history
+  const suggestedTrainingMax = useMemo(() => {
+    if (!selectedExercise) return null;
+    const bestE1RM = getExerciseBests(workouts, [selectedExercise], e1rmFormula).get(selectedExercise)?.bestE1RM;
+    if (!bestE1RM) return null;
+    const equipment = exerciseCatalog.find((exercise) => exercise.name === selectedExercise)?.equipment ?? [];
+    return seedTrainingMaxFromE1RM(bestE1RM, equipment) || null;
+  }, [e1rmFormula, selectedExercise, workouts]);
+
+  const handleSaveTrainingMax = useCallback((weightLbs: number, fromE1RM: boolean) => {
+    if (selectedExercise) {
+      setTrainingMax(selectedExercise, weightLbs, fromE1RM ? 'e1rm' : 'manual');
+    }
+    setTrainingMaxModalVisible(false);
+  }, [selectedExercise, setTrainingMax]);
+
+  const handleRemoveTrainingMax = useCallback(() => {
+    if (selectedExercise) {
+      removeTrainingMax(selectedExercise);
+    }
+    setTrainingMaxModalVisible(false);
+  }, [removeTrainingMax, selectedExercise]);
+
+  const handleBackPress = useCallback(() => {
+    if (selectedExercise) {
+      setSelectedExercise(null);
+      return;
+    }
+    router.replace('/(tabs)/profile');
+  }, [router, selectedExercise]);
+
+  // Handle Android hardware back button
+  useEffect(() => {
+    const backAction = () => {
+      handleBackPress();
+      return true;
+    };
+
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', backAction);
+    return () => backHandler.remove();
+  }, [handleBackPress]);
+
+  const openWorkout = useCallback((source: PersonalRecordSource) => {
+    triggerHaptic('selection');
+    router.push({ pathname: '/(tabs)/workout-detail', params: { workoutId: source.workoutId, from: 'records' } });
+  }, [router]);
+
+  const handleSelectExercise = useCallback((exerciseName: string) => {
+    triggerHaptic('selection');
+    setSelectedExercise(exerciseName);
+  }, []);
+
+  const describeEvent = useCallback((event: PersonalRecordEvent): { label: string; value: string; detail: string } => {
+    switch (event.kind) {
+      case 'rep_max':
+        return {
+          label: `${event.reps}RM`,
+          value: formatWeight(event.value),
+          detail: `was ${formatWeight(event.previousValue)}`,
+        };
+      case 'volume_set':
+        return {
+          label: 'Best Set',
+          value: `${formatWeight(event.weight ?? 0)} × ${event.reps ?? 0}`,
+          detail: `was ${formatWeight(event.previousValue, 0)} volume`,
+        };
+      case 'session_volume':
+      default:
+        return {
+          label: 'Session Volume',
+          value: formatWeight(event.value, 0),
+          detail: `was ${formatWeight(event.previousValue, 0)}`,
+        };
+    }
+  }, [formatWeight]);
+
+  const renderTimeline = (events: PersonalRecordEvent[], showExerciseName: boolean) => (
+    <View>
+      {events.map((event, index) => {
+        const { label, value, detail } = describeEvent(event);
+        return (
+          <RecordRow
+            key={`${event.workoutId}-${event.exerciseName}-${event.kind}-${event.reps ?? 0}`}
+            label={showExerciseName ? `${event.exerciseName} · ${label}` : label}
+            value={value}
+            detail={detail}
+            date={event.date}
+            onPress={() => openWorkout(event)}
+            showDivider={index < events.length - 1}
+          />
+        );
+      })}
+    </View>
+  );
+
+  const renderExerciseDetail = (exerciseRecords: ExercisePersonalRecords) => {
+    const { repMaxes, bestVolumeSet, bestSessionVolume, timeline } = exerciseRecords;
+    const trainingMax = trainingMaxes[exerciseRecords.exerciseName];
+
+    return (
+      <>
+        <SurfaceCard tone="card" padding="lg" showAccentStripe={false}>
+          <Text variant="heading3" color="primary" style={styles.cardTitle}>
+            Training Max
+          </Text>
+          <RecordRow
+            label={trainingMax ? formatWeight(trainingMax.weightLbs) : 'Not set'}
+            value={trainingMax ? 'Edit' : 'Set'}
+            detail={trainingMax ? TRAINING_MAX_SOURCE_LABELS[trainingMax.source] : 'Used by % TM targets in your workouts'}
+            onPress={() => {
+              triggerHaptic('selection');
+              setTrainingMaxModalVisible(true);
+            }}
+            showDivider={false}
+          />
+        </SurfaceCard>
+
+        <SurfaceCard tone="card" padding="lg" showAccentStripe={false}>
+          <Text variant="heading3" color="primary" style={styles.cardTitle}>
+            Rep Maxes
+          </Text>
+          {repMaxes.map((record, index) => (
+            <RecordRow
+              key={`rep-max-${index + 1}`}
+              label={`${index + 1}RM`}
+              value={record ? formatWeight(record.weight) : '—'}
+              date={record?.date}
+              onPress={record ? () => openWorkout(record) : undefined}
+              showDivider={index < repMaxes.length - 1}
+            />
+          ))}
+        </SurfaceCard>
+
+        <SurfaceCard tone="card" padding="lg" showAccentStripe={false}>
+          <Text variant="heading3" color="primary" style={styles.cardTitle}>
+            Volume Records
+          </Text>
+          <RecordRow
+            label="Best Set"
+            value={bestVolumeSet ? `${formatWeight(bestVolumeSet.weight)} × ${bestVolumeSet.reps}` : '—'}
+            detail={bestVolumeSet ? `${formatWeight(bestVolumeSet.volume, 0)} volume` : null}
+            date={bestVolumeSet?.date}
+            onPress={bestVolumeSet ? () => openWorkout(bestVolumeSet) : undefined}
+          />
+          <RecordRow
+            label="Best Session"
+            value={bestSessionVolume ? formatWeight(bestSessionVolume.volume, 0) : '—'}
+            date={bestSessionVolume?.date}
+            onPress={bestSessionVolume ? () => openWorkout(bestSessionVolume) : undefined}
+            showDivider={false}
+          />
+        </SurfaceCard>
+
+        <SurfaceCard tone="card" padding="lg" showAccentStripe={false}>
+          <Text variant="heading3" color="primary" style={styles.cardTitle}>
+            PR Timeline
+          </Text>
+          {timeline.length > 0 ? renderTimeline(timeline, false) : (
+            <Text variant="body" color="secondary">
+              Beat one of the records above to start your timeline.
+            </Text>
+          )}
+        </SurfaceCard>
+      </>
+    );
+  };
+
+  const renderOverview = () => (
+    <>
+      <SurfaceCard tone="card" padding="lg" showAccentStripe={false}>
+        <Text variant="heading3" color="primary" style={styles.cardTitle}>
+          Recent PRs
+        </Text>
+        {recentEvents.length > 0 ? renderTimeline(recentEvents, true) : (
+          <Text variant="body" color="secondary">
+            Records you break will show up here.
+          </Text>
+        )}
+      </SurfaceCard>
+
+      <SurfaceCard tone="card" padding="lg" showAccentStripe={false}>
+        <Text variant="heading3" color="primary" style={styles.cardTitle}>
+          Training Maxes
+        </Text>
+        {trainingMaxEntries.map(([exerciseName, trainingMax]) => (
+          <RecordRow
+            key={exerciseName}
+            label={exerciseName}
+            value={formatWeight(trainingMax.weightLbs)}
+            detail={TRAINING_MAX_SOURCE_LABELS[trainingMax.source]}
+            onPress={() => handleSelectExercise(exerciseName)}
+          />
+        ))}
+        {trainingMaxEntries.length === 0 && (
+          <Text variant="body" color="secondary" style={styles.cardTitle}>
+            Open an exercise below to set its training max, or use % TM targets and it will be seeded from your e1RM.
+          </Text>
+        )}
+        <View style={styles.switchRow}>
+          <View style={styles.recordLabel}>
+            <Text variant="bodySemibold" color="primary">
+              Raise After Each Cycle
+            </Text>
+            <Text variant="caption" color="tertiary">
+              +1 increment for upper-body lifts, +2 for lower-body lifts
+            </Text>
+          </View>
+          <Switch
+            value={autoBumpEnabled}
+            onValueChange={(value) => {
+              triggerHaptic('selection');
+              setAutoBumpEnabled(value);
+            }}
+            trackColor={{ false: theme.surface.subtle, true: theme.accent.orange }}
+            thumbColor={'#FFFFFF'}
+            ios_backgroundColor={theme.surface.subtle}
+          />
+        </View>
+      </SurfaceCard>
+
+      <SurfaceCard tone="card" padding="lg" showAccentStripe={false}>
+        <Text variant="heading3" color="primary" style={styles.cardTitle}>
+          All Exercises
+        </Text>
+        <TextInput
+          style={[styles.searchInput, { backgroundColor: theme.primary.bg, borderColor: theme.border.medium, color: theme.text.primary }]}
+          placeholder="Search exercises..."
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          placeholderTextColor={theme.text.tertiary}
+        />
+        {filteredRecords.length > 0 ? filteredRecords.map((record, index) => {
+          const heaviest = record.repMaxes.reduce<number>((best, repMax) => Math.max(best, repMax?.weight ?? 0), 0);
+          return (
+            <RecordRow
+              key={record.exerciseName}
+              label={record.exerciseName}
+              value={heaviest > 0 ? formatWeight(heaviest) : '—'}
+              detail="Heaviest set"
+              date={record.lastPerformed}
+              onPress={() => handleSelectExercise(record.exerciseName)}
+              showDivider={index < filteredRecords.length - 1}
+            />
+          );
+        }) : (
+          <Text variant="body" color="secondary">
+            {records.length > 0 ? 'No exercises match your search.' : 'Complete a weighted workout to start tracking records.'}
+          </Text>
+        )}
+      </SurfaceCard>
+    </>
+  );
+
+  return (
+    <TabSwipeContainer contentContainerStyle={[styles.contentContainer, { backgroundColor: theme.primary.bg }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBackPress} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color={theme.text.primary} />
+        </TouchableOpacity>
+        <Text variant="heading2" color="primary" numberOfLines={1} style={styles.title}>
+          {selectedRecords ? selectedRecords.exerciseName : 'Personal Records'}
+        </Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {selectedRecords ? renderExerciseDetail(selectedRecords) : renderOverview()}
+
+      <TrainingMaxModal
+        visible={isTrainingMaxModalVisible && Boolean(selectedExercise)}
+        exerciseName={selectedExercise ?? ''}
+        trainingMaxLbs={selectedExercise ? trainingMaxes[selectedExercise]?.weightLbs ?? null : null}
+        suggestedFromE1RMLbs={suggestedTrainingMax}
+        onClose={() => setTrainingMaxModalVisible(false)}
+        onSave={handleSaveTrainingMax}
+        onRemove={handleRemoveTrainingMax}
+      />
+    </TabSwipeContainer>
+  );
+};
+
+const styles = StyleSheet.create({
+  contentContainer: {
+    flexGrow: 1,
+    paddingTop: spacing.md,
+    paddingHorizontal: spacing.md,
+    gap: spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingBottom: spacing.sm,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  placeholder: {
+    width: 40,
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  cardTitle: {
+    marginBottom: spacing.sm,
+  },
+  searchInput: {
+    borderWidth: 1,
+    padding: spacing.md,
+    borderRadius: radius.md,
+    fontSize: 16,
+    marginBottom: spacing.sm,
+  },
+  recordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  recordLabel: {
+    flex: 1,
+    gap: spacing.xxs,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingTop: spacing.sm,
+  },
+  recordValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+});
+
+export default PersonalRecordsScreen;
@@ -22,15 +22,9 @@ import { usePlansStore, type PlansState } from '@/store/plansStore';
 import { useProgramsStore } from '@/store/programsStore';
 import { useSessionStore } from '@/store/sessionStore';
 import { useOutdoorSessionStore } from '@/store/outdoorSessionStore';
-import { useWorkoutSessionsStore, type WorkoutSessionsState } from '@/store/workoutSessionsStore';
-import type { WorkoutExercise, SetLog } from '@/types/workout';
-import { createSetsWithSmartSuggestions } from '@/utils/workout';
-import { detectCompoundIsolationSplit } from '@/utils/smartSuggestions';
-import { exercises as exerciseCatalogData } from '@/constants/exercises';
+import { buildSessionSeed } from '@/utils/sessionSeed';
 import { useSettingsStore } from '@/store/settingsStore';
 import { useCustomExerciseStore } from '@/store/customExerciseStore';
-import { useUserProfileStore } from '@/store/userProfileStore';
-import type { RepRange } from '@/types/smartSuggestions';
 
 const styles = StyleSheet.create({
   contentContainer: {
@@ -232,7 +226,6 @@ const PlansScreen: React.FC = () => {
   const setCompletionOverlayVisible = useSessionStore((state) => state.setCompletionOverlayVisible);
   const isSessionActive = useSessionStore((state) => state.isSessionActive);
   const currentSession = useSessionStore((state) => state.currentSession);
-  const allWorkouts = useWorkoutSessionsStore((state: WorkoutSessionsState) => state.workouts);
   const customExercises = useCustomExerciseStore((state) => state.customExercises);
   const outdoorSessionStatus = useOutdoorSessionStore((state) => state.status);
   const outdoorExerciseName = useOutdoorSessionStore((state) => state.exerciseName);
@@ -510,41 +503,18 @@ const PlansScreen: React.FC = () => {
       return;
     }
 
-    const doStartSession = () => {
+    const doStartSession = async () => {
       setCompletionOverlayVisible(false);
 
-      const userGoal = useUserProfileStore.getState().profile?.primaryGoal;
-      const historySetCounts: Record<string, number> = {};
-      const suggestedSetsMap: Record<string, SetLog[]> = {};
-      const dataPointsMap: Record<string, any[]> = {};
-      const repRangesMap: Record<string, RepRange[]> = {};
-      const workoutExercises: WorkoutExercise[] = (item.exercises ?? []).map((exercise: any) => {
-        const result = createSetsWithSmartSuggestions(exercise.name, allWorkouts, smartSuggestionsEnabled, undefined, undefined, customExercises, userGoal);
-        historySetCounts[exercise.name] = result.historySetCount;
-        if (result.smartSuggestedSets.length > 0) {
-          suggestedSetsMap[exercise.name] = result.smartSuggestedSets;
-        }
-        if (result.dataPoints && result.dataPoints.length > 0) {
-          dataPointsMap[exercise.name] = result.dataPoints;
-        }
-        if (result.repRanges && result.repRanges.length > 0) {
-          repRangesMap[exercise.name] = result.repRanges;
-        }
-        return {
-          name: exercise.name,
-          sets: result.sets,
-        };
-      });
-
-      const hasSplit = detectCompoundIsolationSplit(
-        allWorkouts,
-        (name) => exerciseCatalogData.find((e) => e.name === name)?.isCompound ?? false,
-      );
-
       const planId = item.type === 'program' ? (item.programId || item.programIds?.[0]) : item.id;
       const sessionName = item.name;
+      const seed = await buildSessionSeed(item.exercises ?? [], {
+        planId,
+        smartSuggestionsEnabled,
+        customExercises,
+      });
 
-      startSession(planId, workoutExercises, sessionName, historySetCounts, suggestedSetsMap, dataPointsMap, repRangesMap, hasSplit);
+      startSession(planId, seed.exercises, sessionName, seed.historySetCounts, seed.suggestedSets, seed.exerciseDataPoints, seed.exerciseRepRanges, seed.hasCompoundIsolationSplit, seed.planWeek, seed.exerciseTargets);
       setExpandedPlanId(null);
       router.push('/(tabs)/workout');
     };
@@ -554,8 +524,8 @@ const PlansScreen: React.FC = () => {
       return;
     }
 
-    doStartSession();
-  }, [router, startSession, setCompletionOverlayVisible, allWorkouts, isSessionActive, currentSession, setWorkoutInProgressVisible, setExpandedPlanId, isOutdoorSessionActive, outdoorExerciseName]);
+    void doStartSession();
+  }, [router, startSession, setCompletionOverlayVisible, isSessionActive, currentSession, setWorkoutInProgressVisible, setExpandedPlanId, isOutdoorSessionActive, outdoorExerciseName]);
 
 
   return (
@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { StyleSheet, View, ScrollView, BackHandler, Pressable, TouchableOpacity, TextInput, FlatList } from 'react-native';
+import { StyleSheet, View, ScrollView, BackHandler, Pressable, TouchableOpacity, TextInput, FlatList, ActivityIndicator, Alert } from 'react-native';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { useScrollToTop } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
@@ -21,17 +21,20 @@ import { SheetModal } from '@/components/molecules/SheetModal';
 import { useAnalyticsData } from '@/hooks/useAnalyticsData';
 import { useInsightsData } from '@/hooks/useInsightsData';
 import { searchExercises } from '@/utils/exerciseSearch';
+import { isWarmupSet } from '@/utils/setTypes';
 import { spacing, colors, radius } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
 import { TIME_RANGE_SUBTITLES, TimeRange } from '@/types/analytics';
 import type { CardioStats } from '@/types/analytics';
 import { useSettingsStore } from '@/store/settingsStore';
 import { exercises as exerciseCatalog } from '@/constants/exercises';
-import { useUserProfileStore } from '@/store/userProfileStore';
+import { useBodyWeightResolver } from '@/hooks/useBodyWeightResolver';
 import { usePremiumStatus } from '@/hooks/usePremiumStatus';
 import { PremiumLock } from '@/components/atoms/PremiumLock';
 import { SurfaceCard } from '@/components/atoms/SurfaceCard';
 import { triggerHaptic } from '@/utils/haptics';
+import { exportUserData } from '@/services/dataExportService';
+import type { DataExportFormat } from '@/utils/dataExport';
 
 // Simple cardio stats content component
 const EMPTY_CARD_MIN_HEIGHT = 240;
@@ -417,6 +420,21 @@ const StatsScreen: React.FC = () => {
   const [volumeTrendExercise, setVolumeTrendExercise] = useState<string | null>(null);
   const [isExerciseModalVisible, setIsExerciseModalVisible] = useState(false);
   const [exerciseSearchQuery, setExerciseSearchQuery] = useState('');
+  const [exportingFormat, setExportingFormat] = useState<DataExportFormat | null>(null);
+
+  const handleExport = useCallback(async (format: DataExportFormat) => {
+    if (exportingFormat) return;
+
+    triggerHaptic('selection');
+    setExportingFormat(format);
+    try {
+      await exportUserData(format);
+    } catch (error) {
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'Please try again later.');
+    } finally {
+      setExportingFormat(null);
+    }
+  }, [exportingFormat]);
 
   // Reset time ranges to 'week' when page gains focus
   useFocusEffect(
@@ -515,12 +533,14 @@ const StatsScreen: React.FC = () => {
   const formatDistanceValue = useSettingsStore((state) => state.formatDistanceValue);
 
   const convertWeight = useSettingsStore((state) => state.convertWeight);
-  const userBodyWeight = useUserProfileStore((state) => state.profile?.weightLbs ?? 0);
+  const getBodyWeightOnDate = useBodyWeightResolver();
 
   const topExercisesByVolume = useMemo(() => {
     const volumes: Record<string, number> = {};
 
     topExercisesFilteredWorkouts.forEach((workout) => {
+      const bodyWeight = getBodyWeightOnDate(workout.date) ?? 0;
+
       (workout.exercises ?? []).forEach((exercise: any) => {
         const catalogEntry = exerciseCatalog.find((e) => e.name === exercise.name);
         const exerciseType = catalogEntry?.exerciseType || 'weight';
@@ -533,21 +553,21 @@ const StatsScreen: React.FC = () => {
         let exerciseVolume = 0;
 
         (exercise.sets ?? []).forEach((set: any) => {
-          if (!set.completed) return;
+          if (!set.completed || isWarmupSet(set)) return;
           const reps = set.reps ?? 0;
           if (reps <= 0) return;
 
           let setVolume = 0;
           switch (exerciseType) {
             case 'bodyweight':
-              if (userBodyWeight > 0) {
-                setVolume = userBodyWeight * reps;
+              if (bodyWeight > 0) {
+                setVolume = bodyWeight * reps;
               }
               break;
             case 'assisted': {
-              if (userBodyWeight > 0) {
+              if (bodyWeight > 0) {
                 const assistance = set.assistanceWeight ?? 0;
-                const effective = Math.max(0, userBodyWeight - assistance);
+                const effective = Math.max(0, bodyWeight - assistance);
                 if (effective > 0) {
                   setVolume = effective * reps;
                 }
@@ -586,7 +606,7 @@ const StatsScreen: React.FC = () => {
       .slice(0, 5);
 
     return entries.map(([name, volume]) => ({ name, volume }));
-  }, [topExercisesFilteredWorkouts, convertWeight, userBodyWeight]);
+  }, [topExercisesFilteredWorkouts, convertWeight, getBodyWeightOnDate]);
 
   const renderGeneralTab = () => {
     const cardioDurationHasDays = Math.floor(totalCardioTime / 86400) > 0;
@@ -679,6 +699,98 @@ const StatsScreen: React.FC = () => {
         >
           <BalanceScoreCard />
         </PremiumLock>
+
+        {/* Data export */}
+        <SurfaceCard tone="card" padding="md" showAccentStripe={false}>
+          <View style={insightsStyles.content}>
+            <View style={insightsStyles.headerSection}>
+              <Text variant="heading3" color="primary" style={insightsStyles.title}>
+                Your Data
+              </Text>
+            </View>
+
+            <View style={insightsStyles.linksList}>
+              <Pressable
+                onPress={() => {
+                  triggerHaptic('selection');
+                  router.push('/(tabs)/body-metrics');
+                }}
+                style={insightsStyles.linkItem}
+              >
+                <Text variant="body" color="secondary">
+                  Body Weight & Measurements
+                </Text>
+                <Ionicons name="chevron-forward" size={20} color={theme.accent.orange} />
+              </Pressable>
+
+              <View style={[insightsStyles.divider, { backgroundColor: theme.border.light }]} />
+
+              <Pressable
+                onPress={() => handleExport('csv')}
+                disabled={exportingFormat !== null}
+                style={insightsStyles.linkItem}
+              >
+                <Text variant="body" color="secondary">
+                  Export Workout History (CSV)
+                </Text>
+                {exportingFormat === 'csv' ? (
+                  <ActivityIndicator size="small" color={theme.accent.orange} />
+                ) : (
+                  <Ionicons name="share-outline" size={20} color={theme.accent.orange} />
+                )}
+              </Pressable>
+
+              <View style={[insightsStyles.divider, { backgroundColor: theme.border.light }]} />
+
+              <Pressable
+                onPress={() => handleExport('json')}
+                disabled={exportingFormat !== null}
+                style={insightsStyles.linkItem}
+              >
+                <Text variant="body" color="secondary">
+                  Export Full Backup (JSON)
+                </Text>
+                {exportingFormat === 'json' ? (
+                  <ActivityIndicator size="small" color={theme.accent.orange} />
+                ) : (
+                  <Ionicons name="share-outline" size={20} color={theme.accent.orange} />
+                )}
+              </Pressable>
+
+              <View style={[insightsStyles.divider, { backgroundColor: theme.border.light }]} />
+
+              <Pressable
+                onPress={() => {
+                  triggerHaptic('selection');
+                  router.push('/import-workouts');
+                }}
+                disabled={exportingFormat !== null}
+                style={insightsStyles.linkItem}
+              >
+                <Text variant="body" color="secondary">
+                  Import from Strong, Hevy or FitNotes
+                </Text>
+                <Ionicons name="chevron-forward" size={20} color={theme.accent.orange} />
+              </Pressable>
+
+              <View style={[insightsStyles.divider, { backgroundColor: theme.border.light }]} />
+
+              <Pressable
+                onPress={() => {
+                  triggerHaptic('selection');
+                  router.push('/import-route');
+                }}
+                disabled={exportingFormat !== null}
+                style={insightsStyles.linkItem}
+              >
+                <Text variant="body" color="secondary">
+                  Import GPS Route (GPX)
+                </Text>
+                <Ionicons name="chevron-forward" size={20} color={theme.accent.orange} />
+              </Pressable>
+            </View>
+          </View>
+        </SurfaceCard>
       </>
     );
   };
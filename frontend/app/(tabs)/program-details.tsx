@@ -4,6 +4,7 @@ import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useFocusEffect } from '@react-navigation/native';
 import { triggerHaptic } from '@/utils/haptics';
+import { formatWeekPrescription } from '@/utils/planPeriodization';
 
 import { Text } from '@/components/atoms/Text';
 import { Button } from '@/components/atoms/Button';
@@ -74,6 +75,9 @@ const styles = StyleSheet.create({
     width: 8,
     flexShrink: 0,
   },
+  exerciseText: {
+    flex: 1,
+  },
   workoutsList: {
     gap: 0,
   },
@@ -222,6 +226,8 @@ export default function ProgramDetailsScreen() {
                 {program.metadata.experienceLevel && <Badge label={String(program.metadata.experienceLevel)} variant="workout" size="sm" />}
                 {program.metadata.equipment && <Badge label={String(program.metadata.equipment).replace('-', ' ')} variant="workout" size="sm" />}
                 {program.metadata.daysPerWeek && <Badge label={`${program.metadata.daysPerWeek} days/week`} variant="workout" size="sm" />}
+                {program.metadata.durationWeeks && <Badge label={`${program.metadata.durationWeeks} weeks`} variant="workout" size="sm" />}
+                {(program.metadata.deloadWeeks ?? []).length > 0 && <Badge label={`Deload wk ${program.metadata.deloadWeeks!.join(', ')}`} variant="workout" size="sm" />}
               </View>
             </View>
             <Pressable onPress={handleBack} style={styles.backButton} hitSlop={8}>
@@ -248,9 +254,16 @@ export default function ProgramDetailsScreen() {
                       {(workout.exercises ?? []).map((ex) => (
                         <View key={ex.id} style={styles.exerciseRow}>
                           <Text variant="caption" color="tertiary" style={styles.exerciseDash}>–</Text>
-                          <Text variant="body" color="secondary">
-                            {ex.name}
-                          </Text>
+                          <View style={styles.exerciseText}>
+                            <Text variant="body" color="secondary">
+                              {ex.name}
+                            </Text>
+                            {(ex.weeks ?? []).length > 0 && (
+                              <Text variant="caption" color="tertiary">
+                                {ex.weeks!.map((week, weekIndex) => `Week ${weekIndex + 1}: ${formatWeekPrescription(week)}`).join('\n')}
+                              </Text>
+                            )}
+                          </View>
                         </View>
                       ))}
 
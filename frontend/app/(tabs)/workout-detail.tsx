@@ -5,7 +5,7 @@
  */
 
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { Modal, Pressable, StyleSheet, TextInput, View, BackHandler } from 'react-native';
+import { Alert, Modal, Pressable, StyleSheet, TextInput, View, BackHandler } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { triggerHaptic } from '@/utils/haptics';
@@ -28,6 +28,8 @@ import type { Workout, WorkoutExercise } from '@/types/workout';
 import { useNavigationStore } from '@/store/navigationStore';
 import { getExerciseTypeByName } from '@/constants/exercises';
 import { useCustomExerciseStore } from '@/store/customExerciseStore';
+import { exportWorkoutRoute } from '@/services/routeFileService';
+import type { RouteFileFormat } from '@/types/outdoor';
 
 const WorkoutDetailScreen: React.FC = () => {
   const router = useRouter();
@@ -49,6 +51,7 @@ const WorkoutDetailScreen: React.FC = () => {
   const [editedExercises, setEditedExercises] = useState<WorkoutExercise[]>([]);
   const [editedDuration, setEditedDuration] = useState<number>(0);
   const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [isExportingRoute, setIsExportingRoute] = useState<boolean>(false);
 
   useEffect(() => {
     void hydrateWorkouts();
@@ -203,6 +206,30 @@ const WorkoutDetailScreen: React.FC = () => {
     setIsDeleteDialogVisible(true);
   }, [workout]);
 
+  const exportRoute = useCallback(async (format: RouteFileFormat) => {
+    if (!workout) return;
+
+    setIsExportingRoute(true);
+    try {
+      await exportWorkoutRoute(workout, format);
+    } catch (error) {
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'Please try again later.');
+    } finally {
+      setIsExportingRoute(false);
+    }
+  }, [workout]);
+
+  const handleExportRoutePress = useCallback(() => {
+    if (!workout || isExportingRoute) return;
+
+    triggerHaptic('selection');
+    Alert.alert('Export Route', 'GPX works with most mapping apps; TCX also carries distance for training platforms.', [
+      { text: 'GPX', onPress: () => void exportRoute('gpx') },
+      { text: 'TCX', onPress: () => void exportRoute('tcx') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [exportRoute, isExportingRoute, workout]);
+
   const handleDismissDeleteDialog = useCallback(() => {
     setIsDeleteDialogVisible(false);
   }, []);
@@ -305,6 +332,18 @@ const WorkoutDetailScreen: React.FC = () => {
                         <IconSymbol name="edit" color={theme.accent.orangeLight} size={24} />
                       </Pressable>
                     )}
+                    {isOutdoorSession && (
+                      <Pressable
+                        accessibilityRole="button"
+                        accessibilityLabel="Export route"
+                        onPress={handleExportRoutePress}
+                        hitSlop={spacing.xs}
+                        style={styles.iconButton}
+                        disabled={isExportingRoute}
+                      >
+                        <IconSymbol name="share" color={theme.accent.orangeLight} size={24} />
+                      </Pressable>
+                    )}
                     <Pressable
                       accessibilityRole="button"
                       accessibilityLabel="Delete workout"
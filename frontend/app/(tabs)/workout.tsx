@@ -14,15 +14,9 @@ import { useTheme } from '@/hooks/useTheme';
 import { usePlansStore, type Plan, type PlansState } from '@/store/plansStore';
 import { useProgramsStore } from '@/store/programsStore';
 import { useSessionStore } from '@/store/sessionStore';
-import type { WorkoutExercise, SetLog } from '@/types/workout';
-import { createSetsWithSmartSuggestions } from '@/utils/workout';
-import { detectCompoundIsolationSplit } from '@/utils/smartSuggestions';
-import { exercises as exerciseCatalogData } from '@/constants/exercises';
+import { buildSessionSeed } from '@/utils/sessionSeed';
 import { useSettingsStore } from '@/store/settingsStore';
-import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
 import { useCustomExerciseStore } from '@/store/customExerciseStore';
-import { useUserProfileStore } from '@/store/userProfileStore';
-import type { RepRange } from '@/types/smartSuggestions';
 import WorkoutSessionScreen from '../workout-session';
 import { WorkoutCompletionOverlay } from '@/components/organisms';
 import { useOutdoorSessionStore } from '@/store/outdoorSessionStore';
@@ -170,6 +164,7 @@ const WorkoutScreen: React.FC = () => {
   const currentSession = useSessionStore((state) => state.currentSession);
   const isCompletionOverlayVisible = useSessionStore((state) => state.isCompletionOverlayVisible);
   const setCompletionOverlayVisible = useSessionStore((state) => state.setCompletionOverlayVisible);
+  const lastSessionPersonalRecords = useSessionStore((state) => state.lastSessionPersonalRecords);
 
   const handleBack = () => {
     triggerHaptic('selection');
@@ -181,7 +176,6 @@ const WorkoutScreen: React.FC = () => {
     setShowPlansList(true);
   };
 
-  const allWorkouts = useWorkoutSessionsStore((state) => state.workouts);
   const customExercises = useCustomExerciseStore((state) => state.customExercises);
 
   // Combine workouts from both plans and programs with name-based deduplication
@@ -265,39 +259,16 @@ const WorkoutScreen: React.FC = () => {
         return;
       }
 
-      const doStartSession = () => {
+      const doStartSession = async () => {
         setCompletionOverlayVisible(false);
 
-        const userGoal = useUserProfileStore.getState().profile?.primaryGoal;
-        const historySetCounts: Record<string, number> = {};
-        const suggestedSetsMap: Record<string, SetLog[]> = {};
-        const dataPointsMap: Record<string, any[]> = {};
-        const repRangesMap: Record<string, RepRange[]> = {};
-        const mappedExercises: WorkoutExercise[] = (workout.exercises ?? []).map((exercise: any) => {
-          const result = createSetsWithSmartSuggestions(exercise.name, allWorkouts, smartSuggestionsEnabled, undefined, undefined, customExercises, userGoal);
-          historySetCounts[exercise.name] = result.historySetCount;
-          if (result.smartSuggestedSets.length > 0) {
-            suggestedSetsMap[exercise.name] = result.smartSuggestedSets;
-          }
-          if (result.dataPoints && result.dataPoints.length > 0) {
-            dataPointsMap[exercise.name] = result.dataPoints;
-          }
-          if (result.repRanges && result.repRanges.length > 0) {
-            repRangesMap[exercise.name] = result.repRanges;
-          }
-          return {
-            name: exercise.name,
-            sets: result.sets,
-          };
-        });
-
-        const hasSplit = detectCompoundIsolationSplit(
-          allWorkouts,
-          (name) => exerciseCatalogData.find((e) => e.name === name)?.isCompound ?? false,
-        );
-
         const planId = workout.type === 'program' ? workout.programId : workout.id;
-        startSession(planId, mappedExercises, workout.name, historySetCounts, suggestedSetsMap, dataPointsMap, repRangesMap, hasSplit);
+        const seed = await buildSessionSeed(workout.exercises ?? [], {
+          planId,
+          smartSuggestionsEnabled,
+          customExercises,
+        });
+        startSession(planId, seed.exercises, workout.name, seed.historySetCounts, seed.suggestedSets, seed.exerciseDataPoints, seed.exerciseRepRanges, seed.hasCompoundIsolationSplit, seed.planWeek, seed.exerciseTargets);
         setShowPlansList(false);
       };
 
@@ -306,9 +277,9 @@ const WorkoutScreen: React.FC = () => {
         return;
       }
 
-      doStartSession();
+      void doStartSession();
     },
-    [startSession, setCompletionOverlayVisible, allWorkouts, isSessionActive, currentSession, isOutdoorSessionActive, outdoorExerciseName, router],
+    [startSession, setCompletionOverlayVisible, isSessionActive, currentSession, isOutdoorSessionActive, outdoorExerciseName, router],
   );
 
   const handleStartFromScratch = useCallback(() => {
@@ -411,7 +382,10 @@ const WorkoutScreen: React.FC = () => {
     return (
       <>
         {isCompletionOverlayVisible ? (
-          <WorkoutCompletionOverlay onDismiss={() => setCompletionOverlayVisible(false)} />
+          <WorkoutCompletionOverlay
+            onDismiss={() => setCompletionOverlayVisible(false)}
+            personalRecords={lastSessionPersonalRecords}
+          />
         ) : null}
         <WorkoutSessionScreen />
       </>
@@ -441,7 +415,10 @@ const WorkoutScreen: React.FC = () => {
         }}
       />
       {isCompletionOverlayVisible ? (
-        <WorkoutCompletionOverlay onDismiss={() => setCompletionOverlayVisible(false)} />
+        <WorkoutCompletionOverlay
+          onDismiss={() => setCompletionOverlayVisible(false)}
+          personalRecords={lastSessionPersonalRecords}
+        />
       ) : null}
       {(showPlansList || showOutdoorPicker) ? (
         <View style={styles.topBar}>
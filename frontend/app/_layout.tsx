@@ -3,7 +3,7 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { Stack, useSegments, useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import * as NavigationBar from 'expo-navigation-bar';
-import { Platform, StyleSheet, ActivityIndicator, View } from 'react-native';
+import { AppState, Platform, StyleSheet, ActivityIndicator, View } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { MaterialIcons } from '@expo/vector-icons';
 import * as Font from 'expo-font';
@@ -17,12 +17,16 @@ import { ProgramBuilderProvider } from '@/providers/ProgramBuilderProvider';
 import { useUserProfileStore } from '@/store/userProfileStore';
 import { useActiveScheduleStore } from '@/store/activeScheduleStore';
 import { useCustomExerciseStore } from '@/store/customExerciseStore';
+import { useBodyMetricsStore } from '@/store/bodyMetricsStore';
 import { useSettingsStore } from '@/store/settingsStore';
 import { useNotificationStore } from '@/store/notificationStore';
 import { useSessionStore } from '@/store/sessionStore';
 import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
 import { useSubscriptionStore } from '@/store/subscriptionStore';
+import { useSyncQueueStore } from '@/store/syncQueueStore';
 import { scheduleNotifications } from '@/services/notificationService';
+import { startRealtimeSync } from '@/services/realtimeSyncService';
+import { ContinueSessionModal } from '@/components/molecules/ContinueSessionModal';
 
 import './add-exercises';
 
@@ -172,12 +176,16 @@ const RootLayoutNav = ({
 }: any) => {
   const { session, isLoading, user } = useAuth();
   const segments = useSegments();
+  const router = useRouter();
   const fetchProfile = useUserProfileStore((state) => state.fetchProfile);
   const hydrateActiveSchedule = useActiveScheduleStore((state) => state.hydrateActiveSchedule);
   const hydrateCustomExercises = useCustomExerciseStore((state) => state.hydrateCustomExercises);
+  const hydrateBodyMetrics = useBodyMetricsStore((state) => state.hydrateBodyMetrics);
   const syncFromSupabase = useSettingsStore((state) => state.syncFromSupabase);
   const initializeSubscription = useSubscriptionStore((state) => state.initializeSubscription);
   const { notificationsEnabled, configs: notificationConfigs } = useNotificationStore();
+  const remoteSession = useSessionStore((state) => state.remoteSession);
+  const isSessionActive = useSessionStore((state) => state.isSessionActive);
 
   // Fetch profile and hydrate stores when user session is established
   useEffect(() => {
@@ -185,10 +193,11 @@ const RootLayoutNav = ({
       fetchProfile(user.id);
       hydrateActiveSchedule(user.id);
       hydrateCustomExercises(user.id);
+      hydrateBodyMetrics(user.id);
       syncFromSupabase();
       initializeSubscription(user.id);
     }
-  }, [user?.id, fetchProfile, hydrateActiveSchedule, hydrateCustomExercises, syncFromSupabase, initializeSubscription]);
+  }, [user?.id, fetchProfile, hydrateActiveSchedule, hydrateCustomExercises, hydrateBodyMetrics, syncFromSupabase, initializeSubscription]);
 
   // Retry any pending workout saves that failed during previous app session.
   // The pendingWorkoutSave is persisted in AsyncStorage (via sessionStore) so
@@ -221,6 +230,35 @@ const RootLayoutNav = ({
     return () => clearTimeout(timer);
   }, [user?.id]);
 
+  // Replay writes queued while offline: on login and whenever the app comes back to the foreground.
+  // The queue also retries on its own with backoff while the app stays open.
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const { flush } = useSyncQueueStore.getState();
+    void flush();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        void flush();
+      }
+    });
+    return () => subscription.remove();
+  }, [user?.id]);
+
+  // Stream edits from the user's other devices and share the in-progress workout with them
+  useEffect(() => {
+    if (!user?.id) return;
+
+    return startRealtimeSync(user.id);
+  }, [user?.id]);
+
+  const handleContinueRemoteSession = () => {
+    if (useSessionStore.getState().continueRemoteSession()) {
+      router.push('/(tabs)/workout');
+    }
+  };
+
   // Re-register scheduled notifications on login (survives app updates/reinstalls).
   // Only runs when the user has notifications enabled — never loads expo-notifications
   // for users who haven't opted in.
@@ -296,6 +334,20 @@ const RootLayoutNav = ({
               animation: 'none',
             }}
           />
+          <Stack.Screen
+            name="import-workouts"
+            options={{
+              animation: 'slide_from_right',
+              headerShown: false,
+            }}
+          />
+          <Stack.Screen
+            name="import-route"
+            options={{
+              animation: 'slide_from_right',
+              headerShown: false,
+            }}
+          />
           <Stack.Screen
             name="program-view"
             options={{
@@ -326,6 +378,13 @@ const RootLayoutNav = ({
             }}
           />
         </Stack>
+        <ContinueSessionModal
+          visible={Boolean(session && remoteSession) && !isSessionActive}
+          sessionName={remoteSession?.session.name ?? 'Current Workout'}
+          elapsedMinutes={remoteSession ? Math.floor((Date.now() - remoteSession.session.startTime) / 60000) : 0}
+          onContinue={handleContinueRemoteSession}
+          onDismiss={() => useSessionStore.getState().dismissRemoteSession()}
+        />
         <StatusBar
           animated
           backgroundColor={statusBarBackgroundColor}
@@ -57,6 +57,9 @@ import { useSchedulesStore } from '@/store/schedulesStore';
 import { useActiveScheduleStore } from '@/store/activeScheduleStore';
 import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
 import { useAppStatsForAI } from '@/hooks/useAppStatsForAI';
+import { useGymProfileStore } from '@/store/gymProfileStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { toGymProfileForAI } from '@/utils/gymProfiles';
 import type { ChatMessage, ActionProposal, UsageInfo, NavigationLink } from '@/types/herculesAI';
 
 const HerculesAIScreen: React.FC = () => {
@@ -185,7 +188,8 @@ const HerculesAIScreen: React.FC = () => {
     // The large bottom padding on the FlatList ensures scrollToEnd places the message at the top
     shouldScrollOnNextLayout.current = true;
 
-    const { data, error } = await sendChatMessage(userMessage.content, sessionId ?? undefined, appStats);
+    const gymProfile = toGymProfileForAI(useGymProfileStore.getState().getActiveProfile(), useSettingsStore.getState().weightUnit);
+    const { data, error } = await sendChatMessage(userMessage.content, sessionId ?? undefined, appStats, gymProfile);
 
     if (error) {
       // DEBUG: Log full error details
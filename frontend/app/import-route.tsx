@@ -0,0 +1,262 @@
+/**
+ * Import Route Screen
+ * Imports a GPX track recorded elsewhere (e.g. on a watch) as an outdoor cardio workout.
+ * The route is previewed on the map and the user picks the activity before anything is saved.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, BackHandler, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+
+import { Text } from '@/components/atoms/Text';
+import { Button } from '@/components/atoms/Button';
+import { SurfaceCard } from '@/components/atoms/SurfaceCard';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { OutdoorRouteMapCard } from '@/components/molecules/OutdoorRouteMapCard';
+import { radius, sizing, spacing } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+import { useCustomExerciseStore } from '@/store/customExerciseStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { importGpxRoute, pickGpxRoute } from '@/services/routeFileService';
+import type { ParsedRoute } from '@/types/outdoor';
+import { calculatePace, calculateRouteDistance, formatElapsedTime, formatPace } from '@/utils/geo';
+import { guessRouteExercise, OUTDOOR_ROUTE_EXERCISES } from '@/utils/routeFiles';
+import { triggerHaptic } from '@/utils/haptics';
+
+const formatDateTime = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+const ImportRouteScreen: React.FC = () => {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const customExercises = useCustomExerciseStore((state) => state.customExercises);
+  const distanceUnit = useSettingsStore((state) => state.distanceUnit);
+  const formatDistance = useSettingsStore((state) => state.formatDistance);
+
+  const [route, setRoute] = useState<ParsedRoute | null>(null);
+  const [exerciseName, setExerciseName] = useState<string | null>(null);
+  const [isPicking, setIsPicking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const outdoorExercises = useMemo(() => {
+    const customOutdoor = customExercises
+      .filter((exercise) => exercise.exerciseType === 'cardio' && exercise.supportsGpsTracking)
+      .map((exercise) => exercise.name);
+    return [...OUTDOOR_ROUTE_EXERCISES, ...customOutdoor];
+  }, [customExercises]);
+
+  const summary = useMemo(() => {
+    if (!route) return null;
+
+    const { coordinates } = route;
+    const startTime = coordinates[0].timestamp;
+    const durationSeconds = Math.round((coordinates[coordinates.length - 1].timestamp - startTime) / 1000);
+    const distanceMiles = calculateRouteDistance(coordinates);
+    const paceSecondsPerMile = calculatePace(distanceMiles, durationSeconds);
+    const pacePerUnit = distanceUnit === 'km' && paceSecondsPerMile ? paceSecondsPerMile / 1.60934 : paceSecondsPerMile;
+
+    return {
+      dateLabel: formatDateTime(startTime),
+      distanceLabel: formatDistance(distanceMiles, 2),
+      timeLabel: formatElapsedTime(durationSeconds),
+      paceLabel: `${formatPace(pacePerUnit)} ${distanceUnit === 'km' ? '/km' : '/mi'}`,
+    };
+  }, [distanceUnit, formatDistance, route]);
+
+  const handleBackPress = useCallback(() => {
+    if (isImporting) return true;
+    triggerHaptic('selection');
+    router.back();
+    return true;
+  }, [isImporting, router]);
+
+  useEffect(() => {
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', handleBackPress);
+    return () => backHandler.remove();
+  }, [handleBackPress]);
+
+  const handlePickFile = useCallback(async () => {
+    triggerHaptic('selection');
+    setIsPicking(true);
+    try {
+      const parsed = await pickGpxRoute();
+      if (!parsed) return;
+
+      setRoute(parsed);
+      setExerciseName(guessRouteExercise(parsed));
+    } catch (error) {
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Could not read this file.');
+    } finally {
+      setIsPicking(false);
+    }
+  }, []);
+
+  const handleImport = useCallback(async () => {
+    if (!route || !exerciseName || isImporting) return;
+
+    triggerHaptic('selection');
+    setIsImporting(true);
+    try {
+      const workout = await importGpxRoute(route, exerciseName);
+      triggerHaptic('success');
+      router.replace({ pathname: '/(tabs)/workout-detail', params: { workoutId: workout.id } });
+    } catch (error) {
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Please try again later.');
+    } finally {
+      setIsImporting(false);
+    }
+  }, [exerciseName, isImporting, route, router]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, backgroundColor: theme.primary.bg }]}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + spacing['2xl'] }]}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.headerRow}>
+          <View style={styles.titleGroup}>
+            <Text variant="heading2" color="primary">
+              Import GPS Route
+            </Text>
+            <Text variant="body" color="secondary">
+              Add a run, ride or walk recorded on a watch or another app from its GPX file.
+            </Text>
+          </View>
+
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Go Back"
+            onPress={handleBackPress}
+            style={styles.backButton}
+          >
+            <IconSymbol name="arrow-back" color={theme.text.primary} size={sizing.iconMD} />
+          </Pressable>
+        </View>
+
+        {route ? <OutdoorRouteMapCard coordinates={route.coordinates} /> : null}
+
+        <SurfaceCard tone="card" padding="xl" showAccentStripe style={styles.card}>
+          {route && summary ? (
+            <>
+              <Text variant="heading3" color="primary">
+                {route.name ?? 'GPX Route'}
+              </Text>
+              <Text variant="body" color="secondary">
+                {summary.dateLabel}
+              </Text>
+              <Text variant="body" color="secondary">
+                {`${summary.distanceLabel} · ${summary.timeLabel} · ${summary.paceLabel}`}
+              </Text>
+            </>
+          ) : (
+            <Text variant="body" color="secondary">
+              Export the activity as GPX from your watch or tracking app, then choose the file here. Nothing is saved until you confirm.
+            </Text>
+          )}
+          <Button
+            label={route ? 'Choose a Different File' : 'Choose GPX File'}
+            variant={route ? 'ghost' : 'primary'}
+            size="md"
+            onPress={handlePickFile}
+            loading={isPicking}
+            disabled={isImporting}
+          />
+        </SurfaceCard>
+
+        {route ? (
+          <SurfaceCard tone="card" padding="xl" showAccentStripe style={styles.card}>
+            <Text variant="heading3" color="primary">
+              Activity
+            </Text>
+            {outdoorExercises.map((name) => {
+              const isSelected = name === exerciseName;
+
+              return (
+                <Pressable
+                  key={name}
+                  style={[styles.optionRow, { borderColor: theme.border.light }]}
+                  onPress={() => {
+                    triggerHaptic('selection');
+                    setExerciseName(name);
+                  }}
+                  disabled={isImporting}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: isSelected }}
+                  accessibilityLabel={name}
+                >
+                  <Text variant={isSelected ? 'bodySemibold' : 'body'} color="primary">
+                    {name}
+                  </Text>
+                  <MaterialCommunityIcons
+                    name={isSelected ? 'radiobox-marked' : 'radiobox-blank'}
+                    size={sizing.iconSM}
+                    color={isSelected ? theme.accent.orange : theme.text.tertiary}
+                  />
+                </Pressable>
+              );
+            })}
+          </SurfaceCard>
+        ) : null}
+
+        {route ? (
+          <Button
+            label={isImporting ? 'Importing…' : 'Import Route'}
+            size="lg"
+            onPress={handleImport}
+            disabled={isImporting || !exerciseName}
+          />
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+};
+
+export default ImportRouteScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: spacing.md,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    gap: spacing.lg,
+    paddingTop: spacing.xl,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    width: '100%',
+    gap: spacing.md,
+  },
+  titleGroup: {
+    gap: spacing.sm,
+    flex: 1,
+  },
+  backButton: {
+    borderRadius: radius.lg,
+    marginLeft: spacing.sm,
+    paddingTop: spacing.xs,
+  },
+  card: {
+    gap: spacing.md,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+});
@@ -0,0 +1,390 @@
+/**
+ * Import Workouts Screen
+ * Imports history from Strong, Hevy or FitNotes CSV exports.
+ * Exercise names that do not match the catalog exactly are reviewed before anything is written.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, BackHandler, FlatList, Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+
+import { Text } from '@/components/atoms/Text';
+import { Button } from '@/components/atoms/Button';
+import { SurfaceCard } from '@/components/atoms/SurfaceCard';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { SheetModal } from '@/components/molecules/SheetModal';
+import { exercises as baseExerciseCatalog, createCustomExerciseCatalogItem } from '@/constants/exercises';
+import { radius, sizing, spacing } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+import { useCustomExerciseStore } from '@/store/customExerciseStore';
+import { importWorkouts, pickWorkoutImportFile } from '@/services/workoutImportService';
+import { WORKOUT_IMPORT_SOURCE_LABELS } from '@/types/workoutImport';
+import type { ImportExerciseMatch, ImportExerciseResolution, ParsedWorkoutImport } from '@/types/workoutImport';
+import { getDefaultResolution, matchImportedExercises } from '@/utils/importExerciseMatching';
+import { searchExercises } from '@/utils/exerciseSearch';
+import { triggerHaptic } from '@/utils/haptics';
+
+const SEARCH_RESULT_LIMIT = 30;
+
+const formatDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const describeResolution = (resolution: ImportExerciseResolution | undefined): string => {
+  if (!resolution || resolution.type === 'custom') return 'New custom exercise';
+  if (resolution.type === 'skip') return 'Skipped';
+  return resolution.exerciseName;
+};
+
+const ImportWorkoutsScreen: React.FC = () => {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const customExercises = useCustomExerciseStore((state) => state.customExercises);
+
+  const [parsedImport, setParsedImport] = useState<ParsedWorkoutImport | null>(null);
+  const [matches, setMatches] = useState<ImportExerciseMatch[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, ImportExerciseResolution>>({});
+  const [isPicking, setIsPicking] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [reviewTarget, setReviewTarget] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const isImporting = progress !== null;
+
+  const exerciseCatalog = useMemo(() => {
+    const customItems = customExercises.map((exercise) =>
+      createCustomExerciseCatalogItem(exercise.id, exercise.name, exercise.exerciseType, exercise.supportsGpsTracking),
+    );
+    return [...baseExerciseCatalog, ...customItems];
+  }, [customExercises]);
+
+  const reviewMatches = useMemo(() => matches.filter((match) => match.status !== 'exact'), [matches]);
+  const exactCount = matches.length - reviewMatches.length;
+
+  const summary = useMemo(() => {
+    if (!parsedImport || parsedImport.workouts.length === 0) return null;
+
+    const startTimes = parsedImport.workouts.map((workout) => workout.startTime);
+    const setCount = parsedImport.workouts.reduce(
+      (total, workout) => total + workout.exercises.reduce((sum, exercise) => sum + exercise.sets.length, 0),
+      0,
+    );
+
+    return {
+      setCount,
+      firstDate: formatDate(Math.min(...startTimes)),
+      lastDate: formatDate(Math.max(...startTimes)),
+    };
+  }, [parsedImport]);
+
+  const searchResults = useMemo(() => {
+    if (!reviewTarget) return [];
+    return searchExercises(searchTerm || reviewTarget.replace(/[()]/g, ' '), [...exerciseCatalog], { limit: SEARCH_RESULT_LIMIT });
+  }, [exerciseCatalog, reviewTarget, searchTerm]);
+
+  const handleBackPress = useCallback(() => {
+    if (isImporting) return true;
+    triggerHaptic('selection');
+    router.back();
+    return true;
+  }, [isImporting, router]);
+
+  useEffect(() => {
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', handleBackPress);
+    return () => backHandler.remove();
+  }, [handleBackPress]);
+
+  const handlePickFile = useCallback(async () => {
+    triggerHaptic('selection');
+    setIsPicking(true);
+    try {
+      const parsed = await pickWorkoutImportFile();
+      if (!parsed) return;
+
+      if (parsed.workouts.length === 0) {
+        Alert.alert('Nothing to Import', 'No workouts were found in this file.');
+        return;
+      }
+
+      const nextMatches = matchImportedExercises(parsed.exerciseNames, exerciseCatalog);
+      setParsedImport(parsed);
+      setMatches(nextMatches);
+      setResolutions(Object.fromEntries(nextMatches.map((match) => [match.sourceName, getDefaultResolution(match)])));
+    } catch (error) {
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Could not read this file.');
+    } finally {
+      setIsPicking(false);
+    }
+  }, [exerciseCatalog]);
+
+  const handleResolve = useCallback((resolution: ImportExerciseResolution) => {
+    if (!reviewTarget) return;
+    triggerHaptic('selection');
+    setResolutions((prev) => ({ ...prev, [reviewTarget]: resolution }));
+    setReviewTarget(null);
+    setSearchTerm('');
+  }, [reviewTarget]);
+
+  const handleCloseReview = useCallback(() => {
+    setReviewTarget(null);
+    setSearchTerm('');
+  }, []);
+
+  const handleImport = useCallback(async () => {
+    if (!parsedImport || isImporting) return;
+
+    triggerHaptic('selection');
+    setProgress({ completed: 0, total: parsedImport.workouts.length });
+    try {
+      const result = await importWorkouts(parsedImport.workouts, resolutions, (completed, total) => {
+        setProgress({ completed, total });
+      });
+
+      triggerHaptic('success');
+      const details = [
+        `${result.imported} workout${result.imported === 1 ? '' : 's'} imported.`,
+        result.duplicates > 0 ? `${result.duplicates} already in your history were skipped.` : null,
+        result.failed > 0 ? `${result.failed} could not be saved.` : null,
+      ].filter(Boolean).join(' ');
+
+      Alert.alert('Import Complete', details, [{ text: 'OK', onPress: () => router.back() }]);
+    } catch (error) {
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Please try again later.');
+    } finally {
+      setProgress(null);
+    }
+  }, [isImporting, parsedImport, resolutions, router]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, backgroundColor: theme.primary.bg }]}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + spacing['2xl'] }]}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.headerRow}>
+          <View style={styles.titleGroup}>
+            <Text variant="heading2" color="primary">
+              Import Workouts
+            </Text>
+            <Text variant="body" color="secondary">
+              Bring your history over from Strong, Hevy or FitNotes using their CSV export.
+            </Text>
+          </View>
+
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Go Back"
+            onPress={handleBackPress}
+            style={styles.backButton}
+          >
+            <IconSymbol name="arrow-back" color={theme.text.primary} size={sizing.iconMD} />
+          </Pressable>
+        </View>
+
+        <SurfaceCard tone="card" padding="xl" showAccentStripe style={styles.card}>
+          {parsedImport && summary ? (
+            <>
+              <Text variant="heading3" color="primary">
+                {`${WORKOUT_IMPORT_SOURCE_LABELS[parsedImport.source]} Export`}
+              </Text>
+              <Text variant="body" color="secondary">
+                {`${parsedImport.workouts.length} workouts · ${summary.setCount} sets`}
+              </Text>
+              <Text variant="body" color="secondary">
+                {`${summary.firstDate} – ${summary.lastDate}`}
+              </Text>
+              {parsedImport.skippedRows > 0 ? (
+                <Text variant="caption" color="secondary">
+                  {`${parsedImport.skippedRows} unreadable row${parsedImport.skippedRows === 1 ? '' : 's'} will be ignored.`}
+                </Text>
+              ) : null}
+            </>
+          ) : (
+            <Text variant="body" color="secondary">
+              Export your data as CSV from the other app, then choose the file here. Nothing is saved until you review and confirm.
+            </Text>
+          )}
+          <Button
+            label={parsedImport ? 'Choose a Different File' : 'Choose CSV File'}
+            variant={parsedImport ? 'ghost' : 'primary'}
+            size="md"
+            onPress={handlePickFile}
+            loading={isPicking}
+            disabled={isImporting}
+          />
+        </SurfaceCard>
+
+        {parsedImport ? (
+          <SurfaceCard tone="card" padding="xl" showAccentStripe style={styles.card}>
+            <Text variant="heading3" color="primary">
+              Exercises
+            </Text>
+            <Text variant="body" color="secondary">
+              {`${exactCount} of ${matches.length} matched automatically.`}
+              {reviewMatches.length > 0 ? ' Review the rest below — tap one to change it.' : ''}
+            </Text>
+
+            {reviewMatches.map((match) => {
+              const resolution = resolutions[match.sourceName];
+
+              return (
+                <Pressable
+                  key={match.sourceName}
+                  style={[styles.reviewRow, { borderColor: theme.border.light }]}
+                  onPress={() => {
+                    triggerHaptic('selection');
+                    setReviewTarget(match.sourceName);
+                  }}
+                  disabled={isImporting}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Change match for ${match.sourceName}`}
+                >
+                  <View style={styles.reviewText}>
+                    <Text variant="bodySemibold" color="primary">
+                      {match.sourceName}
+                    </Text>
+                    <View style={styles.resolutionRow}>
+                      <MaterialCommunityIcons
+                        name={resolution?.type === 'skip' ? 'close' : 'arrow-right'}
+                        size={sizing.iconXS}
+                        color={theme.text.secondary}
+                      />
+                      <Text variant="caption" color="secondary">
+                        {describeResolution(resolution)}
+                      </Text>
+                    </View>
+                  </View>
+                  <MaterialCommunityIcons name="pencil-outline" size={sizing.iconSM} color={theme.accent.orange} />
+                </Pressable>
+              );
+            })}
+          </SurfaceCard>
+        ) : null}
+
+        {parsedImport ? (
+          <Button
+            label={progress
+              ? `Importing ${progress.completed}/${progress.total}…`
+              : `Import ${parsedImport.workouts.length} Workouts`}
+            size="lg"
+            onPress={handleImport}
+            disabled={isImporting}
+          />
+        ) : null}
+      </ScrollView>
+
+      <SheetModal
+        visible={reviewTarget !== null}
+        onClose={handleCloseReview}
+        title={reviewTarget ?? undefined}
+        headerContent={
+          <TextInput
+            value={searchTerm}
+            onChangeText={setSearchTerm}
+            placeholder="Search exercises"
+            placeholderTextColor={theme.text.tertiary}
+            style={[styles.searchInput, { backgroundColor: theme.primary.bg, borderColor: theme.border.medium, color: theme.text.primary }]}
+          />
+        }
+      >
+        <FlatList
+          data={searchResults}
+          keyExtractor={(item) => item.id}
+          keyboardShouldPersistTaps="handled"
+          ListHeaderComponent={(
+            <View style={styles.sheetActions}>
+              <Pressable style={styles.sheetItem} onPress={() => handleResolve({ type: 'custom' })}>
+                <Text variant="bodySemibold" color="orange">
+                  Keep as Custom Exercise
+                </Text>
+              </Pressable>
+              <Pressable style={styles.sheetItem} onPress={() => handleResolve({ type: 'skip' })}>
+                <Text variant="bodySemibold" color="red">
+                  Skip This Exercise
+                </Text>
+              </Pressable>
+            </View>
+          )}
+          renderItem={({ item }) => (
+            <Pressable
+              style={styles.sheetItem}
+              onPress={() => handleResolve({ type: 'existing', exerciseName: item.name })}
+              accessibilityRole="button"
+              accessibilityLabel={`Match to ${item.name}`}
+            >
+              <Text variant="body" color="primary">
+                {item.name}
+              </Text>
+            </Pressable>
+          )}
+        />
+      </SheetModal>
+    </View>
+  );
+};
+
+export default ImportWorkoutsScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: spacing.md,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    gap: spacing.lg,
+    paddingTop: spacing.xl,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    width: '100%',
+    gap: spacing.md,
+  },
+  titleGroup: {
+    gap: spacing.sm,
+    flex: 1,
+  },
+  backButton: {
+    borderRadius: radius.lg,
+    marginLeft: spacing.sm,
+    paddingTop: spacing.xs,
+  },
+  card: {
+    gap: spacing.md,
+  },
+  reviewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  reviewText: {
+    flex: 1,
+    gap: spacing.xxs,
+  },
+  resolutionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderRadius: radius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    fontSize: 16,
+  },
+  sheetActions: {
+    paddingBottom: spacing.sm,
+  },
+  sheetItem: {
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.md,
+  },
+});
@@ -175,6 +175,7 @@ const LogSessionScreen: React.FC = () => {
         </View>
 
         <LogSessionContent
+          date={selectedDate}
           exercises={exercises}
           durationSeconds={durationSeconds}
           onExercisesChange={handleExercisesChange}
@@ -9,6 +9,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import Animated, { useSharedValue, withSpring, useAnimatedStyle } from 'react-native-reanimated';
 import { triggerHaptic } from '@/utils/haptics';
+import { formatRestTime } from '@/utils/restTimer';
+import { E1RM_FORMULA_LABELS } from '@/utils/oneRepMax';
 
 import { Text } from '@/components/atoms/Text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
@@ -22,6 +24,9 @@ import { NotificationsModal } from '@/components/molecules/NotificationsModal';
 import { SignOutConfirmationModal } from '@/components/molecules/SignOutConfirmationModal';
 import { FeedbackModal } from '@/components/molecules/FeedbackModal';
 import { AccentColorModal } from '@/components/molecules/AccentColorModal';
+import { RestTimerModal } from '@/components/molecules/RestTimerModal';
+import { PlateInventoryModal } from '@/components/molecules/PlateInventoryModal';
+import { GymProfileModal } from '@/components/molecules/GymProfileModal';
 import { colors, spacing, radius, shadows, sizing } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
 import { usePremiumStatus } from '@/hooks/usePremiumStatus';
@@ -29,6 +34,7 @@ import { useAuth } from '@/providers/AuthProvider';
 import { supabaseClient } from '@/lib/supabaseClient';
 import { useUserProfileStore } from '@/store/userProfileStore';
 import { useSettingsStore } from '@/store/settingsStore';
+import { useGymProfileStore } from '@/store/gymProfileStore';
 import { useNotificationStore } from '@/store/notificationStore';
 import { useDevToolsStore } from '@/store/devToolsStore';
 import { useSubscriptionStore } from '@/store/subscriptionStore';
@@ -55,8 +61,12 @@ const ProfileModal: React.FC = () => {
   const [isDeleteAccountModalVisible, setIsDeleteAccountModalVisible] = useState(false);
   const [isDeletingAccount, setIsDeletingAccount] = useState(false);
   const [isAccentColorModalVisible, setIsAccentColorModalVisible] = useState(false);
-  const { weightUnit, distanceUnit, sizeUnit, formatWeight, hapticsEnabled, setHapticsEnabled, smartSuggestionsEnabled, setSmartSuggestionsEnabled, themePreference, setThemePreference, accentColor } = useSettingsStore();
+  const [isRestTimerModalVisible, setIsRestTimerModalVisible] = useState(false);
+  const [isPlateInventoryModalVisible, setIsPlateInventoryModalVisible] = useState(false);
+  const [isGymProfileModalVisible, setIsGymProfileModalVisible] = useState(false);
+  const { weightUnit, distanceUnit, sizeUnit, formatWeight, hapticsEnabled, setHapticsEnabled, smartSuggestionsEnabled, setSmartSuggestionsEnabled, effortScale, setEffortScale, e1rmFormula, setE1RMFormula, restTimerEnabled, restDurations, autoPauseEnabled, setAutoPauseEnabled, themePreference, setThemePreference, accentColor } = useSettingsStore();
   const { notificationsEnabled, configs } = useNotificationStore();
+  const activeGymProfile = useGymProfileStore((state) => state.getActiveProfile());
   const { isPremium, isLoading: isPremiumLoading } = usePremiumStatus();
   const { premiumOverride, setPremiumOverride } = useDevToolsStore();
   const { isProUser, subscriptionTier, expirationDate, willRenew, isLifetime, isLoading: isSubscriptionLoading } = useSubscriptionStore();
@@ -445,6 +455,63 @@ const ProfileModal: React.FC = () => {
               }}
               showDivider
             />
+            <ToggleSettingsItem
+              title="Log Reps in Reserve"
+              subtitle={effortScale === 'rir' ? "Set effort is logged as RIR" : "Set effort is logged as RPE"}
+              value={effortScale === 'rir'}
+              onValueChange={(val) => {
+                setEffortScale(val ? 'rir' : 'rpe');
+                triggerHaptic('selection');
+              }}
+              showDivider
+            />
+            <ToggleSettingsItem
+              title="Use Brzycki for 1RM"
+              subtitle={`Estimated 1RM uses the ${E1RM_FORMULA_LABELS[e1rmFormula]} formula`}
+              value={e1rmFormula === 'brzycki'}
+              onValueChange={(val) => {
+                setE1RMFormula(val ? 'brzycki' : 'epley');
+                triggerHaptic('selection');
+              }}
+              showDivider
+            />
+            <SettingsItem
+              title="Rest Timer"
+              subtitle={restTimerEnabled ? `${formatRestTime(restDurations.working)} between working sets` : 'Off'}
+              onPress={() => {
+                triggerHaptic('selection');
+                setIsRestTimerModalVisible(true);
+              }}
+              showDivider
+            />
+            <SettingsItem
+              title="Gym Profile"
+              subtitle={`${activeGymProfile.name} • ${activeGymProfile.equipment.length} equipment types`}
+              onPress={() => {
+                triggerHaptic('selection');
+                setIsGymProfileModalVisible(true);
+              }}
+              showDivider
+            />
+            <SettingsItem
+              title="Plates & Bar"
+              subtitle={`${activeGymProfile.plateInventories[weightUnit].barWeight} ${weightUnit} bar, ${activeGymProfile.plateInventories[weightUnit].plates.filter((plate) => plate.pairs > 0).length} plate sizes`}
+              onPress={() => {
+                triggerHaptic('selection');
+                setIsPlateInventoryModalVisible(true);
+              }}
+              showDivider
+            />
+            <ToggleSettingsItem
+              title="Outdoor Auto-Pause"
+              subtitle={autoPauseEnabled ? "Pauses runs and rides while you're stopped" : "Disabled"}
+              value={autoPauseEnabled}
+              onValueChange={(val) => {
+                triggerHaptic('selection');
+                setAutoPauseEnabled(val);
+              }}
+              showDivider
+            />
             <ToggleSettingsItem
               title="Haptic Feedback"
               subtitle={hapticsEnabled ? "Enabled" : "Disabled"}
@@ -760,6 +827,18 @@ const ProfileModal: React.FC = () => {
         visible={isAccentColorModalVisible}
         onClose={() => setIsAccentColorModalVisible(false)}
       />
+      <RestTimerModal
+        visible={isRestTimerModalVisible}
+        onClose={() => setIsRestTimerModalVisible(false)}
+      />
+      <PlateInventoryModal
+        visible={isPlateInventoryModalVisible}
+        onClose={() => setIsPlateInventoryModalVisible(false)}
+      />
+      <GymProfileModal
+        visible={isGymProfileModalVisible}
+        onClose={() => setIsGymProfileModalVisible(false)}
+      />
     </SafeAreaView>
   );
 };
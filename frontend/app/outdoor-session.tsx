@@ -17,16 +17,20 @@ import { Text } from '@/components/atoms/Text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { OutdoorMetricsBar } from '@/components/molecules/OutdoorMetricsBar';
 import { OutdoorControlBar } from '@/components/molecules/OutdoorControlBar';
+import { OutdoorTargetModal } from '@/components/molecules/OutdoorTargetModal';
 import { useOutdoorSessionStore } from '@/store/outdoorSessionStore';
 import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
 import { useSessionStore } from '@/store/sessionStore';
 import { useTheme } from '@/hooks/useTheme';
+import { useOutdoorCues } from '@/hooks/useOutdoorCues';
 import { outdoorTrackingService } from '@/services/outdoorTrackingService';
 import { useSettingsStore } from '@/store/settingsStore';
 import { triggerHaptic } from '@/utils/haptics';
 import { colors, spacing, radius, sizing } from '@/constants/theme';
 import { DARK_MAP_STYLE } from '@/constants/mapStyles';
-import { segmentRouteByGaps } from '@/utils/geo';
+import { calculateElevationChange, calculateGradeAdjustedPace, segmentRouteByGaps } from '@/utils/geo';
+import { formatOutdoorTarget } from '@/utils/outdoorCues';
+import type { OutdoorTarget } from '@/types/outdoor';
 import type { Workout } from '@/types/workout';
 import * as Location from 'expo-location';
 
@@ -34,13 +38,20 @@ const OutdoorSessionScreen: React.FC = () => {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { theme, isDarkMode } = useTheme();
-  const { exercise } = useLocalSearchParams<{ exercise: string }>();
+  // targetType/targetValue preset a distance (miles) or time (seconds) goal, e.g. from WeeklyCardioGoalCard
+  const { exercise, targetType, targetValue } = useLocalSearchParams<{
+    exercise: string;
+    targetType?: 'distance' | 'time';
+    targetValue?: string;
+  }>();
 
   const mapRef = useRef<MapView>(null);
   const [isFinishing, setIsFinishing] = useState<boolean>(false);
   const [permissionStatus, setPermissionStatus] = useState<'undetermined' | 'granted' | 'denied'>('undetermined');
   const [currentLocation, setCurrentLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [targetModalVisible, setTargetModalVisible] = useState<boolean>(false);
   const hascenteredRef = useRef<boolean>(false);
+  const presetTargetAppliedRef = useRef<boolean>(false);
 
   // Store state
   const status = useOutdoorSessionStore((s) => s.status);
@@ -49,6 +60,8 @@ const OutdoorSessionScreen: React.FC = () => {
   const distanceMiles = useOutdoorSessionStore((s) => s.distanceMiles);
   const paceSecondsPerMile = useOutdoorSessionStore((s) => s.paceSecondsPerMile);
   const coordinates = useOutdoorSessionStore((s) => s.coordinates);
+  const isAutoPaused = useOutdoorSessionStore((s) => s.isAutoPaused);
+  const target = useOutdoorSessionStore((s) => s.target);
 
   const startSession = useOutdoorSessionStore((s) => s.startSession);
   const beginTracking = useOutdoorSessionStore((s) => s.beginTracking);
@@ -56,9 +69,13 @@ const OutdoorSessionScreen: React.FC = () => {
   const resumeSession = useOutdoorSessionStore((s) => s.resumeSession);
   const endSession = useOutdoorSessionStore((s) => s.endSession);
   const clearSession = useOutdoorSessionStore((s) => s.clearSession);
+  const markLap = useOutdoorSessionStore((s) => s.markLap);
+  const setTarget = useOutdoorSessionStore((s) => s.setTarget);
 
   // addWorkoutLocally + syncWorkoutToSupabase are called via getState() in handleFinish
   const convertDistanceToMiles = useSettingsStore((s) => s.convertDistanceToMiles);
+  const distanceUnit = useSettingsStore((s) => s.distanceUnit);
+  const autoPauseEnabled = useSettingsStore((s) => s.autoPauseEnabled);
 
   // Request location permission on mount (shows native OS dialog) and get initial position
   useEffect(() => {
@@ -96,6 +113,23 @@ const OutdoorSessionScreen: React.FC = () => {
     }
   }, [exercise, exerciseName, startSession]);
 
+  // Apply a preset goal once the session exists, before tracking starts
+  useEffect(() => {
+    if (presetTargetAppliedRef.current || !exerciseName || status !== 'idle') return;
+    presetTargetAppliedRef.current = true;
+
+    const value = Number(targetValue);
+    if (!Number.isFinite(value) || value <= 0) return;
+
+    if (targetType === 'distance') {
+      setTarget({ type: 'distance', distanceMiles: value });
+    } else if (targetType === 'time') {
+      setTarget({ type: 'time', durationSeconds: Math.round(value) });
+    }
+  }, [exerciseName, setTarget, status, targetType, targetValue]);
+
+  const { cueMessage } = useOutdoorCues();
+
   // Center map on current location (only animate when actively tracking, or on first location fix)
   useEffect(() => {
     if (currentLocation && mapRef.current) {
@@ -140,6 +174,12 @@ const OutdoorSessionScreen: React.FC = () => {
     [coordinates],
   );
 
+  const elevationChange = useMemo(() => calculateElevationChange(coordinates), [coordinates]);
+  const gradeAdjustedPace = useMemo(
+    () => (elevationChange ? calculateGradeAdjustedPace(coordinates, paceSecondsPerMile) : null),
+    [coordinates, elevationChange, paceSecondsPerMile],
+  );
+
   // Initial region — computed once on mount; animateToRegion handles subsequent centering
   const initialRegion = useMemo(() => ({
     latitude: currentLocation?.latitude ?? 0,
@@ -151,7 +191,7 @@ const OutdoorSessionScreen: React.FC = () => {
 
   const handleStart = useCallback(async () => {
     triggerHaptic('selection');
-    beginTracking();
+    beginTracking(distanceUnit, autoPauseEnabled);
     const success = await outdoorTrackingService.startGpsTracking();
     if (success) {
       setPermissionStatus('granted');
@@ -159,7 +199,7 @@ const OutdoorSessionScreen: React.FC = () => {
     } else {
       setPermissionStatus('denied');
     }
-  }, [beginTracking]);
+  }, [autoPauseEnabled, beginTracking, distanceUnit]);
 
   const handlePause = useCallback(async () => {
     triggerHaptic('selection');
@@ -175,6 +215,30 @@ const OutdoorSessionScreen: React.FC = () => {
     outdoorTrackingService.startTimer();
   }, [resumeSession]);
 
+  // Let the user feel auto-pause and auto-resume without looking at the screen
+  const wasAutoPausedRef = useRef(isAutoPaused);
+  useEffect(() => {
+    if (wasAutoPausedRef.current !== isAutoPaused) {
+      triggerHaptic(isAutoPaused ? 'warning' : 'success');
+      wasAutoPausedRef.current = isAutoPaused;
+    }
+  }, [isAutoPaused]);
+
+  const handleOpenTarget = useCallback(() => {
+    triggerHaptic('selection');
+    setTargetModalVisible(true);
+  }, []);
+
+  const handleSaveTarget = useCallback((nextTarget: OutdoorTarget | null) => {
+    setTarget(nextTarget);
+    setTargetModalVisible(false);
+  }, [setTarget]);
+
+  const handleLap = useCallback(() => {
+    triggerHaptic('success');
+    markLap();
+  }, [markLap]);
+
   const handleFinish = useCallback(async () => {
     if (isFinishing) return;
 
@@ -216,8 +280,10 @@ const OutdoorSessionScreen: React.FC = () => {
       routeCoordinates: result.coordinates.map((c) => ({
         latitude: c.latitude,
         longitude: c.longitude,
+        ...(c.altitude !== undefined ? { altitude: c.altitude } : {}),
         timestamp: c.timestamp,
       })),
+      outdoorSplits: result.splits,
     };
 
     // ── Crash-safe save: persist locally first, navigate immediately ──
@@ -348,6 +414,22 @@ const OutdoorSessionScreen: React.FC = () => {
             </Text>
           </View>
         )}
+
+        {status === 'paused' && isAutoPaused && (
+          <View style={[styles.gpsIndicator, { backgroundColor: theme.surface.card, borderColor: theme.border.light }]}>
+            <Text variant="caption" color="secondary">
+              Auto-paused — resumes when you start moving
+            </Text>
+          </View>
+        )}
+
+        {cueMessage && currentLocation && !(status === 'paused' && isAutoPaused) && (
+          <View style={[styles.gpsIndicator, { backgroundColor: theme.surface.card, borderColor: theme.border.light }]}>
+            <Text variant="caption" color="primary">
+              {cueMessage}
+            </Text>
+          </View>
+        )}
       </View>
 
       {/* Bottom Panel */}
@@ -366,10 +448,33 @@ const OutdoorSessionScreen: React.FC = () => {
           </Pressable>
         )}
 
+        {status === 'idle' ? (
+          <Pressable
+            onPress={handleOpenTarget}
+            style={[styles.targetRow, { backgroundColor: theme.surface.card, borderColor: theme.border.light }]}
+          >
+            <Text variant="caption" color="secondary">
+              Target
+            </Text>
+            <View style={styles.targetValue}>
+              <Text variant="bodySemibold" color="primary">
+                {target ? formatOutdoorTarget(target, distanceUnit) : 'None'}
+              </Text>
+              <IconSymbol name="chevron-right" size={sizing.iconSM} color={theme.text.tertiary} />
+            </View>
+          </Pressable>
+        ) : target ? (
+          <Text variant="caption" color="secondary" style={styles.targetSummary}>
+            {`Target · ${formatOutdoorTarget(target, distanceUnit)}`}
+          </Text>
+        ) : null}
+
         <OutdoorMetricsBar
           elapsedSeconds={elapsedSeconds}
           distanceMiles={distanceMiles}
           paceSecondsPerMile={paceSecondsPerMile}
+          elevationChange={elevationChange}
+          gradeAdjustedPaceSecondsPerMile={gradeAdjustedPace}
         />
 
         <OutdoorControlBar
@@ -377,10 +482,18 @@ const OutdoorSessionScreen: React.FC = () => {
           onStart={handleStart}
           onPause={handlePause}
           onResume={handleResume}
+          onLap={handleLap}
           onFinish={handleFinish}
           isFinishing={isFinishing}
         />
       </View>
+
+      <OutdoorTargetModal
+        visible={targetModalVisible}
+        target={target}
+        onClose={() => setTargetModalVisible(false)}
+        onSave={handleSaveTarget}
+      />
     </View>
   );
 };
@@ -442,6 +555,23 @@ const styles = StyleSheet.create({
     borderRadius: radius.md,
     gap: spacing.xs,
   },
+  targetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+  },
+  targetValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  targetSummary: {
+    textAlign: 'center',
+  },
   locationDot: {
     width: 14,
     height: 14,
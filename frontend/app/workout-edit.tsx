@@ -17,6 +17,7 @@ import { Text } from '@/components/atoms/Text';
 import { EditableWorkoutExerciseCard } from '@/components/molecules/EditableWorkoutExerciseCard';
 import { CreateExerciseModal } from '@/components/molecules/CreateExerciseModal';
 import { DeleteConfirmationModal } from '@/components/molecules/DeleteConfirmationModal';
+import { ExerciseSwapModal } from '@/components/molecules/ExerciseSwapModal';
 import { SheetModal } from '@/components/molecules/SheetModal';
 import { colors, radius, spacing, sizing } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
@@ -27,6 +28,7 @@ import { useSemanticExerciseSearch } from '@/hooks/useSemanticExerciseSearch';
 import { normalizeSearchText } from '@/utils/strings';
 import { getExerciseDisplayTagText } from '@/utils/exerciseDisplayTags';
 import type { ExerciseCatalogItem } from '@/constants/exercises';
+import type { Exercise } from '@/types/exercise';
 
 const WorkoutEditScreen: React.FC = () => {
   const { theme } = useTheme();
@@ -45,6 +47,7 @@ const WorkoutEditScreen: React.FC = () => {
     removeExercise,
     moveExercise,
     addExercise,
+    swapExercise,
     saveWorkout,
     searchTerm,
     setSearchTerm,
@@ -85,6 +88,7 @@ const WorkoutEditScreen: React.FC = () => {
   const [isPickerVisible, setIsPickerVisible] = React.useState(false);
   const [isCreateExerciseModalVisible, setIsCreateExerciseModalVisible] = useState(false);
   const [exerciseToRemove, setExerciseToRemove] = useState<string | null>(null);
+  const [exerciseToSwap, setExerciseToSwap] = useState<string | null>(null);
   const pickerListRef = useRef<FlatList>(null);
   const customExercises = useCustomExerciseStore((state) => state.customExercises);
 
@@ -146,6 +150,19 @@ const WorkoutEditScreen: React.FC = () => {
     setIsPickerVisible(false);
   }, []);
 
+  const draftExerciseNames = useMemo(() => exerciseDrafts.map((exercise) => exercise.name), [exerciseDrafts]);
+
+  const handleSelectSwap = useCallback(
+    (exercise: Exercise) => {
+      if (exerciseToSwap) {
+        swapExercise(exerciseToSwap, exercise);
+      }
+      setExerciseToSwap(null);
+      triggerHaptic('selection');
+    },
+    [exerciseToSwap, swapExercise],
+  );
+
   if (!workout) {
     return (
       <View style={styles.emptyContainer}>
@@ -211,6 +228,7 @@ const WorkoutEditScreen: React.FC = () => {
               setExerciseToRemove(item.name);
               triggerHaptic('selection');
             }}
+            onSwap={() => setExerciseToSwap(item.name)}
             onMoveUp={() => {
               moveExercise(item.name, 'up');
               triggerHaptic('selection');
@@ -338,6 +356,13 @@ const WorkoutEditScreen: React.FC = () => {
           setIsCreateExerciseModalVisible(false);
         }}
       />
+      <ExerciseSwapModal
+        visible={!!exerciseToSwap}
+        exerciseName={exerciseToSwap}
+        excludeNames={draftExerciseNames}
+        onClose={() => setExerciseToSwap(null)}
+        onSelect={handleSelectSwap}
+      />
       <DeleteConfirmationModal
         visible={!!exerciseToRemove}
         onClose={() => setExerciseToRemove(null)}
@@ -24,11 +24,16 @@ import { Button } from '@/components/atoms/Button';
 import { Text } from '@/components/atoms/Text';
 import { ExerciseSetEditor } from '@/components/molecules/ExerciseSetEditor';
 import { ExerciseHistoryModal } from '@/components/molecules/ExerciseHistoryModal';
+import { ExerciseSwapModal } from '@/components/molecules/ExerciseSwapModal';
+import { RestTimerBar } from '@/components/molecules/RestTimerBar';
+import { TimePickerModal } from '@/components/molecules/TimePickerModal';
 import { exercises as baseExerciseCatalog, createCustomExerciseCatalogItem, getExerciseTypeByName } from '@/constants/exercises';
 import { colors, radius, sizing, spacing, zIndex } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
 import { useElapsedTimer } from '@/hooks/useElapsedTimer';
+import { useRestTimer } from '@/hooks/useRestTimer';
 import { useSemanticExerciseSearch } from '@/hooks/useSemanticExerciseSearch';
+import { useFullWorkoutHistory } from '@/hooks/useFullWorkoutHistory';
 import { useSessionStore } from '@/store/sessionStore';
 import { usePlansStore } from '@/store/plansStore';
 import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
@@ -39,12 +44,30 @@ import { CreateExerciseModal } from '@/components/molecules/CreateExerciseModal'
 import { FinishConfirmationModal } from '@/components/molecules/FinishConfirmationModal';
 import { DeleteConfirmationModal } from '@/components/molecules/DeleteConfirmationModal';
 import { normalizeSearchText } from '@/utils/strings';
-import { createSetsWithSmartSuggestions } from '@/utils/exerciseHistory';
+import { createSetsWithSmartSuggestions, type SmartSetsResult } from '@/utils/exerciseHistory';
+import { createSubstituteSets } from '@/utils/exerciseSubstitution';
+import {
+  buildExerciseBlocks,
+  getExerciseBlockRange,
+  type ExerciseBlock,
+  getExerciseGroupLabel,
+  getNextExerciseInGroup,
+} from '@/utils/exerciseGroups';
+import { resolveRestDuration } from '@/utils/restTimer';
+import {
+  addSetToBests,
+  computeSessionPersonalRecords,
+  detectSetPersonalRecords,
+  getExerciseBests,
+} from '@/utils/personalRecords';
 import { getExerciseDisplayTagText } from '@/utils/exerciseDisplayTags';
+import { formatPlanWeekLabel, formatWeekPrescription } from '@/utils/planPeriodization';
+import { formatExerciseTargets } from '@/utils/exerciseTargets';
 import { determinePerSetRepRanges, classifyRepIntent } from '@/utils/smartSuggestions';
 import { useUserProfileStore } from '@/store/userProfileStore';
 import type { Exercise, ExerciseCatalogItem } from '@/constants/exercises';
 import type { SetLog, WorkoutExercise } from '@/types/workout';
+import type { ExerciseBests, SetPersonalRecordType } from '@/types/personalRecords';
 import type { SessionRepIntent } from '@/types/smartSuggestions';
 
 interface ExerciseProgressSnapshot {
@@ -57,6 +80,9 @@ type ActiveMenu =
   | { type: 'set'; exerciseName: string; setIndex: number }
   | null;
 
+// Completing a set already fires a selection haptic; wait past the haptic throttle so the PR one is felt
+const PR_HAPTIC_DELAY_MS = 150;
+
 const formatElapsed = (seconds: number): string => {
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60)
@@ -94,28 +120,72 @@ const WorkoutSessionScreen: React.FC = () => {
   
   // Prioritize workout name from session, then plan name, then fallback to 'Current Session'
   const sessionDisplayName = sessionToDisplay?.name ?? activePlanName ?? 'Current Session';
+  const planWeek = sessionToDisplay?.planWeek ?? null;
+  const exerciseTargets = sessionToDisplay?.exerciseTargets;
   const isSessionActive = useSessionStore((state) => state.isSessionActive);
   const addExerciseToSession = useSessionStore((state) => state.addExercise);
   const endSession = useSessionStore((state) => state.endSession);
   const clearSession = useSessionStore((state) => state.clearSession);
   const updateExercise = useSessionStore((state) => state.updateExercise);
   const removeExercise = useSessionStore((state) => state.removeExercise);
-  const reorderExercises = useSessionStore((state) => state.reorderExercises);
+  const moveExercise = useSessionStore((state) => state.moveExercise);
+  const groupExerciseWithNext = useSessionStore((state) => state.groupExerciseWithNext);
+  const ungroupExercise = useSessionStore((state) => state.ungroupExercise);
+  const startRestTimer = useSessionStore((state) => state.startRestTimer);
+  const adjustRestTimer = useSessionStore((state) => state.adjustRestTimer);
+  const clearRestTimer = useSessionStore((state) => state.clearRestTimer);
+  const { restTimer, remainingSeconds: restRemainingSeconds } = useRestTimer();
+  const exerciseRestDurations = useSettingsStore((state) => state.exerciseRestDurations);
+  const setExerciseRestDuration = useSettingsStore((state) => state.setExerciseRestDuration);
   // addWorkoutLocally + syncWorkoutToSupabase are called via getState() in handleConfirmFinish
   const activeRotation = useProgramsStore((state) => state.activeRotation);
   const advanceRotation = useProgramsStore((state) => state.advanceRotation);
   const customExercises = useCustomExerciseStore((state) => state.customExercises);
   const convertWeightToLbs = useSettingsStore((state) => state.convertWeightToLbs);
+  const formatWeight = useSettingsStore((state) => state.formatWeight);
 
   const sessionExercises = useMemo(
     () => sessionToDisplay?.exercises ?? [],
     [sessionToDisplay?.exercises],
   );
+  const exerciseBlocks = useMemo(() => buildExerciseBlocks(sessionExercises), [sessionExercises]);
+
+  const { workouts: workoutHistory, isComplete: isHistoryComplete } = useFullWorkoutHistory();
+  const e1rmFormula = useSettingsStore((state) => state.e1rmFormula);
+  // Keyed on names so history is only rescanned when exercises are added or removed
+  const sessionExerciseNamesKey = sessionExercises.map((exercise) => exercise.name).join('\n');
+  // No records are called until all of history is in, so an unloaded page can't hide a heavier set
+  const historyBests = useMemo(
+    () => isHistoryComplete
+      ? getExerciseBests(workoutHistory, sessionExerciseNamesKey.split('\n'), e1rmFormula)
+      : new Map<string, ExerciseBests>(),
+    [workoutHistory, isHistoryComplete, sessionExerciseNamesKey, e1rmFormula],
+  );
+
+  // Session sets hold weights in the user's unit; records are computed in lbs
+  const toSetInLbs = useCallback((set: SetLog): SetLog => ({
+    ...set,
+    weight: set.weight !== undefined ? convertWeightToLbs(set.weight) : undefined,
+  }), [convertWeightToLbs]);
+
+  const personalRecordSetsByExercise = useMemo(() => {
+    const exercisesInLbs = sessionExercises.map((exercise) => ({
+      ...exercise,
+      sets: (exercise.sets ?? []).map(toSetInLbs),
+    }));
+    const bySetIndex: Record<string, Record<number, SetPersonalRecordType[]>> = {};
+
+    computeSessionPersonalRecords(exercisesInLbs, historyBests, e1rmFormula).forEach((record) => {
+      bySetIndex[record.exerciseName] = { ...bySetIndex[record.exerciseName], [record.setIndex]: record.types };
+    });
+
+    return bySetIndex;
+  }, [sessionExercises, historyBests, e1rmFormula, toSetInLbs]);
 
   const [pickerVisible, setPickerVisible] = useState<boolean>(false);
   const [createExerciseModalVisible, setCreateExerciseModalVisible] = useState<boolean>(false);
   const pickerListRef = useRef<FlatList>(null);
-  const exerciseListRef = useRef<FlatList>(null);
+  const exerciseListRef = useRef<FlatList<ExerciseBlock<WorkoutExercise>>>(null);
   const scrollOffsetRef = useRef<number>(0);
   const focusedInputYRef = useRef<number | null>(null);
   const focusedInputHeightRef = useRef<number>(0);
@@ -125,9 +195,11 @@ const WorkoutSessionScreen: React.FC = () => {
   );
   const [activeMenu, setActiveMenu] = useState<ActiveMenu>(null);
   const [replaceTargetName, setReplaceTargetName] = useState<string | null>(null);
+  const [swapTargetName, setSwapTargetName] = useState<string | null>(null);
   const [historyModalVisible, setHistoryModalVisible] = useState<boolean>(false);
   const [finishModalVisible, setFinishModalVisible] = useState<boolean>(false);
   const [historyTargetName, setHistoryTargetName] = useState<string | null>(null);
+  const [restPickerTargetName, setRestPickerTargetName] = useState<string | null>(null);
   const [menuPosition, setMenuPosition] = useState<{ top: number; right: number }>({ top: 0, right: 0 });
 
   // Dismiss keyboard on component mount to prevent unwanted keyboard popup on app re-entry
@@ -331,72 +403,94 @@ const WorkoutSessionScreen: React.FC = () => {
     }
   }, [exerciseCatalog, userGoal]);
 
-  const handleSelectExercise = (exercise: Exercise) => {
-    const targetName = replaceTargetName;
-    const allWorkouts = useWorkoutSessionsStore.getState().workouts;
+  const replaceSessionExercise = (targetName: string, exercise: Exercise, result: SmartSetsResult) => {
+    const nextExercise: WorkoutExercise = {
+      name: exercise.name,
+      sets: result.sets,
+    };
 
-    if (targetName) {
-      // Always fetch new exercise's history when replacing
-      const result = createSetsWithSmartSuggestions(exercise.name, allWorkouts, smartSuggestionsEnabled, undefined, undefined, customExercises, userGoal);
+    updateExercise(targetName, nextExercise);
+
+    // Update history set counts, suggested sets, and data points: remove old exercise, add new exercise
+    const currentSession = useSessionStore.getState().currentSession;
+    if (currentSession) {
+      const { [targetName]: _removed, ...remainingCounts } = currentSession.historySetCounts;
+      const { [targetName]: _removedSuggested, ...remainingSuggested } = currentSession.suggestedSets;
+      const { [targetName]: _removedDP, ...remainingDP } = (currentSession as any).exerciseDataPoints ?? {};
+      const nextSuggested = { ...remainingSuggested };
+      if (result.smartSuggestedSets.length > 0) {
+        nextSuggested[exercise.name] = result.smartSuggestedSets;
+      }
+      const nextDP = { ...remainingDP };
+      if (result.dataPoints && result.dataPoints.length > 0) {
+        nextDP[exercise.name] = result.dataPoints;
+      }
+      const { [targetName]: _removedRR, ...remainingRR } = (currentSession as any).exerciseRepRanges ?? {};
+      const nextRR = { ...remainingRR };
+      if (result.repRanges && result.repRanges.length > 0) {
+        nextRR[exercise.name] = result.repRanges;
+      }
+      useSessionStore.setState({
+        currentSession: {
+          ...currentSession,
+          historySetCounts: {
+            ...remainingCounts,
+            [exercise.name]: result.historySetCount,
+          },
+          suggestedSets: nextSuggested,
+          exerciseDataPoints: nextDP,
+          exerciseRepRanges: nextRR,
+        },
+      });
+    }
 
-      const nextExercise: WorkoutExercise = {
-        name: exercise.name,
-        sets: result.sets,
-      };
+    setExpandedExercises((prev) => {
+      if (!prev.has(targetName)) {
+        return prev;
+      }
 
-      updateExercise(targetName, nextExercise);
-
-      // Update history set counts, suggested sets, and data points: remove old exercise, add new exercise
-      const currentSession = useSessionStore.getState().currentSession;
-      if (currentSession) {
-        const { [targetName]: _removed, ...remainingCounts } = currentSession.historySetCounts;
-        const { [targetName]: _removedSuggested, ...remainingSuggested } = currentSession.suggestedSets;
-        const { [targetName]: _removedDP, ...remainingDP } = (currentSession as any).exerciseDataPoints ?? {};
-        const nextSuggested = { ...remainingSuggested };
-        if (result.smartSuggestedSets.length > 0) {
-          nextSuggested[exercise.name] = result.smartSuggestedSets;
-        }
-        const nextDP = { ...remainingDP };
-        if (result.dataPoints && result.dataPoints.length > 0) {
-          nextDP[exercise.name] = result.dataPoints;
-        }
-        const { [targetName]: _removedRR, ...remainingRR } = (currentSession as any).exerciseRepRanges ?? {};
-        const nextRR = { ...remainingRR };
-        if (result.repRanges && result.repRanges.length > 0) {
-          nextRR[exercise.name] = result.repRanges;
-        }
-        useSessionStore.setState({
-          currentSession: {
-            ...currentSession,
-            historySetCounts: {
-              ...remainingCounts,
-              [exercise.name]: result.historySetCount,
-            },
-            suggestedSets: nextSuggested,
-            exerciseDataPoints: nextDP,
-            exerciseRepRanges: nextRR,
-          },
-        });
+      const next = new Set(prev);
+      next.delete(targetName);
+      next.add(nextExercise.name);
+      return next;
+    });
+    setExerciseProgress((prev) => {
+      if (!prev[targetName]) {
+        return prev;
       }
 
-      setExpandedExercises((prev) => {
-        if (!prev.has(targetName)) {
-          return prev;
-        }
+      const { [targetName]: _omitted, ...rest } = prev;
+      return rest;
+    });
+  };
 
-        const next = new Set(prev);
-        next.delete(targetName);
-        next.add(nextExercise.name);
-        return next;
-      });
-      setExerciseProgress((prev) => {
-        if (!prev[targetName]) {
-          return prev;
-        }
+  const handleSwapExercisePress = useCallback((exerciseName: string) => {
+    triggerHaptic('selection');
+    setActiveMenu(null);
+    setSwapTargetName(exerciseName);
+  }, []);
 
-        const { [targetName]: _omitted, ...rest } = prev;
-        return rest;
-      });
+  const handleSelectSwap = (exercise: Exercise) => {
+    const targetName = swapTargetName;
+    if (!targetName) return;
+
+    // Weights come from the swap's own history, or are carried over from the lift it replaces
+    const allWorkouts = useWorkoutSessionsStore.getState().workouts;
+    const result = createSubstituteSets(targetName, exercise, allWorkouts, smartSuggestionsEnabled, customExercises, userGoal);
+    replaceSessionExercise(targetName, exercise, result);
+
+    triggerHaptic('selection');
+    setSwapTargetName(null);
+  };
+
+  const handleSelectExercise = (exercise: Exercise) => {
+    const targetName = replaceTargetName;
+    const allWorkouts = useWorkoutSessionsStore.getState().workouts;
+
+    if (targetName) {
+      // Always fetch new exercise's history when replacing
+      const result = createSetsWithSmartSuggestions(exercise.name, allWorkouts, smartSuggestionsEnabled, undefined, undefined, customExercises, userGoal);
+      replaceSessionExercise(targetName, exercise, result);
     } else {
       const result = createSetsWithSmartSuggestions(exercise.name, allWorkouts, smartSuggestionsEnabled, undefined, undefined, customExercises, userGoal);
       const nextExercise: WorkoutExercise = {
@@ -445,12 +539,96 @@ const WorkoutSessionScreen: React.FC = () => {
     });
   }, []);
 
+  // Supersets/circuits alternate: once a set is logged, hand off to the next exercise in the group
+  const advanceWithinGroup = useCallback((exerciseName: string) => {
+    const exercises = useSessionStore.getState().currentSession?.exercises ?? [];
+    const index = exercises.findIndex((exercise) => exercise.name === exerciseName);
+    if (index < 0) {
+      return;
+    }
+
+    const nextIndex = getNextExerciseInGroup(exercises, index, (exercise) => exercise.sets.some((set) => !set.completed));
+    if (nextIndex === null) {
+      return;
+    }
+
+    const nextName = exercises[nextIndex].name;
+    setExpandedExercises((prev) => {
+      const next = new Set(prev);
+      next.delete(exerciseName);
+      next.add(nextName);
+      return next;
+    });
+  }, []);
+
   const handleExerciseSetsChange = useCallback((exerciseName: string, sets: SetLog[]) => {
+    const previous = useSessionStore.getState().currentSession?.exercises.find((exercise) => exercise.name === exerciseName);
+    const previousCompleted = previous?.sets.filter((set) => set.completed).length ?? 0;
+
     updateExercise(exerciseName, {
       name: exerciseName,
       sets,
     });
-  }, [updateExercise]);
+
+    if (sets.filter((set) => set.completed).length > previousCompleted) {
+      advanceWithinGroup(exerciseName);
+    }
+  }, [advanceWithinGroup, updateExercise]);
+
+  // Starts the rest countdown after a completed set and returns its length so the set can record it
+  const handleSetCompleted = useCallback((exerciseName: string, set: SetLog): number | undefined => {
+    const { restTimerEnabled, restDurations, exerciseRestDurations: restOverrides } = useSettingsStore.getState();
+    const exerciseType = catalogLookup.get(exerciseName)?.exerciseType ?? 'weight';
+
+    if (!restTimerEnabled || exerciseType === 'cardio' || exerciseType === 'duration') {
+      return undefined;
+    }
+
+    // Within a superset/circuit, rest only once the round wraps back to the first exercise
+    const exercises = useSessionStore.getState().currentSession?.exercises ?? [];
+    const index = exercises.findIndex((exercise) => exercise.name === exerciseName);
+    if (index >= 0) {
+      const nextIndex = getNextExerciseInGroup(exercises, index, (exercise) => exercise.sets.some((s) => !s.completed));
+      if (nextIndex !== null && nextIndex > index) {
+        return undefined;
+      }
+    }
+
+    // A rest picked for the exercise during a workout wins over the template's target rest
+    const templateRest = useSessionStore.getState().currentSession?.exerciseTargets?.[exerciseName]?.restSeconds;
+    const duration = resolveRestDuration(
+      set.setType ?? 'working',
+      exerciseName,
+      restDurations,
+      templateRest !== undefined ? { [exerciseName]: templateRest, ...restOverrides } : restOverrides,
+    );
+    if (duration <= 0) {
+      return undefined;
+    }
+
+    startRestTimer(exerciseName, duration);
+    return duration;
+  }, [catalogLookup, startRestTimer]);
+
+  // Celebrates a just-completed set that beats history and the sets before it this session,
+  // matching the badges computeSessionPersonalRecords awards on finish
+  const handleSetPersonalRecordCheck = useCallback((exerciseName: string, setIndex: number, set: SetLog) => {
+    let bests = historyBests.get(exerciseName);
+    if (!bests) {
+      return;
+    }
+
+    const sessionSets = useSessionStore.getState().currentSession?.exercises.find((exercise) => exercise.name === exerciseName)?.sets ?? [];
+    sessionSets.slice(0, setIndex).forEach((sessionSet) => {
+      if (bests) {
+        bests = addSetToBests(bests, toSetInLbs(sessionSet), e1rmFormula);
+      }
+    });
+
+    if (detectSetPersonalRecords(toSetInLbs(set), bests, e1rmFormula).length > 0) {
+      setTimeout(() => triggerHaptic('success'), PR_HAPTIC_DELAY_MS);
+    }
+  }, [historyBests, toSetInLbs, e1rmFormula]);
 
   const handleFinishWorkout = useCallback(async () => {
     setFinishModalVisible(true);
@@ -528,6 +706,10 @@ const WorkoutSessionScreen: React.FC = () => {
       exercises: exercisesInLbs,
     };
 
+    // Records are judged against history before this workout is added to it
+    const { setLastSessionPersonalRecords } = useSessionStore.getState();
+    setLastSessionPersonalRecords(computeSessionPersonalRecords(exercisesInLbs, historyBests, e1rmFormula));
+
     // ── 2. Persist workout to AsyncStorage as crash-safe backup ──
     // This is written to disk BEFORE any network calls, so the data
     // survives app crashes, kills, or network failures.
@@ -568,7 +750,7 @@ const WorkoutSessionScreen: React.FC = () => {
         console.warn('[workout-session] Background sync error:', error);
       }
     })();
-  }, [isFinishingWorkout, sessionToDisplay, endSession, router, activeRotation, advanceRotation, convertWeightToLbs]);
+  }, [isFinishingWorkout, sessionToDisplay, endSession, router, activeRotation, advanceRotation, convertWeightToLbs, historyBests, e1rmFormula]);
 
   const handleCancel = useCallback(() => {
     clearSession();
@@ -635,19 +817,50 @@ const WorkoutSessionScreen: React.FC = () => {
     const index = sessionExercises.findIndex(e => e.name === exerciseName);
     if (index > 0) {
       triggerHaptic('selection');
-      reorderExercises(index, index - 1);
+      moveExercise(index, -1);
       closeAllMenus();
     }
-  }, [sessionExercises, reorderExercises, closeAllMenus]);
+  }, [sessionExercises, moveExercise, closeAllMenus]);
 
   const handleMoveExerciseDown = useCallback((exerciseName: string) => {
     const index = sessionExercises.findIndex(e => e.name === exerciseName);
     if (index < sessionExercises.length - 1) {
       triggerHaptic('selection');
-      reorderExercises(index, index + 1);
+      moveExercise(index, 1);
       closeAllMenus();
     }
-  }, [sessionExercises, reorderExercises, closeAllMenus]);
+  }, [sessionExercises, moveExercise, closeAllMenus]);
+
+  const handleGroupWithNext = useCallback((exerciseName: string) => {
+    const index = sessionExercises.findIndex(e => e.name === exerciseName);
+    if (index >= 0) {
+      triggerHaptic('selection');
+      groupExerciseWithNext(index);
+      closeAllMenus();
+    }
+  }, [sessionExercises, groupExerciseWithNext, closeAllMenus]);
+
+  const handleUngroupExercise = useCallback((exerciseName: string) => {
+    const index = sessionExercises.findIndex(e => e.name === exerciseName);
+    if (index >= 0) {
+      triggerHaptic('selection');
+      ungroupExercise(index);
+      closeAllMenus();
+    }
+  }, [sessionExercises, ungroupExercise, closeAllMenus]);
+
+  const handleRestTimePress = useCallback((exerciseName: string) => {
+    triggerHaptic('selection');
+    setRestPickerTargetName(exerciseName);
+    closeAllMenus();
+  }, [closeAllMenus]);
+
+  const handleRestTimeConfirm = useCallback((totalSeconds: number) => {
+    if (restPickerTargetName) {
+      setExerciseRestDuration(restPickerTargetName, totalSeconds);
+    }
+    setRestPickerTargetName(null);
+  }, [restPickerTargetName, setExerciseRestDuration]);
 
   const exerciseNames = useMemo(
     () => sessionExercises.map((exercise) => exercise.name),
@@ -742,6 +955,11 @@ const WorkoutSessionScreen: React.FC = () => {
     <View style={styles.listHeader}>
       <View style={[styles.headerCard, { backgroundColor: theme.surface.card, borderColor: theme.accent.orange }]}>
         <Text variant="heading2" color="primary">{sessionDisplayName}</Text>
+        {planWeek && (
+          <Text variant="bodySemibold" color={planWeek.isDeload ? 'secondary' : 'orange'}>
+            {formatPlanWeekLabel(planWeek)}
+          </Text>
+        )}
         <View style={styles.headerRow}>
           <View style={styles.headerStat}>
             <Text variant="label" color="secondary">
@@ -762,7 +980,7 @@ const WorkoutSessionScreen: React.FC = () => {
         <Text variant="heading3">Exercises</Text>
       </View>
     </View>
-  ), [sessionDisplayName, elapsedSeconds, exerciseCount, completedExercisesCount, theme]);
+  ), [sessionDisplayName, planWeek, elapsedSeconds, exerciseCount, completedExercisesCount, theme]);
 
   const tabBarBottomOffset = useMemo(() => insets.bottom + spacing.sm, [insets.bottom]);
   const tabBarMaskHeight = useMemo(
@@ -851,6 +1069,146 @@ const WorkoutSessionScreen: React.FC = () => {
     return null;
   }
 
+  const renderExerciseCard = (item: WorkoutExercise, index: number) => {
+    const totalSets = exerciseProgress[item.name]?.totalSets ?? item.sets.length;
+    const completedSets = exerciseProgress[item.name]?.completedSets ?? item.sets.filter((set: SetLog) => set.completed).length;
+    const isComplete = totalSets > 0 && completedSets === totalSets;
+    const isExpanded = expandedExercises.has(item.name);
+    const prescription = planWeek?.prescriptions[item.name];
+    const targets = exerciseTargets?.[item.name];
+
+    const badgeGradientColors: readonly [ColorValue, ColorValue] = [
+      theme.accent.gradientStart,
+      theme.accent.gradientEnd,
+    ];
+
+    const isMenuOpen = activeMenu?.type === 'exercise' && activeMenu.exerciseName === item.name;
+
+    return (
+      <View style={[styles.exerciseItem, isMenuOpen && styles.exerciseItemMenuActive]}>
+        <View style={[styles.exerciseCard, { backgroundColor: theme.surface.card, borderColor: theme.accent.orange }, isMenuOpen && styles.exerciseCardMenuActive]}>
+          <Pressable
+            style={[styles.exerciseHeader, { minHeight: spacing.md }]}
+            onPress={() => handleToggleExercise(item.name)}
+            hitSlop={spacing.sm}
+            pressRetentionOffset={{ top: spacing.sm, bottom: spacing.sm, left: spacing.sm, right: spacing.sm }}
+            android_ripple={{ color: colors.surface.subtle }}
+            accessibilityLabel={`Toggle exercise ${item.name}`}
+          >
+            <View style={styles.exerciseCardRow}>
+              <View style={styles.badgeContainer}>
+                {isComplete ? (
+                  <LinearGradient
+                    colors={badgeGradientColors}
+                    start={{ x: 0, y: 0 }}
+                    end={{ x: 1, y: 1 }}
+                    style={styles.badge}
+                  >
+                    <Text variant="bodySemibold" color="onAccent">
+                      {index + 1}
+                    </Text>
+                  </LinearGradient>
+                ) : (
+                  <View style={[styles.badgeNeutral, { backgroundColor: theme.surface.card, borderColor: theme.accent.orange }]}>
+                    <Text variant="bodySemibold" color="primary">
+                      {index + 1}
+                    </Text>
+                  </View>
+                )}
+                <View style={styles.cardBody}>
+                  <View style={styles.exerciseNameContainer}>
+                    <Text variant="bodySemibold">{item.name}</Text>
+                    {prescription ? (
+                      <Text variant="caption" color="tertiary">
+                        {formatWeekPrescription(prescription)}
+                      </Text>
+                    ) : targets ? (
+                      <Text variant="caption" color="tertiary">
+                        {formatExerciseTargets(targets, formatWeight)}
+                      </Text>
+                    ) : null}
+                  </View>
+                  <View style={styles.cardMeta}>
+                    <Text
+                      variant="bodySemibold"
+                      color="secondary"
+                      style={styles.completionText}
+                    >
+                      {`${completedSets}/${totalSets || 0}`}
+                    </Text>
+                    <Pressable
+                      style={styles.menuButton}
+                      onPress={(event) => {
+                        event.stopPropagation();
+                        if (isMenuOpen) {
+                          closeAllMenus();
+                        } else {
+                          const target = event.currentTarget as any;
+                          target.measure((x: number, y: number, width: number, height: number, pageX: number, pageY: number) => {
+                            openExerciseMenu(item.name, pageX, pageY, width, height);
+                          });
+                        }
+                      }}
+                    >
+                      <MaterialCommunityIcons
+                        name="dots-vertical"
+                        size={sizing.iconSM}
+                        color={theme.text.secondary}
+                      />
+                    </Pressable>
+                  </View>
+                </View>
+              </View>
+            </View>
+          </Pressable>
+
+          <View style={[styles.exerciseContent, !isExpanded && styles.exerciseContentHidden]} pointerEvents={isExpanded ? 'box-none' : 'none'}>
+            <ExerciseSetEditor
+              isExpanded={isExpanded}
+              embedded
+              exerciseName={item.name}
+              initialSets={item.sets}
+              onSetsChange={(updatedSets) => handleExerciseSetsChange(item.name, updatedSets)}
+              onProgressChange={(progress) => handleExerciseProgressChange(item.name, progress)}
+              exerciseType={catalogLookup.get(item.name)?.exerciseType || 'weight'}
+              distanceUnit={catalogLookup.get(item.name)?.distanceUnit}
+              historySetCount={sessionToDisplay?.historySetCounts?.[item.name] ?? 0}
+              supportsGpsTracking={catalogLookup.get(item.name)?.supportsGpsTracking ?? false}
+              suggestedSets={sessionToDisplay?.suggestedSets?.[item.name]}
+              exerciseEquipment={catalogLookup.get(item.name)?.equipment}
+              isCompound={catalogLookup.get(item.name)?.isCompound ?? false}
+              exerciseDataPoints={(sessionToDisplay as any)?.exerciseDataPoints?.[item.name] ?? []}
+              patternShiftCount={(sessionToDisplay as any)?.patternShiftCounts?.[item.name] ?? 0}
+              onPatternShift={() => useSessionStore.getState().incrementPatternShiftCount(item.name)}
+              exerciseRepRanges={(sessionToDisplay as any)?.exerciseRepRanges?.[item.name] ?? []}
+              onIntentShift={(intent: SessionRepIntent) => {
+                handleIntentShift(item.name, catalogLookup.get(item.name)?.isCompound ?? false, intent);
+              }}
+              onSetCompleted={(setIndex, completedSet) => {
+                handleSetPersonalRecordCheck(item.name, setIndex, completedSet);
+                return handleSetCompleted(item.name, completedSet);
+              }}
+              personalRecordSets={personalRecordSetsByExercise[item.name]}
+              activeSetMenuIndex={activeMenu?.type === 'set' && activeMenu.exerciseName === item.name ? activeMenu.setIndex : null}
+              onOpenSetMenu={(index) => handleOpenSetMenu(item.name, index)}
+              onCloseSetMenu={closeAllMenus}
+              onShowHistory={() => handleHistoryPress(item.name)}
+              onInputFocus={(inputY, inputHeight) => {
+                focusedInputYRef.current = inputY;
+                focusedInputHeightRef.current = inputHeight;
+              }}
+            />
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  const activeMenuIndex = activeMenu?.type === 'exercise'
+    ? sessionExercises.findIndex(e => e.name === activeMenu.exerciseName)
+    : -1;
+  const activeMenuBlock = activeMenuIndex >= 0 ? getExerciseBlockRange(sessionExercises, activeMenuIndex) : null;
+
   return (
     <View style={[styles.safeAreaRoot, { paddingTop: insets.top, backgroundColor: theme.surface.tint }]}>
       <StatusBar style={isDarkMode ? 'light' : 'dark'} backgroundColor="transparent" translucent />
@@ -858,10 +1216,18 @@ const WorkoutSessionScreen: React.FC = () => {
         {activeMenu?.type === 'exercise' ? (
           <Pressable style={styles.menuBackdrop} onPress={closeAllMenus} accessibilityLabel="Dismiss exercise menu" />
         ) : null}
+        {restTimer ? (
+          <RestTimerBar
+            exerciseName={restTimer.exerciseName}
+            remainingSeconds={restRemainingSeconds}
+            onAdjust={adjustRestTimer}
+            onSkip={clearRestTimer}
+          />
+        ) : null}
         <FlatList
           ref={exerciseListRef}
-          data={sessionExercises}
-          keyExtractor={(item) => item.name}
+          data={exerciseBlocks}
+          keyExtractor={(block) => block.exercises[0].name}
           style={[styles.list, { marginBottom: tabBarTopOffset }]}
           contentContainerStyle={listContentStyle}
           extraData={extraDataKey}
@@ -875,121 +1241,29 @@ const WorkoutSessionScreen: React.FC = () => {
           ListEmptyComponent={listEmptyComponent}
           ListFooterComponent={listFooterComponent}
           ItemSeparatorComponent={renderExerciseSeparator}
-          renderItem={({ item, index }) => {
-            const totalSets = exerciseProgress[item.name]?.totalSets ?? item.sets.length;
-            const completedSets = exerciseProgress[item.name]?.completedSets ?? item.sets.filter((set: SetLog) => set.completed).length;
-            const isComplete = totalSets > 0 && completedSets === totalSets;
-            const isExpanded = expandedExercises.has(item.name);
+          renderItem={({ item: block }) => {
+            const [firstExercise] = block.exercises;
 
-            const badgeGradientColors: readonly [ColorValue, ColorValue] = [
-              theme.accent.gradientStart,
-              theme.accent.gradientEnd,
-            ];
+            if (!block.groupId) {
+              return renderExerciseCard(firstExercise, block.startIndex);
+            }
 
-            const isMenuOpen = activeMenu?.type === 'exercise' && activeMenu.exerciseName === item.name;
+            const isMenuOpenInGroup = activeMenu?.type === 'exercise'
+              && block.exercises.some((exercise) => exercise.name === activeMenu.exerciseName);
 
             return (
-              <View style={[styles.exerciseItem, isMenuOpen && styles.exerciseItemMenuActive]}>
-                <View style={[styles.exerciseCard, { backgroundColor: theme.surface.card, borderColor: theme.accent.orange }, isMenuOpen && styles.exerciseCardMenuActive]}>
-                  <Pressable
-                    style={[styles.exerciseHeader, { minHeight: spacing.md }]}
-                    onPress={() => handleToggleExercise(item.name)}
-                    hitSlop={spacing.sm}
-                    pressRetentionOffset={{ top: spacing.sm, bottom: spacing.sm, left: spacing.sm, right: spacing.sm }}
-                    android_ripple={{ color: colors.surface.subtle }}
-                    accessibilityLabel={`Toggle exercise ${item.name}`}
-                  >
-                    <View style={styles.exerciseCardRow}>
-                      <View style={styles.badgeContainer}>
-                        {isComplete ? (
-                          <LinearGradient
-                            colors={badgeGradientColors}
-                            start={{ x: 0, y: 0 }}
-                            end={{ x: 1, y: 1 }}
-                            style={styles.badge}
-                          >
-                            <Text variant="bodySemibold" color="onAccent">
-                              {index + 1}
-                            </Text>
-                          </LinearGradient>
-                        ) : (
-                          <View style={[styles.badgeNeutral, { backgroundColor: theme.surface.card, borderColor: theme.accent.orange }]}>
-                            <Text variant="bodySemibold" color="primary">
-                              {index + 1}
-                            </Text>
-                          </View>
-                        )}
-                        <View style={styles.cardBody}>
-                          <View style={styles.exerciseNameContainer}>
-                            <Text variant="bodySemibold">{item.name}</Text>
-                          </View>
-                          <View style={styles.cardMeta}>
-                            <Text
-                              variant="bodySemibold"
-                              color="secondary"
-                              style={styles.completionText}
-                            >
-                              {`${completedSets}/${totalSets || 0}`}
-                            </Text>
-                            <Pressable
-                              style={styles.menuButton}
-                              onPress={(event) => {
-                                event.stopPropagation();
-                                if (isMenuOpen) {
-                                  closeAllMenus();
-                                } else {
-                                  const target = event.currentTarget as any;
-                                  target.measure((x: number, y: number, width: number, height: number, pageX: number, pageY: number) => {
-                                    openExerciseMenu(item.name, pageX, pageY, width, height);
-                                  });
-                                }
-                              }}
-                            >
-                              <MaterialCommunityIcons
-                                name="dots-vertical"
-                                size={sizing.iconSM}
-                                color={theme.text.secondary}
-                              />
-                            </Pressable>
-                          </View>
-                        </View>
-                      </View>
-                    </View>
-                  </Pressable>
-
-                  <View style={[styles.exerciseContent, !isExpanded && styles.exerciseContentHidden]} pointerEvents={isExpanded ? 'box-none' : 'none'}>
-                    <ExerciseSetEditor
-                      isExpanded={isExpanded}
-                      embedded
-                      exerciseName={item.name}
-                      initialSets={item.sets}
-                      onSetsChange={(updatedSets) => handleExerciseSetsChange(item.name, updatedSets)}
-                      onProgressChange={(progress) => handleExerciseProgressChange(item.name, progress)}
-                      exerciseType={catalogLookup.get(item.name)?.exerciseType || 'weight'}
-                      distanceUnit={catalogLookup.get(item.name)?.distanceUnit}
-                      historySetCount={sessionToDisplay?.historySetCounts?.[item.name] ?? 0}
-                      supportsGpsTracking={catalogLookup.get(item.name)?.supportsGpsTracking ?? false}
-                      suggestedSets={sessionToDisplay?.suggestedSets?.[item.name]}
-                      exerciseEquipment={catalogLookup.get(item.name)?.equipment}
-                      isCompound={catalogLookup.get(item.name)?.isCompound ?? false}
-                      exerciseDataPoints={(sessionToDisplay as any)?.exerciseDataPoints?.[item.name] ?? []}
-                      patternShiftCount={(sessionToDisplay as any)?.patternShiftCounts?.[item.name] ?? 0}
-                      onPatternShift={() => useSessionStore.getState().incrementPatternShiftCount(item.name)}
-                      exerciseRepRanges={(sessionToDisplay as any)?.exerciseRepRanges?.[item.name] ?? []}
-                      onIntentShift={(intent: SessionRepIntent) => {
-                        handleIntentShift(item.name, catalogLookup.get(item.name)?.isCompound ?? false, intent);
-                      }}
-                      activeSetMenuIndex={activeMenu?.type === 'set' && activeMenu.exerciseName === item.name ? activeMenu.setIndex : null}
-                      onOpenSetMenu={(index) => handleOpenSetMenu(item.name, index)}
-                      onCloseSetMenu={closeAllMenus}
-                      onShowHistory={() => handleHistoryPress(item.name)}
-                      onInputFocus={(inputY, inputHeight) => {
-                        focusedInputYRef.current = inputY;
-                        focusedInputHeightRef.current = inputHeight;
-                      }}
-                    />
-                  </View>
+              <View style={[styles.exerciseGroup, { borderColor: theme.accent.orange }, isMenuOpenInGroup && styles.exerciseItemMenuActive]}>
+                <View style={styles.exerciseGroupHeader}>
+                  <MaterialCommunityIcons name="link-variant" size={sizing.iconSM} color={theme.accent.orange} />
+                  <Text variant="label" color="secondary">
+                    {getExerciseGroupLabel(block.exercises.length)}
+                  </Text>
                 </View>
+                {block.exercises.map((exercise, offset) => (
+                  <React.Fragment key={exercise.name}>
+                    {renderExerciseCard(exercise, block.startIndex + offset)}
+                  </React.Fragment>
+                ))}
               </View>
             );
           }}
@@ -1093,7 +1367,7 @@ const WorkoutSessionScreen: React.FC = () => {
       {/* Render menu at root level for reliable touch handling */}
       {activeMenu?.type === 'exercise' && (
         <View style={[styles.menuPopover, { top: menuPosition.top, right: menuPosition.right, backgroundColor: theme.surface.card, borderColor: theme.accent.orange }]} pointerEvents="auto">
-          {sessionExercises.findIndex(e => e.name === activeMenu.exerciseName) > 0 && (
+          {activeMenuIndex > 0 && (
             <Pressable
               style={styles.menuPopoverItem}
               onPress={() => handleMoveExerciseUp(activeMenu.exerciseName)}
@@ -1102,7 +1376,7 @@ const WorkoutSessionScreen: React.FC = () => {
               <Text variant="body">Move Up</Text>
             </Pressable>
           )}
-          {sessionExercises.findIndex(e => e.name === activeMenu.exerciseName) < sessionExercises.length - 1 && (
+          {activeMenuIndex < sessionExercises.length - 1 && (
             <Pressable
               style={styles.menuPopoverItem}
               onPress={() => handleMoveExerciseDown(activeMenu.exerciseName)}
@@ -1111,6 +1385,31 @@ const WorkoutSessionScreen: React.FC = () => {
               <Text variant="body">Move Down</Text>
             </Pressable>
           )}
+          {activeMenuBlock && activeMenuBlock.end < sessionExercises.length - 1 && (
+            <Pressable
+              style={styles.menuPopoverItem}
+              onPress={() => handleGroupWithNext(activeMenu.exerciseName)}
+            >
+              <MaterialCommunityIcons name="link-variant" size={sizing.iconSM} color={theme.text.primary} style={{ marginRight: spacing.xs }} />
+              <Text variant="body">Group with Next</Text>
+            </Pressable>
+          )}
+          {activeMenuBlock && activeMenuBlock.end > activeMenuBlock.start && (
+            <Pressable
+              style={styles.menuPopoverItem}
+              onPress={() => handleUngroupExercise(activeMenu.exerciseName)}
+            >
+              <MaterialCommunityIcons name="link-variant-off" size={sizing.iconSM} color={theme.text.primary} style={{ marginRight: spacing.xs }} />
+              <Text variant="body">Ungroup</Text>
+            </Pressable>
+          )}
+          <Pressable
+            style={styles.menuPopoverItem}
+            onPress={() => handleRestTimePress(activeMenu.exerciseName)}
+          >
+            <MaterialCommunityIcons name="timer-outline" size={sizing.iconSM} color={theme.text.primary} style={{ marginRight: spacing.xs }} />
+            <Text variant="body">Rest Time</Text>
+          </Pressable>
           <Pressable
             style={styles.menuPopoverItem}
             onPress={() => {
@@ -1119,6 +1418,15 @@ const WorkoutSessionScreen: React.FC = () => {
           >
             <Text variant="body">History</Text>
           </Pressable>
+          <Pressable
+            style={styles.menuPopoverItem}
+            onPress={() => {
+              handleSwapExercisePress(activeMenu.exerciseName);
+            }}
+          >
+            <MaterialCommunityIcons name="swap-horizontal" size={sizing.iconSM} color={theme.text.primary} style={{ marginRight: spacing.xs }} />
+            <Text variant="body">Swap</Text>
+          </Pressable>
           <Pressable
             style={styles.menuPopoverItem}
             onPress={() => {
@@ -1143,6 +1451,23 @@ const WorkoutSessionScreen: React.FC = () => {
         exerciseName={historyTargetName}
         exerciseType={exerciseCatalog.find(e => e.name === historyTargetName)?.exerciseType}
       />
+      <ExerciseSwapModal
+        visible={!!swapTargetName}
+        exerciseName={swapTargetName}
+        excludeNames={exerciseNames}
+        onClose={() => setSwapTargetName(null)}
+        onSelect={handleSelectSwap}
+      />
+      <TimePickerModal
+        visible={!!restPickerTargetName}
+        onClose={() => setRestPickerTargetName(null)}
+        onConfirm={handleRestTimeConfirm}
+        initialSeconds={restPickerTargetName
+          ? exerciseRestDurations[restPickerTargetName]
+            ?? exerciseTargets?.[restPickerTargetName]?.restSeconds
+            ?? useSettingsStore.getState().restDurations.working
+          : 0}
+      />
       <FinishConfirmationModal
         visible={finishModalVisible}
         onClose={() => setFinishModalVisible(false)}
@@ -1238,6 +1563,21 @@ const styles = StyleSheet.create({
   exerciseCardMenuActive: {
     elevation: 11, // Ensure card is above item
   },
+  exerciseGroup: {
+    gap: spacing.sm,
+    padding: spacing.xs,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    overflow: 'visible',
+  },
+  exerciseGroupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    paddingTop: spacing.xs,
+  },
   exerciseCardRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -21,9 +21,15 @@ import { Text } from '@/components/atoms/Text';
 import { springGentle } from '@/constants/animations';
 import { colors, radius, sizing, spacing } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
+import { useSessionStore } from '@/store/sessionStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { SET_PERSONAL_RECORD_LABELS } from '@/types/personalRecords';
 
 const AnimatedCircle = Animated.createAnimatedComponent(Circle);
 
+// Extra time on screen when there are personal records to read
+const PERSONAL_RECORD_HOLD_MS = 2500;
+
 const WorkoutSuccessScreen: React.FC = () => {
   const { theme } = useTheme();
   const router = useRouter();
@@ -31,10 +37,15 @@ const WorkoutSuccessScreen: React.FC = () => {
   const opacity = useSharedValue(0);
   const ringProgress = useSharedValue(0);
   const insets = useSafeAreaInsets();
+  const personalRecords = useSessionStore((state) => state.lastSessionPersonalRecords);
+  const setLastSessionPersonalRecords = useSessionStore((state) => state.setLastSessionPersonalRecords);
+  const { formatWeight } = useSettingsStore();
+  const holdMs = personalRecords.length > 0 ? PERSONAL_RECORD_HOLD_MS : 0;
 
   const navigateHome = useCallback(() => {
     router.replace('/(tabs)');
-  }, [router]);
+    setLastSessionPersonalRecords([]);
+  }, [router, setLastSessionPersonalRecords]);
 
   const { circumference, radiusValue } = useMemo(() => {
     const ringRadius = sizing.iconXL / 2;
@@ -55,7 +66,7 @@ const WorkoutSuccessScreen: React.FC = () => {
 
       opacity.value = withSpring(1, springGentle);
       scale.value = withSpring(1, springGentle);
-      ringProgress.value = withDelay(400, withTiming(1, {
+      ringProgress.value = withDelay(400 + holdMs, withTiming(1, {
         duration: 900,
         easing: Easing.inOut(Easing.linear),
       }, (finished) => {
@@ -67,10 +78,10 @@ const WorkoutSuccessScreen: React.FC = () => {
       // Safety fallback: Ensure we navigate home even if animation is interrupted
       const timer = setTimeout(() => {
         navigateHome();
-      }, 1600);
+      }, 1600 + holdMs);
 
       return () => clearTimeout(timer);
-    }, [navigateHome, opacity, ringProgress, scale])
+    }, [holdMs, navigateHome, opacity, ringProgress, scale])
   );
 
   const cardAnimatedStyle = useAnimatedStyle(() => ({
@@ -112,6 +123,26 @@ const WorkoutSuccessScreen: React.FC = () => {
             style={styles.checkIcon}
           />
         </View>
+        {personalRecords.length > 0 ? (
+          <View style={[styles.recordsCard, { backgroundColor: theme.surface.card, borderColor: theme.border.light }]}>
+            <View style={styles.recordsHeader}>
+              <MaterialCommunityIcons name="trophy" size={sizing.iconSM} color={theme.accent.orange} />
+              <Text variant="bodySemibold" color="primary">
+                {personalRecords.length === 1 ? 'New Personal Record' : `${personalRecords.length} New Personal Records`}
+              </Text>
+            </View>
+            {personalRecords.map((record) => (
+              <View key={`${record.exerciseName}-${record.setIndex}`} style={styles.recordRow}>
+                <Text variant="body" color="primary" numberOfLines={1}>
+                  {`${record.exerciseName} · ${formatWeight(record.weight)} × ${record.reps}`}
+                </Text>
+                <Text variant="caption" color="secondary">
+                  {record.types.map((type) => SET_PERSONAL_RECORD_LABELS[type]).join(' · ')}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ) : null}
       </Animated.View>
     </View>
   );
@@ -147,6 +178,21 @@ const styles = StyleSheet.create({
   checkIcon: {
     position: 'absolute',
   },
+  recordsCard: {
+    width: '100%',
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    padding: spacing.md,
+    gap: spacing.sm,
+  },
+  recordsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  recordRow: {
+    gap: spacing.xxs,
+  },
 });
 
 export default WorkoutSuccessScreen;
@@ -0,0 +1,44 @@
+-- BODY METRICS TABLE
+-- Dated log of bodyweight, body-fat % and circumference measurements
+-- These entries:
+-- - Are user-specific (one entry per user per day)
+-- - Store weight in lbs and circumferences in inches, converted for display in the app
+-- - Let bodyweight exercise volume use the weight in effect on each workout's date
+-- - Persist across app sessions
+
+create table public.body_metrics (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  entry_date date not null,
+  weight_lbs numeric check (weight_lbs > 0),
+  body_fat_percent numeric check (body_fat_percent > 0 and body_fat_percent < 100),
+  -- Circumferences in inches keyed by site, e.g. {"waist": 32.5, "chest": 40}
+  measurements jsonb default '{}'::jsonb not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  -- Logging the same day again updates that day's entry
+  unique(user_id, entry_date)
+);
+
+-- RLS for Body Metrics
+alter table public.body_metrics enable row level security;
+
+create policy "Users can view own body metrics."
+  on body_metrics for select
+  using ( auth.uid() = user_id );
+
+create policy "Users can insert own body metrics."
+  on body_metrics for insert
+  with check ( auth.uid() = user_id );
+
+create policy "Users can update own body metrics."
+  on body_metrics for update
+  using ( auth.uid() = user_id );
+
+create policy "Users can delete own body metrics."
+  on body_metrics for delete
+  using ( auth.uid() = user_id );
+
+-- Create index for date-ordered lookups by user
+create index body_metrics_user_date_idx on public.body_metrics(user_id, entry_date desc);
@@ -0,0 +1,43 @@
+-- Realtime multi-device sync
+-- Streams row changes to every signed-in device, and shares the in-progress workout
+-- so a session started on one device can be continued on another.
+
+-- In-progress workout, one row per user, owned by the device that last touched it
+create table if not exists public.active_sessions (
+  user_id uuid references public.profiles(id) on delete cascade primary key,
+  device_id text not null,
+  session jsonb not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- RLS for Active Sessions
+alter table public.active_sessions enable row level security;
+
+create policy "Users can view own active session."
+  on active_sessions for select
+  using ( auth.uid() = user_id );
+
+create policy "Users can insert own active session."
+  on active_sessions for insert
+  with check ( auth.uid() = user_id );
+
+create policy "Users can update own active session."
+  on active_sessions for update
+  using ( auth.uid() = user_id );
+
+create policy "Users can delete own active session."
+  on active_sessions for delete
+  using ( auth.uid() = user_id );
+
+-- Delete events can't be filtered and, with RLS on, only carry the primary key
+-- whatever the replica identity, so clients match deletes by ID and re-check on focus
+
+-- Publish changes to Supabase Realtime
+alter publication supabase_realtime add table
+  public.workout_sessions,
+  public.workout_templates,
+  public.plans,
+  public.plan_workouts,
+  public.schedules,
+  public.custom_exercises,
+  public.active_sessions;
@@ -27,6 +27,8 @@ interface CalendarDayCellProps {
   isSelected: boolean;
   /** Whether the day has a marker (e.g. workout logged) */
   hasMarker?: boolean;
+  /** Whether the day is highlighted (e.g. part of a deload week) */
+  isHighlighted?: boolean;
   /** Callback fired when the user selects the day */
   onSelect: (isoDate: string) => void;
   /** Optional long press handler for contextual actions */
@@ -40,6 +42,7 @@ export const CalendarDayCell: React.FC<CalendarDayCellProps> = ({
   isToday,
   isSelected,
   hasMarker = false,
+  isHighlighted = false,
   onSelect,
   onLongPress,
 }) => {
@@ -126,6 +129,14 @@ export const CalendarDayCell: React.FC<CalendarDayCellProps> = ({
       >
         {dayLabel}
       </Text>
+      {isHighlighted ? (
+        <View
+          style={[
+            styles.highlightBar,
+            { backgroundColor: showMarkerFill ? theme.text.onAccent : theme.accent.info },
+          ]}
+        />
+      ) : null}
     </View>
   );
 
@@ -171,6 +182,13 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     overflow: 'hidden',
   },
+  highlightBar: {
+    position: 'absolute',
+    bottom: spacing.xs,
+    width: spacing.md,
+    height: 3,
+    borderRadius: radius.full,
+  },
   outsideMonthDay: {
     opacity: opacity.tertiary,
   },
@@ -0,0 +1,148 @@
+/**
+ * BodyMetricTrendChart
+ * Line chart of one body metric (weight, body-fat % or a circumference) across logged days.
+ * Values arrive already converted to the user's display unit.
+ */
+
+import React, { useMemo } from 'react';
+import { View, StyleSheet, Dimensions } from 'react-native';
+import { VictoryChart, VictoryLine, VictoryAxis, VictoryTheme, VictoryScatter } from 'victory-native';
+
+import { Text } from '@/components/atoms/Text';
+import { radius, spacing } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+import { parseLocalISODate } from '@/utils/date';
+
+const SCREEN_WIDTH = Dimensions.get('window').width;
+const CHART_WIDTH = SCREEN_WIDTH - spacing.md * 2 - spacing.lg * 2 - spacing.md * 2;
+const CHART_HEIGHT = 180;
+
+export interface BodyMetricPoint {
+  /** Local day in YYYY-MM-DD format */
+  date: string;
+  value: number;
+}
+
+interface BodyMetricTrendChartProps {
+  title: string;
+  /** Logged days in chronological order */
+  points: BodyMetricPoint[];
+  formatValue: (value: number) => string;
+}
+
+const formatTickDate = (date: string): string => {
+  return parseLocalISODate(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+export const BodyMetricTrendChart: React.FC<BodyMetricTrendChartProps> = ({ title, points, formatValue }) => {
+  const { theme } = useTheme();
+
+  const chartData = useMemo(
+    () => points.map((point, index) => ({ x: index + 1, y: point.value })),
+    [points],
+  );
+
+  const yDomain = useMemo((): [number, number] => {
+    const values = chartData.map((point) => point.y);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    // Pad so a flat line still sits mid-chart
+    const padding = Math.max((max - min) * 0.15, max * 0.02, 0.5);
+    return [Math.max(0, min - padding), max + padding];
+  }, [chartData]);
+
+  const latest = points[points.length - 1];
+  const change = points.length > 1 ? latest.value - points[0].value : null;
+  const xTickValues = chartData.length > 1 ? [1, chartData.length] : [1];
+
+  return (
+    <View style={[styles.container, { borderColor: theme.border.light }]}>
+      <View style={styles.header}>
+        <View>
+          <Text variant="bodySemibold" color="primary">
+            {title}
+          </Text>
+          {change !== null && (
+            <Text variant="caption" color="tertiary">
+              {`${change >= 0 ? '+' : '−'}${formatValue(Math.abs(change))} since ${formatTickDate(points[0].date)}`}
+            </Text>
+          )}
+        </View>
+        {latest && (
+          <View style={styles.latestValue}>
+            <Text variant="heading3" color="orange">
+              {formatValue(latest.value)}
+            </Text>
+            <Text variant="captionSmall" color="tertiary">
+              latest
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {chartData.length < 2 ? (
+        <Text variant="caption" color="secondary" style={styles.hint}>
+          {chartData.length === 0 ? 'Nothing logged yet.' : 'Log another day to see your trend.'}
+        </Text>
+      ) : (
+        <VictoryChart
+          theme={VictoryTheme.material}
+          padding={{ top: 16, bottom: 32, left: 16, right: 24 }}
+          height={CHART_HEIGHT}
+          width={CHART_WIDTH}
+          domain={{ x: [0.8, chartData.length + 0.2], y: yDomain }}
+        >
+          <VictoryAxis
+            tickValues={xTickValues}
+            tickFormat={(t) => formatTickDate(points[t - 1]?.date ?? '')}
+            style={{
+              axis: { stroke: theme.border.light, strokeWidth: 1 },
+              tickLabels: { fill: theme.text.secondary, fontSize: 9, padding: 5 },
+              grid: { stroke: 'none' },
+            }}
+          />
+          <VictoryAxis
+            dependentAxis
+            tickFormat={() => ''}
+            style={{
+              axis: { stroke: 'none' },
+              ticks: { stroke: 'none' },
+              tickLabels: { fill: 'transparent' },
+              grid: { stroke: theme.border.light, strokeWidth: 1, strokeDasharray: '4, 4' },
+            }}
+          />
+          <VictoryLine
+            data={chartData}
+            style={{ data: { stroke: theme.accent.orange, strokeWidth: 3 } }}
+            interpolation="monotoneX"
+          />
+          <VictoryScatter
+            data={chartData}
+            size={3}
+            style={{ data: { fill: theme.accent.orange } }}
+          />
+        </VictoryChart>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: spacing.md,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    gap: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  latestValue: {
+    alignItems: 'flex-end',
+  },
+  hint: {
+    paddingVertical: spacing.sm,
+  },
+});
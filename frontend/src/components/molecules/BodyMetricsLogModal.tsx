@@ -0,0 +1,265 @@
+/**
+ * BodyMetricsLogModal
+ * Sheet for logging a day's weight, body-fat % and circumference measurements.
+ * Inputs use the user's weight and size units; values are converted to lbs and inches on save.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Text } from '@/components/atoms/Text';
+import { Button } from '@/components/atoms/Button';
+import { SheetModal } from '@/components/molecules/SheetModal';
+import { radius, spacing } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+import { useSettingsStore } from '@/store/settingsStore';
+import { BODY_MEASUREMENT_LABELS, BODY_MEASUREMENT_SITES } from '@/types/bodyMetrics';
+import type { BodyMeasurementSite, BodyMeasurements, BodyMetricEntry, BodyMetricEntryInput } from '@/types/bodyMetrics';
+import { convertInchesToSizeUnit, convertSizeUnitToInches } from '@/utils/bodyMetrics';
+import { formatDateToLocalISO, getTodayLocalISO, parseLocalISODate } from '@/utils/date';
+import { triggerHaptic } from '@/utils/haptics';
+
+interface BodyMetricsLogModalProps {
+  visible: boolean;
+  /** Existing entries, used to prefill the form when the selected day was already logged */
+  entries: BodyMetricEntry[];
+  /** Day to open on; defaults to today */
+  initialDate?: string;
+  onClose: () => void;
+  onSave: (input: BodyMetricEntryInput) => void;
+}
+
+type MeasurementInputs = Partial<Record<BodyMeasurementSite, string>>;
+
+/** Keeps digits and a single decimal point */
+const sanitizeDecimal = (text: string): string => {
+  const cleaned = text.replace(/[^0-9.]/g, '');
+  const [whole, ...rest] = cleaned.split('.');
+  return rest.length > 0 ? `${whole}.${rest.join('')}` : whole;
+};
+
+const parsePositive = (text: string | undefined): number | null => {
+  const value = parseFloat(text ?? '');
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+const shiftDay = (date: string, days: number): string => {
+  const next = parseLocalISODate(date);
+  next.setDate(next.getDate() + days);
+  return formatDateToLocalISO(next);
+};
+
+export const BodyMetricsLogModal: React.FC<BodyMetricsLogModalProps> = ({
+  visible,
+  entries,
+  initialDate,
+  onClose,
+  onSave,
+}) => {
+  const { theme } = useTheme();
+  const { weightUnit, sizeUnit, convertWeight, convertWeightToLbs } = useSettingsStore();
+  const [date, setDate] = useState(getTodayLocalISO());
+  const [weightInput, setWeightInput] = useState('');
+  const [bodyFatInput, setBodyFatInput] = useState('');
+  const [measurementInputs, setMeasurementInputs] = useState<MeasurementInputs>({});
+
+  const today = getTodayLocalISO();
+  const existing = useMemo(() => entries.find((entry) => entry.date === date), [entries, date]);
+
+  useEffect(() => {
+    if (visible) {
+      setDate(initialDate ?? getTodayLocalISO());
+    }
+  }, [visible, initialDate]);
+
+  // Prefill from the selected day's entry so editing a day keeps what was logged
+  useEffect(() => {
+    if (!visible) return;
+
+    setWeightInput(existing?.weightLbs ? String(convertWeight(existing.weightLbs)) : '');
+    setBodyFatInput(existing?.bodyFatPercent ? String(existing.bodyFatPercent) : '');
+
+    const inputs: MeasurementInputs = {};
+    BODY_MEASUREMENT_SITES.forEach((site) => {
+      const inches = existing?.measurements[site];
+      if (inches) {
+        inputs[site] = String(convertInchesToSizeUnit(inches, sizeUnit));
+      }
+    });
+    setMeasurementInputs(inputs);
+  }, [visible, existing, convertWeight, sizeUnit]);
+
+  const handleShiftDate = useCallback((days: number) => {
+    triggerHaptic('selection');
+    setDate((current) => {
+      const next = shiftDay(current, days);
+      return next > today ? current : next;
+    });
+  }, [today]);
+
+  const handleMeasurementChange = useCallback((site: BodyMeasurementSite, text: string) => {
+    setMeasurementInputs((current) => ({ ...current, [site]: sanitizeDecimal(text) }));
+  }, []);
+
+  const weight = parsePositive(weightInput);
+  const bodyFat = parsePositive(bodyFatInput);
+  const measurements = useMemo(() => {
+    const result: BodyMeasurements = {};
+    BODY_MEASUREMENT_SITES.forEach((site) => {
+      const value = parsePositive(measurementInputs[site]);
+      if (value !== null) {
+        result[site] = Math.round(convertSizeUnitToInches(value, sizeUnit) * 100) / 100;
+      }
+    });
+    return result;
+  }, [measurementInputs, sizeUnit]);
+
+  const hasValues = weight !== null || (bodyFat !== null && bodyFat < 100) || Object.keys(measurements).length > 0;
+
+  const handleSave = useCallback(() => {
+    triggerHaptic('success');
+    onSave({
+      date,
+      weightLbs: weight !== null ? convertWeightToLbs(weight) : null,
+      bodyFatPercent: bodyFat !== null && bodyFat < 100 ? bodyFat : null,
+      measurements,
+    });
+    onClose();
+  }, [date, weight, bodyFat, measurements, convertWeightToLbs, onSave, onClose]);
+
+  const inputStyle = [
+    styles.input,
+    { backgroundColor: theme.primary.bg, borderColor: theme.border.medium, color: theme.text.primary },
+  ];
+
+  const renderField = (
+    label: string,
+    unit: string,
+    value: string,
+    onChangeText: (text: string) => void,
+  ) => (
+    <View key={label} style={styles.fieldRow}>
+      <Text variant="body" color="primary" style={styles.fieldLabel}>
+        {label}
+      </Text>
+      <TextInput
+        value={value}
+        onChangeText={onChangeText}
+        placeholder="—"
+        placeholderTextColor={theme.text.tertiary}
+        keyboardType="decimal-pad"
+        style={inputStyle}
+        cursorColor={theme.accent.primary}
+        selectionColor={theme.accent.orangeLight}
+        maxLength={6}
+      />
+      <Text variant="body" color="secondary" style={styles.unitLabel}>
+        {unit}
+      </Text>
+    </View>
+  );
+
+  return (
+    <SheetModal
+      visible={visible}
+      onClose={onClose}
+      title="Log Body Metrics"
+      headerContent={
+        <View style={styles.dateRow}>
+          <TouchableOpacity onPress={() => handleShiftDate(-1)} style={styles.dateButton}>
+            <Ionicons name="chevron-back" size={20} color={theme.text.primary} />
+          </TouchableOpacity>
+          <Text variant="bodySemibold" color="primary">
+            {date === today
+              ? 'Today'
+              : parseLocalISODate(date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+          </Text>
+          <TouchableOpacity
+            onPress={() => handleShiftDate(1)}
+            disabled={date >= today}
+            style={[styles.dateButton, date >= today && styles.disabled]}
+          >
+            <Ionicons name="chevron-forward" size={20} color={theme.text.primary} />
+          </TouchableOpacity>
+        </View>
+      }
+    >
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text variant="heading3" color="primary">
+          Body
+        </Text>
+        {renderField('Weight', weightUnit === 'kg' ? 'kg' : 'lbs', weightInput, (text) => setWeightInput(sanitizeDecimal(text)))}
+        {renderField('Body Fat', '%', bodyFatInput, (text) => setBodyFatInput(sanitizeDecimal(text)))}
+
+        <Text variant="heading3" color="primary" style={styles.sectionTitle}>
+          Measurements
+        </Text>
+        {BODY_MEASUREMENT_SITES.map((site) =>
+          renderField(
+            BODY_MEASUREMENT_LABELS[site],
+            sizeUnit,
+            measurementInputs[site] ?? '',
+            (text) => handleMeasurementChange(site, text),
+          ),
+        )}
+
+        <Button
+          label={existing ? 'Update Entry' : 'Save Entry'}
+          variant="primary"
+          onPress={handleSave}
+          disabled={!hasValues}
+          style={styles.saveButton}
+        />
+      </ScrollView>
+    </SheetModal>
+  );
+};
+
+const styles = StyleSheet.create({
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: spacing.sm,
+  },
+  dateButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabled: {
+    opacity: 0.3,
+  },
+  content: {
+    paddingBottom: spacing['2xl'],
+    gap: spacing.sm,
+  },
+  sectionTitle: {
+    marginTop: spacing.md,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  fieldLabel: {
+    flex: 1,
+  },
+  input: {
+    width: 96,
+    height: 44,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    paddingHorizontal: spacing.md,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  unitLabel: {
+    minWidth: 28,
+  },
+  saveButton: {
+    marginTop: spacing.lg,
+  },
+});
@@ -1,7 +1,8 @@
 /**
  * CompactExerciseRow
  * A clean, spacious exercise row for workout builders.
- * Features drag handle for reordering and simple delete action.
+ * Features drag handle for reordering and simple delete action, plus an optional
+ * tappable subtitle (e.g. the exercise's set targets).
  */
 import React, { useCallback } from 'react';
 import { Pressable, StyleSheet, View } from 'react-native';
@@ -21,6 +22,10 @@ interface CompactExerciseRowProps {
   onMoveUp?: (index: number) => void;
   onMoveDown?: (index: number) => void;
   showReorderControls?: boolean;
+  /** Secondary line under the name */
+  subtitle?: string;
+  /** Makes the name area tappable */
+  onPress?: (index: number) => void;
 }
 
 export const CompactExerciseRow: React.FC<CompactExerciseRowProps> = React.memo(({
@@ -31,6 +36,8 @@ export const CompactExerciseRow: React.FC<CompactExerciseRowProps> = React.memo(
   onMoveUp,
   onMoveDown,
   showReorderControls = true,
+  subtitle,
+  onPress,
 }) => {
   const { theme } = useTheme();
   const isFirst = index === 0;
@@ -55,6 +62,13 @@ export const CompactExerciseRow: React.FC<CompactExerciseRowProps> = React.memo(
     }
   }, [index, isLast, onMoveDown]);
 
+  const handlePress = useCallback(() => {
+    if (onPress) {
+      triggerHaptic('selection');
+      onPress(index);
+    }
+  }, [index, onPress]);
+
   return (
     <View style={[styles.container, { backgroundColor: theme.surface.elevated, borderColor: theme.border.light }]}>
       {/* Drag Handle / Reorder Area */}
@@ -94,7 +108,12 @@ export const CompactExerciseRow: React.FC<CompactExerciseRowProps> = React.memo(
       )}
 
       {/* Exercise Name */}
-      <View style={styles.nameContainer}>
+      <Pressable
+        onPress={handlePress}
+        disabled={!onPress}
+        style={styles.nameContainer}
+        accessibilityRole={onPress ? 'button' : undefined}
+      >
         <Text
           variant="body"
           color="primary"
@@ -102,7 +121,12 @@ export const CompactExerciseRow: React.FC<CompactExerciseRowProps> = React.memo(
         >
           {exercise.name}
         </Text>
-      </View>
+        {subtitle ? (
+          <Text variant="caption" color="secondary" numberOfLines={2}>
+            {subtitle}
+          </Text>
+        ) : null}
+      </Pressable>
 
       {/* Delete Button */}
       <Pressable
@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { Modal, Pressable, StyleSheet, View } from 'react-native';
+
+import { Button } from '@/components/atoms/Button';
+import { SurfaceCard } from '@/components/atoms/SurfaceCard';
+import { Text } from '@/components/atoms/Text';
+import { spacing } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+
+interface ContinueSessionModalProps {
+  visible: boolean;
+  sessionName: string;
+  elapsedMinutes: number;
+  onContinue: () => void;
+  onDismiss: () => void;
+}
+
+/** Offers to pick up a workout that is in progress on another device */
+export const ContinueSessionModal: React.FC<ContinueSessionModalProps> = ({
+  visible,
+  sessionName,
+  elapsedMinutes,
+  onContinue,
+  onDismiss,
+}): React.ReactElement => {
+  const { theme } = useTheme();
+
+  const elapsedLabel = useMemo(() => {
+    const minutes = Math.max(elapsedMinutes, 0);
+    return minutes === 1 ? '1 min' : `${minutes} min`;
+  }, [elapsedMinutes]);
+
+  return (
+    <Modal transparent visible={visible} animationType="fade" onRequestClose={onDismiss}>
+      <Pressable style={[styles.backdrop, { backgroundColor: theme.overlay.scrim }]} onPress={onDismiss}>
+        <Pressable style={styles.dialogPressable} onPress={() => undefined}>
+          <SurfaceCard tone="card" padding="xl" showAccentStripe={false} style={styles.card}>
+            <View style={styles.header}>
+              <Text variant="heading3" color="primary" style={styles.textCentered}>
+                Workout on Another Device
+              </Text>
+              <Text variant="body" color="secondary" style={styles.textCentered}>
+                &quot;{sessionName}&quot; is in progress on another device ({elapsedLabel} elapsed).
+                Continuing here moves it to this device.
+              </Text>
+            </View>
+
+            <View style={styles.actions}>
+              <Button label="Continue on This Device" size="md" onPress={onContinue} />
+              <Button label="Not Now" size="md" variant="ghost" onPress={onDismiss} />
+            </View>
+          </SurfaceCard>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: spacing.lg,
+  },
+  dialogPressable: {
+    width: '100%',
+  },
+  card: {
+    width: '100%',
+  },
+  header: {
+    gap: spacing.xs,
+  },
+  textCentered: {
+    textAlign: 'center',
+  },
+  actions: {
+    marginTop: spacing.lg,
+    gap: spacing.sm,
+  },
+});
@@ -0,0 +1,125 @@
+/**
+ * DeloadRecommendationCard
+ * Home screen card for deload weeks: offers the fatigue model's recommendation,
+ * and shows an accepted deload week while it is upcoming or in progress.
+ * Renders nothing when there's no deload to show.
+ */
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { Button } from '@/components/atoms/Button';
+import { SurfaceCard } from '@/components/atoms/SurfaceCard';
+import { Text } from '@/components/atoms/Text';
+import { spacing } from '@/constants/theme';
+import { useFatigueModel } from '@/hooks/useFatigueModel';
+import { FATIGUE_CONFIG, type FatigueSignal } from '@/types/fatigue';
+import { getWeekStartKey } from '@/utils/chartUtils';
+import { parseLocalISODate } from '@/utils/date';
+import { triggerHaptic } from '@/utils/haptics';
+
+/** Signals listed under a recommendation */
+const MAX_REASONS = 2;
+
+const LOAD_PERCENT = Math.round(FATIGUE_CONFIG.DELOAD_LOAD_FACTOR * 100);
+const SET_PERCENT = Math.round(FATIGUE_CONFIG.DELOAD_SET_FACTOR * 100);
+
+const describeSignal = (signal: FatigueSignal): string => {
+  const percent = Math.round(Math.abs(signal.change) * 100);
+
+  switch (signal.type) {
+    case 'rep_drop':
+      return `Reps down ${percent}% on ${signal.subject} at the same weight`;
+    case 'volume_spike':
+      return `${signal.subject} volume up ${percent}% over your usual weeks`;
+    case 'overdue':
+    default:
+      return `${signal.change} weeks of training without a lighter week`;
+  }
+};
+
+const formatWeekStart = (weekStart: string): string =>
+  parseLocalISODate(weekStart).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+
+export const DeloadRecommendationCard: React.FC = () => {
+  const { assessment, status, weekStart, accept, dismiss, cancel } = useFatigueModel();
+
+  if (status === 'none' || !weekStart) {
+    return null;
+  }
+
+  const handleAccept = () => {
+    triggerHaptic('success');
+    accept();
+  };
+
+  const handleDismiss = () => {
+    triggerHaptic('selection');
+    dismiss();
+  };
+
+  const handleCancel = () => {
+    triggerHaptic('selection');
+    cancel();
+  };
+
+  const lighterSessionsCopy = `Suggested sessions keep about ${SET_PERCENT}% of your sets at ${LOAD_PERCENT}% of the weight.`;
+
+  return (
+    <SurfaceCard tone="card" padding="xl" showAccentStripe={true} style={styles.card}>
+      <View style={styles.header}>
+        <Text variant="heading3" color="primary">
+          {status === 'recommended' ? 'Time to Deload?' : status === 'active' ? 'Deload Week' : 'Deload Week Scheduled'}
+        </Text>
+        <Text variant="body" color="secondary">
+          {status === 'recommended'
+            ? 'Your recent training shows signs of accumulated fatigue. A lighter week lets you recover and come back stronger.'
+            : status === 'active'
+              ? `Recovery week in progress. ${lighterSessionsCopy}`
+              : `Starts ${formatWeekStart(weekStart)}. ${lighterSessionsCopy}`}
+        </Text>
+      </View>
+
+      {status === 'recommended' && assessment.signals.length > 0 ? (
+        <View style={styles.reasons}>
+          {assessment.signals.slice(0, MAX_REASONS).map((signal) => (
+            <Text key={`${signal.type}-${signal.subject ?? ''}`} variant="body" color="secondary">
+              • {describeSignal(signal)}
+            </Text>
+          ))}
+        </View>
+      ) : null}
+
+      <View style={styles.actions}>
+        {status === 'recommended' ? (
+          <>
+            <Button
+              label={weekStart === getWeekStartKey(new Date()) ? 'Deload This Week' : 'Deload Next Week'}
+              size="md"
+              onPress={handleAccept}
+            />
+            <Button label="Not Now" size="md" variant="ghost" onPress={handleDismiss} />
+          </>
+        ) : (
+          <Button label="Cancel Deload" size="md" variant="ghost" onPress={handleCancel} />
+        )}
+      </View>
+    </SurfaceCard>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    borderWidth: 0,
+  },
+  header: {
+    gap: spacing.xs,
+  },
+  reasons: {
+    marginTop: spacing.md,
+    gap: spacing.xs,
+  },
+  actions: {
+    marginTop: spacing.lg,
+    gap: spacing.sm,
+  },
+});
@@ -0,0 +1,145 @@
+/**
+ * E1RMTrendChart
+ * Line chart of the best estimated one-rep max per session for a single exercise.
+ * Lets sessions with different rep schemes (e.g. 5×5 vs a heavy triple) be compared directly.
+ */
+
+import React, { useMemo } from 'react';
+import { View, StyleSheet, Dimensions } from 'react-native';
+import { VictoryChart, VictoryLine, VictoryAxis, VictoryTheme, VictoryScatter } from 'victory-native';
+
+import { Text } from '@/components/atoms/Text';
+import { radius, spacing } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+import { useSettingsStore } from '@/store/settingsStore';
+import { E1RM_FORMULA_LABELS } from '@/utils/oneRepMax';
+
+const SCREEN_WIDTH = Dimensions.get('window').width;
+const CHART_WIDTH = SCREEN_WIDTH - spacing.lg * 2 - spacing.md * 2;
+const CHART_HEIGHT = 180;
+
+export interface E1RMPoint {
+  date: string;
+  /** Best e1RM for the session, in lbs */
+  e1rm: number;
+}
+
+interface E1RMTrendChartProps {
+  /** Sessions in chronological order */
+  points: E1RMPoint[];
+}
+
+const formatTickDate = (dateString: string): string => {
+  return new Date(dateString).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+export const E1RMTrendChart: React.FC<E1RMTrendChartProps> = ({ points }) => {
+  const { theme } = useTheme();
+  const e1rmFormula = useSettingsStore((state) => state.e1rmFormula);
+  const { convertWeight, formatWeight } = useSettingsStore();
+
+  const chartData = useMemo(
+    () => points.map((point, index) => ({ x: index + 1, y: convertWeight(point.e1rm) })),
+    [points, convertWeight],
+  );
+
+  const best = useMemo(() => Math.max(...points.map((point) => point.e1rm)), [points]);
+
+  const yDomain = useMemo((): [number, number] => {
+    const values = chartData.map((point) => point.y);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    // Pad so a flat line still sits mid-chart
+    const padding = Math.max((max - min) * 0.15, max * 0.05, 1);
+    return [Math.max(0, min - padding), max + padding];
+  }, [chartData]);
+
+  const xTickValues = chartData.length > 1 ? [1, chartData.length] : [1];
+
+  return (
+    <View style={[styles.container, { borderColor: theme.border.light }]}>
+      <View style={styles.header}>
+        <View>
+          <Text variant="bodySemibold" color="primary">
+            Estimated 1RM
+          </Text>
+          <Text variant="caption" color="tertiary">
+            {`${E1RM_FORMULA_LABELS[e1rmFormula]} formula · best set per session`}
+          </Text>
+        </View>
+        <View style={styles.bestValue}>
+          <Text variant="heading3" color="orange">
+            {formatWeight(best, 0)}
+          </Text>
+          <Text variant="captionSmall" color="tertiary">
+            best
+          </Text>
+        </View>
+      </View>
+
+      {chartData.length < 2 ? (
+        <Text variant="caption" color="secondary" style={styles.hint}>
+          Log this exercise in another session to see your trend.
+        </Text>
+      ) : (
+        <VictoryChart
+          theme={VictoryTheme.material}
+          padding={{ top: 16, bottom: 32, left: 16, right: 24 }}
+          height={CHART_HEIGHT}
+          width={CHART_WIDTH}
+          domain={{ x: [0.8, chartData.length + 0.2], y: yDomain }}
+        >
+          <VictoryAxis
+            tickValues={xTickValues}
+            tickFormat={(t) => formatTickDate(points[t - 1]?.date ?? '')}
+            style={{
+              axis: { stroke: theme.border.light, strokeWidth: 1 },
+              tickLabels: { fill: theme.text.secondary, fontSize: 9, padding: 5 },
+              grid: { stroke: 'none' },
+            }}
+          />
+          <VictoryAxis
+            dependentAxis
+            tickFormat={() => ''}
+            style={{
+              axis: { stroke: 'none' },
+              ticks: { stroke: 'none' },
+              tickLabels: { fill: 'transparent' },
+              grid: { stroke: theme.border.light, strokeWidth: 1, strokeDasharray: '4, 4' },
+            }}
+          />
+          <VictoryLine
+            data={chartData}
+            style={{ data: { stroke: theme.accent.orange, strokeWidth: 3 } }}
+            interpolation="monotoneX"
+          />
+          <VictoryScatter
+            data={chartData}
+            size={3}
+            style={{ data: { fill: theme.accent.orange } }}
+          />
+        </VictoryChart>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: spacing.md,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    gap: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  bestValue: {
+    alignItems: 'flex-end',
+  },
+  hint: {
+    paddingVertical: spacing.sm,
+  },
+});
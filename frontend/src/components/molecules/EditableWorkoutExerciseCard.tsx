@@ -22,6 +22,8 @@ interface EditableWorkoutExerciseCardProps {
   onToggle: () => void;
   onSaveSets: (sets: SetLog[]) => void;
   onRemove: () => void;
+  /** Opens equivalent-exercise suggestions; the swap button is hidden without it */
+  onSwap?: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
   canMoveUp: boolean;
@@ -37,6 +39,7 @@ export const EditableWorkoutExerciseCard: React.FC<EditableWorkoutExerciseCardPr
   onToggle,
   onSaveSets,
   onRemove,
+  onSwap,
   onMoveUp,
   onMoveDown,
   canMoveUp,
@@ -104,6 +107,17 @@ export const EditableWorkoutExerciseCard: React.FC<EditableWorkoutExerciseCardPr
                 color={canMoveDown ? theme.text.primary : theme.text.tertiary}
               />
             </Pressable>
+            {onSwap ? (
+              <Pressable
+                style={[styles.iconButton, { backgroundColor: theme.surface.elevated }, isInteractionDisabled && { backgroundColor: theme.surface.card, borderWidth: 1, borderColor: theme.border.medium }]}
+                onPress={() => handleMove(onSwap)}
+                disabled={isInteractionDisabled}
+                accessibilityRole="button"
+                accessibilityLabel="Swap exercise"
+              >
+                <MaterialCommunityIcons name="swap-horizontal" size={sizing.iconMD} color={theme.text.primary} />
+              </Pressable>
+            ) : null}
             <Pressable
               style={[styles.iconButton, { backgroundColor: theme.surface.elevated }, isInteractionDisabled && { backgroundColor: theme.surface.card, borderWidth: 1, borderColor: theme.border.medium }]}
               onPress={() => handleMove(onRemove)}
@@ -0,0 +1,145 @@
+/**
+ * ElevationProfileChart
+ * Area chart of a route's smoothed altitude over distance, with the steepest climb.
+ * Shown under the summary of outdoor sessions recorded with altitude.
+ */
+
+import React, { useMemo } from 'react';
+import { View, StyleSheet, Dimensions } from 'react-native';
+import { VictoryChart, VictoryArea, VictoryAxis, VictoryTheme } from 'victory-native';
+
+import { Text } from '@/components/atoms/Text';
+import { radius, spacing } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+import { useSettingsStore } from '@/store/settingsStore';
+import type { ElevationProfilePoint } from '@/types/outdoor';
+import { convertElevation, formatElevation } from '@/utils/geo';
+
+const SCREEN_WIDTH = Dimensions.get('window').width;
+const CHART_WIDTH = SCREEN_WIDTH - spacing.lg * 2 - spacing.md * 2;
+const CHART_HEIGHT = 160;
+
+/** Long routes are thinned to this many points before charting */
+const MAX_CHART_POINTS = 120;
+
+const MILES_TO_KM = 1.609344;
+
+interface ElevationProfileChartProps {
+  /** Smoothed profile from getElevationProfile */
+  profile: ElevationProfilePoint[];
+}
+
+export const ElevationProfileChart: React.FC<ElevationProfileChartProps> = ({ profile }) => {
+  const { theme } = useTheme();
+  const distanceUnit = useSettingsStore((state) => state.distanceUnit);
+
+  const chartData = useMemo(() => {
+    const step = Math.max(1, Math.ceil(profile.length / MAX_CHART_POINTS));
+    const sampled = profile.filter((_, index) => index % step === 0 || index === profile.length - 1);
+    return sampled.map((point) => ({
+      x: distanceUnit === 'km' ? point.distanceMiles * MILES_TO_KM : point.distanceMiles,
+      y: convertElevation(point.altitudeMeters, distanceUnit),
+    }));
+  }, [profile, distanceUnit]);
+
+  const { lowMeters, highMeters, steepestGrade } = useMemo(() => {
+    const altitudes = profile.map((point) => point.altitudeMeters);
+    return {
+      lowMeters: Math.min(...altitudes),
+      highMeters: Math.max(...altitudes),
+      steepestGrade: Math.max(...profile.map((point) => point.grade)),
+    };
+  }, [profile]);
+
+  const domain = useMemo(() => {
+    const values = chartData.map((point) => point.y);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    // Keep gentle routes from looking like mountains
+    const padding = Math.max((max - min) * 0.2, 10);
+    return {
+      x: [0, chartData[chartData.length - 1]?.x ?? 1] as [number, number],
+      y: [min - padding, max + padding] as [number, number],
+    };
+  }, [chartData]);
+
+  if (chartData.length < 2) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, { borderColor: theme.border.light }]}>
+      <View style={styles.header}>
+        <View>
+          <Text variant="bodySemibold" color="primary">
+            Elevation
+          </Text>
+          <Text variant="caption" color="tertiary">
+            {`${formatElevation(lowMeters, distanceUnit)} – ${formatElevation(highMeters, distanceUnit)}`}
+          </Text>
+        </View>
+        {steepestGrade > 0 ? (
+          <View style={styles.steepestValue}>
+            <Text variant="heading3" color="orange">
+              {`${Math.round(steepestGrade * 100)}%`}
+            </Text>
+            <Text variant="captionSmall" color="tertiary">
+              steepest climb
+            </Text>
+          </View>
+        ) : null}
+      </View>
+
+      <VictoryChart
+        theme={VictoryTheme.material}
+        padding={{ top: 8, bottom: 32, left: 16, right: 24 }}
+        height={CHART_HEIGHT}
+        width={CHART_WIDTH}
+        domain={domain}
+      >
+        <VictoryAxis
+          tickCount={4}
+          tickFormat={(t: number) => `${t.toFixed(1)} ${distanceUnit}`}
+          style={{
+            axis: { stroke: theme.border.light, strokeWidth: 1 },
+            tickLabels: { fill: theme.text.secondary, fontSize: 9, padding: 5 },
+            grid: { stroke: 'none' },
+          }}
+        />
+        <VictoryAxis
+          dependentAxis
+          tickFormat={() => ''}
+          style={{
+            axis: { stroke: 'none' },
+            ticks: { stroke: 'none' },
+            tickLabels: { fill: 'transparent' },
+            grid: { stroke: theme.border.light, strokeWidth: 1, strokeDasharray: '4, 4' },
+          }}
+        />
+        <VictoryArea
+          data={chartData}
+          y0={() => domain.y[0]}
+          style={{ data: { fill: theme.accent.orangeMuted, stroke: theme.accent.orange, strokeWidth: 2 } }}
+          interpolation="monotoneX"
+        />
+      </VictoryChart>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: spacing.md,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    gap: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  steepestValue: {
+    alignItems: 'flex-end',
+  },
+});
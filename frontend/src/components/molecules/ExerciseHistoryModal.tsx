@@ -3,11 +3,15 @@ import { View, StyleSheet, ScrollView } from 'react-native';
 
 import { Text } from '@/components/atoms/Text';
 import { colors, radius, spacing } from '@/constants/theme';
-import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
+import { useFullWorkoutHistory } from '@/hooks/useFullWorkoutHistory';
 import { useSettingsStore } from '@/store/settingsStore';
 import { SheetModal } from './SheetModal';
+import { E1RMTrendChart } from './E1RMTrendChart';
+import type { E1RMPoint } from './E1RMTrendChart';
 import type { ExerciseType } from '@/types/exercise';
 import { exercises as exerciseCatalog } from '@/constants/exercises';
+import { formatEffort } from '@/utils/effort';
+import { getBestE1RM } from '@/utils/oneRepMax';
 
 interface ExerciseHistoryModalProps {
   visible: boolean;
@@ -39,11 +43,14 @@ export const ExerciseHistoryModal: React.FC<ExerciseHistoryModalProps> = ({
   // Subscribe to unit values to trigger re-renders when units change
   const weightUnitPref = useSettingsStore((state) => state.weightUnit);
   const distanceUnitPref = useSettingsStore((state) => state.distanceUnit);
+  const effortScale = useSettingsStore((state) => state.effortScale);
+  const e1rmFormula = useSettingsStore((state) => state.e1rmFormula);
   const { formatWeight, formatDistanceForExercise } = useSettingsStore();
   
   // Look up distanceUnit from catalog if not provided
   const effectiveDistanceUnit = distanceUnit ?? exerciseCatalog.find(e => e.name === exerciseName)?.distanceUnit;
-  const workouts = useWorkoutSessionsStore((state) => state.workouts);
+  // The e1RM trend spans every session of the exercise, not just the newest page
+  const { workouts } = useFullWorkoutHistory(visible);
 
   const historyData = useMemo(() => {
     if (!exerciseName) return [];
@@ -66,6 +73,16 @@ export const ExerciseHistoryModal: React.FC<ExerciseHistoryModalProps> = ({
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   }, [workouts, exerciseName]);
 
+  // Best e1RM per session, oldest first, for weighted exercises only
+  const e1rmPoints = useMemo((): E1RMPoint[] => {
+    if (exerciseType !== 'weight') return [];
+
+    return historyData
+      .map((item) => ({ date: item.date, e1rm: getBestE1RM(item.sets, e1rmFormula) }))
+      .filter((point): point is E1RMPoint => point.e1rm !== null)
+      .reverse();
+  }, [historyData, exerciseType, e1rmFormula]);
+
   // Format date helper
   const formatDate = (dateString: string) => {
     try {
@@ -104,6 +121,7 @@ export const ExerciseHistoryModal: React.FC<ExerciseHistoryModalProps> = ({
           </View>
         ) : (
           <View style={styles.contentWrapper}>
+            {e1rmPoints.length > 0 && <E1RMTrendChart points={e1rmPoints} />}
             {historyData.map((item, index) => (
               <View key={`${item.date}-${index}`} style={styles.historyItem}>
                 <Text variant="bodySemibold" style={styles.dateText}>
@@ -146,6 +164,9 @@ export const ExerciseHistoryModal: React.FC<ExerciseHistoryModalProps> = ({
                         {exerciseType === 'weight' && (
                           `${formatWeight(set.weight ?? 0)} × ${set.reps ?? 0} reps`
                         )}
+                        {exerciseType !== 'cardio' && exerciseType !== 'duration' && set.rpe !== undefined && (
+                          ` @ ${formatEffort(set.rpe, effortScale)}`
+                        )}
                       </Text>
                     </View>
                   ))}
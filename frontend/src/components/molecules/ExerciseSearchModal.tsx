@@ -40,7 +40,9 @@ import { springGentle } from '@/constants/animations';
 import { useSemanticExerciseSearch } from '@/hooks/useSemanticExerciseSearch';
 import { exercises as baseExerciseCatalog, createCustomExerciseCatalogItem, type Exercise } from '@/constants/exercises';
 import { useCustomExerciseStore } from '@/store/customExerciseStore';
+import { useGymProfileStore } from '@/store/gymProfileStore';
 import { getExerciseDisplayTags } from '@/utils/exerciseDisplayTags';
+import { isExerciseAvailable } from '@/utils/gymProfiles';
 
 const SCREEN_HEIGHT = Dimensions.get('window').height;
 const DISMISS_THRESHOLD = spacing['2xl'] * 2;
@@ -78,18 +80,23 @@ export const ExerciseSearchModal: React.FC<ExerciseSearchModalProps> = ({
   const [selectedMap, setSelectedMap] = useState<Map<string, Exercise>>(new Map());
   const [isModalVisible, setIsModalVisible] = useState(visible);
   const [isCreateModalVisible, setIsCreateModalVisible] = useState(false);
+  const [showAllEquipment, setShowAllEquipment] = useState(false);
+  const activeGymProfile = useGymProfileStore((state) => state.getActiveProfile());
   
   // Animation values
   const sheetTranslateY = useSharedValue(SCREEN_HEIGHT);
 
-  // Merge custom exercises into catalog
+  // Merge custom exercises into catalog, keeping only what the active gym can do unless asked for all
   const customExercises = useCustomExerciseStore((state) => state.customExercises);
   const exerciseCatalog = useMemo(() => {
     const customCatalogItems = customExercises.map((ce) =>
       createCustomExerciseCatalogItem(ce.id, ce.name, ce.exerciseType, ce.supportsGpsTracking)
     );
-    return [...baseExerciseCatalog, ...customCatalogItems];
-  }, [customExercises]);
+    const availableExercises = showAllEquipment
+      ? baseExerciseCatalog
+      : baseExerciseCatalog.filter((exercise) => isExerciseAvailable(exercise, activeGymProfile));
+    return [...availableExercises, ...customCatalogItems];
+  }, [activeGymProfile, customExercises, showAllEquipment]);
 
   // Get suggestions based on search term — cap at 50 for performance, still plenty of results
   const suggestions = useSemanticExerciseSearch(searchTerm, exerciseCatalog, {
@@ -124,6 +131,7 @@ export const ExerciseSearchModal: React.FC<ExerciseSearchModalProps> = ({
       setIsModalVisible(true);
       setSearchTerm('');
       setSelectedMap(new Map());
+      setShowAllEquipment(false);
       // Animate in after modal renders
       requestAnimationFrame(() => {
         sheetTranslateY.value = withSpring(0, springGentle);
@@ -333,13 +341,27 @@ export const ExerciseSearchModal: React.FC<ExerciseSearchModalProps> = ({
                   : 'Popular exercises'
                 }
               </Text>
-              {selectedMap.size > 0 && (
-                <View style={[styles.selectedBadge, { backgroundColor: theme.accent.orange }]}>
-                  <Text variant="caption" style={styles.selectedBadgeText}>
-                    {selectedMap.size} selected
+              <View style={styles.resultsActions}>
+                <Pressable
+                  onPress={() => {
+                    triggerHaptic('selection');
+                    setShowAllEquipment((current) => !current);
+                  }}
+                  hitSlop={8}
+                  accessibilityRole="button"
+                >
+                  <Text variant="caption" color="orange">
+                    {showAllEquipment ? `${activeGymProfile.name} only` : 'All equipment'}
                   </Text>
-                </View>
-              )}
+                </Pressable>
+                {selectedMap.size > 0 && (
+                  <View style={[styles.selectedBadge, { backgroundColor: theme.accent.orange }]}>
+                    <Text variant="caption" style={styles.selectedBadgeText}>
+                      {selectedMap.size} selected
+                    </Text>
+                  </View>
+                )}
+              </View>
             </View>
 
             {/* Exercise List */}
@@ -558,6 +580,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: spacing.lg,
     marginBottom: spacing.sm,
   },
+  resultsActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
   selectedBadge: {
     paddingHorizontal: spacing.sm,
     paddingVertical: 2,
@@ -12,14 +12,20 @@ import { Text } from '@/components/atoms/Text';
 import { HoldRepeatIconButton } from '@/components/atoms/HoldRepeatIconButton';
 import { TimePickerModal } from '@/components/molecules/TimePickerModal';
 import { GpsActivityTracker } from '@/components/molecules/GpsActivityTracker';
+import { PlateLoadingView } from '@/components/molecules/PlateLoadingView';
 import { colors, radius, shadows, sizing, spacing, zIndex } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
-import type { SetLog } from '@/types/workout';
+import type { SetLog, SetType } from '@/types/workout';
+import type { SetPersonalRecordType } from '@/types/personalRecords';
+import { SET_PERSONAL_RECORD_LABELS } from '@/types/personalRecords';
 import type { ExerciseType, EquipmentType } from '@/types/exercise';
 import { useSettingsStore } from '@/store/settingsStore';
 import { adaptRemainingSets, detectPatternShift, detectIntentShift } from '@/utils/smartSuggestions';
 import type { ExerciseDataPoint, RepRange, SessionRepIntent } from '@/types/smartSuggestions';
 import { SMART_CONFIG } from '@/types/smartSuggestions';
+import { formatEffort, rpeToScaleValue, stepRpe } from '@/utils/effort';
+import { SET_TYPE_OPTIONS, getSetType, getSetTypeOption, isWarmupSet } from '@/utils/setTypes';
+import { isPlateLoaded } from '@/utils/plates';
 
 interface ExerciseSetEditorProps {
   isExpanded: boolean;
@@ -48,6 +54,10 @@ interface ExerciseSetEditorProps {
   exerciseRepRanges?: RepRange[];
   /** Callback when an intent shift is detected (v2 cross-exercise propagation) */
   onIntentShift?: (intent: SessionRepIntent) => void;
+  /** Called when a set is marked complete; returns the rest (seconds) started after it, if any */
+  onSetCompleted?: (setIndex: number, set: SetLog) => number | undefined;
+  /** Records broken by completed sets, keyed by set index */
+  personalRecordSets?: Record<number, SetPersonalRecordType[]>;
   // Controlled menu state props (optional)
   activeSetMenuIndex?: number | null;
   onOpenSetMenu?: (index: number) => void;
@@ -189,6 +199,7 @@ const AUTO_SAVE_DEBOUNCE_MS = 100;
 const mapDraftsToSetLogs = (drafts: SetDraft[]): SetLog[] =>
   drafts.map((draft) => ({
     completed: Boolean(draft.completed),
+    setType: draft.setType,
     // Weight exercises
     reps: draft.reps !== undefined ? Math.max(draft.reps, 0) : undefined,
     weight: draft.weight !== undefined ? Math.max(draft.weight, 0) : undefined,
@@ -197,6 +208,9 @@ const mapDraftsToSetLogs = (drafts: SetDraft[]): SetLog[] =>
     distance: draft.distance !== undefined ? Math.max(draft.distance, 0) : undefined,
     // Assisted exercises
     assistanceWeight: draft.assistanceWeight !== undefined ? Math.max(draft.assistanceWeight, 0) : undefined,
+    // Effort
+    rpe: draft.rpe,
+    restSeconds: draft.completed ? draft.restSeconds : undefined,
   }));
 
 export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
@@ -218,6 +232,8 @@ export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
   onPatternShift,
   exerciseRepRanges = [],
   onIntentShift,
+  onSetCompleted,
+  personalRecordSets,
   activeSetMenuIndex,
   onOpenSetMenu,
   onCloseSetMenu,
@@ -227,6 +243,7 @@ export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
   const { theme, isDarkMode } = useTheme();
   // Subscribe to smart suggestions setting
   const smartSuggestionsEnabled = useSettingsStore((state) => state.smartSuggestionsEnabled);
+  const effortScale = useSettingsStore((state) => state.effortScale);
   // Subscribe to unit values to trigger re-renders when units change
   const distanceUnitPref = useSettingsStore((state) => state.distanceUnit);
   const getWeightUnit = useSettingsStore((state) => state.getWeightUnit);
@@ -235,6 +252,7 @@ export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
   const convertDistanceForExercise = useSettingsStore((state) => state.convertDistanceForExercise);
   const convertDistanceToMilesForExercise = useSettingsStore((state) => state.convertDistanceToMilesForExercise);
   const weightUnit = getWeightUnit();
+  const showPlateLoading = exerciseType === 'weight' && isPlateLoaded(exerciseEquipment);
   const distanceUnitLabel = getDistanceUnitForExercise(distanceUnit);
   const [sets, setSets] = useState<SetDraft[]>(() =>
     initialSets.map((set) =>
@@ -583,6 +601,22 @@ export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
     updateSet(index, { weight: nextValue, weightInput: nextText });
   }, []);
 
+  const changeSetType = useCallback((index: number, setType: SetType) => {
+    triggerHaptic('selection');
+    // Working is the implicit default, so keep untagged sets untagged
+    updateSet(index, { setType: setType === 'working' ? undefined : setType });
+    closeMenu();
+  }, [updateSet, closeMenu]);
+
+  const adjustEffort = useCallback((index: number, direction: 1 | -1) => {
+    const current = setsRef.current[index];
+    if (!current) {
+      return;
+    }
+
+    updateSet(index, { rpe: stepRpe(current.rpe, direction, effortScale) });
+  }, [updateSet, effortScale]);
+
   const addSet = useCallback(() => {
     triggerHaptic('selection');
     setSets((prev) => {
@@ -878,7 +912,8 @@ export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
         }
       }
 
-      if (remainingIndices.length > 0) {
+      // Warm-ups say nothing about working-set performance, so they never drive adaptation
+      if (remainingIndices.length > 0 && !isWarmupSet(completedSet)) {
         const hasSmart = smartSuggestionsEnabled && suggestedSets && suggestedSets.length > 0;
         const hasRepRanges = exerciseRepRanges && exerciseRepRanges.length > 0;
         const actualWeight = completedSet.weight ?? 0;
@@ -988,6 +1023,9 @@ export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
           }
         }
       }
+
+      const restSeconds = onSetCompleted?.(index, mapDraftsToSetLogs([completedSet])[0]);
+      updatedSets[index] = { ...updatedSets[index], restSeconds };
     }
 
     setsRef.current = updatedSets;
@@ -995,7 +1033,7 @@ export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
     completedSetsRef.current = updatedSets.filter((set) => set.completed).length;
     setSets(updatedSets);
     emitProgress();
-  }, [emitProgress, exerciseType, historySetCount, runningTimers, pausedTimers, smartSuggestionsEnabled, suggestedSets, exerciseEquipment, isCompound, exerciseDataPoints, patternShiftCount, onPatternShift, exerciseRepRanges, onIntentShift]);
+  }, [emitProgress, exerciseType, historySetCount, runningTimers, pausedTimers, smartSuggestionsEnabled, suggestedSets, exerciseEquipment, isCompound, exerciseDataPoints, patternShiftCount, onPatternShift, exerciseRepRanges, onIntentShift, onSetCompleted]);
 
   const handleCompleteSetPress = useCallback((index: number) => {
     toggleSetCompletion(index);
@@ -1330,6 +1368,16 @@ export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
                 summaryText = `${set.weight ?? 0} ${weightUnit} × ${set.reps ?? 0} reps`;
             }
 
+            const effortLabel = formatEffort(set.rpe, effortScale);
+            if (effortLabel && exerciseType !== 'cardio' && exerciseType !== 'duration') {
+              summaryText = `${summaryText} @ ${effortLabel}`;
+            }
+
+            const setTypeOption = getSetTypeOption(set.setType);
+            if (setTypeOption.badge) {
+              summaryText = `${setTypeOption.badge} · ${summaryText}`;
+            }
+
             return (
               <View
                 key={`set-${index}`}
@@ -1386,14 +1434,31 @@ export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
                       <Text variant="bodySemibold" color="onAccent">
                         {summaryText}
                       </Text>
+                      {personalRecordSets?.[index]?.length ? (
+                        <View style={styles.prBadge} accessibilityLabel="Personal record">
+                          <MaterialCommunityIcons name="trophy" size={sizing.iconXS} color={theme.text.onAccent} />
+                          <Text variant="captionSmall" color="onAccent">
+                            {personalRecordSets[index].map((type) => SET_PERSONAL_RECORD_LABELS[type]).join(' · ')}
+                          </Text>
+                        </View>
+                      ) : null}
                     </Pressable>
                   )
                 ) : (
                   <>
                     <View style={styles.setHeader} pointerEvents="box-none">
-                      <Text variant="bodySemibold" color="primary">
-                        Set {index + 1}
-                      </Text>
+                      <View style={styles.setTitleRow}>
+                        <Text variant="bodySemibold" color="primary">
+                          Set {index + 1}
+                        </Text>
+                        {setTypeOption.value !== 'working' ? (
+                          <View style={[styles.setTypeBadge, { borderColor: theme.accent.orange }]}>
+                            <Text variant="caption" style={{ color: theme.accent.orange }}>
+                              {setTypeOption.label}
+                            </Text>
+                          </View>
+                        ) : null}
+                      </View>
                       <Pressable
                         onPress={(event) => {
                           event.stopPropagation();
@@ -1423,6 +1488,22 @@ export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
                               <Text variant="body">History</Text>
                             </Pressable>
                           )}
+                          {exerciseType !== 'cardio' && exerciseType !== 'duration' && SET_TYPE_OPTIONS.map((option) => (
+                            <Pressable
+                              key={option.value}
+                              style={styles.menuItem}
+                              onPress={() => changeSetType(index, option.value)}
+                              accessibilityRole="button"
+                              accessibilityState={{ selected: getSetType(set) === option.value }}
+                            >
+                              <Text
+                                variant={getSetType(set) === option.value ? 'bodySemibold' : 'body'}
+                                style={getSetType(set) === option.value ? { color: theme.accent.orange } : undefined}
+                              >
+                                {option.label}
+                              </Text>
+                            </Pressable>
+                          ))}
                           <Pressable
                             style={styles.menuItem}
                             onPress={() => {
@@ -1480,6 +1561,7 @@ export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
                             onStep={() => adjustSetValue(index, exerciseType === 'assisted' ? 'assistanceWeight' : 'weight', exerciseType === 'assisted' ? 5 : 2.5)}
                           />
                         </View>
+                        {showPlateLoading && (set.weight ?? 0) > 0 ? <PlateLoadingView weight={set.weight ?? 0} /> : null}
                       </View>
                     )}
 
@@ -1701,6 +1783,31 @@ export const ExerciseSetEditor: React.FC<ExerciseSetEditorProps> = ({
                       </View>
                     )}
 
+                    {(exerciseType === 'weight' || exerciseType === 'bodyweight' || exerciseType === 'assisted' || exerciseType === 'reps_only') && (
+                      <View style={styles.metricSection} pointerEvents="box-none">
+                        <Text variant="label" color="neutral" style={styles.metricLabel}>
+                          {effortScale === 'rir' ? 'Reps in Reserve' : 'RPE'}
+                        </Text>
+                        <View style={styles.metricControls}>
+                          <HoldRepeatIconButton
+                            iconName="minus"
+                            style={styles.adjustButton}
+                            accessibilityLabel={`Decrease ${effortScale === 'rir' ? 'reps in reserve' : 'RPE'} for set ${index + 1}`}
+                            onStep={() => adjustEffort(index, -1)}
+                          />
+                          <Text style={[styles.effortValue, { color: set.rpe === undefined ? theme.text.tertiary : theme.text.primary }]}>
+                            {set.rpe === undefined ? '–' : String(rpeToScaleValue(set.rpe, effortScale))}
+                          </Text>
+                          <HoldRepeatIconButton
+                            iconName="plus"
+                            style={styles.adjustButton}
+                            accessibilityLabel={`Increase ${effortScale === 'rir' ? 'reps in reserve' : 'RPE'} for set ${index + 1}`}
+                            onStep={() => adjustEffort(index, 1)}
+                          />
+                        </View>
+                      </View>
+                    )}
+
                     <Pressable
                       style={[styles.setActionButton, styles.setActionButtonPressable, { backgroundColor: theme.accent.orange, borderColor: theme.accent.orange }]}
                       onPress={() => handleCompleteSetPress(index)}
@@ -1791,6 +1898,16 @@ const styles = StyleSheet.create({
     borderRadius: radius.md,
     backgroundColor: 'transparent',
   },
+  prBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xxs,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xxs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.text.onAccent,
+  },
   completedCardioRow: {
     flexDirection: 'column',
     gap: spacing.sm,
@@ -1857,6 +1974,17 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'space-between',
   },
+  setTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  setTypeBadge: {
+    borderWidth: 1,
+    borderRadius: radius.full,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xxs,
+  },
   menuButton: {
     padding: spacing.sm,
   },
@@ -1911,6 +2039,12 @@ const styles = StyleSheet.create({
     backgroundColor: colors.surface.card,
     overflow: 'hidden',
   },
+  effortValue: {
+    minWidth: spacing['2xl'] + spacing.lg,
+    fontSize: sizing.iconLG,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
   setActionButton: {
     marginTop: spacing.xs,
   },
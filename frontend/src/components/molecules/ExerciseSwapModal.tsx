@@ -0,0 +1,140 @@
+/**
+ * ExerciseSwapModal
+ * Sheet listing equivalent exercises to swap in for one in a workout, ranked by
+ * similarity and limited to what the active gym and the user's equipment allow.
+ */
+import React, { useMemo } from 'react';
+import { FlatList, Pressable, StyleSheet, View } from 'react-native';
+
+import { Text } from '@/components/atoms/Text';
+import { spacing } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+import { useGymProfileStore } from '@/store/gymProfileStore';
+import { useUserProfileStore } from '@/store/userProfileStore';
+import type { Exercise } from '@/types/exercise';
+import { SUBSTITUTE_REASON_LABELS } from '@/types/exerciseSubstitution';
+import { getExerciseDisplayTagText } from '@/utils/exerciseDisplayTags';
+import { getExerciseSubstitutes } from '@/utils/exerciseSubstitution';
+import { getUsableEquipment } from '@/utils/gymProfiles';
+import { SheetModal } from './SheetModal';
+
+interface ExerciseSwapModalProps {
+  visible: boolean;
+  /** Exercise being swapped out; nothing is listed while null */
+  exerciseName: string | null;
+  /** Exercises already in the workout, left out of the suggestions */
+  excludeNames?: string[];
+  onClose: () => void;
+  onSelect: (exercise: Exercise) => void;
+}
+
+export const ExerciseSwapModal: React.FC<ExerciseSwapModalProps> = ({
+  visible,
+  exerciseName,
+  excludeNames,
+  onClose,
+  onSelect,
+}) => {
+  const { theme } = useTheme();
+  const activeGymProfile = useGymProfileStore((state) => state.getActiveProfile());
+  const availableEquipment = useUserProfileStore((state) => state.profile?.availableEquipment);
+
+  const substitutes = useMemo(() => {
+    if (!exerciseName) return [];
+
+    return getExerciseSubstitutes(exerciseName, {
+      equipment: getUsableEquipment(activeGymProfile, availableEquipment),
+      excludeNames,
+    });
+  }, [activeGymProfile, availableEquipment, exerciseName, excludeNames]);
+
+  return (
+    <SheetModal
+      visible={visible}
+      onClose={onClose}
+      title={exerciseName ? `Swap ${exerciseName}` : 'Swap Exercise'}
+    >
+      <FlatList
+        data={substitutes}
+        keyExtractor={(item) => item.exercise.id}
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator
+        ListEmptyComponent={(
+          <View style={styles.emptyState}>
+            <Text variant="body" color="secondary">
+              No equivalent exercises for your equipment.
+            </Text>
+          </View>
+        )}
+        renderItem={({ item }) => {
+          const musclesLabel = getExerciseDisplayTagText({
+            muscles: item.exercise.muscles,
+            exerciseType: item.exercise.exerciseType,
+          });
+          const reasonsLabel = item.reasons.map((reason) => SUBSTITUTE_REASON_LABELS[reason]).join(' · ');
+
+          return (
+            <Pressable
+              style={styles.item}
+              onPress={() => onSelect(item.exercise)}
+              accessibilityRole="button"
+              accessibilityLabel={`Swap to ${item.exercise.name}`}
+            >
+              <View style={styles.itemHeader}>
+                <Text variant="bodySemibold" color="primary" style={styles.itemName}>
+                  {item.exercise.name}
+                </Text>
+                <Text variant="caption" style={{ color: theme.accent.primary }}>
+                  {Math.round(item.score * 100)}% match
+                </Text>
+              </View>
+              <Text variant="caption" color="secondary">
+                {musclesLabel || 'General'}
+              </Text>
+              {reasonsLabel ? (
+                <Text variant="caption" color="tertiary">
+                  {reasonsLabel}
+                </Text>
+              ) : null}
+            </Pressable>
+          );
+        }}
+      />
+    </SheetModal>
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    flex: 1,
+    width: '100%',
+    minHeight: 0,
+  },
+  listContent: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing['2xl'] * 2,
+    paddingTop: spacing.xs,
+    gap: spacing.xs,
+    flexGrow: 1,
+  },
+  item: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    gap: spacing.xs,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  itemName: {
+    flex: 1,
+  },
+  emptyState: {
+    paddingVertical: spacing.lg,
+    paddingHorizontal: spacing.lg,
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,300 @@
+/**
+ * GymProfileModal
+ * Modal for switching between gym profiles and editing the active one:
+ * its name, the equipment on hand, and dumbbell and machine weight steps.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+import { triggerHaptic } from '@/utils/haptics';
+
+import { Text } from '@/components/atoms/Text';
+import { Button } from '@/components/atoms/Button';
+import { QuickFilterChip } from '@/components/atoms/QuickFilterChip';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useTheme } from '@/hooks/useTheme';
+import { spacing, radius, shadows, sizing, typography } from '@/constants/theme';
+import { useGymProfileStore } from '@/store/gymProfileStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import type { WeightUnit } from '@/store/settingsStore';
+import { EQUIPMENT_TYPES } from '@/types/exercise';
+import type { EquipmentType } from '@/types/exercise';
+
+interface GymProfileModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/** Bodyweight needs no equipment, so it isn't something a gym can lack */
+const EDITABLE_EQUIPMENT = EQUIPMENT_TYPES.filter((item) => item !== 'Bodyweight');
+
+const STEP_SIZE: Record<WeightUnit, number> = { lbs: 2.5, kg: 0.5 };
+const STEP_MIN: Record<WeightUnit, number> = { lbs: 2.5, kg: 0.5 };
+const STEP_MAX: Record<WeightUnit, number> = { lbs: 25, kg: 10 };
+
+export const GymProfileModal: React.FC<GymProfileModalProps> = ({
+  visible,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const weightUnit = useSettingsStore((state) => state.weightUnit);
+  const { profiles, addProfile, updateProfile, removeProfile, setActiveProfile } = useGymProfileStore();
+  const activeProfile = useGymProfileStore((state) => state.getActiveProfile());
+  const [nameInput, setNameInput] = useState(activeProfile.name);
+
+  useEffect(() => {
+    setNameInput(activeProfile.name);
+  }, [activeProfile.id, activeProfile.name]);
+
+  const handleClose = useCallback(() => {
+    triggerHaptic('selection');
+    onClose();
+  }, [onClose]);
+
+  const handleDone = useCallback(() => {
+    triggerHaptic('success');
+    onClose();
+  }, [onClose]);
+
+  const handleNameBlur = useCallback(() => {
+    const name = nameInput.trim();
+    if (name && name !== activeProfile.name) {
+      updateProfile(activeProfile.id, { name });
+    } else {
+      setNameInput(activeProfile.name);
+    }
+  }, [activeProfile, nameInput, updateProfile]);
+
+  const handleAddProfile = useCallback(() => {
+    addProfile(`Gym ${profiles.length + 1}`);
+  }, [addProfile, profiles.length]);
+
+  const handleToggleEquipment = useCallback(
+    (item: EquipmentType) => {
+      const equipment = activeProfile.equipment.includes(item)
+        ? activeProfile.equipment.filter((existing) => existing !== item)
+        : [...activeProfile.equipment, item];
+      updateProfile(activeProfile.id, { equipment });
+    },
+    [activeProfile, updateProfile],
+  );
+
+  const handleStep = useCallback(
+    (field: 'dumbbellIncrements' | 'machineIncrements', delta: number) => {
+      triggerHaptic('selection');
+      const value = Math.min(STEP_MAX[weightUnit], Math.max(STEP_MIN[weightUnit], activeProfile[field][weightUnit] + delta));
+      updateProfile(activeProfile.id, { [field]: { ...activeProfile[field], [weightUnit]: value } });
+    },
+    [activeProfile, updateProfile, weightUnit],
+  );
+
+  const handleDelete = useCallback(() => {
+    triggerHaptic('warning');
+    removeProfile(activeProfile.id);
+  }, [activeProfile.id, removeProfile]);
+
+  const renderStepRow = (label: string, field: 'dumbbellIncrements' | 'machineIncrements') => {
+    const value = activeProfile[field][weightUnit];
+
+    return (
+      <View style={styles.row}>
+        <Text variant="body" color="primary" style={styles.rowLabel}>
+          {label}
+        </Text>
+        <View style={styles.stepper}>
+          <Pressable
+            style={[styles.stepButton, { borderColor: theme.border.medium }]}
+            onPress={() => handleStep(field, -STEP_SIZE[weightUnit])}
+            disabled={value <= STEP_MIN[weightUnit]}
+            accessibilityRole="button"
+            accessibilityLabel={`Decrease ${label}`}
+          >
+            <IconSymbol name="remove" color={theme.text.primary} size={sizing.iconSM} />
+          </Pressable>
+          <Text variant="bodySemibold" color="primary" style={styles.stepValue}>
+            {value} {weightUnit}
+          </Text>
+          <Pressable
+            style={[styles.stepButton, { borderColor: theme.border.medium }]}
+            onPress={() => handleStep(field, STEP_SIZE[weightUnit])}
+            disabled={value >= STEP_MAX[weightUnit]}
+            accessibilityRole="button"
+            accessibilityLabel={`Increase ${label}`}
+          >
+            <IconSymbol name="add" color={theme.text.primary} size={sizing.iconSM} />
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={handleClose}
+    >
+      <Pressable style={styles.overlay} onPress={handleClose}>
+        <Pressable
+          style={[styles.modalContent, { backgroundColor: theme.surface.card }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <Text variant="heading2" color="primary" style={styles.title}>
+            Gym Profiles
+          </Text>
+
+          <View style={styles.chips}>
+            {profiles.map((profile) => (
+              <QuickFilterChip
+                key={profile.id}
+                label={profile.name}
+                active={profile.id === activeProfile.id}
+                onPress={() => setActiveProfile(profile.id)}
+              />
+            ))}
+            <QuickFilterChip label="+ New" active={false} onPress={handleAddProfile} />
+          </View>
+
+          <ScrollView style={styles.editor} showsVerticalScrollIndicator={false}>
+            <Text variant="label" color="secondary" style={styles.sectionLabel}>
+              Name
+            </Text>
+            <TextInput
+              value={nameInput}
+              onChangeText={setNameInput}
+              onBlur={handleNameBlur}
+              onSubmitEditing={handleNameBlur}
+              maxLength={30}
+              placeholder="Gym name"
+              placeholderTextColor={theme.text.tertiary}
+              selectionColor={theme.accent.primary}
+              style={[styles.input, { borderColor: theme.border.medium, backgroundColor: theme.surface.subtle, color: theme.text.primary }]}
+            />
+
+            <Text variant="label" color="secondary" style={styles.sectionLabel}>
+              Equipment
+            </Text>
+            <View style={styles.chips}>
+              {EDITABLE_EQUIPMENT.map((item) => (
+                <QuickFilterChip
+                  key={item}
+                  label={item}
+                  active={activeProfile.equipment.includes(item)}
+                  onPress={() => handleToggleEquipment(item)}
+                />
+              ))}
+            </View>
+
+            <Text variant="label" color="secondary" style={styles.sectionLabel}>
+              Weight steps
+            </Text>
+            {renderStepRow('Dumbbell jump', 'dumbbellIncrements')}
+            {renderStepRow('Machine stack step', 'machineIncrements')}
+          </ScrollView>
+
+          <Text variant="caption" color="secondary" style={styles.hint}>
+            Weight suggestions, exercise search and Hercules AI follow the active profile. Set its bar and plates under Plates & Bar.
+          </Text>
+
+          <View style={styles.buttonContainer}>
+            {profiles.length > 1 ? (
+              <Button
+                label="Delete"
+                variant="ghost"
+                onPress={handleDelete}
+                style={styles.button}
+              />
+            ) : null}
+            <Button
+              label="Done"
+              variant="primary"
+              onPress={handleDone}
+              style={styles.button}
+            />
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  modalContent: {
+    borderRadius: radius.xl,
+    padding: spacing.xl,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    ...shadows.lg,
+  },
+  title: {
+    marginBottom: spacing.lg,
+    textAlign: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  editor: {
+    flexGrow: 0,
+    marginTop: spacing.md,
+  },
+  sectionLabel: {
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    height: sizing.inputHeight,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    paddingHorizontal: spacing.md,
+    ...typography.body,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+    gap: spacing.md,
+  },
+  rowLabel: {
+    flex: 1,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepValue: {
+    minWidth: 64,
+    textAlign: 'center',
+  },
+  hint: {
+    marginTop: spacing.md,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginTop: spacing.lg,
+  },
+  button: {
+    flex: 1,
+  },
+});
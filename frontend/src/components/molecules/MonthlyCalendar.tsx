@@ -116,6 +116,7 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({ onDayLongPress
                     isToday={item.isToday}
                     isSelected={item.isSelected}
                     hasMarker={item.hasMarker}
+                    isHighlighted={item.isHighlighted}
                     onSelect={selectDate}
                     onLongPress={onDayLongPress}
                   />
@@ -1,6 +1,6 @@
 /**
  * OutdoorControlBar
- * Start / Pause / Resume / Finish controls for outdoor sessions.
+ * Start / Pause / Lap / Resume / Finish controls for outdoor sessions.
  * Uses the app's existing Button component for visual consistency.
  */
 
@@ -16,6 +16,7 @@ interface OutdoorControlBarProps {
   onStart: () => void;
   onPause: () => void;
   onResume: () => void;
+  onLap: () => void;
   onFinish: () => void;
   isFinishing?: boolean;
 }
@@ -25,6 +26,7 @@ export const OutdoorControlBar: React.FC<OutdoorControlBarProps> = ({
   onStart,
   onPause,
   onResume,
+  onLap,
   onFinish,
   isFinishing = false,
 }) => {
@@ -43,13 +45,23 @@ export const OutdoorControlBar: React.FC<OutdoorControlBarProps> = ({
 
       {status === 'active' && (
         <>
-          <View style={styles.buttonWrapper}>
-            <Button
-              label="Pause"
-              size="lg"
-              variant="ghost"
-              onPress={onPause}
-            />
+          <View style={styles.buttonRow}>
+            <View style={styles.rowButton}>
+              <Button
+                label="Pause"
+                size="lg"
+                variant="ghost"
+                onPress={onPause}
+              />
+            </View>
+            <View style={styles.rowButton}>
+              <Button
+                label="Lap"
+                size="lg"
+                variant="ghost"
+                onPress={onLap}
+              />
+            </View>
           </View>
           <View style={styles.buttonWrapper}>
             <Button
@@ -99,4 +111,11 @@ const styles = StyleSheet.create({
   buttonWrapper: {
     width: '100%',
   },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  rowButton: {
+    flex: 1,
+  },
 });
@@ -1,7 +1,8 @@
 /**
  * OutdoorMetricsBar
  * Displays real-time metrics (time, distance, pace) for outdoor sessions.
- * Horizontal row of three stat cells with large typography.
+ * Horizontal row of three stat cells with large typography, plus elevation gain/loss
+ * and grade-adjusted pace underneath once the route has altitude data.
  */
 
 import React, { useMemo } from 'react';
@@ -11,18 +12,24 @@ import { Text } from '@/components/atoms/Text';
 import { spacing, radius } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
 import { useSettingsStore } from '@/store/settingsStore';
-import { formatElapsedTime, formatPace } from '@/utils/geo';
+import type { ElevationChange } from '@/types/outdoor';
+import { formatElapsedTime, formatElevation, formatPace } from '@/utils/geo';
 
 interface OutdoorMetricsBarProps {
   elapsedSeconds: number;
   distanceMiles: number;
   paceSecondsPerMile: number | null;
+  /** Null until the route has altitude data */
+  elevationChange?: ElevationChange | null;
+  gradeAdjustedPaceSecondsPerMile?: number | null;
 }
 
 export const OutdoorMetricsBar: React.FC<OutdoorMetricsBarProps> = ({
   elapsedSeconds,
   distanceMiles,
   paceSecondsPerMile,
+  elevationChange = null,
+  gradeAdjustedPaceSecondsPerMile = null,
 }) => {
   const { theme } = useTheme();
   const convertDistance = useSettingsStore((s) => s.convertDistance);
@@ -42,62 +49,95 @@ export const OutdoorMetricsBar: React.FC<OutdoorMetricsBarProps> = ({
     return formatPace(paceInUserUnit);
   }, [paceSecondsPerMile, distanceUnit]);
 
+  const displayGradeAdjustedPace = useMemo(() => {
+    if (gradeAdjustedPaceSecondsPerMile === null) return '--:--';
+    const paceInUserUnit = distanceUnit === 'km'
+      ? gradeAdjustedPaceSecondsPerMile / 1.60934
+      : gradeAdjustedPaceSecondsPerMile;
+    return formatPace(paceInUserUnit);
+  }, [gradeAdjustedPaceSecondsPerMile, distanceUnit]);
+
   const unitLabel = distanceUnit === 'km' ? 'km' : 'mi';
   const paceLabel = distanceUnit === 'km' ? '/km' : '/mi';
 
   return (
     <View style={[styles.container, { backgroundColor: theme.surface.card, borderColor: theme.border.light }]}>
-      <View style={styles.cell}>
-        <Text variant="label" color="secondary" style={styles.cellLabel}>
-          Time
-        </Text>
-        <Text variant="statValue" color="primary" style={styles.cellValue}>
-          {formatElapsedTime(elapsedSeconds)}
-        </Text>
-        <Text variant="caption" style={{ color: 'transparent' }}>
-          {' '}
-        </Text>
-      </View>
+      <View style={styles.statsRow}>
+        <View style={styles.cell}>
+          <Text variant="label" color="secondary" style={styles.cellLabel}>
+            Time
+          </Text>
+          <Text variant="statValue" color="primary" style={styles.cellValue}>
+            {formatElapsedTime(elapsedSeconds)}
+          </Text>
+          <Text variant="caption" style={{ color: 'transparent' }}>
+            {' '}
+          </Text>
+        </View>
 
-      <View style={[styles.divider, { backgroundColor: theme.border.light }]} />
+        <View style={[styles.divider, { backgroundColor: theme.border.light }]} />
 
-      <View style={styles.cell}>
-        <Text variant="label" color="secondary" style={styles.cellLabel}>
-          Distance
-        </Text>
-        <Text variant="statValue" color="primary" style={styles.cellValue}>
-          {displayDistance}
-        </Text>
-        <Text variant="caption" color="tertiary">
-          {unitLabel}
-        </Text>
-      </View>
+        <View style={styles.cell}>
+          <Text variant="label" color="secondary" style={styles.cellLabel}>
+            Distance
+          </Text>
+          <Text variant="statValue" color="primary" style={styles.cellValue}>
+            {displayDistance}
+          </Text>
+          <Text variant="caption" color="tertiary">
+            {unitLabel}
+          </Text>
+        </View>
 
-      <View style={[styles.divider, { backgroundColor: theme.border.light }]} />
+        <View style={[styles.divider, { backgroundColor: theme.border.light }]} />
 
-      <View style={styles.cell}>
-        <Text variant="label" color="secondary" style={styles.cellLabel}>
-          Pace
-        </Text>
-        <Text variant="statValue" color="primary" style={styles.cellValue}>
-          {displayPace}
-        </Text>
-        <Text variant="caption" color="tertiary">
-          {paceLabel}
-        </Text>
+        <View style={styles.cell}>
+          <Text variant="label" color="secondary" style={styles.cellLabel}>
+            Pace
+          </Text>
+          <Text variant="statValue" color="primary" style={styles.cellValue}>
+            {displayPace}
+          </Text>
+          <Text variant="caption" color="tertiary">
+            {paceLabel}
+          </Text>
+        </View>
       </View>
+
+      {elevationChange ? (
+        <View style={[styles.elevationRow, { borderTopColor: theme.border.light }]}>
+          <Text variant="caption" color="secondary">
+            {`↑ ${formatElevation(elevationChange.gainMeters, distanceUnit)}`}
+          </Text>
+          <Text variant="caption" color="secondary">
+            {`↓ ${formatElevation(elevationChange.lossMeters, distanceUnit)}`}
+          </Text>
+          <Text variant="caption" color="secondary">
+            {`GAP ${displayGradeAdjustedPace} ${paceLabel}`}
+          </Text>
+        </View>
+      ) : null}
     </View>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
-    flexDirection: 'row',
-    alignItems: 'center',
     borderRadius: radius.lg,
     borderWidth: 1,
     paddingVertical: spacing.md,
     paddingHorizontal: spacing.sm,
+    gap: spacing.sm,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  elevationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingTop: spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
   },
   cell: {
     flex: 1,
@@ -0,0 +1,175 @@
+/**
+ * OutdoorSplitsCard
+ * Split table for a completed outdoor session: distance, time and pace per mile/km split,
+ * with the fastest and slowest highlighted. Switches to manual laps when any were taken.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { Text } from '@/components/atoms/Text';
+import { SurfaceCard } from '@/components/atoms/SurfaceCard';
+import { QuickFilterChip } from '@/components/atoms/QuickFilterChip';
+import { spacing } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+import type { OutdoorSplits } from '@/types/outdoor';
+import { formatElapsedTime, formatPace } from '@/utils/geo';
+import { getSplitExtremes, getSplitPace, SPLIT_DISTANCE_MILES } from '@/utils/outdoorSplits';
+
+const MILES_TO_KM = 1.609344;
+
+type SplitsView = 'splits' | 'laps';
+
+interface OutdoorSplitsCardProps {
+  outdoorSplits: OutdoorSplits;
+}
+
+/**
+ * OutdoorSplitsCard
+ *
+ * @param outdoorSplits - Splits and laps saved with the session, in the unit they were recorded in.
+ */
+export const OutdoorSplitsCard: React.FC<OutdoorSplitsCardProps> = ({ outdoorSplits }) => {
+  const { theme } = useTheme();
+  const [view, setView] = useState<SplitsView>(() => (outdoorSplits.splits.length === 0 ? 'laps' : 'splits'));
+
+  const { unit, laps } = outdoorSplits;
+  const hasLaps = laps.length > 0;
+  const rows = view === 'laps' && hasLaps ? laps : outdoorSplits.splits;
+
+  const extremes = useMemo(
+    // Laps can be any length, so every lap counts; only a short last split is left out
+    () => getSplitExtremes(rows, view === 'splits' ? SPLIT_DISTANCE_MILES[unit] : undefined),
+    [rows, unit, view],
+  );
+
+  if (outdoorSplits.splits.length === 0 && !hasLaps) {
+    return null;
+  }
+
+  const toUnit = (miles: number) => (unit === 'km' ? miles * MILES_TO_KM : miles);
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.headerRow}>
+        <Text style={{ fontSize: 24, fontWeight: '600', color: theme.text.primary }}>
+          {view === 'laps' && hasLaps ? 'Laps' : 'Splits'}
+        </Text>
+        {hasLaps ? (
+          <View style={styles.toggleRow}>
+            <QuickFilterChip label="Splits" active={view === 'splits'} onPress={() => setView('splits')} />
+            <QuickFilterChip label="Laps" active={view === 'laps'} onPress={() => setView('laps')} />
+          </View>
+        ) : null}
+      </View>
+
+      <SurfaceCard tone="card" padding="xl" showAccentStripe={false} style={styles.card}>
+        <View style={styles.row}>
+          <Text variant="caption" color="tertiary" style={styles.indexColumn}>
+            #
+          </Text>
+          <Text variant="caption" color="tertiary" style={styles.valueColumn}>
+            {unit === 'km' ? 'Km' : 'Mi'}
+          </Text>
+          <Text variant="caption" color="tertiary" style={styles.valueColumn}>
+            Time
+          </Text>
+          <Text variant="caption" color="tertiary" style={styles.valueColumn}>
+            {`Pace /${unit}`}
+          </Text>
+        </View>
+
+        {rows.map((split, index) => {
+          const pace = getSplitPace(split);
+          const pacePerUnit = unit === 'km' && pace ? pace / MILES_TO_KM : pace;
+          const highlight = index === extremes?.fastestIndex
+            ? theme.accent.success
+            : index === extremes?.slowestIndex
+              ? theme.accent.red
+              : undefined;
+
+          return (
+            <View key={index} style={[styles.row, styles.splitRow, { borderTopColor: theme.border.light }]}>
+              <Text variant="body" color="secondary" style={styles.indexColumn}>
+                {index + 1}
+              </Text>
+              <Text variant="body" color="primary" style={styles.valueColumn}>
+                {toUnit(split.distanceMiles).toFixed(2)}
+              </Text>
+              <Text variant="body" color="primary" style={styles.valueColumn}>
+                {formatElapsedTime(split.durationSeconds)}
+              </Text>
+              <Text
+                variant="bodySemibold"
+                color="primary"
+                style={[styles.valueColumn, highlight ? { color: highlight } : null]}
+              >
+                {formatPace(pacePerUnit)}
+              </Text>
+            </View>
+          );
+        })}
+
+        {extremes ? (
+          <View style={styles.legendRow}>
+            <View style={[styles.legendDot, { backgroundColor: theme.accent.success }]} />
+            <Text variant="caption" color="secondary">
+              Fastest
+            </Text>
+            <View style={[styles.legendDot, { backgroundColor: theme.accent.red }]} />
+            <Text variant="caption" color="secondary">
+              Slowest
+            </Text>
+          </View>
+        ) : null}
+      </SurfaceCard>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    gap: spacing.md,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+  card: {
+    gap: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  splitRow: {
+    paddingTop: spacing.xs,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  indexColumn: {
+    width: 32,
+  },
+  valueColumn: {
+    flex: 1,
+    textAlign: 'right',
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: spacing.xs,
+    paddingTop: spacing.sm,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginLeft: spacing.sm,
+  },
+});
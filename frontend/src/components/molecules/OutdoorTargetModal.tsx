@@ -0,0 +1,225 @@
+/**
+ * OutdoorTargetModal
+ * Sheet for choosing an outdoor session's target before starting: a pace range,
+ * a distance or a time. Values are entered in the user's distance unit.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { Text } from '@/components/atoms/Text';
+import { Button } from '@/components/atoms/Button';
+import { InputField } from '@/components/atoms/InputField';
+import { QuickFilterChip } from '@/components/atoms/QuickFilterChip';
+import { spacing } from '@/constants/theme';
+import { useSettingsStore } from '@/store/settingsStore';
+import type { OutdoorTarget } from '@/types/outdoor';
+import { formatPace } from '@/utils/geo';
+import { SheetModal } from './SheetModal';
+
+const MILES_TO_KM = 1.609344;
+
+type TargetType = 'none' | OutdoorTarget['type'];
+
+const TARGET_TYPE_OPTIONS: { type: TargetType; label: string }[] = [
+  { type: 'none', label: 'None' },
+  { type: 'pace', label: 'Pace' },
+  { type: 'distance', label: 'Distance' },
+  { type: 'time', label: 'Time' },
+];
+
+interface OutdoorTargetModalProps {
+  visible: boolean;
+  target: OutdoorTarget | null;
+  onClose: () => void;
+  onSave: (target: OutdoorTarget | null) => void;
+}
+
+/** Reads "m:ss" (or whole minutes) as seconds */
+const parsePace = (value: string): number | null => {
+  const match = value.trim().match(/^(\d{1,2})(?::([0-5]?\d))?$/);
+  if (!match) return null;
+  const seconds = Number(match[1]) * 60 + Number(match[2] ?? 0);
+  return seconds > 0 ? seconds : null;
+};
+
+const parsePositive = (value: string): number | null => {
+  const parsed = Number(value.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const OutdoorTargetModal: React.FC<OutdoorTargetModalProps> = ({
+  visible,
+  target,
+  onClose,
+  onSave,
+}) => {
+  const distanceUnit = useSettingsStore((state) => state.distanceUnit);
+  const toUnit = useCallback((miles: number) => (distanceUnit === 'km' ? miles * MILES_TO_KM : miles), [distanceUnit]);
+  const toMiles = useCallback((value: number) => (distanceUnit === 'km' ? value / MILES_TO_KM : value), [distanceUnit]);
+  // Paces go the other way: a km takes 1/1.609 of a mile's time
+  const paceToUnit = useCallback((secondsPerMile: number) => (distanceUnit === 'km' ? secondsPerMile / MILES_TO_KM : secondsPerMile), [distanceUnit]);
+  const paceToMiles = useCallback((secondsPerUnit: number) => (distanceUnit === 'km' ? secondsPerUnit * MILES_TO_KM : secondsPerUnit), [distanceUnit]);
+
+  const [type, setType] = useState<TargetType>('none');
+  const [fastestPace, setFastestPace] = useState('');
+  const [slowestPace, setSlowestPace] = useState('');
+  const [distance, setDistance] = useState('');
+  const [minutes, setMinutes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the current target each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+
+    setType(target?.type ?? 'none');
+    setError(null);
+    setFastestPace(target?.type === 'pace' ? formatPace(paceToUnit(target.fastestPaceSecondsPerMile)) : '');
+    setSlowestPace(target?.type === 'pace' ? formatPace(paceToUnit(target.slowestPaceSecondsPerMile)) : '');
+    setDistance(target?.type === 'distance' ? toUnit(target.distanceMiles).toFixed(2).replace(/\.?0+$/, '') : '');
+    setMinutes(target?.type === 'time' ? String(Math.round(target.durationSeconds / 60)) : '');
+  }, [paceToUnit, target, toUnit, visible]);
+
+  const handleSave = useCallback(() => {
+    switch (type) {
+      case 'none':
+        onSave(null);
+        return;
+      case 'pace': {
+        const fastest = parsePace(fastestPace);
+        const slowest = parsePace(slowestPace);
+        if (fastest === null || slowest === null) {
+          setError('Enter both paces as minutes:seconds, e.g. 8:30.');
+          return;
+        }
+        onSave({
+          type: 'pace',
+          fastestPaceSecondsPerMile: paceToMiles(Math.min(fastest, slowest)),
+          slowestPaceSecondsPerMile: paceToMiles(Math.max(fastest, slowest)),
+        });
+        return;
+      }
+      case 'distance': {
+        const value = parsePositive(distance);
+        if (value === null) {
+          setError(`Enter a distance in ${distanceUnit}.`);
+          return;
+        }
+        onSave({ type: 'distance', distanceMiles: toMiles(value) });
+        return;
+      }
+      case 'time': {
+        const value = parsePositive(minutes);
+        if (value === null) {
+          setError('Enter a time in minutes.');
+          return;
+        }
+        onSave({ type: 'time', durationSeconds: Math.round(value * 60) });
+        return;
+      }
+    }
+  }, [distance, distanceUnit, fastestPace, minutes, onSave, paceToMiles, slowestPace, toMiles, type]);
+
+  return (
+    <SheetModal visible={visible} onClose={onClose} title="Session Target">
+      <View style={styles.content}>
+        <View style={styles.typeRow}>
+          {TARGET_TYPE_OPTIONS.map((option) => (
+            <QuickFilterChip
+              key={option.type}
+              label={option.label}
+              active={type === option.type}
+              onPress={() => {
+                setType(option.type);
+                setError(null);
+              }}
+            />
+          ))}
+        </View>
+
+        {type === 'none' ? (
+          <Text variant="body" color="secondary">
+            Track freely without pace or goal cues. Split cues still play.
+          </Text>
+        ) : null}
+
+        {type === 'pace' ? (
+          <View style={styles.fieldRow}>
+            <View style={styles.field}>
+              <InputField
+                label={`Fastest (/${distanceUnit})`}
+                value={fastestPace}
+                onChangeText={setFastestPace}
+                placeholder="8:00"
+              />
+            </View>
+            <View style={styles.field}>
+              <InputField
+                label={`Slowest (/${distanceUnit})`}
+                value={slowestPace}
+                onChangeText={setSlowestPace}
+                placeholder="8:30"
+              />
+            </View>
+          </View>
+        ) : null}
+
+        {type === 'distance' ? (
+          <InputField
+            label={`Distance (${distanceUnit})`}
+            value={distance}
+            onChangeText={setDistance}
+            placeholder={distanceUnit === 'km' ? '5' : '3.1'}
+            keyboardType="decimal-pad"
+          />
+        ) : null}
+
+        {type === 'time' ? (
+          <InputField
+            label="Time (minutes)"
+            value={minutes}
+            onChangeText={setMinutes}
+            placeholder="30"
+            keyboardType="numeric"
+          />
+        ) : null}
+
+        {type !== 'none' ? (
+          <Text variant="caption" color="tertiary">
+            {type === 'pace'
+              ? 'Spoken cues when your pace leaves or returns to this range.'
+              : 'Spoken cues at halfway and when you reach the goal, plus what’s left at every split.'}
+          </Text>
+        ) : null}
+
+        {error ? (
+          <Text variant="caption" color="orange">
+            {error}
+          </Text>
+        ) : null}
+
+        <Button label="Save Target" size="lg" onPress={handleSave} />
+      </View>
+    </SheetModal>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    gap: spacing.md,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  field: {
+    flex: 1,
+  },
+});
@@ -17,6 +17,8 @@ interface PRCardProps {
   distance?: number;
   duration?: number;
   assistanceWeight?: number;
+  /** Best estimated one-rep max in lbs (weight exercises only) */
+  e1rm?: number | null;
   date: string | null;
   onReplace?: () => void;
 }
@@ -35,10 +37,10 @@ const formatDurationCompact = (totalSeconds: number): string => {
 export const PRCard: React.FC<PRCardProps> = ({
   exerciseName, exerciseType = 'weight', distanceUnit,
   weight, reps, distance = 0, duration = 0, assistanceWeight = 0,
-  date, onReplace,
+  e1rm = null, date, onReplace,
 }) => {
   const { theme, isDarkMode } = useTheme();
-  const { weightUnit, formatWeightValue, formatDistanceValueForExercise, getDistanceUnitForExercise } = useSettingsStore();
+  const { weightUnit, formatWeight, formatWeightValue, formatDistanceValueForExercise, getDistanceUnitForExercise } = useSettingsStore();
 
   const formattedDate = date
     ? new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
@@ -48,6 +50,7 @@ export const PRCard: React.FC<PRCardProps> = ({
   let badgeValue: string;
   let badgeUnit: string;
   let metaDetail: string;
+  let e1rmDetail: string | null = null;
 
   switch (exerciseType) {
     case 'cardio': {
@@ -87,6 +90,9 @@ export const PRCard: React.FC<PRCardProps> = ({
       badgeValue = formatWeightValue(weight);
       badgeUnit = weightUnit;
       metaDetail = `${reps} reps`;
+      if (e1rm) {
+        e1rmDetail = `e1RM ${formatWeight(e1rm, 0)}`;
+      }
       break;
     }
   }
@@ -98,7 +104,7 @@ export const PRCard: React.FC<PRCardProps> = ({
     }]}>
       <View style={styles.content}>
         <View style={styles.mainInfo}>
-          <Text variant="bodySemibold" style={styles.label} numberOfLines={2} color="primary">
+          <Text variant="bodySemibold" style={styles.label} numberOfLines={e1rmDetail ? 1 : 2} color="primary">
             {exerciseName}
           </Text>
           <View style={styles.metaRow}>
@@ -112,6 +118,11 @@ export const PRCard: React.FC<PRCardProps> = ({
               {metaDetail}
             </Text>
           </View>
+          {e1rmDetail && (
+            <Text variant="caption" color="secondary">
+              {e1rmDetail}
+            </Text>
+          )}
         </View>
 
         <View style={styles.rightSection}>
@@ -1,61 +1,345 @@
-import React from 'react';
+/**
+ * PlanSetModal
+ * Edits a template exercise's targets: set count, per-set reps or AMRAP,
+ * target weight, %1RM or % of training max, tempo and rest.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   Modal,
+  Pressable,
+  ScrollView,
   StyleSheet,
   TextInput,
-  TouchableWithoutFeedback,
   View,
 } from 'react-native';
 
 import { Button } from '@/components/atoms/Button';
 import { Text } from '@/components/atoms/Text';
-import { colors, radius, sizing, spacing, typography } from '@/constants/theme';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { radius, shadows, sizing, spacing, typography } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
+import { useSettingsStore } from '@/store/settingsStore';
+import type { ExerciseType } from '@/types/exercise';
+import type { ExerciseTargets, TemplateSetTarget } from '@/types/plan';
+import { MAX_TARGET_SETS } from '@/utils/exerciseTargets';
+import { triggerHaptic } from '@/utils/haptics';
+import { formatRestTime, REST_MAX_SECONDS, REST_MIN_SECONDS, REST_STEP_SECONDS } from '@/utils/restTimer';
+
+const DEFAULT_SET_COUNT = 3;
+
+type LoadMode = 'none' | 'weight' | 'percent' | 'percentTM';
+
+interface SetDraft {
+  minReps: string;
+  maxReps: string;
+  load: string;
+  amrap: boolean;
+}
 
 interface PlanSetModalProps {
   visible: boolean;
   exerciseName: string;
-  value: string;
-  onChange: (value: string) => void;
+  exerciseType?: ExerciseType;
+  targets: ExerciseTargets | undefined;
   onCancel: () => void;
-  onConfirm: () => void;
+  /** Called with undefined when the targets are cleared */
+  onConfirm: (targets: ExerciseTargets | undefined) => void;
 }
 
+const EMPTY_SET: SetDraft = { minReps: '', maxReps: '', load: '', amrap: false };
+
+const parsePositive = (value: string): number | undefined => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
 export const PlanSetModal: React.FC<PlanSetModalProps> = ({
   visible,
   exerciseName,
-  value,
-  onChange,
+  exerciseType = 'weight',
+  targets,
   onCancel,
   onConfirm,
 }) => {
   const { theme } = useTheme();
+  const { convertWeight, convertWeightToLbs, getWeightUnit } = useSettingsStore();
+  const [sets, setSets] = useState<SetDraft[]>([]);
+  const [loadMode, setLoadMode] = useState<LoadMode>('none');
+  const [tempo, setTempo] = useState('');
+  const [restSeconds, setRestSeconds] = useState<number | null>(null);
+
+  const usesWeight = exerciseType === 'weight';
+
+  // Start each edit from the exercise's saved targets
+  useEffect(() => {
+    if (!visible) return;
+
+    const savedSets = targets?.sets ?? [];
+    let mode: LoadMode = 'none';
+    if (savedSets.some((set) => set.weightLbs !== undefined)) mode = 'weight';
+    else if (savedSets.some((set) => set.percent1RM !== undefined)) mode = 'percent';
+    else if (savedSets.some((set) => set.percentTM !== undefined)) mode = 'percentTM';
+
+    setLoadMode(usesWeight ? mode : 'none');
+    setSets(
+      savedSets.length > 0
+        ? savedSets.map((set) => ({
+          minReps: set.reps ? String(set.reps.min) : '',
+          maxReps: set.reps ? String(set.reps.max) : '',
+          load: set.weightLbs !== undefined
+            ? String(convertWeight(set.weightLbs))
+            : String(set.percent1RM ?? set.percentTM ?? ''),
+          amrap: Boolean(set.amrap),
+        }))
+        : Array.from({ length: DEFAULT_SET_COUNT }, () => ({ ...EMPTY_SET })),
+    );
+    setTempo(targets?.tempo ?? '');
+    setRestSeconds(targets?.restSeconds ?? null);
+  }, [convertWeight, targets, usesWeight, visible]);
+
+  const handleSetCountStep = useCallback((delta: 1 | -1) => {
+    triggerHaptic('selection');
+    setSets((prev) => {
+      if (delta > 0) {
+        // New sets copy the last one so uniform targets only need entering once
+        return prev.length >= MAX_TARGET_SETS ? prev : [...prev, { ...(prev[prev.length - 1] ?? EMPTY_SET) }];
+      }
+      return prev.length <= 1 ? prev : prev.slice(0, -1);
+    });
+  }, []);
+
+  const updateSet = useCallback((index: number, updates: Partial<SetDraft>) => {
+    setSets((prev) => prev.map((set, i) => (i === index ? { ...set, ...updates } : set)));
+  }, []);
+
+  const handleRestStep = useCallback((delta: number) => {
+    triggerHaptic('selection');
+    setRestSeconds((prev) => {
+      const next = (prev ?? 0) + delta;
+      return Math.min(REST_MAX_SECONDS, Math.max(REST_MIN_SECONDS, next));
+    });
+  }, []);
+
+  const handleConfirm = useCallback(() => {
+    const setTargets = sets.map((draft): TemplateSetTarget => {
+      const target: TemplateSetTarget = {};
+      const min = parsePositive(draft.minReps);
+      const max = parsePositive(draft.maxReps);
+      if (min !== undefined || max !== undefined) {
+        const low = Math.round(min ?? max!);
+        const high = Math.round(max ?? min!);
+        target.reps = { min: Math.min(low, high), max: Math.max(low, high) };
+      }
+      if (draft.amrap) target.amrap = true;
+
+      const load = parsePositive(draft.load);
+      if (load !== undefined && loadMode === 'weight') target.weightLbs = convertWeightToLbs(load);
+      if (load !== undefined && loadMode === 'percent') target.percent1RM = Math.round(load);
+      if (load !== undefined && loadMode === 'percentTM') target.percentTM = Math.round(load);
+      return target;
+    });
+
+    const next: ExerciseTargets = { sets: setTargets };
+    if (tempo.trim()) next.tempo = tempo.trim();
+    if (restSeconds !== null) next.restSeconds = restSeconds;
+
+    triggerHaptic('success');
+    onConfirm(next);
+  }, [convertWeightToLbs, loadMode, onConfirm, restSeconds, sets, tempo]);
+
+  const handleClear = useCallback(() => {
+    triggerHaptic('warning');
+    onConfirm(undefined);
+  }, [onConfirm]);
+
+  const inputStyle = [
+    styles.input,
+    { borderColor: theme.border.light, backgroundColor: theme.surface.subtle, color: theme.text.primary },
+  ];
+  const loadModes: { value: LoadMode; label: string }[] = [
+    { value: 'none', label: 'History' },
+    { value: 'weight', label: getWeightUnit() },
+    { value: 'percent', label: '% 1RM' },
+    { value: 'percentTM', label: '% TM' },
+  ];
+
   return (
     <Modal animationType="fade" transparent visible={visible} onRequestClose={onCancel}>
-      <TouchableWithoutFeedback onPress={onCancel}>
-        <View style={styles.overlay}>
-          <TouchableWithoutFeedback>
-            <View style={styles.container}>
-              <Text variant="heading3" color="primary" style={styles.title}>
-                Sets for {exerciseName}
-              </Text>
+      <Pressable style={styles.overlay} onPress={onCancel}>
+        <Pressable
+          style={[styles.container, { backgroundColor: theme.surface.card }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <Text variant="heading3" color="primary" style={styles.title} numberOfLines={2}>
+            Targets for {exerciseName}
+          </Text>
+
+          <ScrollView style={styles.scroll} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            <View style={styles.row}>
+              <Text variant="bodySemibold" color="primary">Sets</Text>
+              <View style={styles.stepper}>
+                <Pressable
+                  style={[styles.stepButton, { borderColor: theme.border.medium }]}
+                  onPress={() => handleSetCountStep(-1)}
+                  disabled={sets.length <= 1}
+                  accessibilityRole="button"
+                  accessibilityLabel="Remove a set"
+                >
+                  <IconSymbol name="remove" color={theme.text.primary} size={sizing.iconSM} />
+                </Pressable>
+                <Text variant="bodySemibold" color="primary" style={styles.stepValue}>
+                  {sets.length}
+                </Text>
+                <Pressable
+                  style={[styles.stepButton, { borderColor: theme.border.medium }]}
+                  onPress={() => handleSetCountStep(1)}
+                  disabled={sets.length >= MAX_TARGET_SETS}
+                  accessibilityRole="button"
+                  accessibilityLabel="Add a set"
+                >
+                  <IconSymbol name="add" color={theme.text.primary} size={sizing.iconSM} />
+                </Pressable>
+              </View>
+            </View>
+
+            {usesWeight && (
+              <View style={styles.segments}>
+                {loadModes.map((mode) => {
+                  const isSelected = loadMode === mode.value;
+                  return (
+                    <Pressable
+                      key={mode.value}
+                      onPress={() => {
+                        triggerHaptic('selection');
+                        setLoadMode(mode.value);
+                      }}
+                      style={[
+                        styles.segment,
+                        { borderColor: isSelected ? theme.accent.orange : theme.border.light },
+                        isSelected && { backgroundColor: theme.accent.orangeMuted },
+                      ]}
+                    >
+                      <Text variant="caption" color={isSelected ? 'primary' : 'secondary'}>
+                        {mode.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            )}
+
+            {sets.map((set, index) => (
+              <View key={index} style={styles.setRow}>
+                <Text variant="caption" color="secondary" style={styles.setLabel}>
+                  Set {index + 1}
+                </Text>
+                <TextInput
+                  value={set.minReps}
+                  onChangeText={(value) => updateSet(index, { minReps: value })}
+                  keyboardType="number-pad"
+                  placeholder="Reps"
+                  placeholderTextColor={theme.text.tertiary}
+                  selectionColor={theme.accent.primary}
+                  style={inputStyle}
+                />
+                <Text variant="caption" color="tertiary">–</Text>
+                <TextInput
+                  value={set.maxReps}
+                  onChangeText={(value) => updateSet(index, { maxReps: value })}
+                  keyboardType="number-pad"
+                  placeholder="Max"
+                  placeholderTextColor={theme.text.tertiary}
+                  selectionColor={theme.accent.primary}
+                  style={inputStyle}
+                />
+                {loadMode !== 'none' && (
+                  <TextInput
+                    value={set.load}
+                    onChangeText={(value) => updateSet(index, { load: value })}
+                    keyboardType="decimal-pad"
+                    placeholder={loadMode === 'weight' ? getWeightUnit() : '%'}
+                    placeholderTextColor={theme.text.tertiary}
+                    selectionColor={theme.accent.primary}
+                    style={inputStyle}
+                  />
+                )}
+                <Pressable
+                  onPress={() => {
+                    triggerHaptic('selection');
+                    updateSet(index, { amrap: !set.amrap });
+                  }}
+                  style={[
+                    styles.amrapToggle,
+                    { borderColor: set.amrap ? theme.accent.orange : theme.border.light },
+                    set.amrap && { backgroundColor: theme.accent.orangeMuted },
+                  ]}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Toggle AMRAP for set ${index + 1}`}
+                >
+                  <Text variant="captionSmall" color={set.amrap ? 'primary' : 'tertiary'}>
+                    AMRAP
+                  </Text>
+                </Pressable>
+              </View>
+            ))}
+
+            <View style={styles.row}>
+              <Text variant="bodySemibold" color="primary">Tempo</Text>
               <TextInput
-                value={value}
-                onChangeText={onChange}
-                keyboardType="number-pad"
-                placeholder="Enter sets"
-                placeholderTextColor={colors.text.tertiary}
-                style={styles.input}
+                value={tempo}
+                onChangeText={setTempo}
+                placeholder="3-1-1-0"
+                placeholderTextColor={theme.text.tertiary}
                 selectionColor={theme.accent.primary}
+                style={[inputStyle, styles.tempoInput]}
               />
-              <View style={styles.actions}>
-                <Button label="Cancel" variant="ghost" size="sm" onPress={onCancel} />
-                <Button label="Confirm" variant="primary" size="sm" onPress={onConfirm} />
+            </View>
+
+            <View style={styles.row}>
+              <Text variant="bodySemibold" color="primary">Rest</Text>
+              <View style={styles.stepper}>
+                <Pressable
+                  style={[styles.stepButton, { borderColor: theme.border.medium }]}
+                  onPress={() => handleRestStep(-REST_STEP_SECONDS)}
+                  disabled={restSeconds === null || restSeconds <= REST_MIN_SECONDS}
+                  accessibilityRole="button"
+                  accessibilityLabel="Decrease rest"
+                >
+                  <IconSymbol name="remove" color={theme.text.primary} size={sizing.iconSM} />
+                </Pressable>
+                <Pressable onPress={() => setRestSeconds(null)} disabled={restSeconds === null}>
+                  <Text variant="bodySemibold" color={restSeconds === null ? 'tertiary' : 'primary'} style={styles.stepValue}>
+                    {restSeconds === null ? 'Default' : formatRestTime(restSeconds)}
+                  </Text>
+                </Pressable>
+                <Pressable
+                  style={[styles.stepButton, { borderColor: theme.border.medium }]}
+                  onPress={() => handleRestStep(REST_STEP_SECONDS)}
+                  disabled={restSeconds !== null && restSeconds >= REST_MAX_SECONDS}
+                  accessibilityRole="button"
+                  accessibilityLabel="Increase rest"
+                >
+                  <IconSymbol name="add" color={theme.text.primary} size={sizing.iconSM} />
+                </Pressable>
               </View>
             </View>
-          </TouchableWithoutFeedback>
-        </View>
-      </TouchableWithoutFeedback>
+
+            <Text variant="caption" color="secondary">
+              Leave reps or load empty to fill them from your history. Tap the rest time to go back to your default.
+            </Text>
+          </ScrollView>
+
+          <View style={styles.actions}>
+            {targets ? (
+              <Button label="Clear" variant="ghost" size="sm" onPress={handleClear} />
+            ) : (
+              <Button label="Cancel" variant="ghost" size="sm" onPress={onCancel} />
+            )}
+            <Button label="Save" variant="primary" size="sm" onPress={handleConfirm} />
+          </View>
+        </Pressable>
+      </Pressable>
     </Modal>
   );
 };
@@ -63,33 +347,89 @@ export const PlanSetModal: React.FC<PlanSetModalProps> = ({
 const styles = StyleSheet.create({
   overlay: {
     flex: 1,
-    backgroundColor: colors.glass.dark,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
     justifyContent: 'center',
     alignItems: 'center',
     padding: spacing.lg,
   },
   container: {
     width: '100%',
-    maxWidth: 360,
-    borderRadius: radius.lg,
-    backgroundColor: colors.surface.card,
+    maxWidth: 400,
+    maxHeight: '85%',
+    borderRadius: radius.xl,
     padding: spacing.xl,
     gap: spacing.lg,
+    ...shadows.lg,
   },
   title: {
     textAlign: 'center',
   },
+  scroll: {
+    flexGrow: 0,
+  },
+  content: {
+    gap: spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.md,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepValue: {
+    minWidth: 56,
+    textAlign: 'center',
+  },
+  segments: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+    borderRadius: radius.md,
+    borderWidth: 1,
+  },
+  setRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  setLabel: {
+    width: 40,
+  },
   input: {
-    height: sizing.inputHeight,
+    flex: 1,
+    height: 36,
     borderRadius: radius.md,
     borderWidth: 1,
-    borderColor: colors.border.light,
-    paddingHorizontal: spacing.md,
-    backgroundColor: colors.surface.subtle,
-    color: colors.text.primary,
+    paddingHorizontal: spacing.xs,
     textAlign: 'center',
-    ...typography.bodySemibold,
-    fontWeight: '600',
+    ...typography.body,
+  },
+  tempoInput: {
+    flex: 0,
+    width: 112,
+  },
+  amrapToggle: {
+    paddingHorizontal: spacing.xs,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.sm,
+    borderWidth: 1,
   },
   actions: {
     flexDirection: 'row',
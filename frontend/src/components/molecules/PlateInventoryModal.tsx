@@ -0,0 +1,267 @@
+/**
+ * PlateInventoryModal
+ * Modal for configuring the active gym profile's bar weight and plates for the current weight unit.
+ * Barbell loading and suggestion rounding only use plates with at least one pair.
+ */
+
+import React, { useCallback } from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { triggerHaptic } from '@/utils/haptics';
+
+import { Text } from '@/components/atoms/Text';
+import { Button } from '@/components/atoms/Button';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useTheme } from '@/hooks/useTheme';
+import { spacing, radius, shadows, sizing } from '@/constants/theme';
+import { useGymProfileStore } from '@/store/gymProfileStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import type { WeightUnit } from '@/store/settingsStore';
+import type { PlateInventory } from '@/types/gymProfile';
+import { DEFAULT_PLATE_INVENTORIES, MAX_PLATE_PAIRS } from '@/utils/plates';
+
+interface PlateInventoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const BAR_WEIGHT_STEP: Record<WeightUnit, number> = { lbs: 5, kg: 2.5 };
+const BAR_WEIGHT_MAX: Record<WeightUnit, number> = { lbs: 100, kg: 45 };
+
+export const PlateInventoryModal: React.FC<PlateInventoryModalProps> = ({
+  visible,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const weightUnit = useSettingsStore((state) => state.weightUnit);
+  const activeProfile = useGymProfileStore((state) => state.getActiveProfile());
+  const updateProfile = useGymProfileStore((state) => state.updateProfile);
+  const inventory = activeProfile.plateInventories[weightUnit];
+
+  const setPlateInventory = useCallback(
+    (unit: WeightUnit, next: PlateInventory) => {
+      updateProfile(activeProfile.id, {
+        plateInventories: { ...activeProfile.plateInventories, [unit]: next },
+      });
+    },
+    [activeProfile, updateProfile],
+  );
+
+  const handleClose = useCallback(() => {
+    triggerHaptic('selection');
+    onClose();
+  }, [onClose]);
+
+  const handleDone = useCallback(() => {
+    triggerHaptic('success');
+    onClose();
+  }, [onClose]);
+
+  const handleBarStep = useCallback(
+    (delta: number) => {
+      triggerHaptic('selection');
+      const barWeight = Math.min(BAR_WEIGHT_MAX[weightUnit], Math.max(0, inventory.barWeight + delta));
+      setPlateInventory(weightUnit, { ...inventory, barWeight });
+    },
+    [inventory, setPlateInventory, weightUnit],
+  );
+
+  const handlePairsStep = useCallback(
+    (plateWeight: number, delta: number) => {
+      triggerHaptic('selection');
+      setPlateInventory(weightUnit, {
+        ...inventory,
+        plates: inventory.plates.map((plate) =>
+          plate.weight === plateWeight
+            ? { ...plate, pairs: Math.min(MAX_PLATE_PAIRS, Math.max(0, plate.pairs + delta)) }
+            : plate,
+        ),
+      });
+    },
+    [inventory, setPlateInventory, weightUnit],
+  );
+
+  const handleReset = useCallback(() => {
+    triggerHaptic('warning');
+    setPlateInventory(weightUnit, DEFAULT_PLATE_INVENTORIES[weightUnit]);
+  }, [setPlateInventory, weightUnit]);
+
+  const renderStepper = (
+    value: string,
+    label: string,
+    onDecrease: () => void,
+    onIncrease: () => void,
+    canDecrease: boolean,
+    canIncrease: boolean,
+  ) => (
+    <View style={styles.stepper}>
+      <Pressable
+        style={[styles.stepButton, { borderColor: theme.border.medium }]}
+        onPress={onDecrease}
+        disabled={!canDecrease}
+        accessibilityRole="button"
+        accessibilityLabel={`Decrease ${label}`}
+      >
+        <IconSymbol name="remove" color={theme.text.primary} size={sizing.iconSM} />
+      </Pressable>
+      <Text variant="bodySemibold" color="primary" style={styles.stepValue}>
+        {value}
+      </Text>
+      <Pressable
+        style={[styles.stepButton, { borderColor: theme.border.medium }]}
+        onPress={onIncrease}
+        disabled={!canIncrease}
+        accessibilityRole="button"
+        accessibilityLabel={`Increase ${label}`}
+      >
+        <IconSymbol name="add" color={theme.text.primary} size={sizing.iconSM} />
+      </Pressable>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={handleClose}
+    >
+      <Pressable style={styles.overlay} onPress={handleClose}>
+        <Pressable
+          style={[styles.modalContent, { backgroundColor: theme.surface.card }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <Text variant="heading2" color="primary" style={styles.title}>
+            Plates & Bar
+          </Text>
+          <Text variant="body" color="secondary" style={styles.subtitle}>
+            {activeProfile.name}
+          </Text>
+
+          <View style={styles.row}>
+            <Text variant="bodySemibold" color="primary" style={styles.rowLabel}>
+              Bar Weight
+            </Text>
+            {renderStepper(
+              `${inventory.barWeight} ${weightUnit}`,
+              'bar weight',
+              () => handleBarStep(-BAR_WEIGHT_STEP[weightUnit]),
+              () => handleBarStep(BAR_WEIGHT_STEP[weightUnit]),
+              inventory.barWeight > 0,
+              inventory.barWeight < BAR_WEIGHT_MAX[weightUnit],
+            )}
+          </View>
+
+          <Text variant="label" color="secondary" style={styles.sectionLabel}>
+            Pairs of plates
+          </Text>
+          <ScrollView style={styles.plates} showsVerticalScrollIndicator={false}>
+            {inventory.plates.map((plate) => (
+              <View key={plate.weight} style={styles.row}>
+                <Text variant="body" color={plate.pairs > 0 ? 'primary' : 'tertiary'} style={styles.rowLabel}>
+                  {plate.weight} {weightUnit}
+                </Text>
+                {renderStepper(
+                  String(plate.pairs),
+                  `${plate.weight} ${weightUnit} pairs`,
+                  () => handlePairsStep(plate.weight, -1),
+                  () => handlePairsStep(plate.weight, 1),
+                  plate.pairs > 0,
+                  plate.pairs < MAX_PLATE_PAIRS,
+                )}
+              </View>
+            ))}
+          </ScrollView>
+
+          <Text variant="caption" color="secondary" style={styles.hint}>
+            Barbell loading and weight suggestions only use the plates you have. Switch units to set up your {weightUnit === 'kg' ? 'lbs' : 'kg'} plates.
+          </Text>
+
+          <View style={styles.buttonContainer}>
+            <Button
+              label="Reset"
+              variant="ghost"
+              onPress={handleReset}
+              style={styles.button}
+            />
+            <Button
+              label="Done"
+              variant="primary"
+              onPress={handleDone}
+              style={styles.button}
+            />
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  modalContent: {
+    borderRadius: radius.xl,
+    padding: spacing.xl,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    ...shadows.lg,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    marginBottom: spacing.lg,
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+    gap: spacing.md,
+  },
+  rowLabel: {
+    flex: 1,
+  },
+  sectionLabel: {
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  plates: {
+    flexGrow: 0,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepValue: {
+    minWidth: 64,
+    textAlign: 'center',
+  },
+  hint: {
+    marginTop: spacing.md,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginTop: spacing.lg,
+  },
+  button: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,114 @@
+/**
+ * PlateLoadingView
+ * Shows how to load a barbell for a weight: one side of the bar with its plates,
+ * plus the per-side list and anything the plate inventory can't make up.
+ * Weight is in the user's weight unit, the same unit as the inventory.
+ */
+
+import React, { useMemo } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { Text } from '@/components/atoms/Text';
+import { radius, spacing } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+import { useGymProfileStore } from '@/store/gymProfileStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { calculatePlateBreakdown, formatPlateList } from '@/utils/plates';
+
+interface PlateLoadingViewProps {
+  weight: number;
+}
+
+const MAX_PLATE_HEIGHT = 36;
+const MIN_PLATE_HEIGHT = 14;
+const PLATE_WIDTH = 8;
+
+export const PlateLoadingView: React.FC<PlateLoadingViewProps> = ({ weight }) => {
+  const { theme } = useTheme();
+  const weightUnit = useSettingsStore((state) => state.weightUnit);
+  const activeProfile = useGymProfileStore((state) => state.getActiveProfile());
+  const inventory = activeProfile.plateInventories[weightUnit];
+
+  const breakdown = useMemo(() => calculatePlateBreakdown(weight, inventory), [inventory, weight]);
+  const heaviestPlate = useMemo(
+    () => inventory.plates.reduce((heaviest, plate) => Math.max(heaviest, plate.weight), 0),
+    [inventory],
+  );
+
+  const isBelowBar = weight < inventory.barWeight;
+  const caption = breakdown.perSide.length > 0
+    ? `Per side: ${formatPlateList(breakdown.perSide)}`
+    : 'Empty bar';
+
+  return (
+    <View style={styles.container} accessibilityLabel={`${caption} on a ${inventory.barWeight} ${weightUnit} bar`}>
+      <View style={styles.bar}>
+        <View style={[styles.sleeve, { backgroundColor: theme.border.medium }]} />
+        {breakdown.perSide.map((plate, index) => (
+          <View
+            key={`${plate}-${index}`}
+            style={[
+              styles.plate,
+              {
+                height: Math.max(MIN_PLATE_HEIGHT, (plate / heaviestPlate) * MAX_PLATE_HEIGHT),
+                backgroundColor: theme.accent.orange,
+              },
+            ]}
+          />
+        ))}
+        <View style={[styles.sleeveEnd, { backgroundColor: theme.border.medium }]} />
+      </View>
+
+      <View style={styles.details}>
+        <Text variant="caption" color="primary">
+          {caption}
+        </Text>
+        <Text variant="caption" color="tertiary">
+          {inventory.barWeight} {weightUnit} bar
+        </Text>
+        {isBelowBar ? (
+          <Text variant="caption" color="orange">
+            Lighter than the bar
+          </Text>
+        ) : breakdown.remainder > 0 ? (
+          <Text variant="caption" color="orange">
+            {breakdown.remainder} {weightUnit} short: loads {breakdown.loadedWeight} {weightUnit}
+          </Text>
+        ) : null}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingTop: spacing.xs,
+  },
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    minHeight: MAX_PLATE_HEIGHT,
+  },
+  sleeve: {
+    width: 16,
+    height: 6,
+    borderRadius: radius.sm,
+  },
+  plate: {
+    width: PLATE_WIDTH,
+    borderRadius: 2,
+  },
+  sleeveEnd: {
+    width: 10,
+    height: 6,
+    borderRadius: radius.sm,
+  },
+  details: {
+    flex: 1,
+    gap: 2,
+  },
+});
@@ -0,0 +1,116 @@
+/**
+ * RestTimerBar
+ * Countdown shown during a workout session while resting between sets.
+ * Offers quick -/+ adjustments and a skip action.
+ */
+
+import React from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+
+import { Text } from '@/components/atoms/Text';
+import { radius, sizing, spacing } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+import { triggerHaptic } from '@/utils/haptics';
+import { formatRestTime, REST_STEP_SECONDS } from '@/utils/restTimer';
+
+interface RestTimerBarProps {
+  exerciseName: string;
+  remainingSeconds: number;
+  onAdjust: (deltaSeconds: number) => void;
+  onSkip: () => void;
+}
+
+export const RestTimerBar: React.FC<RestTimerBarProps> = ({
+  exerciseName,
+  remainingSeconds,
+  onAdjust,
+  onSkip,
+}) => {
+  const { theme } = useTheme();
+
+  const handleAdjust = (deltaSeconds: number) => {
+    triggerHaptic('selection');
+    onAdjust(deltaSeconds);
+  };
+
+  const handleSkip = () => {
+    triggerHaptic('selection');
+    onSkip();
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.surface.card, borderColor: theme.accent.orange }]}>
+      <View style={styles.info}>
+        <Text variant="label" color="secondary" numberOfLines={1}>
+          {`Rest · ${exerciseName}`}
+        </Text>
+        <Text variant="heading2" color="primary">
+          {formatRestTime(remainingSeconds)}
+        </Text>
+      </View>
+      <View style={styles.controls}>
+        <Pressable
+          style={[styles.controlButton, { borderColor: theme.border.light }]}
+          onPress={() => handleAdjust(-REST_STEP_SECONDS)}
+          accessibilityRole="button"
+          accessibilityLabel={`Subtract ${REST_STEP_SECONDS} seconds of rest`}
+        >
+          <Text variant="bodySemibold" color="primary">{`-${REST_STEP_SECONDS}`}</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.controlButton, { borderColor: theme.border.light }]}
+          onPress={() => handleAdjust(REST_STEP_SECONDS)}
+          accessibilityRole="button"
+          accessibilityLabel={`Add ${REST_STEP_SECONDS} seconds of rest`}
+        >
+          <Text variant="bodySemibold" color="primary">{`+${REST_STEP_SECONDS}`}</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.controlButton, styles.skipButton, { backgroundColor: theme.accent.orange, borderColor: theme.accent.orange }]}
+          onPress={handleSkip}
+          accessibilityRole="button"
+          accessibilityLabel="Skip rest"
+        >
+          <MaterialCommunityIcons name="skip-next" size={sizing.iconSM} color={theme.text.onAccent} />
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginHorizontal: spacing.md,
+    marginTop: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    gap: spacing.sm,
+  },
+  info: {
+    flex: 1,
+    gap: spacing.xxs,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  controlButton: {
+    minWidth: sizing.iconLG,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  skipButton: {
+    paddingHorizontal: spacing.sm,
+  },
+});
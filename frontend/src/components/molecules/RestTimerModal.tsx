@@ -0,0 +1,199 @@
+/**
+ * RestTimerModal
+ * Modal for configuring the automatic rest timer and its default length per set type.
+ */
+
+import React, { useCallback } from 'react';
+import { Modal, Pressable, StyleSheet, Switch, View } from 'react-native';
+import { triggerHaptic } from '@/utils/haptics';
+
+import { Text } from '@/components/atoms/Text';
+import { Button } from '@/components/atoms/Button';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useTheme } from '@/hooks/useTheme';
+import { spacing, radius, shadows, sizing } from '@/constants/theme';
+import { useSettingsStore } from '@/store/settingsStore';
+import { SET_TYPE_OPTIONS } from '@/utils/setTypes';
+import { formatRestTime, REST_MAX_SECONDS, REST_MIN_SECONDS, REST_STEP_SECONDS } from '@/utils/restTimer';
+import type { SetType } from '@/types/workout';
+
+interface RestTimerModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export const RestTimerModal: React.FC<RestTimerModalProps> = ({
+  visible,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { restTimerEnabled, setRestTimerEnabled, restDurations, setRestDuration } = useSettingsStore();
+
+  const handleClose = useCallback(() => {
+    triggerHaptic('selection');
+    onClose();
+  }, [onClose]);
+
+  const handleDone = useCallback(() => {
+    triggerHaptic('success');
+    onClose();
+  }, [onClose]);
+
+  const handleStep = useCallback(
+    (setType: SetType, deltaSeconds: number) => {
+      triggerHaptic('selection');
+      setRestDuration(setType, restDurations[setType] + deltaSeconds);
+    },
+    [restDurations, setRestDuration],
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={handleClose}
+    >
+      <Pressable style={styles.overlay} onPress={handleClose}>
+        <Pressable
+          style={[styles.modalContent, { backgroundColor: theme.surface.card }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <Text variant="heading2" color="primary" style={styles.title}>
+            Rest Timer
+          </Text>
+
+          <View style={styles.row}>
+            <View style={styles.rowLabel}>
+              <Text variant="bodySemibold" color="primary">Start After Each Set</Text>
+              <Text variant="caption" color="secondary">Alerts you when rest is over, even in the background</Text>
+            </View>
+            <Switch
+              value={restTimerEnabled}
+              onValueChange={(val) => {
+                triggerHaptic('selection');
+                setRestTimerEnabled(val);
+              }}
+              trackColor={{ false: theme.surface.subtle, true: theme.accent.orange }}
+              thumbColor={'#FFFFFF'}
+              ios_backgroundColor={theme.surface.subtle}
+            />
+          </View>
+
+          <View style={[styles.durations, !restTimerEnabled && styles.durationsDisabled]} pointerEvents={restTimerEnabled ? 'auto' : 'none'}>
+            {SET_TYPE_OPTIONS.map((option) => {
+              const seconds = restDurations[option.value];
+
+              return (
+                <View key={option.value} style={styles.row}>
+                  <Text variant="body" color="primary" style={styles.rowLabel}>
+                    {option.label}
+                  </Text>
+                  <View style={styles.stepper}>
+                    <Pressable
+                      style={[styles.stepButton, { borderColor: theme.border.medium }]}
+                      onPress={() => handleStep(option.value, -REST_STEP_SECONDS)}
+                      disabled={seconds <= REST_MIN_SECONDS}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Decrease ${option.label} rest`}
+                    >
+                      <IconSymbol name="remove" color={theme.text.primary} size={sizing.iconSM} />
+                    </Pressable>
+                    <Text variant="bodySemibold" color="primary" style={styles.stepValue}>
+                      {formatRestTime(seconds)}
+                    </Text>
+                    <Pressable
+                      style={[styles.stepButton, { borderColor: theme.border.medium }]}
+                      onPress={() => handleStep(option.value, REST_STEP_SECONDS)}
+                      disabled={seconds >= REST_MAX_SECONDS}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Increase ${option.label} rest`}
+                    >
+                      <IconSymbol name="add" color={theme.text.primary} size={sizing.iconSM} />
+                    </Pressable>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+
+          <Text variant="caption" color="secondary" style={styles.hint}>
+            Set a custom rest for a specific exercise from its menu during a workout.
+          </Text>
+
+          <View style={styles.buttonContainer}>
+            <Button
+              label="Done"
+              variant="primary"
+              onPress={handleDone}
+              style={styles.button}
+            />
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  modalContent: {
+    borderRadius: radius.xl,
+    padding: spacing.xl,
+    width: '100%',
+    maxWidth: 400,
+    ...shadows.lg,
+  },
+  title: {
+    marginBottom: spacing.lg,
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+    gap: spacing.md,
+  },
+  rowLabel: {
+    flex: 1,
+  },
+  durations: {
+    marginTop: spacing.sm,
+  },
+  durationsDisabled: {
+    opacity: 0.4,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepValue: {
+    minWidth: 44,
+    textAlign: 'center',
+  },
+  hint: {
+    marginTop: spacing.md,
+  },
+  buttonContainer: {
+    marginTop: spacing.lg,
+  },
+  button: {
+    width: '100%',
+  },
+});
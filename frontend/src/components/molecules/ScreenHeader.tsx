@@ -1,6 +1,7 @@
 /**
  * ScreenHeader
  * Molecule providing a consistent layout for screen titles and subtitles.
+ * Shows the sync status beneath them while changes are waiting to reach the cloud.
  */
 
 import React from 'react';
@@ -10,6 +11,7 @@ import { triggerHaptic } from '@/utils/haptics';
 
 import { Text } from '@/components/atoms/Text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { SyncStatusIndicator } from '@/components/molecules/SyncStatusIndicator';
 import { spacing, radius, shadows } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
 
@@ -53,6 +55,7 @@ export const ScreenHeader: React.FC<ScreenHeaderProps> = ({ title, subtitle, onP
               {subtitle}
             </Text>
           ) : null}
+          <SyncStatusIndicator />
         </View>
         {onProfilePress && (
           <Animated.View style={animatedStyle}>
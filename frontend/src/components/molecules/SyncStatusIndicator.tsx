@@ -0,0 +1,83 @@
+/**
+ * SyncStatusIndicator
+ * Small pill showing changes that haven't reached the cloud yet, or offline edits that were
+ * dropped because a newer version existed or the server kept rejecting them.
+ * Renders nothing when everything is synced.
+ */
+
+import React, { useCallback } from 'react';
+import { Pressable, StyleSheet } from 'react-native';
+import { triggerHaptic } from '@/utils/haptics';
+
+import { Text } from '@/components/atoms/Text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useTheme } from '@/hooks/useTheme';
+import { radius, sizing, spacing } from '@/constants/theme';
+import { useSyncQueueStore } from '@/store/syncQueueStore';
+
+const pluralize = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export const SyncStatusIndicator: React.FC = () => {
+  const { theme } = useTheme();
+  const pendingCount = useSyncQueueStore((state) => state.mutations.length);
+  const conflictCount = useSyncQueueStore((state) => state.conflicts.length);
+  const failedCount = useSyncQueueStore((state) =>
+    state.conflicts.filter((conflict) => conflict.reason === 'sync-failed').length,
+  );
+  const isFlushing = useSyncQueueStore((state) => state.isFlushing);
+  const flush = useSyncQueueStore((state) => state.flush);
+  const dismissConflicts = useSyncQueueStore((state) => state.dismissConflicts);
+
+  const handlePress = useCallback(() => {
+    triggerHaptic('selection');
+    if (pendingCount > 0) {
+      void flush();
+    } else {
+      dismissConflicts();
+    }
+  }, [dismissConflicts, flush, pendingCount]);
+
+  if (pendingCount === 0 && conflictCount === 0) {
+    return null;
+  }
+
+  const label = pendingCount > 0
+    ? isFlushing
+      ? `Syncing ${pluralize(pendingCount, 'change')}…`
+      : `${pluralize(pendingCount, 'change')} pending sync`
+    : failedCount > 0
+      ? `${pluralize(failedCount, 'change')} couldn't be synced`
+      : `${pluralize(conflictCount, 'offline edit')} replaced by newer changes`;
+
+  return (
+    <Pressable
+      style={[styles.pill, { borderColor: theme.accent.orange }]}
+      onPress={handlePress}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityHint={pendingCount > 0 ? 'Tries to sync now' : 'Dismisses this notice'}
+    >
+      <IconSymbol
+        name={pendingCount > 0 ? 'cloud-upload' : 'sync-problem'}
+        color={theme.accent.orange}
+        size={sizing.iconSM}
+      />
+      <Text variant="caption" color="orange">
+        {label}
+      </Text>
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xxs,
+    borderRadius: radius.full,
+    borderWidth: 1,
+  },
+});
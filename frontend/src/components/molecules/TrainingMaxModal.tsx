@@ -0,0 +1,173 @@
+/**
+ * TrainingMaxModal
+ * Sets an exercise's training max by hand or from its best e1RM.
+ * Input is in the user's weight unit; the store keeps lbs.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Modal, Pressable, StyleSheet, TextInput, View } from 'react-native';
+
+import { Button } from '@/components/atoms/Button';
+import { Text } from '@/components/atoms/Text';
+import { radius, shadows, sizing, spacing, typography } from '@/constants/theme';
+import { useTheme } from '@/hooks/useTheme';
+import { useSettingsStore } from '@/store/settingsStore';
+import { triggerHaptic } from '@/utils/haptics';
+import { TRAINING_MAX_E1RM_PERCENT } from '@/utils/trainingMax';
+
+interface TrainingMaxModalProps {
+  visible: boolean;
+  exerciseName: string;
+  /** Current training max in lbs */
+  trainingMaxLbs: number | null;
+  /** Training max seeded from the exercise's best e1RM, in lbs; null without usable history */
+  suggestedFromE1RMLbs: number | null;
+  onClose: () => void;
+  onSave: (weightLbs: number, fromE1RM: boolean) => void;
+  onRemove: () => void;
+}
+
+export const TrainingMaxModal: React.FC<TrainingMaxModalProps> = ({
+  visible,
+  exerciseName,
+  trainingMaxLbs,
+  suggestedFromE1RMLbs,
+  onClose,
+  onSave,
+  onRemove,
+}) => {
+  const { theme } = useTheme();
+  const { convertWeight, convertWeightToLbs, formatWeight, getWeightUnit } = useSettingsStore();
+  const [input, setInput] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setInput(trainingMaxLbs ? String(convertWeight(trainingMaxLbs)) : '');
+    }
+  }, [convertWeight, trainingMaxLbs, visible]);
+
+  const parsedInput = parseFloat(input.replace(',', '.'));
+  const isValid = Number.isFinite(parsedInput) && parsedInput > 0;
+
+  const handleSave = useCallback(() => {
+    if (!isValid) return;
+    triggerHaptic('success');
+    onSave(convertWeightToLbs(parsedInput), false);
+  }, [convertWeightToLbs, isValid, onSave, parsedInput]);
+
+  const handleUseE1RM = useCallback(() => {
+    if (!suggestedFromE1RMLbs) return;
+    triggerHaptic('success');
+    onSave(suggestedFromE1RMLbs, true);
+  }, [onSave, suggestedFromE1RMLbs]);
+
+  const handleRemove = useCallback(() => {
+    triggerHaptic('warning');
+    onRemove();
+  }, [onRemove]);
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.modalContent, { backgroundColor: theme.surface.card }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <Text variant="heading2" color="primary" style={styles.title}>
+            Training Max
+          </Text>
+          <Text variant="body" color="secondary" style={styles.subtitle}>
+            {exerciseName}
+          </Text>
+
+          <View style={styles.inputRow}>
+            <TextInput
+              value={input}
+              onChangeText={setInput}
+              keyboardType="decimal-pad"
+              placeholder="0"
+              placeholderTextColor={theme.text.tertiary}
+              selectionColor={theme.accent.primary}
+              style={[styles.input, { borderColor: theme.border.medium, backgroundColor: theme.surface.subtle, color: theme.text.primary }]}
+            />
+            <Text variant="bodySemibold" color="secondary">
+              {getWeightUnit()}
+            </Text>
+          </View>
+
+          {suggestedFromE1RMLbs ? (
+            <Pressable onPress={handleUseE1RM} style={styles.suggestion} accessibilityRole="button">
+              <Text variant="caption" color="orange">
+                Use {TRAINING_MAX_E1RM_PERCENT}% of best e1RM: {formatWeight(suggestedFromE1RMLbs)}
+              </Text>
+            </Pressable>
+          ) : (
+            <Text variant="caption" color="tertiary" style={styles.suggestion}>
+              Log a set of {exerciseName} to seed this from your e1RM.
+            </Text>
+          )}
+
+          <Text variant="caption" color="secondary">
+            % TM targets load from this number, and it rises after each completed plan cycle when auto-bump is on.
+          </Text>
+
+          <View style={styles.actions}>
+            {trainingMaxLbs ? (
+              <Button label="Remove" variant="ghost" size="sm" onPress={handleRemove} />
+            ) : (
+              <Button label="Cancel" variant="ghost" size="sm" onPress={onClose} />
+            )}
+            <Button label="Save" variant="primary" size="sm" onPress={handleSave} disabled={!isValid} />
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  modalContent: {
+    borderRadius: radius.xl,
+    padding: spacing.xl,
+    width: '100%',
+    maxWidth: 400,
+    gap: spacing.md,
+    ...shadows.lg,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  input: {
+    flex: 1,
+    height: sizing.inputHeight,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    paddingHorizontal: spacing.md,
+    textAlign: 'center',
+    ...typography.bodySemibold,
+  },
+  suggestion: {
+    alignSelf: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+});
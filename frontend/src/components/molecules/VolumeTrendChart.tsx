@@ -19,9 +19,9 @@ import { ChartWrapper } from '@/components/atoms/ChartWrapper';
 import { colors, spacing } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
 import { useAnalyticsData } from '@/hooks/useAnalyticsData';
+import { useBodyWeightResolver } from '@/hooks/useBodyWeightResolver';
 import { TIME_RANGE_SUBTITLES } from '@/types/analytics';
 import { useSettingsStore } from '@/store/settingsStore';
-import { useUserProfileStore } from '@/store/userProfileStore';
 import { exercises as exerciseCatalog } from '@/constants/exercises';
 import {
   aggregateByNDays,
@@ -29,6 +29,7 @@ import {
   formatLocalDate,
   type AggregatedPoint,
 } from '@/utils/chartUtils';
+import { isWarmupSet } from '@/utils/setTypes';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const CHART_WIDTH = SCREEN_WIDTH - spacing.xl * 2 - spacing.md * 2;
@@ -54,7 +55,7 @@ export const VolumeTrendChart: React.FC<VolumeTrendChartProps> = ({ timeRange =
   const hasFilteredData = precomputedHasFilteredData ?? hookData.hasFilteredData;
   const filteredWorkouts = precomputedFilteredWorkouts ?? hookData.filteredWorkouts;
   const convertWeight = useSettingsStore((state) => state.convertWeight);
-  const userBodyWeight = useUserProfileStore((state) => state.profile?.weightLbs);
+  const getBodyWeightOnDate = useBodyWeightResolver();
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
 
   // Clear any selected middle point when the time range or exercise changes
@@ -72,12 +73,13 @@ export const VolumeTrendChart: React.FC<VolumeTrendChartProps> = ({ timeRange =
     
     filteredWorkouts.forEach((workout) => {
       const dateKey = formatLocalDate(new Date(workout.startTime ?? workout.date));
+      const bodyWeight = getBodyWeightOnDate(workout.date);
       
       (workout.exercises ?? []).forEach((exercise: any) => {
         if (exercise.name !== selectedExercise) return;
         
         (exercise.sets ?? []).forEach((set: any) => {
-          if (!set.completed) return;
+          if (!set.completed || isWarmupSet(set)) return;
           
           const reps = set.reps ?? 0;
           if (reps <= 0) return;
@@ -86,14 +88,14 @@ export const VolumeTrendChart: React.FC<VolumeTrendChartProps> = ({ timeRange =
           
           switch (exerciseType) {
             case 'bodyweight':
-              if (userBodyWeight && userBodyWeight > 0) {
-                setVolume = userBodyWeight * reps;
+              if (bodyWeight && bodyWeight > 0) {
+                setVolume = bodyWeight * reps;
               }
               break;
             case 'assisted':
-              if (userBodyWeight && userBodyWeight > 0) {
+              if (bodyWeight && bodyWeight > 0) {
                 const assistance = set.assistanceWeight ?? 0;
-                const effective = Math.max(0, userBodyWeight - assistance);
+                const effective = Math.max(0, bodyWeight - assistance);
                 if (effective > 0) {
                   setVolume = effective * reps;
                 }
@@ -117,7 +119,7 @@ export const VolumeTrendChart: React.FC<VolumeTrendChartProps> = ({ timeRange =
     });
     
     return volumeByDate;
-  }, [selectedExercise, filteredWorkouts, volumeTrendData, userBodyWeight, convertWeight]);
+  }, [selectedExercise, filteredWorkouts, volumeTrendData, getBodyWeightOnDate, convertWeight]);
 
   // Use exercise-specific data when an exercise is selected
   const activeVolumeData = selectedExercise ? exerciseVolumeTrendData : volumeTrendData;
@@ -2,25 +2,33 @@
  * WeeklyCardioGoalCard
  * Shows weekly cardio goal progress with swipeable Time/Distance slides.
  * Features a circular progress ring matching BalanceScoreCard style.
+ * While a goal has something left, a run can be started straight from the card with
+ * the remaining time or distance as its target.
  */
 import React, { useState, useRef, useCallback } from 'react';
 import { View, StyleSheet, ScrollView, Pressable, Dimensions, NativeSyntheticEvent, NativeScrollEvent } from 'react-native';
 import Svg, { Circle } from 'react-native-svg';
+import { useRouter } from 'expo-router';
 
 import { Text } from '@/components/atoms/Text';
 import { SurfaceCard } from '@/components/atoms/SurfaceCard';
+import { Button } from '@/components/atoms/Button';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { CardioGoalModal, CardioGoalType } from '@/components/molecules/CardioGoalModal';
 import { colors, spacing, radius, sizing } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
 import { useSettingsStore } from '@/store/settingsStore';
 import { useWeeklyCardioProgress } from '@/hooks/useWeeklyCardioProgress';
+import { useOutdoorSessionStore } from '@/store/outdoorSessionStore';
 import { triggerHaptic } from '@/utils/haptics';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const CARD_PADDING = spacing.md * 2;
 const SLIDE_WIDTH = SCREEN_WIDTH - CARD_PADDING - spacing.md * 2;
 
+/** Exercise a run started from the card is tracked as */
+const REMAINING_RUN_EXERCISE = 'Outdoor Run';
+
 interface CircularProgressProps {
   percentage: number;
   size: number;
@@ -113,6 +121,9 @@ const formatGoalDuration = (totalSeconds: number): string => {
 
 export const WeeklyCardioGoalCard: React.FC = () => {
   const { theme } = useTheme();
+  const router = useRouter();
+  const outdoorSessionStatus = useOutdoorSessionStore((state) => state.status);
+  const isOutdoorSessionInProgress = outdoorSessionStatus === 'active' || outdoorSessionStatus === 'paused';
   const scrollRef = useRef<ScrollView>(null);
   const [activeSlide, setActiveSlide] = useState(0);
   const [goalModalVisible, setGoalModalVisible] = useState(false);
@@ -126,7 +137,7 @@ export const WeeklyCardioGoalCard: React.FC = () => {
     getDistanceUnitShort,
   } = useSettingsStore();
 
-  const { weeklyTime, weeklyDistance } = useWeeklyCardioProgress();
+  const { weeklyTime, weeklyDistance, remainingTime, remainingDistance } = useWeeklyCardioProgress();
 
   // Calculate percentages
   const timePercentage = weeklyCardioTimeGoal && weeklyCardioTimeGoal > 0
@@ -158,6 +169,14 @@ export const WeeklyCardioGoalCard: React.FC = () => {
     setGoalModalVisible(true);
   }, []);
 
+  const startRemainingRun = useCallback((target: 'time' | 'distance', value: number) => {
+    triggerHaptic('selection');
+    router.push({
+      pathname: '/outdoor-session',
+      params: { exercise: REMAINING_RUN_EXERCISE, targetType: target, targetValue: String(value) },
+    });
+  }, [router]);
+
   const distanceUnitShort = getDistanceUnitShort();
 
   // Format progress/goal text for time
@@ -202,6 +221,14 @@ export const WeeklyCardioGoalCard: React.FC = () => {
             <Text variant="body" color="secondary" style={styles.progressText}>
               {formatTimeProgress()}
             </Text>
+            {remainingTime && remainingTime >= 60 && !isOutdoorSessionInProgress ? (
+              <Button
+                label={`Run the remaining ${formatGoalDuration(remainingTime)}`}
+                variant="ghost"
+                size="sm"
+                onPress={() => startRemainingRun('time', remainingTime)}
+              />
+            ) : null}
           </View>
         ) : (
           <Pressable style={styles.emptyState} onPress={() => openGoalModal('time')}>
@@ -243,6 +270,14 @@ export const WeeklyCardioGoalCard: React.FC = () => {
             <Text variant="body" color="secondary" style={styles.progressText}>
               {formatDistanceProgress()}
             </Text>
+            {remainingDistance && convertDistance(remainingDistance) >= 0.1 && !isOutdoorSessionInProgress ? (
+              <Button
+                label={`Run the remaining ${convertDistance(remainingDistance).toFixed(1)} ${distanceUnitShort}`}
+                variant="ghost"
+                size="sm"
+                onPress={() => startRemainingRun('distance', remainingDistance)}
+              />
+            ) : null}
           </View>
         ) : (
           <Pressable style={styles.emptyState} onPress={() => openGoalModal('distance')}>
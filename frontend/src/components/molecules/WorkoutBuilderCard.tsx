@@ -3,7 +3,8 @@
  * A unified, single-card workout builder that combines:
  * - Workout name input
  * - Modal-based exercise search
- * - Compact exercise list with reorder/delete
+ * - Compact exercise list with reorder/delete and superset/circuit linking
+ * - Per-exercise rep/load/tempo/rest targets
  * - Progress indicator and save button
  *
  * Designed for an effortless, one-screen workout creation experience.
@@ -22,11 +23,16 @@ import { SurfaceCard } from '@/components/atoms/SurfaceCard';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { CompactExerciseRow } from '@/components/molecules/CompactExerciseRow';
 import { ExerciseSearchModal } from '@/components/molecules/ExerciseSearchModal';
+import { PlanSetModal } from '@/components/molecules/PlanSetModal';
 import { triggerHaptic } from '@/utils/haptics';
 import { colors, radius, spacing, typography, sizing } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
 import { timingFast } from '@/constants/animations';
+import { useSettingsStore } from '@/store/settingsStore';
+import { getExerciseBlockRange, getExerciseGroupLabel } from '@/utils/exerciseGroups';
+import { formatExerciseTargets } from '@/utils/exerciseTargets';
 import type { Exercise } from '@/constants/exercises';
+import type { ExerciseTargets, TemplateExercise } from '@/types/plan';
 
 interface WorkoutBuilderCardProps {
   // Name input
@@ -36,10 +42,14 @@ interface WorkoutBuilderCardProps {
   isNameDuplicate?: boolean;
 
   // Exercises
-  exercises: Exercise[];
+  exercises: TemplateExercise[];
   onAddExercise: (exercise: Exercise) => void;
   onRemoveExercise: (exerciseId: string) => void;
   onReorderExercises: (fromIndex: number, toIndex: number) => void;
+  /** Links/unlinks an exercise with the next one; omit to hide linking controls */
+  onToggleExerciseLink?: (index: number) => void;
+  /** Sets/clears an exercise's targets; omit to hide target editing */
+  onUpdateExerciseTargets?: (index: number, targets: ExerciseTargets | undefined) => void;
 
   // Save action
   onSave: () => void;
@@ -61,6 +71,8 @@ export const WorkoutBuilderCard: React.FC<WorkoutBuilderCardProps> = ({
   onAddExercise,
   onRemoveExercise,
   onReorderExercises,
+  onToggleExerciseLink,
+  onUpdateExerciseTargets,
 
   onSave,
   saveLabel = 'Save Workout',
@@ -70,7 +82,10 @@ export const WorkoutBuilderCard: React.FC<WorkoutBuilderCardProps> = ({
   onBrowseAllExercises,
 }) => {
   const { theme } = useTheme();
+  const formatWeight = useSettingsStore((state) => state.formatWeight);
   const [isSearchModalVisible, setSearchModalVisible] = useState(false);
+  const [targetsEditIndex, setTargetsEditIndex] = useState<number | null>(null);
+  const targetsEditExercise = targetsEditIndex !== null ? exercises[targetsEditIndex] : undefined;
   const nameFocusProgress = useSharedValue(0);
   const hasExercises = exercises.length > 0;
   const hasName = workoutName.trim().length > 0;
@@ -134,6 +149,28 @@ export const WorkoutBuilderCard: React.FC<WorkoutBuilderCardProps> = ({
     [exercises.length, onReorderExercises]
   );
 
+  const handleToggleLink = useCallback(
+    (index: number) => {
+      triggerHaptic('selection');
+      onToggleExerciseLink?.(index);
+    },
+    [onToggleExerciseLink]
+  );
+
+  const handleConfirmTargets = useCallback(
+    (targets: ExerciseTargets | undefined) => {
+      if (targetsEditIndex !== null) {
+        onUpdateExerciseTargets?.(targetsEditIndex, targets);
+      }
+      setTargetsEditIndex(null);
+    },
+    [onUpdateExerciseTargets, targetsEditIndex]
+  );
+
+  const handleCancelTargets = useCallback(() => {
+    setTargetsEditIndex(null);
+  }, []);
+
   const handleOpenSearchModal = useCallback(() => {
     triggerHaptic('selection');
     setSearchModalVisible(true);
@@ -198,18 +235,50 @@ export const WorkoutBuilderCard: React.FC<WorkoutBuilderCardProps> = ({
           {/* Exercise List */}
           {hasExercises && (
             <View style={styles.exerciseList}>
-              {exercises.map((exercise, index) => (
-                <CompactExerciseRow
-                  key={`${exercise.id}-${index}`}
-                  exercise={exercise}
-                  index={index}
-                  totalCount={exercises.length}
-                  onRemove={onRemoveExercise}
-                  onMoveUp={handleMoveUp}
-                  onMoveDown={handleMoveDown}
-                  showReorderControls={exercises.length > 1}
-                />
-              ))}
+              {exercises.map((exercise, index) => {
+                const isLinkedToNext = Boolean(exercise.groupId) && exercises[index + 1]?.groupId === exercise.groupId;
+                const { start, end } = getExerciseBlockRange(exercises, index);
+                const canEditTargets = Boolean(onUpdateExerciseTargets)
+                  && exercise.exerciseType !== 'cardio'
+                  && exercise.exerciseType !== 'duration';
+                const targetsLabel = exercise.targets
+                  ? formatExerciseTargets(exercise.targets, formatWeight)
+                  : 'Tap to set targets';
+
+                return (
+                  <React.Fragment key={`${exercise.id}-${index}`}>
+                    <CompactExerciseRow
+                      exercise={exercise}
+                      index={index}
+                      totalCount={exercises.length}
+                      onRemove={onRemoveExercise}
+                      onMoveUp={handleMoveUp}
+                      onMoveDown={handleMoveDown}
+                      showReorderControls={exercises.length > 1}
+                      subtitle={canEditTargets ? targetsLabel : undefined}
+                      onPress={canEditTargets ? setTargetsEditIndex : undefined}
+                    />
+                    {onToggleExerciseLink && index < exercises.length - 1 && (
+                      <Pressable
+                        onPress={() => handleToggleLink(index)}
+                        style={styles.linkToggle}
+                        hitSlop={spacing.xs}
+                        accessibilityRole="button"
+                        accessibilityLabel={isLinkedToNext ? 'Unlink exercises' : 'Link exercises'}
+                      >
+                        <IconSymbol
+                          name={isLinkedToNext ? 'link' : 'add-link'}
+                          size={sizing.iconSM}
+                          color={isLinkedToNext ? theme.accent.orange : theme.text.tertiary}
+                        />
+                        <Text variant="caption" color={isLinkedToNext ? 'primary' : 'secondary'}>
+                          {isLinkedToNext ? getExerciseGroupLabel(end - start + 1) : 'Link'}
+                        </Text>
+                      </Pressable>
+                    )}
+                  </React.Fragment>
+                );
+              })}
             </View>
           )}
           
@@ -267,6 +336,16 @@ export const WorkoutBuilderCard: React.FC<WorkoutBuilderCardProps> = ({
         excludeIds={excludedIds}
         title="Add Exercises"
       />
+
+      {/* Exercise Targets Modal */}
+      <PlanSetModal
+        visible={Boolean(targetsEditExercise)}
+        exerciseName={targetsEditExercise?.name ?? ''}
+        exerciseType={targetsEditExercise?.exerciseType}
+        targets={targetsEditExercise?.targets}
+        onCancel={handleCancelTargets}
+        onConfirm={handleConfirmTargets}
+      />
     </SurfaceCard>
   );
 };
@@ -328,6 +407,13 @@ const styles = StyleSheet.create({
   exerciseList: {
     gap: spacing.sm,
   },
+  linkToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
   addExerciseButton: {
     flexDirection: 'row',
     alignItems: 'center',
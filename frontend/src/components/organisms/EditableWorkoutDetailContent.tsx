@@ -16,6 +16,7 @@ import { SheetModal } from '@/components/molecules/SheetModal';
 import { CreateExerciseModal } from '@/components/molecules/CreateExerciseModal';
 import { spacing, colors, radius, sizing } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
+import { useBodyWeightResolver } from '@/hooks/useBodyWeightResolver';
 import { exercises as exerciseCatalog, getExerciseTypeByName, createCustomExerciseCatalogItem } from '@/constants/exercises';
 import { useCustomExerciseStore } from '@/store/customExerciseStore';
 import { triggerHaptic } from '@/utils/haptics';
@@ -24,7 +25,6 @@ import { useSemanticExerciseSearch } from '@/hooks/useSemanticExerciseSearch';
 import { normalizeSearchText } from '@/utils/strings';
 import { getExerciseDisplayTagText } from '@/utils/exerciseDisplayTags';
 import { useSettingsStore } from '@/store/settingsStore';
-import { useUserProfileStore } from '@/store/userProfileStore';
 import type { Workout, WorkoutExercise, SetLog } from '@/types/workout';
 import type { ExerciseType, ExerciseCatalogItem } from '@/types/exercise';
 
@@ -606,8 +606,11 @@ export const EditableWorkoutDetailContent: React.FC<EditableWorkoutDetailContent
     return formatDurationForSummary(durationSeconds);
   }, [durationSeconds]);
   const { completedSets } = useMemo(() => getWorkoutTotals(workout), [workout]);
-  const userBodyWeight = useUserProfileStore((state) => state.profile?.weightLbs);
-  const totalVolume = useMemo(() => getWorkoutVolume(workout, userBodyWeight), [workout, userBodyWeight]);
+  const getBodyWeightOnDate = useBodyWeightResolver();
+  const totalVolume = useMemo(
+    () => getWorkoutVolume(workout, getBodyWeightOnDate(workout.date)),
+    [workout, getBodyWeightOnDate],
+  );
   const volumeLabel = useMemo(() => {
     if (totalVolume === 0) return '—';
     return formatWeight(totalVolume);
@@ -16,6 +16,7 @@ import { SheetModal } from '@/components/molecules/SheetModal';
 import { CreateExerciseModal } from '@/components/molecules/CreateExerciseModal';
 import { spacing, radius, sizing } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
+import { useBodyWeightResolver } from '@/hooks/useBodyWeightResolver';
 import { exercises as exerciseCatalog, getExerciseTypeByName, createCustomExerciseCatalogItem } from '@/constants/exercises';
 import { useCustomExerciseStore } from '@/store/customExerciseStore';
 import { triggerHaptic } from '@/utils/haptics';
@@ -24,11 +25,12 @@ import { useSemanticExerciseSearch } from '@/hooks/useSemanticExerciseSearch';
 import { normalizeSearchText } from '@/utils/strings';
 import { getExerciseDisplayTagText } from '@/utils/exerciseDisplayTags';
 import { useSettingsStore } from '@/store/settingsStore';
-import { useUserProfileStore } from '@/store/userProfileStore';
 import type { Workout, WorkoutExercise, SetLog } from '@/types/workout';
 import type { ExerciseType, ExerciseCatalogItem } from '@/types/exercise';
 
 interface LogSessionContentProps {
+  /** Day being logged (YYYY-MM-DD), used to pick the bodyweight in effect for volume */
+  date: string;
   exercises: WorkoutExercise[];
   durationSeconds: number;
   onExercisesChange: (exercises: WorkoutExercise[]) => void;
@@ -474,6 +476,7 @@ const AddExerciseModal: React.FC<AddExerciseModalProps> = ({
 
 // ── Main Component ──
 export const LogSessionContent: React.FC<LogSessionContentProps> = ({
+  date,
   exercises,
   durationSeconds,
   onExercisesChange,
@@ -489,15 +492,18 @@ export const LogSessionContent: React.FC<LogSessionContentProps> = ({
   const tempWorkout = useMemo<Workout>(() => ({
     id: 'temp',
     planId: null,
-    date: '',
+    date,
     startTime: 0,
     exercises,
     duration: durationSeconds,
-  }), [exercises, durationSeconds]);
+  }), [date, exercises, durationSeconds]);
 
   const { completedSets } = useMemo(() => getWorkoutTotals(tempWorkout), [tempWorkout]);
-  const userBodyWeight = useUserProfileStore((state) => state.profile?.weightLbs);
-  const totalVolume = useMemo(() => getWorkoutVolume(tempWorkout, userBodyWeight), [tempWorkout, userBodyWeight]);
+  const getBodyWeightOnDate = useBodyWeightResolver();
+  const totalVolume = useMemo(
+    () => getWorkoutVolume(tempWorkout, getBodyWeightOnDate(tempWorkout.date)),
+    [tempWorkout, getBodyWeightOnDate],
+  );
   const volumeLabel = useMemo(() => {
     if (totalVolume === 0) return '—';
     return formatWeight(totalVolume);
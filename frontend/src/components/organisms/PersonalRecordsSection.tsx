@@ -1,26 +1,33 @@
 import React, { useState, useMemo } from 'react';
 import { StyleSheet, View, TouchableOpacity, FlatList, TextInput } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 
 import { SurfaceCard } from '@/components/atoms/SurfaceCard';
 import { Text } from '@/components/atoms/Text';
 import { PRCard } from '@/components/molecules/PRCard';
 import { colors, spacing, radius } from '@/constants/theme';
+import { useFullWorkoutHistory } from '@/hooks/useFullWorkoutHistory';
 import { useTheme } from '@/hooks/useTheme';
-import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
 import { usePersonalRecordsStore } from '@/store/personalRecordsStore';
 import { useCustomExerciseStore } from '@/store/customExerciseStore';
+import { useSettingsStore } from '@/store/settingsStore';
 import type { Workout } from '@/types/workout';
 import { exercises as exerciseCatalog, getExerciseTypeByName, createCustomExerciseCatalogItem } from '@/constants/exercises';
 import type { ExerciseType, ExerciseCatalogItem } from '@/types/exercise';
 import { searchExercises } from '@/utils/exerciseSearch';
+import { isWarmupSet } from '@/utils/setTypes';
+import { getSetE1RM } from '@/utils/oneRepMax';
 import { SheetModal } from '@/components/molecules/SheetModal';
+import { triggerHaptic } from '@/utils/haptics';
 
 export const PersonalRecordsSection: React.FC = () => {
   const { theme } = useTheme();
-  const workouts = useWorkoutSessionsStore((state) => state.workouts);
+  const router = useRouter();
+  const { workouts } = useFullWorkoutHistory();
   const trackedExercises = usePersonalRecordsStore((state) => state.trackedExercises);
   const replaceTrackedExercise = usePersonalRecordsStore((state) => state.replaceTrackedExercise);
+  const e1rmFormula = useSettingsStore((state) => state.e1rmFormula);
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [selectedExerciseIndex, setSelectedExerciseIndex] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -44,6 +51,7 @@ export const PersonalRecordsSection: React.FC = () => {
     distance: number;
     duration: number;
     assistanceWeight: number;
+    e1rm: number;
     date: string | null;
   }
 
@@ -57,7 +65,7 @@ export const PersonalRecordsSection: React.FC = () => {
       recordMap.set(exerciseName, {
         exerciseType: exType,
         distanceUnit: catalogEntry?.distanceUnit,
-        weight: 0, reps: 0, distance: 0, duration: 0, assistanceWeight: Infinity,
+        weight: 0, reps: 0, distance: 0, duration: 0, assistanceWeight: Infinity, e1rm: 0,
         date: null,
       });
     });
@@ -71,6 +79,9 @@ export const PersonalRecordsSection: React.FC = () => {
         const exType = existing.exerciseType;
 
         (exercise.sets ?? []).forEach((set) => {
+          // Warm-ups are never records
+          if (isWarmupSet(set)) return;
+
           // For cardio/duration, include sets with meaningful data even if not completed
           if (!set.completed) {
             if (exType === 'cardio' || exType === 'duration') {
@@ -132,6 +143,8 @@ export const PersonalRecordsSection: React.FC = () => {
                 existing.reps = r3;
                 existing.date = workout.date;
               }
+              // Best e1RM can come from a different set than the heaviest one
+              existing.e1rm = Math.max(existing.e1rm, getSetE1RM(set, e1rmFormula) ?? 0);
               break;
             }
           }
@@ -150,10 +163,11 @@ export const PersonalRecordsSection: React.FC = () => {
         distance: record.distance,
         duration: record.duration,
         assistanceWeight: record.assistanceWeight === Infinity ? 0 : record.assistanceWeight,
+        e1rm: record.e1rm,
         date: record.date,
       };
     });
-  }, [workouts, trackedExercises, customExercises]);
+  }, [workouts, trackedExercises, customExercises, e1rmFormula]);
 
   const handleReplaceExercise = (index: number) => {
     setSelectedExerciseIndex(index);
@@ -205,12 +219,26 @@ export const PersonalRecordsSection: React.FC = () => {
               distance={record.distance}
               duration={record.duration}
               assistanceWeight={record.assistanceWeight}
+              e1rm={record.e1rm}
               date={record.date}
               onReplace={() => handleReplaceExercise(index)}
             />
           ))}
         </View>
 
+        <TouchableOpacity
+          style={styles.viewAllButton}
+          onPress={() => {
+            triggerHaptic('selection');
+            router.push('/(tabs)/personal-records');
+          }}
+        >
+          <Text variant="bodySemibold" color="orange">
+            View All Records
+          </Text>
+          <Ionicons name="chevron-forward" size={18} color={theme.accent.orange} />
+        </TouchableOpacity>
+
         <SheetModal
           visible={isModalVisible}
           onClose={closeModal}
@@ -259,6 +287,12 @@ const styles = StyleSheet.create({
   list: {
     gap: spacing.lg,
   },
+  viewAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+  },
   modalContent: {
     padding: spacing.lg,
     paddingTop: spacing.md,
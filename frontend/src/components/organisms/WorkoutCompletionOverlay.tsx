@@ -8,19 +8,28 @@ import { Text } from '@/components/atoms/Text';
 import { springBouncy, timingMedium } from '@/constants/animations';
 import { colors, radius, shadows, sizing, spacing } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
+import { useSettingsStore } from '@/store/settingsStore';
+import type { SetPersonalRecord } from '@/types/personalRecords';
+import { SET_PERSONAL_RECORD_LABELS } from '@/types/personalRecords';
 
 interface WorkoutCompletionOverlayProps {
   onDismiss: () => void;
   autoDismissDurationMs?: number | null;
+  /** Records broken in the finished session */
+  personalRecords?: SetPersonalRecord[];
 }
 
 const DEFAULT_AUTO_DISMISS_MS = 1700;
+const PERSONAL_RECORD_EXTRA_MS = 2500;
 
 export const WorkoutCompletionOverlay: React.FC<WorkoutCompletionOverlayProps> = ({
   onDismiss,
   autoDismissDurationMs = DEFAULT_AUTO_DISMISS_MS,
+  personalRecords = [],
 }) => {
   const { theme } = useTheme();
+  const { formatWeight } = useSettingsStore();
+  const hasPersonalRecords = personalRecords.length > 0;
   const scale = useSharedValue(0.7);
   const cardOpacity = useSharedValue(0);
   const overlayOpacity = useSharedValue(0);
@@ -36,7 +45,7 @@ export const WorkoutCompletionOverlay: React.FC<WorkoutCompletionOverlayProps> =
     if (autoDismissDurationMs != null) {
       timeoutId = setTimeout(() => {
         onDismiss();
-      }, autoDismissDurationMs);
+      }, autoDismissDurationMs + (hasPersonalRecords ? PERSONAL_RECORD_EXTRA_MS : 0));
     }
 
     return () => {
@@ -44,7 +53,7 @@ export const WorkoutCompletionOverlay: React.FC<WorkoutCompletionOverlayProps> =
         clearTimeout(timeoutId);
       }
     };
-  }, [autoDismissDurationMs, cardOpacity, onDismiss, overlayOpacity, scale]);
+  }, [autoDismissDurationMs, cardOpacity, hasPersonalRecords, onDismiss, overlayOpacity, scale]);
 
   const handleDismiss = useCallback(() => {
     onDismiss();
@@ -74,6 +83,18 @@ export const WorkoutCompletionOverlay: React.FC<WorkoutCompletionOverlayProps> =
             Nice work! Tracking saved.
           </Text>
         </View>
+        {hasPersonalRecords ? (
+          <View style={styles.recordsList}>
+            {personalRecords.map((record) => (
+              <View key={`${record.exerciseName}-${record.setIndex}`} style={styles.recordRow}>
+                <MaterialCommunityIcons name="trophy" size={sizing.iconXS} color={theme.accent.orange} />
+                <Text variant="caption" color="primary" style={styles.recordText} numberOfLines={2}>
+                  {`${record.exerciseName} · ${formatWeight(record.weight)} × ${record.reps} · ${record.types.map((type) => SET_PERSONAL_RECORD_LABELS[type]).join(', ')}`}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ) : null}
       </Animated.View>
     </Animated.View>
   );
@@ -118,4 +139,16 @@ const styles = StyleSheet.create({
     gap: spacing.xs,
     alignItems: 'center',
   },
+  recordsList: {
+    alignSelf: 'stretch',
+    gap: spacing.xs,
+  },
+  recordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  recordText: {
+    flex: 1,
+  },
 });
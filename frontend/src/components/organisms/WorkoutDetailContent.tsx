@@ -12,13 +12,23 @@ import { Text } from '@/components/atoms/Text';
 import { SurfaceCard } from '@/components/atoms/SurfaceCard';
 import { WorkoutExerciseSummaryCard } from '@/components/molecules/WorkoutExerciseSummaryCard';
 import { OutdoorRouteMapCard } from '@/components/molecules/OutdoorRouteMapCard';
+import { OutdoorSplitsCard } from '@/components/molecules/OutdoorSplitsCard';
+import { ElevationProfileChart } from '@/components/molecules/ElevationProfileChart';
 import { spacing, typography, colors } from '@/constants/theme';
 import { useTheme } from '@/hooks/useTheme';
+import { useBodyWeightResolver } from '@/hooks/useBodyWeightResolver';
 import type { Workout } from '@/types/workout';
 import { formatDurationLabel, getWorkoutTotals, getWorkoutVolume } from '@/utils/workout';
-import { formatElapsedTime, formatPace, calculatePace } from '@/utils/geo';
+import {
+  formatElapsedTime,
+  formatElevation,
+  formatPace,
+  calculatePace,
+  calculateElevationChange,
+  calculateGradeAdjustedPace,
+  getElevationProfile,
+} from '@/utils/geo';
 import { useSettingsStore } from '@/store/settingsStore';
-import { useUserProfileStore } from '@/store/userProfileStore';
 
 interface WorkoutDetailContentProps {
   workout: Workout;
@@ -44,8 +54,11 @@ export const WorkoutDetailContent: React.FC<WorkoutDetailContentProps> = ({ work
   // ── Standard workout metrics ──
   const durationLabel = useMemo(() => formatDurationLabel(workout.duration), [workout.duration]);
   const { completedSets } = useMemo(() => getWorkoutTotals(workout), [workout]);
-  const userBodyWeight = useUserProfileStore((state) => state.profile?.weightLbs);
-  const totalVolume = useMemo(() => getWorkoutVolume(workout, userBodyWeight), [workout, userBodyWeight]);
+  const getBodyWeightOnDate = useBodyWeightResolver();
+  const totalVolume = useMemo(
+    () => getWorkoutVolume(workout, getBodyWeightOnDate(workout.date)),
+    [workout, getBodyWeightOnDate],
+  );
   const volumeLabel = useMemo(() => {
     if (totalVolume === 0) return '—';
     return formatWeight(totalVolume);
@@ -68,7 +81,24 @@ export const WorkoutDetailContent: React.FC<WorkoutDetailContentProps> = ({ work
       : paceSecondsPerMile;
     const paceLabel = `${formatPace(pacePerUnit)} ${distanceUnitPref === 'km' ? '/km' : '/mi'}`;
 
-    return { distanceLabel, timeLabel, paceLabel };
+    const route = workout.routeCoordinates ?? [];
+    const elevationChange = calculateElevationChange(route);
+    const gradeAdjustedPace = elevationChange ? calculateGradeAdjustedPace(route, paceSecondsPerMile) : null;
+    const gradeAdjustedPerUnit = distanceUnitPref === 'km' && gradeAdjustedPace
+      ? gradeAdjustedPace / 1.60934
+      : gradeAdjustedPace;
+
+    return {
+      distanceLabel,
+      timeLabel,
+      paceLabel,
+      elevationGainLabel: elevationChange ? formatElevation(elevationChange.gainMeters, distanceUnitPref) : null,
+      elevationLossLabel: elevationChange ? formatElevation(elevationChange.lossMeters, distanceUnitPref) : null,
+      gradeAdjustedPaceLabel: gradeAdjustedPace
+        ? `${formatPace(gradeAdjustedPerUnit)} ${distanceUnitPref === 'km' ? '/km' : '/mi'}`
+        : null,
+      elevationProfile: elevationChange ? getElevationProfile(route) : [],
+    };
   }, [isOutdoorSession, workout, formatDistance, distanceUnitPref]);
 
   // ── Outdoor session layout ──
@@ -77,6 +107,8 @@ export const WorkoutDetailContent: React.FC<WorkoutDetailContentProps> = ({ work
       <Animated.View layout={Layout.springify()} style={styles.container}>
         <OutdoorRouteMapCard coordinates={workout.routeCoordinates!} />
 
+        {workout.outdoorSplits ? <OutdoorSplitsCard outdoorSplits={workout.outdoorSplits} /> : null}
+
         <View style={styles.summarySection}>
           <Text style={{ fontSize: 24, fontWeight: '600', color: theme.text.primary }}>
             Summary
@@ -107,8 +139,41 @@ export const WorkoutDetailContent: React.FC<WorkoutDetailContentProps> = ({ work
                   {outdoorMetrics.paceLabel}
                 </Text>
               </View>
+              {outdoorMetrics.elevationGainLabel ? (
+                <View style={styles.metricRow}>
+                  <Text style={{ fontSize: 20, fontWeight: '500', color: theme.text.secondary }}>
+                    Elevation Gain:
+                  </Text>
+                  <Text style={{ fontSize: 20, fontWeight: '700', color: theme.accent.orange, textAlign: 'right', flexShrink: 0 }}>
+                    {outdoorMetrics.elevationGainLabel}
+                  </Text>
+                </View>
+              ) : null}
+              {outdoorMetrics.elevationLossLabel ? (
+                <View style={styles.metricRow}>
+                  <Text style={{ fontSize: 20, fontWeight: '500', color: theme.text.secondary }}>
+                    Elevation Loss:
+                  </Text>
+                  <Text style={{ fontSize: 20, fontWeight: '700', color: theme.accent.orange, textAlign: 'right', flexShrink: 0 }}>
+                    {outdoorMetrics.elevationLossLabel}
+                  </Text>
+                </View>
+              ) : null}
+              {outdoorMetrics.gradeAdjustedPaceLabel ? (
+                <View style={styles.metricRow}>
+                  <Text style={{ fontSize: 20, fontWeight: '500', color: theme.text.secondary }}>
+                    Grade-Adj. Pace:
+                  </Text>
+                  <Text style={{ fontSize: 20, fontWeight: '700', color: theme.accent.orange, textAlign: 'right', flexShrink: 0 }}>
+                    {outdoorMetrics.gradeAdjustedPaceLabel}
+                  </Text>
+                </View>
+              ) : null}
             </View>
           </SurfaceCard>
+          {outdoorMetrics.elevationProfile.length >= 2 ? (
+            <ElevationProfileChart profile={outdoorMetrics.elevationProfile} />
+          ) : null}
         </View>
       </Animated.View>
     );
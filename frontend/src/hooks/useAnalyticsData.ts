@@ -4,24 +4,25 @@
  * Extracts and consolidates logic from FocusDistributionChart and WeeklyVolumeChart
  */
 
-import { useMemo } from 'react';
+import { useEffect, useMemo } from 'react';
 
 import { useTheme } from '@/hooks/useTheme';
 import { hexToRgba } from '@/utils/colorUtils';
 import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
-import { useUserProfileStore } from '@/store/userProfileStore';
+import { useBodyWeightResolver } from '@/hooks/useBodyWeightResolver';
 import { useSettingsStore } from '@/store/settingsStore';
 import { useDevToolsStore } from '@/store/devToolsStore';
 import { useCustomExerciseStore } from '@/store/customExerciseStore';
 import { exercises as exerciseCatalog } from '@/constants/exercises';
 import exercisesData from '@/data/exercises.json';
 import hierarchyData from '@/data/hierarchy.json';
-import { formatLocalDate } from '@/utils/chartUtils';
+import { formatLocalDate, getWeekStartDate, getWeekStartKey } from '@/utils/chartUtils';
 import { computeSetVolume, DEFAULT_BW_MULTIPLIER_BY_TYPE } from '@/utils/volumeCalculation';
 import type {
   TieredVolumeData,
   TieredSetData,
   WeeklyVolumeData,
+  WeeklyMuscleVolume,
   StreakData,
   CardioStats,
   ChartSlice,
@@ -118,32 +119,32 @@ const EXERCISE_MUSCLES = exercisesData.reduce((acc, ex) => {
 }, {} as Record<string, Record<string, number>>);
 
 // Filter workouts by time range
-const filterByTimeRange = (workouts: any[], range: TimeRange) => {
-  if (range === 'all') return workouts;
-
+/** Earliest moment a time range covers; null for all time */
+const getTimeRangeStart = (range: TimeRange): Date | null => {
   const now = new Date();
   const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
-  let cutoff: Date;
-
   switch (range) {
     case 'week': {
       // Last 7 calendar days INCLUDING today (local time)
-      cutoff = new Date(todayStart);
+      const cutoff = new Date(todayStart);
       cutoff.setDate(cutoff.getDate() - 6);
-      break;
+      return cutoff;
     }
     case 'month':
       // First of current month (inclusive, local)
-      cutoff = new Date(now.getFullYear(), now.getMonth(), 1);
-      break;
+      return new Date(now.getFullYear(), now.getMonth(), 1);
     case 'year':
       // First of current year (inclusive, local)
-      cutoff = new Date(now.getFullYear(), 0, 1);
-      break;
+      return new Date(now.getFullYear(), 0, 1);
     default:
-      return workouts;
+      return null;
   }
+};
+
+const filterByTimeRange = (workouts: any[], range: TimeRange) => {
+  const cutoff = getTimeRangeStart(range);
+  if (!cutoff) return workouts;
 
   return workouts.filter((w) => {
     const workoutDate = new Date(w.startTime ?? w.date);
@@ -164,22 +165,39 @@ interface UseAnalyticsDataOptions {
   /** When false, skips expensive computations by returning empty filteredWorkouts.
    *  Useful for inactive tabs to avoid redundant O(W×E×S) iterations. */
   enabled?: boolean;
+  /** Number of weeks (ending with the current one) to break volume down per muscle for,
+   *  independent of timeRange. 0 skips the computation. */
+  muscleVolumeWeeks?: number;
 }
 
 export const useAnalyticsData = (options: UseAnalyticsDataOptions = {}) => {
-  const { timeRange = 'week', enabled = true } = options;
+  const { timeRange = 'week', enabled = true, muscleVolumeWeeks = 0 } = options;
   const { theme } = useTheme();
   const forceEmptyAnalytics = useDevToolsStore((state) => state.forceEmptyAnalytics);
   const rawWorkouts = useWorkoutSessionsStore((state) => state.workouts);
+  const restoreCachedWorkouts = useWorkoutSessionsStore((state) => state.restoreCachedWorkouts);
+  const loadOlderWorkouts = useWorkoutSessionsStore((state) => state.loadOlderWorkouts);
+  const hasMoreHistory = useWorkoutSessionsStore((state) => state.hasMoreHistory);
   const workouts = useMemo(
     () => (__DEV__ && forceEmptyAnalytics ? [] : rawWorkouts),
     [forceEmptyAnalytics, rawWorkouts],
   );
-  const userBodyWeight = useUserProfileStore((state) => state.profile?.weightLbs);
+  const getBodyWeightOnDate = useBodyWeightResolver();
   const convertWeight = useSettingsStore((state) => state.convertWeight);
   const weightUnit = useSettingsStore((state) => state.weightUnit);
   const customExercises = useCustomExerciseStore((state) => state.customExercises);
 
+  // Start from the on-disk history instead of waiting for Supabase
+  useEffect(() => {
+    void restoreCachedWorkouts();
+  }, [restoreCachedWorkouts]);
+
+  // Only the newest page is loaded up front; longer ranges page in the rest of theirs
+  useEffect(() => {
+    if (!enabled || !hasMoreHistory) return;
+    void loadOlderWorkouts(getTimeRangeStart(timeRange)?.toISOString());
+  }, [enabled, hasMoreHistory, timeRange, loadOlderWorkouts]);
+
   // Merge custom exercises into exercise type map
   const EXERCISE_TYPE_MAP = useMemo(() => {
     const map = { ...BASE_EXERCISE_TYPE_MAP };
@@ -256,7 +274,7 @@ export const useAnalyticsData = (options: UseAnalyticsDataOptions = {}) => {
           if (!set.completed) return;
 
           // Calculate set volume using shared BW-adjusted formula
-          let setVolume = computeSetVolume(set, exerciseType, userBodyWeight, bwMult);
+          let setVolume = computeSetVolume(set, exerciseType, getBodyWeightOnDate(workout.date), bwMult);
 
           // Convert volume to user's preferred unit (LBS -> User Unit)
           setVolume = convertWeight(setVolume);
@@ -287,7 +305,7 @@ export const useAnalyticsData = (options: UseAnalyticsDataOptions = {}) => {
     });
 
     return { high, mid, low };
-  }, [filteredWorkouts, userBodyWeight, convertWeight, weightUnit, EXERCISE_TYPE_MAP]);
+  }, [filteredWorkouts, getBodyWeightOnDate, convertWeight, weightUnit, EXERCISE_TYPE_MAP]);
 
   // Calculate tiered volume distribution (volume = weight × reps × muscle_weighting)
   // Only includes weight and assisted exercises
@@ -313,7 +331,7 @@ export const useAnalyticsData = (options: UseAnalyticsDataOptions = {}) => {
         (exercise.sets ?? []).forEach((set: any) => {
           if (!set.completed) return;
 
-          let setVolume = computeSetVolume(set, exerciseType, userBodyWeight, bwMult);
+          let setVolume = computeSetVolume(set, exerciseType, getBodyWeightOnDate(workout.date), bwMult);
 
           // Convert volume to user's preferred unit
           setVolume = convertWeight(setVolume);
@@ -361,7 +379,7 @@ export const useAnalyticsData = (options: UseAnalyticsDataOptions = {}) => {
       mid: formatSlices(distL2),
       low: formatSlices(distL3),
     };
-  }, [filteredWorkouts, userBodyWeight, convertWeight, weightUnit, EXERCISE_TYPE_MAP]);
+  }, [filteredWorkouts, getBodyWeightOnDate, convertWeight, weightUnit, EXERCISE_TYPE_MAP]);
 
   // Calculate hierarchical volume distribution for drill-down navigation
   // Uses same logic as tieredVolumeDistribution but with parent grouping for drill-down
@@ -386,7 +404,7 @@ export const useAnalyticsData = (options: UseAnalyticsDataOptions = {}) => {
         (exercise.sets ?? []).forEach((set: any) => {
           if (!set.completed) return;
 
-          let setVolume = computeSetVolume(set, exerciseType, userBodyWeight, bwMult);
+          let setVolume = computeSetVolume(set, exerciseType, getBodyWeightOnDate(workout.date), bwMult);
 
           // Convert volume to user's preferred unit
           setVolume = convertWeight(setVolume);
@@ -458,7 +476,7 @@ export const useAnalyticsData = (options: UseAnalyticsDataOptions = {}) => {
       root: formatSlicesForLevel(distByLevel['root'] || {}),
       byParent,
     };
-  }, [filteredWorkouts, userBodyWeight, convertWeight, weightUnit, EXERCISE_TYPE_MAP]);
+  }, [filteredWorkouts, getBodyWeightOnDate, convertWeight, weightUnit, EXERCISE_TYPE_MAP]);
 
   // Weekly volume bar chart data
   const weeklyVolume = useMemo((): WeeklyVolumeData => {
@@ -493,6 +511,71 @@ export const useAnalyticsData = (options: UseAnalyticsDataOptions = {}) => {
     };
   }, [tieredVolume]);
 
+  // Per-muscle volume for each of the last muscleVolumeWeeks weeks (oldest first)
+  const weeklyMuscleVolume = useMemo((): WeeklyMuscleVolume[] => {
+    void weightUnit;
+    if (!enabled || muscleVolumeWeeks <= 0) return [];
+
+    const firstWeekStart = getWeekStartDate(new Date());
+    firstWeekStart.setDate(firstWeekStart.getDate() - (muscleVolumeWeeks - 1) * 7);
+
+    const weeks: WeeklyMuscleVolume[] = [];
+    const weekByKey: Record<string, WeeklyMuscleVolume> = {};
+    const cursor = new Date(firstWeekStart);
+    for (let i = 0; i < muscleVolumeWeeks; i++) {
+      const week: WeeklyMuscleVolume = { weekStart: formatLocalDate(cursor), mid: {}, total: 0 };
+      weeks.push(week);
+      weekByKey[week.weekStart] = week;
+      cursor.setDate(cursor.getDate() + 7);
+    }
+
+    workouts.forEach((workout) => {
+      const workoutDate = new Date(workout.startTime ?? workout.date);
+      if (workoutDate < firstWeekStart) return;
+
+      const week = weekByKey[getWeekStartKey(workoutDate)];
+      if (!week) return;
+
+      (workout.exercises ?? []).forEach((exercise: any) => {
+        const muscleWeights = EXERCISE_MUSCLES[exercise.name];
+        if (!muscleWeights) return;
+
+        const exerciseType = EXERCISE_TYPE_MAP[exercise.name] || 'weight';
+        if (exerciseType === 'cardio' || exerciseType === 'duration') return;
+
+        const bwMult = BW_MULTIPLIER_MAP[exercise.name] ?? DEFAULT_BW_MULTIPLIER_BY_TYPE[exerciseType] ?? 0;
+
+        (exercise.sets ?? []).forEach((set: any) => {
+          if (!set.completed) return;
+
+          const setVolume = convertWeight(
+            computeSetVolume(set, exerciseType, getBodyWeightOnDate(workout.date), bwMult)
+          );
+          if (setVolume <= 0) return;
+
+          week.total += setVolume;
+          Object.entries(muscleWeights).forEach(([rawMuscle, muscleWeight]) => {
+            const cat2 = leafToL2[resolveMuscle(rawMuscle)];
+            if (cat2) {
+              week.mid[cat2] = (week.mid[cat2] || 0) + setVolume * muscleWeight;
+            }
+          });
+        });
+      });
+    });
+
+    return weeks;
+  }, [
+    enabled,
+    muscleVolumeWeeks,
+    workouts,
+    getBodyWeightOnDate,
+    convertWeight,
+    weightUnit,
+    EXERCISE_TYPE_MAP,
+    BW_MULTIPLIER_MAP,
+  ]);
+
   // Streak and consistency data
   const streakData = useMemo((): StreakData => {
     const now = new Date();
@@ -594,7 +677,7 @@ export const useAnalyticsData = (options: UseAnalyticsDataOptions = {}) => {
         (exercise.sets ?? []).forEach((set: any) => {
           if (!set.completed) return;
 
-          const setVolume = computeSetVolume(set, exerciseType, userBodyWeight, bwMult);
+          const setVolume = computeSetVolume(set, exerciseType, getBodyWeightOnDate(workout.date), bwMult);
 
           if (setVolume > 0) {
             // Convert to user's preferred unit
@@ -607,7 +690,7 @@ export const useAnalyticsData = (options: UseAnalyticsDataOptions = {}) => {
 
     // Return date-indexed volume data (YYYY-MM-DD -> volume)
     return volumeByDate;
-  }, [filteredWorkouts, userBodyWeight, convertWeight, EXERCISE_TYPE_MAP]);
+  }, [filteredWorkouts, getBodyWeightOnDate, convertWeight, EXERCISE_TYPE_MAP]);
 
   // Check if there's any data
   const hasData = workouts.length > 0;
@@ -623,6 +706,7 @@ export const useAnalyticsData = (options: UseAnalyticsDataOptions = {}) => {
     tieredVolumeDistribution,
     hierarchicalVolumeDistribution,
     weeklyVolume,
+    weeklyMuscleVolume,
     streakData,
     cardioStats,
     volumeTrendData,
@@ -640,4 +724,12 @@ export const useAnalyticsData = (options: UseAnalyticsDataOptions = {}) => {
   };
 };
 
-export type { TieredVolumeData, TieredSetData, HierarchicalSetData, WeeklyVolumeData, StreakData, CardioStats };
+export type {
+  TieredVolumeData,
+  TieredSetData,
+  HierarchicalSetData,
+  WeeklyVolumeData,
+  WeeklyMuscleVolume,
+  StreakData,
+  CardioStats,
+};
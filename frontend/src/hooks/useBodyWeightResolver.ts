@@ -0,0 +1,17 @@
+/**
+ * useBodyWeightResolver Hook
+ * Returns a lookup for the bodyweight (lbs) in effect on a workout's date, so bodyweight
+ * exercise volume uses what the user weighed at the time rather than today's weight.
+ */
+
+import { useMemo } from 'react';
+import { useBodyMetricsStore } from '@/store/bodyMetricsStore';
+import { useUserProfileStore } from '@/store/userProfileStore';
+import { createBodyWeightResolver } from '@/utils/bodyMetrics';
+
+export const useBodyWeightResolver = (): ((date: string) => number | undefined) => {
+  const entries = useBodyMetricsStore((state) => state.entries);
+  const profileWeight = useUserProfileStore((state) => state.profile?.weightLbs);
+
+  return useMemo(() => createBodyWeightResolver(entries, profileWeight), [entries, profileWeight]);
+};
@@ -6,6 +6,7 @@ import type {
   FilterMuscleGroup,
   MuscleGroup,
 } from '@/types/exercise';
+import type { ExerciseTargets, TemplateExercise } from '@/types/plan';
 
 import { usePlanBuilderState } from '@/hooks/usePlanBuilderState';
 import { usePlanSaveHandler, type SubmitPlanResult } from '@/hooks/usePlanSaveHandler';
@@ -20,7 +21,7 @@ interface CreatePlanBuilderState {
   setPlanName: (value: string) => void;
   searchTerm: string;
   setSearchTerm: (value: string) => void;
-  selectedExercises: Exercise[];
+  selectedExercises: TemplateExercise[];
   isEditing: boolean;
   isEditingPlanMissing: boolean;
   isLoading: boolean;
@@ -34,6 +35,8 @@ interface CreatePlanBuilderState {
   handleRemoveExercise: (exerciseId: string) => void;
   handleReorderExercise: (exerciseId: string, direction: 1 | -1) => void;
   handleReorderExercises: (fromIndex: number, toIndex: number) => void;
+  handleToggleExerciseLink: (index: number) => void;
+  handleUpdateExerciseTargets: (index: number, targets: ExerciseTargets | undefined) => void;
   resetBuilder: () => void;
   editingPlanCreatedAt: number | null;
   filters: ExerciseFilters;
@@ -0,0 +1,75 @@
+/**
+ * useFatigueModel Hook
+ * Runs the fatigue model over the workout history and exposes the deload week
+ * the user should see: the one in progress, one already accepted, or a recommendation.
+ */
+
+import { useCallback, useMemo } from 'react';
+
+import { useAnalyticsData } from '@/hooks/useAnalyticsData';
+import { useDeloadStore } from '@/store/deloadStore';
+import { FATIGUE_CONFIG, type FatigueAssessment } from '@/types/fatigue';
+import { getWeekStartKey } from '@/utils/chartUtils';
+import { assessFatigue } from '@/utils/fatigue';
+
+export type DeloadStatus = 'active' | 'scheduled' | 'recommended' | 'none';
+
+interface FatigueModelResult {
+  assessment: FatigueAssessment;
+  status: DeloadStatus;
+  /** Monday of the deload week the status refers to; null when status is 'none' */
+  weekStart: string | null;
+  /** Accepted deload weeks, for marking on the calendar */
+  deloadWeeks: string[];
+  accept: () => void;
+  dismiss: () => void;
+  cancel: () => void;
+}
+
+export const useFatigueModel = (): FatigueModelResult => {
+  // The per-muscle weeks cover the whole history window; the shortest range keeps the rest cheap
+  const { workouts, weeklyMuscleVolume } = useAnalyticsData({
+    timeRange: 'week',
+    muscleVolumeWeeks: FATIGUE_CONFIG.HISTORY_WEEKS,
+  });
+  const deloadWeeks = useDeloadStore((state) => state.deloadWeeks);
+  const dismissedWeekStart = useDeloadStore((state) => state.dismissedWeekStart);
+  const acceptDeload = useDeloadStore((state) => state.acceptDeload);
+  const cancelDeload = useDeloadStore((state) => state.cancelDeload);
+  const dismissRecommendation = useDeloadStore((state) => state.dismissRecommendation);
+
+  const assessment = useMemo(
+    () => assessFatigue({ weeklyMuscleVolume, workouts, deloadWeeks }),
+    [weeklyMuscleVolume, workouts, deloadWeeks],
+  );
+
+  const { status, weekStart } = useMemo((): { status: DeloadStatus; weekStart: string | null } => {
+    const currentWeekStart = getWeekStartKey(new Date());
+    const upcoming = deloadWeeks.find((week) => week >= currentWeekStart);
+
+    if (upcoming) {
+      return { status: upcoming === currentWeekStart ? 'active' : 'scheduled', weekStart: upcoming };
+    }
+
+    const recommended = assessment.recommendedWeekStart;
+    if (recommended && recommended !== dismissedWeekStart) {
+      return { status: 'recommended', weekStart: recommended };
+    }
+
+    return { status: 'none', weekStart: null };
+  }, [assessment.recommendedWeekStart, deloadWeeks, dismissedWeekStart]);
+
+  const accept = useCallback(() => {
+    if (weekStart) acceptDeload(weekStart);
+  }, [acceptDeload, weekStart]);
+
+  const dismiss = useCallback(() => {
+    if (weekStart) dismissRecommendation(weekStart);
+  }, [dismissRecommendation, weekStart]);
+
+  const cancel = useCallback(() => {
+    if (weekStart) cancelDeload(weekStart);
+  }, [cancelDeload, weekStart]);
+
+  return { assessment, status, weekStart, deloadWeeks, accept, dismiss, cancel };
+};
@@ -0,0 +1,24 @@
+/**
+ * useFullWorkoutHistory Hook
+ * Pages in the whole workout history for all-time computations (records, bests, e1RM trends).
+ * Only the newest page is loaded up front, so `isComplete` stays false until the rest arrives;
+ * callers should not treat a partial history as all-time.
+ */
+
+import { useEffect } from 'react';
+import type { Workout } from '@/types/workout';
+import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
+
+export const useFullWorkoutHistory = (enabled = true): { workouts: Workout[]; isComplete: boolean } => {
+  const workouts = useWorkoutSessionsStore((state) => state.workouts);
+  const hasMoreHistory = useWorkoutSessionsStore((state) => state.hasMoreHistory);
+  const loadOlderWorkouts = useWorkoutSessionsStore((state) => state.loadOlderWorkouts);
+
+  useEffect(() => {
+    if (enabled && hasMoreHistory) {
+      void loadOlderWorkouts();
+    }
+  }, [enabled, hasMoreHistory, loadOlderWorkouts]);
+
+  return { workouts, isComplete: !hasMoreHistory };
+};
@@ -22,11 +22,14 @@
  * - Focus Suggestion: Skipped muscle (7d), low volume share (14d), or never-trained reminder.
  */
 
-import { useMemo } from 'react';
+import { useEffect, useMemo } from 'react';
 
 import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
 import { useDevToolsStore } from '@/store/devToolsStore';
 import { useUserProfileStore } from '@/store/userProfileStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useBodyWeightResolver } from '@/hooks/useBodyWeightResolver';
+import { useFullWorkoutHistory } from '@/hooks/useFullWorkoutHistory';
 import type { PrimaryGoal } from '@/store/userProfileStore';
 import {
   getIdealRatios,
@@ -37,6 +40,8 @@ import exercisesData from '@/data/exercises.json';
 import hierarchyData from '@/data/hierarchy.json';
 import { exercises as exerciseCatalog } from '@/constants/exercises';
 import { computeSetVolume, DEFAULT_BW_MULTIPLIER_BY_TYPE } from '@/utils/volumeCalculation';
+import { isWarmupSet } from '@/utils/setTypes';
+import { estimateE1RM } from '@/utils/oneRepMax';
 import type { ExerciseType } from '@/types/exercise';
 
 // ============================================================================
@@ -178,13 +183,10 @@ const INSIGHT_COLORS = {
 // ============================================================================
 
 const isCompletedSet = (set: any): boolean => {
-  if (!set?.completed) return false;
+  if (!set?.completed || isWarmupSet(set)) return false;
   return (set.reps ?? 0) > 0;
 };
 
-const estimateE1RM = (weight: number, reps: number): number =>
-  weight * (1 + reps / 30);
-
 const safeDivide = (a: number, b: number): number => (b === 0 ? 0 : a / b);
 
 const pick = (arr: string[], n: number): string => arr.slice(0, n).join(' or ');
@@ -292,8 +294,16 @@ const LEAF_TO_L2 = buildLeafToL2();
 
 export const useInsightsData = () => {
   const forceEmptyAnalytics = useDevToolsStore((state) => state.forceEmptyAnalytics);
-  const rawWorkouts = useWorkoutSessionsStore((state) => state.workouts);
-  const userBodyWeight = useUserProfileStore((state) => state.profile?.weightLbs);
+  // Never-trained reminders look at all of history, not just the newest page
+  const { workouts: rawWorkouts, isComplete: isHistoryComplete } = useFullWorkoutHistory();
+  const restoreCachedWorkouts = useWorkoutSessionsStore((state) => state.restoreCachedWorkouts);
+  const getBodyWeightOnDate = useBodyWeightResolver();
+  const e1rmFormula = useSettingsStore((state) => state.e1rmFormula);
+
+  // Start from the on-disk history instead of waiting for Supabase
+  useEffect(() => {
+    void restoreCachedWorkouts();
+  }, [restoreCachedWorkouts]);
 
   return useMemo(() => {
     const workouts = __DEV__ && forceEmptyAnalytics ? [] : rawWorkouts;
@@ -349,10 +359,11 @@ export const useInsightsData = () => {
 
         const muscleWeights = EXERCISE_MUSCLES[exercise.name];
         const bwMult = BW_MULTIPLIER_MAP[exercise.name] ?? DEFAULT_BW_MULTIPLIER_BY_TYPE[et] ?? 0;
+        const bodyWeight = getBodyWeightOnDate(workout.date);
 
         (exercise.sets ?? []).forEach((set: any) => {
           if (!isCompletedSet(set)) return;
-          const vol = computeSetVolume(set, et, userBodyWeight, bwMult);
+          const vol = computeSetVolume(set, et, bodyWeight, bwMult);
 
           // Push / Pull
           if (meta.push_pull === 'push') { balSets.push += 1; bal.pushVol += vol; }
@@ -520,7 +531,7 @@ export const useInsightsData = () => {
           sessionHasData = true;
           const range = getRepRange(r);
           rangesUsed.add(range);
-          const e1rm = estimateE1RM(w, r);
+          const e1rm = estimateE1RM(w, r, e1rmFormula);
 
           exerciseRangeE1RM[exercise.name][range][weekIdx] = Math.max(
             exerciseRangeE1RM[exercise.name][range][weekIdx],
@@ -641,6 +652,7 @@ export const useInsightsData = () => {
       exercise: any,
       meta: ExerciseMetadata,
       set: any,
+      bodyWeight: number | undefined,
       targets: { sets?: Record<string, number>; volume?: Record<string, number> },
       addToTotalVolume?: { ref: { v: number } },
     ) => {
@@ -649,7 +661,7 @@ export const useInsightsData = () => {
 
       const et = meta.exercise_type || 'weight';
       const bwMult = BW_MULTIPLIER_MAP[exercise.name] ?? DEFAULT_BW_MULTIPLIER_BY_TYPE[et] ?? 0;
-      const vol = computeSetVolume(set, et, userBodyWeight, bwMult);
+      const vol = computeSetVolume(set, et, bodyWeight, bwMult);
 
       let wSum = 0;
       Object.entries(muscleWeights).forEach(([m, w]) => {
@@ -680,7 +692,7 @@ export const useInsightsData = () => {
 
         (exercise.sets ?? []).forEach((set: any) => {
           if (!isCompletedSet(set)) return;
-          distributeSets(exercise, meta, set, { sets: weekSets, volume: weekVolume });
+          distributeSets(exercise, meta, set, getBodyWeightOnDate(workout.date), { sets: weekSets, volume: weekVolume });
         });
       });
     });
@@ -697,7 +709,7 @@ export const useInsightsData = () => {
         (exercise.sets ?? []).forEach((set: any) => {
           if (!isCompletedSet(set)) return;
           twoWeekTotalSets += 1;
-          distributeSets(exercise, meta, set, { volume: twoWeekVolume }, { ref: twoWeekVolRef });
+          distributeSets(exercise, meta, set, getBodyWeightOnDate(workout.date), { volume: twoWeekVolume }, { ref: twoWeekVolRef });
         });
       });
     });
@@ -820,7 +832,7 @@ export const useInsightsData = () => {
       }
 
       // 4) Never trained – periodic reminder
-      if (!everTrained && isReminderWeek) {
+      if (!everTrained && isReminderWeek && isHistoryComplete) {
         const exSugg = pick(suggestions, 2);
         focusCandidates.push({
           severity: 5,
@@ -864,5 +876,5 @@ export const useInsightsData = () => {
       hasData: true,
       emptyReason: hasAnyInsights ? undefined : ('all-good' as EmptyReason),
     };
-  }, [rawWorkouts, forceEmptyAnalytics, userBodyWeight]);
+  }, [rawWorkouts, isHistoryComplete, forceEmptyAnalytics, getBodyWeightOnDate, e1rmFormula]);
 };
@@ -11,6 +11,8 @@ export interface UseMonthlyCalendarOptions {
   initialMonth?: string;
   selectedDate?: string;
   markers?: string[];
+  /** Dates to highlight (e.g. deload weeks), independent of markers */
+  highlights?: string[];
   onSelectDate?: (isoDate: string) => void;
   locale?: string;
   currentMonth?: string;
@@ -25,6 +27,7 @@ export interface CalendarGridItem {
   isToday: boolean;
   isSelected: boolean;
   hasMarker: boolean;
+  isHighlighted: boolean;
 }
 
 const DAYS_IN_GRID = 42;
@@ -63,6 +66,7 @@ export const useMonthlyCalendar = (options: UseMonthlyCalendarOptions = {}) => {
     initialMonth,
     selectedDate,
     markers = [],
+    highlights = [],
     onSelectDate,
     locale = 'en-US',
     currentMonth,
@@ -97,6 +101,7 @@ export const useMonthlyCalendar = (options: UseMonthlyCalendarOptions = {}) => {
   }, [currentMonth]);
 
   const markerSet = useMemo(() => new Set(markers), [markers]);
+  const highlightSet = useMemo(() => new Set(highlights), [highlights]);
   const monthFormatter = useMemo(
     () => new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric' }),
     [locale]
@@ -121,9 +126,10 @@ export const useMonthlyCalendar = (options: UseMonthlyCalendarOptions = {}) => {
           isToday: isoDate === todayISO,
           isSelected: isoDate === internalSelectedDate,
           hasMarker: markerSet.has(isoDate),
+          isHighlighted: highlightSet.has(isoDate),
         };
       }),
-    [gridDates, internalSelectedDate, markerSet, todayISO, visibleMonth]
+    [gridDates, highlightSet, internalSelectedDate, markerSet, todayISO, visibleMonth]
   );
 
   const monthLabel = useMemo(() => monthFormatter.format(visibleMonth), [monthFormatter, visibleMonth]);
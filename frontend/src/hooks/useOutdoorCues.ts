@@ -0,0 +1,37 @@
+/**
+ * useOutdoorCues
+ * The message of the latest outdoor session cue, for the session screen to show.
+ * Cues are checked by outdoorSessionStore and announced by outdoorTrackingService,
+ * so they keep coming with the screen locked; this hook only displays them.
+ */
+import { useEffect, useState } from 'react';
+
+import { useOutdoorSessionStore } from '@/store/outdoorSessionStore';
+
+/** How long a cue message stays on screen */
+const CUE_DISPLAY_MS = 6000;
+
+interface UseOutdoorCuesResult {
+  /** Message of the latest cue while it's on screen */
+  cueMessage: string | null;
+}
+
+export const useOutdoorCues = (): UseOutdoorCuesResult => {
+  const latestCue = useOutdoorSessionStore((s) => s.latestCue);
+  const [cueMessage, setCueMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Cues raised while the screen was closed have already been announced
+    const remainingMs = latestCue ? latestCue.at + CUE_DISPLAY_MS - Date.now() : 0;
+    if (!latestCue || remainingMs <= 0) {
+      setCueMessage(null);
+      return;
+    }
+
+    setCueMessage(latestCue.message);
+    const timeout = setTimeout(() => setCueMessage(null), remainingMs);
+    return () => clearTimeout(timeout);
+  }, [latestCue]);
+
+  return { cueMessage };
+};
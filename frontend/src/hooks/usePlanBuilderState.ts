@@ -26,13 +26,22 @@ import {
   countActiveFilters,
 } from '@/utils/exerciseFilters';
 import { normalizeSearchText } from '@/utils/strings';
+import {
+  linkExerciseWithNext,
+  moveExercise,
+  normalizeExerciseGroups,
+  pickExerciseGrouping,
+  unlinkExerciseFromNext,
+} from '@/utils/exerciseGroups';
+import { pickExerciseTargets } from '@/utils/exerciseTargets';
+import type { ExerciseTargets, TemplateExercise } from '@/types/plan';
 
 interface PlanBuilderState {
   planName: string;
   setPlanName: (value: string) => void;
   searchTerm: string;
   setSearchTerm: (value: string) => void;
-  selectedExercises: Exercise[];
+  selectedExercises: TemplateExercise[];
   isEditing: boolean;
   isEditingPlanMissing: boolean;
   isLoading: boolean;
@@ -46,6 +55,10 @@ interface PlanBuilderState {
   handleRemoveExercise: (exerciseId: string) => void;
   handleReorderExercise: (exerciseId: string, direction: 1 | -1) => void;
   handleReorderExercises: (fromIndex: number, toIndex: number) => void;
+  /** Links or unlinks the exercise at index with the next one (superset/circuit). */
+  handleToggleExerciseLink: (index: number) => void;
+  /** Sets or clears the rep/load/tempo/rest targets of the exercise at index. */
+  handleUpdateExerciseTargets: (index: number, targets: ExerciseTargets | undefined) => void;
   resetBuilder: () => void;
   editingPlanCreatedAt: number | null;
   filters: ExerciseFilters;
@@ -64,7 +77,7 @@ interface PlanBuilderState {
 export const usePlanBuilderState = (editingPlanId: string | null): PlanBuilderState => {
   const [planName, setPlanName] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState<string>('');
-  const [selectedExercises, setSelectedExercises] = useState<Exercise[]>([]);
+  const [selectedExercises, setSelectedExercises] = useState<TemplateExercise[]>([]);
   const [filters, setFilters] = useState<ExerciseFilters>(() => createDefaultExerciseFilters());
   const [isLoading, setIsLoadingState] = useState<boolean>(true); // Start with loading true to prevent flash
   const hasInitializedFromPlan = useRef<boolean>(false);
@@ -165,7 +178,7 @@ export const usePlanBuilderState = (editingPlanId: string | null): PlanBuilderSt
             // Try to find exact match in catalog first
             const found = allExercises.find(e => e.name.toLowerCase() === ex.name.toLowerCase());
             if (found) {
-              return { ...found };
+              return { ...found, ...pickExerciseGrouping(ex), ...pickExerciseTargets(ex) };
             }
             
             // If not found, create a placeholder exercise from the stored data.
@@ -191,6 +204,8 @@ export const usePlanBuilderState = (editingPlanId: string | null): PlanBuilderSt
             return {
               ...placeholder,
               muscles,
+              ...pickExerciseGrouping(ex),
+              ...pickExerciseTargets(ex),
             };
           });
 
@@ -213,7 +228,7 @@ export const usePlanBuilderState = (editingPlanId: string | null): PlanBuilderSt
     // Resolve exercises from all available (including custom)
     const resolvedExercises = (plan.exercises ?? []).map(ex => {
       const found = allExercises.find(e => e.name === ex.name);
-      return found ? { ...found } : ex;
+      return found ? { ...found, ...pickExerciseGrouping(ex), ...pickExerciseTargets(ex) } : ex;
     });
 
     return {
@@ -456,7 +471,7 @@ export const usePlanBuilderState = (editingPlanId: string | null): PlanBuilderSt
   }, []);
 
   const handleRemoveExercise = useCallback((exerciseId: string) => {
-    setSelectedExercises((prev) => prev.filter((exercise) => exercise.id !== exerciseId));
+    setSelectedExercises((prev) => normalizeExerciseGroups(prev.filter((exercise) => exercise.id !== exerciseId)));
   }, []);
 
   const handleReorderExercise = useCallback((exerciseId: string, direction: 1 | -1) => {
@@ -467,28 +482,44 @@ export const usePlanBuilderState = (editingPlanId: string | null): PlanBuilderSt
         return prev;
       }
 
-      const nextIndex = currentIndex + direction;
+      return moveExercise(prev, currentIndex, direction);
+    });
+  }, []);
 
-      if (nextIndex < 0 || nextIndex >= prev.length) {
+  const handleReorderExercises = useCallback((fromIndex: number, toIndex: number) => {
+    setSelectedExercises((prev) => {
+      if (fromIndex < 0 || fromIndex >= prev.length || toIndex < 0 || toIndex >= prev.length) {
         return prev;
       }
 
+      // Single steps keep supersets/circuits together
+      if (Math.abs(toIndex - fromIndex) === 1) {
+        return moveExercise(prev, fromIndex, toIndex > fromIndex ? 1 : -1);
+      }
+
       const next = [...prev];
-      const [moved] = next.splice(currentIndex, 1);
-      next.splice(nextIndex, 0, moved);
-      return next;
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return normalizeExerciseGroups(next);
     });
   }, []);
 
-  const handleReorderExercises = useCallback((fromIndex: number, toIndex: number) => {
+  const handleToggleExerciseLink = useCallback((index: number) => {
     setSelectedExercises((prev) => {
-      if (fromIndex < 0 || fromIndex >= prev.length || toIndex < 0 || toIndex >= prev.length) {
+      const groupId = prev[index]?.groupId;
+      const isLinked = Boolean(groupId) && prev[index + 1]?.groupId === groupId;
+      return isLinked ? unlinkExerciseFromNext(prev, index) : linkExerciseWithNext(prev, index);
+    });
+  }, []);
+
+  const handleUpdateExerciseTargets = useCallback((index: number, targets: ExerciseTargets | undefined) => {
+    setSelectedExercises((prev) => {
+      if (index < 0 || index >= prev.length) {
         return prev;
       }
 
       const next = [...prev];
-      const [moved] = next.splice(fromIndex, 1);
-      next.splice(toIndex, 0, moved);
+      next[index] = { ...next[index], targets };
       return next;
     });
   }, []);
@@ -522,6 +553,8 @@ export const usePlanBuilderState = (editingPlanId: string | null): PlanBuilderSt
     handleRemoveExercise,
     handleReorderExercise,
     handleReorderExercises,
+    handleToggleExerciseLink,
+    handleUpdateExerciseTargets,
     resetBuilder,
     editingPlanCreatedAt,
     filters,
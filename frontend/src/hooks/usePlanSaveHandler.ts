@@ -6,10 +6,11 @@ import { useCallback, useMemo, useState } from 'react';
 import { triggerHaptic } from '@/utils/haptics';
 import { useGlobalSearchParams } from 'expo-router';
 
-import type { Exercise } from '@/constants/exercises';
 import { usePlansStore } from '@/store/plansStore';
 import { useProgramsStore } from '@/store/programsStore';
-import type { PlanExercise } from '@/types/plan';
+import type { PlanExercise, TemplateExercise } from '@/types/plan';
+import { pickExerciseGrouping } from '@/utils/exerciseGroups';
+import { pickExerciseTargets } from '@/utils/exerciseTargets';
 
 const DEFAULT_PLAN_SET_COUNT = 3;
 
@@ -18,7 +19,7 @@ export type SubmitPlanResult = 'success' | 'missing-name' | 'no-exercises' | 'du
 interface UsePlanSaveHandlerParams {
   editingPlanId: string | null;
   planName: string;
-  selectedExercises: Exercise[];
+  selectedExercises: TemplateExercise[];
   editingPlanCreatedAt: number | null;
   resetBuilder: () => void;
   onSuccess?: () => void;
@@ -89,7 +90,9 @@ export const usePlanSaveHandler = ({
     const normalizedExercises: PlanExercise[] = selectedExercises.map((exercise) => ({
       id: exercise.id,
       name: exercise.name,
-      sets: DEFAULT_PLAN_SET_COUNT,
+      sets: exercise.targets?.sets.length ?? DEFAULT_PLAN_SET_COUNT,
+      ...pickExerciseGrouping(exercise),
+      ...pickExerciseTargets(exercise),
     }));
 
     // Get the name of the workout BEFORE it was edited to find matches in other plans
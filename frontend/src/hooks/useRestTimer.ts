@@ -0,0 +1,50 @@
+/**
+ * useRestTimer
+ * Ticks the active session's rest countdown and clears it when it runs out.
+ */
+import { useEffect, useState } from 'react';
+
+import { useSessionStore } from '@/store/sessionStore';
+import { triggerHaptic } from '@/utils/haptics';
+import { getRestRemainingSeconds, type RestTimer } from '@/utils/restTimer';
+
+interface UseRestTimerResult {
+  /** Active rest timer, or null when not resting */
+  restTimer: RestTimer | null;
+  /** Seconds left on the active rest timer */
+  remainingSeconds: number;
+}
+
+export const useRestTimer = (): UseRestTimerResult => {
+  const restTimer = useSessionStore((state) => state.currentSession?.restTimer ?? null);
+  const clearRestTimer = useSessionStore((state) => state.clearRestTimer);
+  const [remainingSeconds, setRemainingSeconds] = useState<number>(() => {
+    return restTimer ? getRestRemainingSeconds(restTimer) : 0;
+  });
+
+  useEffect(() => {
+    if (!restTimer) {
+      setRemainingSeconds(0);
+      return;
+    }
+
+    const tick = () => {
+      const remaining = getRestRemainingSeconds(restTimer);
+      setRemainingSeconds(remaining);
+
+      if (remaining <= 0) {
+        triggerHaptic('success');
+        clearRestTimer();
+      }
+    };
+
+    tick();
+    const intervalId = setInterval(tick, 1000);
+
+    return () => {
+      clearInterval(intervalId);
+    };
+  }, [restTimer, clearRestTimer]);
+
+  return { restTimer, remainingSeconds };
+};
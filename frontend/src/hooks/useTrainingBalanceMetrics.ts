@@ -16,12 +16,13 @@ import { useMemo } from 'react';
 
 import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
 import { useDevToolsStore } from '@/store/devToolsStore';
-import { useUserProfileStore } from '@/store/userProfileStore';
+import { useBodyWeightResolver } from '@/hooks/useBodyWeightResolver';
 import type { PrimaryGoal } from '@/store/userProfileStore';
 import exercisesData from '@/data/exercises.json';
 import hierarchyData from '@/data/hierarchy.json';
 import { exercises as exerciseCatalog } from '@/constants/exercises';
 import { computeSetVolume as sharedComputeSetVolume, DEFAULT_BW_MULTIPLIER_BY_TYPE } from '@/utils/volumeCalculation';
+import { isWarmupSet } from '@/utils/setTypes';
 import type { TimeRange } from '@/types/analytics';
 import type { ExerciseType } from '@/types/exercise';
 
@@ -209,7 +210,7 @@ const BW_MULTIPLIER_MAP = exerciseCatalog.reduce((acc, ex) => {
 }, {} as Record<string, number>);
 
 const isCompletedSet = (set: any): boolean => {
-  if (!set?.completed) return false;
+  if (!set?.completed || isWarmupSet(set)) return false;
   return (set.reps ?? 0) > 0;
 };
 
@@ -243,7 +244,7 @@ export const useTrainingBalanceMetrics = (timeRange: TimeRange): BalanceMetricsR
   const forceEmptyAnalytics = useDevToolsStore((state) => state.forceEmptyAnalytics);
   const rawWorkouts = useWorkoutSessionsStore((state) => state.workouts);
   const workouts = __DEV__ && forceEmptyAnalytics ? [] : rawWorkouts;
-  const userBodyWeight = useUserProfileStore((state) => state.profile?.weightLbs);
+  const getBodyWeightOnDate = useBodyWeightResolver();
 
   return useMemo(() => {
     if (!workouts.length) return { ...EMPTY_RESULT };
@@ -278,6 +279,8 @@ export const useTrainingBalanceMetrics = (timeRange: TimeRange): BalanceMetricsR
     const filtered = workouts.filter((w) => new Date(w.date) >= cutoff);
 
     filtered.forEach((workout) => {
+      const bodyWeight = getBodyWeightOnDate(workout.date);
+
       (workout.exercises ?? []).forEach((exercise: any) => {
         const meta = EXERCISE_METADATA[exercise.name];
         if (!meta) return;
@@ -291,7 +294,7 @@ export const useTrainingBalanceMetrics = (timeRange: TimeRange): BalanceMetricsR
         (exercise.sets ?? []).forEach((set: any) => {
           if (!isCompletedSet(set)) return;
 
-          const vol = sharedComputeSetVolume(set, et, userBodyWeight, bwMult);
+          const vol = sharedComputeSetVolume(set, et, bodyWeight, bwMult);
           totalSets += 1;
           totalVolume += vol;
 
@@ -372,5 +375,5 @@ export const useTrainingBalanceMetrics = (timeRange: TimeRange): BalanceMetricsR
       workoutCount: filtered.length,
       hasData,
     };
-  }, [workouts, timeRange, userBodyWeight]);
+  }, [workouts, timeRange, getBodyWeightOnDate]);
 };
@@ -1,12 +1,14 @@
 /**
  * useWeeklyCardioProgress Hook
  * Calculates cardio progress for the current calendar week (Sunday-Saturday)
+ * and what's left of the weekly goals.
  */
 
 import { useMemo } from 'react';
 import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
 import { useDevToolsStore } from '@/store/devToolsStore';
 import { useCustomExerciseStore } from '@/store/customExerciseStore';
+import { useSettingsStore } from '@/store/settingsStore';
 import { exercises as exerciseCatalog } from '@/constants/exercises';
 import type { ExerciseType } from '@/types/exercise';
 
@@ -35,6 +37,10 @@ interface WeeklyCardioProgress {
   weekEnd: Date;
   /** Whether there's any cardio data for this week */
   hasWeeklyData: boolean;
+  /** Seconds left to reach the weekly time goal; null without a goal, 0 once reached */
+  remainingTime: number | null;
+  /** Miles left to reach the weekly distance goal; null without a goal, 0 once reached */
+  remainingDistance: number | null;
 }
 
 /**
@@ -65,6 +71,8 @@ export const useWeeklyCardioProgress = (): WeeklyCardioProgress => {
   const rawWorkouts = useWorkoutSessionsStore((state) => state.workouts);
   const workouts = __DEV__ && forceEmptyAnalytics ? [] : rawWorkouts;
   const customExercises = useCustomExerciseStore((state) => state.customExercises);
+  const weeklyCardioTimeGoal = useSettingsStore((state) => state.weeklyCardioTimeGoal);
+  const weeklyCardioDistanceGoal = useSettingsStore((state) => state.weeklyCardioDistanceGoal);
 
   // Merge custom exercises into type maps
   const exerciseTypeMap = useMemo(() => {
@@ -128,8 +136,14 @@ export const useWeeklyCardioProgress = (): WeeklyCardioProgress => {
       weekStart,
       weekEnd,
       hasWeeklyData: weeklyTime > 0 || weeklyDistance > 0,
+      remainingTime: weeklyCardioTimeGoal && weeklyCardioTimeGoal > 0
+        ? Math.max(weeklyCardioTimeGoal - weeklyTime, 0)
+        : null,
+      remainingDistance: weeklyCardioDistanceGoal && weeklyCardioDistanceGoal > 0
+        ? Math.max(weeklyCardioDistanceGoal - weeklyDistance, 0)
+        : null,
     };
-  }, [workouts, exerciseTypeMap]);
+  }, [workouts, exerciseTypeMap, weeklyCardioTimeGoal, weeklyCardioDistanceGoal]);
 
   return progress;
 };
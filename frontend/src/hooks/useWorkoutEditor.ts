@@ -18,6 +18,7 @@ import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
 import { useSettingsStore } from '@/store/settingsStore';
 import { useCustomExerciseStore } from '@/store/customExerciseStore';
 import { getLastCompletedSetsForExercise } from '@/utils/exerciseHistory';
+import { estimateSetsFromRelatedLift } from '@/utils/exerciseSubstitution';
 
 interface WorkoutEditorHook {
   workout: Workout | null;
@@ -29,6 +30,7 @@ interface WorkoutEditorHook {
   removeExercise: (name: string) => void;
   moveExercise: (name: string, direction: 'up' | 'down') => void;
   addExercise: (exercise: Exercise) => void;
+  swapExercise: (name: string, exercise: Exercise) => void;
   isPickerVisible: boolean;
   openPicker: () => void;
   closePicker: () => void;
@@ -226,6 +228,30 @@ export const useWorkoutEditor = (workoutId?: string): WorkoutEditorHook => {
     setExpandedExercise(resolvedName);
   }, [workouts, workout, convertWeight, weightUnit]);
 
+  // Replaces an exercise in place. A swap without history of its own starts from the
+  // replaced exercise's last weights, scaled for the equipment, where that makes sense.
+  const swapExercise = useCallback((name: string, exercise: Exercise) => {
+    const historicalWorkouts = workout ? workouts.filter((w) => w.id !== workout.id) : workouts;
+    const replaced = baseExerciseCatalog.find((item) => item.name === name);
+    const hasOwnHistory = getLastCompletedSetsForExercise(exercise.name, historicalWorkouts) !== null;
+    const carriedSets = !hasOwnHistory && replaced
+      ? estimateSetsFromRelatedLift(replaced, exercise, historicalWorkouts)
+      : null;
+    const defaultSets = carriedSets ?? createDefaultSetLogs(exercise.name, workouts, workout?.id);
+
+    // Convert default/historical sets from LBS (storage) to User Unit (display)
+    const next: WorkoutExercise = {
+      name: exercise.name,
+      sets: defaultSets.map((set) => ({
+        ...set,
+        weight: convertWeight(set.weight ?? 0),
+      })),
+    };
+
+    setExerciseDrafts((prev) => prev.map((item) => (item.name === name ? next : item)));
+    setExpandedExercise((prev) => (prev === name ? next.name : prev));
+  }, [workouts, workout, convertWeight]);
+
   const openPicker = useCallback(() => {
     setPickerVisible(true);
     setSearchTerm('');
@@ -360,6 +386,7 @@ export const useWorkoutEditor = (workoutId?: string): WorkoutEditorHook => {
     removeExercise,
     moveExercise,
     addExercise,
+    swapExercise,
     isPickerVisible,
     openPicker,
     closePicker,
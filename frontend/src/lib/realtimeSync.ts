@@ -0,0 +1,116 @@
+/**
+ * Realtime sync channel
+ * Streams row changes for the signed-in user from Supabase Realtime, so edits made
+ * on another device show up without a full hydrate.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+
+import { supabaseClient } from './supabaseClient';
+import type { SyncedTable } from './supabaseQueries';
+
+const DEVICE_ID_STORAGE_KEY = 'hercules/device-id';
+
+export type RealtimeTable = SyncedTable | 'active_sessions';
+
+const REALTIME_TABLES: RealtimeTable[] = [
+  'workout_sessions',
+  'workout_templates',
+  'plans',
+  'plan_workouts',
+  'schedules',
+  'custom_exercises',
+  'active_sessions',
+];
+
+type RealtimeRow = Record<string, any>;
+
+export interface RealtimeChange {
+  table: RealtimeTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  /** Row after the change; null for deletes */
+  record: RealtimeRow | null;
+  /** Row before the change; null for inserts. Deletes only carry the primary key. */
+  oldRecord: RealtimeRow | null;
+}
+
+export interface RealtimeSyncHandlers {
+  onChange: (change: RealtimeChange) => void;
+  /** Called when the channel (re)connects; changes made while disconnected were missed */
+  onSubscribed?: (isReconnect: boolean) => void;
+}
+
+let cachedDeviceId: string | null = null;
+
+/** Random ID for this install, used to tell this device's writes apart from other devices' */
+export const getDeviceId = async (): Promise<string> => {
+  if (cachedDeviceId) {
+    return cachedDeviceId;
+  }
+
+  try {
+    const stored = await AsyncStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (stored) {
+      cachedDeviceId = stored;
+      return stored;
+    }
+  } catch (error) {
+    console.warn('[realtimeSync] Failed to read device ID:', error);
+  }
+
+  const deviceId = `device-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  cachedDeviceId = deviceId;
+  AsyncStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId).catch((error) => {
+    console.warn('[realtimeSync] Failed to save device ID:', error);
+  });
+  return deviceId;
+};
+
+const toRow = (value: unknown): RealtimeRow | null => {
+  // Supabase sends {} for the missing side of inserts and deletes
+  return value && typeof value === 'object' && Object.keys(value).length > 0 ? (value as RealtimeRow) : null;
+};
+
+/**
+ * Subscribes to changes on every synced table for one user.
+ * Returns an unsubscribe function.
+ *
+ * Realtime can't filter deletes, and with RLS on their old row is only the primary key,
+ * so deletes are subscribed to unfiltered and handlers match them by ID.
+ */
+export const subscribeToRealtimeChanges = (userId: string, handlers: RealtimeSyncHandlers): (() => void) => {
+  const channel = supabaseClient.channel(`realtime-sync:${userId}`);
+  let hasSubscribed = false;
+
+  const forwardChange = (table: RealtimeTable) => (payload: RealtimePostgresChangesPayload<RealtimeRow>) => {
+    handlers.onChange({
+      table,
+      eventType: payload.eventType,
+      record: toRow(payload.new),
+      oldRecord: toRow(payload.old),
+    });
+  };
+
+  REALTIME_TABLES.forEach((table) => {
+    const userFilter = `user_id=eq.${userId}`;
+    channel
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter: userFilter }, forwardChange(table))
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter: userFilter }, forwardChange(table))
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, forwardChange(table));
+  });
+
+  channel.subscribe((status) => {
+    if (status === 'SUBSCRIBED') {
+      handlers.onSubscribed?.(hasSubscribed);
+      hasSubscribed = true;
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      // The client keeps retrying on its own
+      console.warn('[realtimeSync] Channel', status);
+    }
+  });
+
+  return () => {
+    void supabaseClient.removeChannel(channel);
+  };
+};
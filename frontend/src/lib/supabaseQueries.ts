@@ -4,9 +4,13 @@
  */
 
 import { supabaseClient } from './supabaseClient';
-import type { Workout } from '@/types/workout';
+import type { Workout, WorkoutExercise } from '@/types/workout';
 import type { UserPlan, PlanWorkout } from '@/types/premadePlan';
+import type { ExerciseTargets, PlanWeekPrescription } from '@/types/plan';
 import { migrateWorkoutExercises, migrateExerciseName } from '@/utils/exerciseMigration';
+import { sanitizeSetEffort } from '@/utils/effort';
+import { pickExerciseGrouping } from '@/utils/exerciseGroups';
+import { pickExerciseTargets } from '@/utils/exerciseTargets';
 
 // ============================================================================
 // RETRY UTILITY & ERROR HANDLING
@@ -29,7 +33,7 @@ const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
 /**
  * Checks if an error is a network-related error that should be retried
  */
-function isNetworkError(error: unknown): boolean {
+export function isNetworkError(error: unknown): boolean {
     if (!(error instanceof Error)) return false;
 
     const networkErrorPatterns = [
@@ -142,6 +146,49 @@ async function withGracefulRetry<T>(
 // WORKOUT SESSIONS
 // ============================================================================
 
+/**
+ * Normalizes per-set fields before they are written to the exercises JSON column
+ */
+function serializeWorkoutExercises(exercises: WorkoutExercise[]): WorkoutExercise[] {
+    return exercises.map((exercise) => ({
+        ...exercise,
+        sets: (exercise.sets ?? []).map(sanitizeSetEffort),
+    }));
+}
+
+/** Rows fetched per page of workout history */
+export const WORKOUT_SESSIONS_PAGE_SIZE = 200;
+
+/** Position after the last row of a page; rows are ordered newest first by date, then id */
+export interface WorkoutSessionsCursor {
+    date: string;
+    id: string;
+}
+
+export interface WorkoutSessionsPage {
+    workouts: Workout[];
+    /** Null once the oldest workout has been fetched */
+    nextCursor: WorkoutSessionsCursor | null;
+}
+
+/**
+ * Transforms a workout_sessions row to app format and migrates exercise names
+ */
+export function mapWorkoutSessionRow(row: any): Workout {
+    return {
+        id: row.id,
+        planId: row.plan_id,
+        name: row.name,
+        date: row.date,
+        startTime: row.start_time,
+        endTime: row.end_time,
+        duration: row.duration,
+        exercises: migrateWorkoutExercises(row.exercises || []),
+        ...(row.route_coordinates ? { routeCoordinates: row.route_coordinates } : {}),
+        ...(row.outdoor_splits ? { outdoorSplits: row.outdoor_splits } : {}),
+    };
+}
+
 export async function fetchWorkoutSessions(userId: string): Promise<Workout[]> {
     console.log('[Supabase] Fetching workout sessions for user:', userId);
 
@@ -159,24 +206,210 @@ export async function fetchWorkoutSessions(userId: string): Promise<Workout[]> {
 
             console.log('[Supabase] Successfully fetched', data?.length ?? 0, 'workout sessions');
 
-            // Transform from DB format to app format and migrate exercise names
-            return (data || []).map((row) => ({
-                id: row.id,
-                planId: row.plan_id,
-                name: row.name,
-                date: row.date,
-                startTime: row.start_time,
-                endTime: row.end_time,
-                duration: row.duration,
-                exercises: migrateWorkoutExercises(row.exercises || []),
-                ...(row.route_coordinates ? { routeCoordinates: row.route_coordinates } : {}),
-            }));
+            reportRowVersions(data || []);
+            return (data || []).map(mapWorkoutSessionRow);
         },
         [], // fallback to empty array
         'fetchWorkoutSessions'
     );
 }
 
+/** One keyset page of workout history, newest first; throws on failure */
+async function queryWorkoutSessionsPage(
+    userId: string,
+    cursor: WorkoutSessionsCursor | null,
+    limit: number
+): Promise<WorkoutSessionsPage> {
+    let query = supabaseClient
+        .from('workout_sessions')
+        .select('*')
+        .eq('user_id', userId);
+
+    if (cursor) {
+        query = query.or(
+            `date.lt."${cursor.date}",and(date.eq."${cursor.date}",id.lt.${cursor.id})`
+        );
+    }
+
+    const { data, error } = await query
+        .order('date', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw error;
+    }
+
+    const rows = data || [];
+    const last = rows[rows.length - 1];
+    reportRowVersions(rows);
+
+    return {
+        workouts: rows.map(mapWorkoutSessionRow),
+        nextCursor: rows.length === limit && last ? { date: last.date, id: last.id } : null,
+    };
+}
+
+/**
+ * Fetches one page of workout history, newest first.
+ * Uses keyset pagination on (date, id) so rows logged while paging don't shift later pages.
+ * Returns null on failure so callers can keep what they already have.
+ */
+export async function fetchWorkoutSessionsPage(
+    userId: string,
+    cursor: WorkoutSessionsCursor | null = null,
+    limit: number = WORKOUT_SESSIONS_PAGE_SIZE
+): Promise<WorkoutSessionsPage | null> {
+    return withGracefulRetry<WorkoutSessionsPage | null>(
+        () => queryWorkoutSessionsPage(userId, cursor, limit),
+        null,
+        'fetchWorkoutSessionsPage'
+    );
+}
+
+/**
+ * Fetches the whole workout history, newest first, a page at a time so the server's row
+ * limit can't cut it short. Throws if any page fails, rather than returning part of it.
+ */
+export async function fetchAllWorkoutSessions(userId: string): Promise<Workout[]> {
+    const workouts: Workout[] = [];
+    let cursor: WorkoutSessionsCursor | null = null;
+
+    do {
+        const page: WorkoutSessionsPage = await withRetry(
+            () => queryWorkoutSessionsPage(userId, cursor, WORKOUT_SESSIONS_PAGE_SIZE)
+        );
+        workouts.push(...page.workouts);
+        cursor = page.nextCursor;
+    } while (cursor);
+
+    return workouts;
+}
+
+/**
+ * Fetches workouts created or edited after the given time (ISO string), plus any listed by ID.
+ * Returns null on failure so callers can keep what they already have.
+ */
+export async function fetchWorkoutSessionsChangedSince(
+    userId: string,
+    since: string,
+    alsoIds: string[] = []
+): Promise<Workout[] | null> {
+    return withGracefulRetry<Workout[] | null>(
+        async () => {
+            const workouts: Workout[] = [];
+
+            // Page through in case a lot changed, e.g. after an import on another device
+            for (let from = 0; ; from += WORKOUT_SESSIONS_PAGE_SIZE) {
+                const changedFilter = alsoIds.length > 0
+                    ? `updated_at.gt."${since}",id.in.(${alsoIds.join(',')})`
+                    : `updated_at.gt."${since}"`;
+
+                const { data, error } = await supabaseClient
+                    .from('workout_sessions')
+                    .select('*')
+                    .eq('user_id', userId)
+                    .or(changedFilter)
+                    .order('updated_at', { ascending: true })
+                    .order('id', { ascending: true })
+                    .range(from, from + WORKOUT_SESSIONS_PAGE_SIZE - 1);
+
+                if (error) {
+                    throw error;
+                }
+
+                reportRowVersions(data || []);
+                workouts.push(...(data || []).map(mapWorkoutSessionRow));
+
+                if (!data || data.length < WORKOUT_SESSIONS_PAGE_SIZE) {
+                    break;
+                }
+            }
+
+            console.log('[Supabase] Fetched', workouts.length, 'workout sessions changed since', since);
+            return workouts;
+        },
+        null,
+        'fetchWorkoutSessionsChangedSince'
+    );
+}
+
+/**
+ * Fetches the IDs of every workout the user still has, so a local copy can drop
+ * workouts deleted on another device. Returns null on failure.
+ */
+export async function fetchWorkoutSessionIds(userId: string): Promise<string[] | null> {
+    return withGracefulRetry<string[] | null>(
+        async () => {
+            const ids: string[] = [];
+            const pageSize = 1000;
+
+            for (let from = 0; ; from += pageSize) {
+                const { data, error } = await supabaseClient
+                    .from('workout_sessions')
+                    .select('id')
+                    .eq('user_id', userId)
+                    .order('id', { ascending: true })
+                    .range(from, from + pageSize - 1);
+
+                if (error) {
+                    throw error;
+                }
+
+                ids.push(...(data || []).map((row) => row.id as string));
+
+                if (!data || data.length < pageSize) {
+                    break;
+                }
+            }
+
+            return ids;
+        },
+        null,
+        'fetchWorkoutSessionIds'
+    );
+}
+
+/**
+ * Fetches the start times (epoch ms) of the user's workouts that started within the given range.
+ * Used to skip workouts that are already in history when importing, without needing the whole
+ * history in memory. Throws on failure so an import never runs without its duplicate check.
+ */
+export async function fetchWorkoutStartTimesInRange(
+    userId: string,
+    fromStartTime: number,
+    toStartTime: number
+): Promise<number[]> {
+    return withRetry(async () => {
+        const startTimes: number[] = [];
+        const pageSize = 1000;
+
+        for (let from = 0; ; from += pageSize) {
+            const { data, error } = await supabaseClient
+                .from('workout_sessions')
+                .select('start_time')
+                .eq('user_id', userId)
+                .gte('start_time', fromStartTime)
+                .lte('start_time', toStartTime)
+                .order('start_time', { ascending: true })
+                .range(from, from + pageSize - 1);
+
+            if (error) {
+                console.error('[Supabase] Error fetching workout start times:', error);
+                throw error;
+            }
+
+            startTimes.push(...(data || []).map((row) => Number(row.start_time)));
+
+            if (!data || data.length < pageSize) {
+                break;
+            }
+        }
+
+        return startTimes;
+    });
+}
+
 export async function createWorkoutSession(userId: string, workout: Workout): Promise<string> {
     return withRetry(async () => {
         // Validate planId exists in the plans table before inserting
@@ -203,13 +436,17 @@ export async function createWorkoutSession(userId: string, workout: Workout): Pr
                 start_time: workout.startTime,
                 end_time: workout.endTime,
                 duration: workout.duration,
-                exercises: workout.exercises,
+                exercises: serializeWorkoutExercises(workout.exercises),
         };
 
         if (workout.routeCoordinates && workout.routeCoordinates.length > 0) {
             insertPayload.route_coordinates = workout.routeCoordinates;
         }
 
+        if (workout.outdoorSplits) {
+            insertPayload.outdoor_splits = workout.outdoorSplits;
+        }
+
         const { data, error } = await supabaseClient
             .from('workout_sessions')
             .insert(insertPayload)
@@ -249,13 +486,17 @@ export async function updateWorkoutSession(userId: string, workout: Workout): Pr
                 start_time: workout.startTime,
                 end_time: workout.endTime,
                 duration: workout.duration,
-                exercises: workout.exercises,
+                exercises: serializeWorkoutExercises(workout.exercises),
         };
 
         if (workout.routeCoordinates !== undefined) {
             updatePayload.route_coordinates = workout.routeCoordinates;
         }
 
+        if (workout.outdoorSplits !== undefined) {
+            updatePayload.outdoor_splits = workout.outdoorSplits;
+        }
+
         const { error } = await supabaseClient
             .from('workout_sessions')
             .update(updatePayload)
@@ -284,6 +525,67 @@ export async function deleteWorkoutSession(userId: string, workoutId: string): P
     });
 }
 
+// ============================================================================
+// ROW VERSIONS (conflict detection for the offline sync queue)
+// ============================================================================
+
+export type SyncedTable = 'workout_sessions' | 'plans' | 'plan_workouts' | 'workout_templates' | 'schedules' | 'custom_exercises';
+
+/** Server versions (updated_at in epoch ms) keyed by row ID */
+export type RowVersions = Record<string, number>;
+
+let rowVersionListener: ((versions: RowVersions) => void) | null = null;
+
+/**
+ * Registers the sync queue to hear the server version of every synced row this device reads,
+ * so a queued edit can later be checked against the version it was made on.
+ */
+export function setRowVersionListener(listener: ((versions: RowVersions) => void) | null): void {
+    rowVersionListener = listener;
+}
+
+/**
+ * Passes the updated_at of fetched rows on to the sync queue
+ */
+function reportRowVersions(rows: { id: string; updated_at?: string | null }[]): void {
+    if (!rowVersionListener) {
+        return;
+    }
+
+    const versions: RowVersions = {};
+    rows.forEach((row) => {
+        if (row.updated_at) {
+            versions[row.id] = new Date(row.updated_at).getTime();
+        }
+    });
+
+    if (Object.keys(versions).length > 0) {
+        rowVersionListener(versions);
+    }
+}
+
+/**
+ * Fetches when a row was last modified, in epoch ms.
+ * Returns null if the row no longer exists.
+ */
+export async function fetchRowModifiedAt(userId: string, table: SyncedTable, rowId: string): Promise<number | null> {
+    return withRetry(async () => {
+        const { data, error } = await supabaseClient
+            .from(table)
+            .select('updated_at')
+            .eq('id', rowId)
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (error) {
+            console.error(`[Supabase] Error fetching ${table} row version:`, error);
+            throw error;
+        }
+
+        return data?.updated_at ? new Date(data.updated_at).getTime() : null;
+    });
+}
+
 // ============================================================================
 // PLANS (User Programs)
 // ============================================================================
@@ -324,6 +626,9 @@ export async function fetchUserPlans(userId: string): Promise<UserPlan[]> {
 
             console.log('[Supabase] Successfully fetched', workoutsData?.length ?? 0, 'plan workouts');
 
+            reportRowVersions(plansData);
+            reportRowVersions(workoutsData || []);
+
             // Group workouts by plan_id and migrate exercise names
             const workoutsByPlan = (workoutsData || []).reduce((acc, workout) => {
                 if (!acc[workout.plan_id]) {
@@ -480,7 +785,6 @@ export async function updateUserPlan(userId: string, plan: UserPlan): Promise<vo
                 schedule_type: plan.scheduleType,
                 schedule_config: plan.schedule,
                 source_id: plan.sourceId,
-                updated_at: new Date().toISOString(),
             })
             .eq('id', plan.id)
             .eq('user_id', userId);
@@ -573,7 +877,7 @@ export async function updateRotationState(
 export interface WorkoutTemplateDB {
     id: string;
     name: string;
-    exercises: { id: string; name: string; sets?: number }[];
+    exercises: { id: string; name: string; sets?: number; groupId?: string; targets?: ExerciseTargets }[];
     source?: 'premade' | 'custom' | 'library' | 'recommended';
     created_at: string;
     updated_at: string;
@@ -596,6 +900,8 @@ export async function fetchWorkoutTemplates(userId: string): Promise<WorkoutTemp
 
             console.log('[Supabase] Successfully fetched', data?.length ?? 0, 'workout templates');
 
+            reportRowVersions(data || []);
+
             return (data || []).map((row) => {
                 // Validate and sanitize the data
                 const exercises = Array.isArray(row.exercises) ? row.exercises : [];
@@ -608,6 +914,8 @@ export async function fetchWorkoutTemplates(userId: string): Promise<WorkoutTemp
                     id: String(ex.id),
                     name: String(ex.name || ''),
                     sets: typeof ex.sets === 'number' ? ex.sets : 3,
+                    ...pickExerciseGrouping(ex),
+                    ...pickExerciseTargets(ex),
                 }));
 
                 return {
@@ -627,7 +935,7 @@ export async function fetchWorkoutTemplates(userId: string): Promise<WorkoutTemp
 
 export async function createWorkoutTemplate(
     userId: string,
-    template: { name: string; exercises: { id: string; name: string; sets?: number }[]; source?: 'premade' | 'custom' | 'library' | 'recommended' }
+    template: { name: string; exercises: { id: string; name: string; sets?: number; groupId?: string; targets?: ExerciseTargets }[]; source?: 'premade' | 'custom' | 'library' | 'recommended' }
 ): Promise<string> {
     return withRetry(async () => {
         const { data, error } = await supabaseClient
@@ -653,7 +961,7 @@ export async function createWorkoutTemplate(
 export async function updateWorkoutTemplate(
     userId: string,
     templateId: string,
-    updates: { name?: string; exercises?: { id: string; name: string; sets?: number }[] }
+    updates: { name?: string; exercises?: { id: string; name: string; sets?: number; groupId?: string; targets?: ExerciseTargets }[] }
 ): Promise<void> {
     console.log('[Supabase] updateWorkoutTemplate called with:', {
         userId,
@@ -667,10 +975,7 @@ export async function updateWorkoutTemplate(
     return withRetry(async () => {
         const { data, error } = await supabaseClient
             .from('workout_templates')
-            .update({
-                ...updates,
-                updated_at: new Date().toISOString(),
-            })
+            .update(updates)
             .eq('id', templateId)
             .eq('user_id', userId)
             .select();
@@ -713,7 +1018,10 @@ export async function deleteWorkoutTemplate(userId: string, templateId: string):
 export async function updatePlanWorkout(
     userId: string,
     workoutId: string,
-    updates: { name?: string; exercises?: { id: string; name: string; sets?: number }[] }
+    updates: {
+        name?: string;
+        exercises?: { id: string; name: string; sets?: number; groupId?: string; targets?: ExerciseTargets; weeks?: PlanWeekPrescription[] }[];
+    }
 ): Promise<void> {
     console.log('[Supabase] updatePlanWorkout called with:', {
         userId,
@@ -727,10 +1035,7 @@ export async function updatePlanWorkout(
     return withRetry(async () => {
         const { data, error, count } = await supabaseClient
             .from('plan_workouts')
-            .update({
-                ...updates,
-                updated_at: new Date().toISOString(),
-            })
+            .update(updates)
             .eq('id', workoutId)
             .eq('user_id', userId)
             .select();
@@ -829,6 +1134,8 @@ export async function fetchSchedules(userId: string): Promise<ScheduleDB[]> {
 
             console.log('[Supabase] Successfully fetched', data?.length ?? 0, 'schedules');
 
+            reportRowVersions(data || []);
+
             return (data || []).map((row) => ({
                 id: row.id,
                 name: row.name,
@@ -873,9 +1180,7 @@ export async function updateSchedule(
     updates: { name?: string; scheduleData?: ScheduleDataFull; is_active?: boolean }
 ): Promise<void> {
     return withRetry(async () => {
-        const updateData: Record<string, unknown> = {
-            updated_at: new Date().toISOString(),
-        };
+        const updateData: Record<string, unknown> = {};
 
         if (updates.name !== undefined) updateData.name = updates.name;
         if (updates.scheduleData !== undefined) updateData.schedule_data = updates.scheduleData;
@@ -939,6 +1244,8 @@ export async function fetchCustomExercises(userId: string): Promise<CustomExerci
 
             console.log('[Supabase] Successfully fetched', data?.length ?? 0, 'custom exercises');
 
+            reportRowVersions(data || []);
+
             return (data || []).map((row) => ({
                 id: row.id,
                 name: row.name,
@@ -992,3 +1299,171 @@ export async function deleteCustomExercise(userId: string, exerciseId: string):
         }
     });
 }
+
+// ============================================================================
+// BODY METRICS
+// ============================================================================
+
+export interface BodyMetricDB {
+    id: string;
+    entry_date: string;
+    weight_lbs: number | null;
+    body_fat_percent: number | null;
+    measurements: Record<string, number>;
+    created_at: string;
+    updated_at: string;
+}
+
+export async function fetchBodyMetrics(userId: string): Promise<BodyMetricDB[]> {
+    console.log('[Supabase] Fetching body metrics for user:', userId);
+
+    return withGracefulRetry(
+        async () => {
+            const { data, error } = await supabaseClient
+                .from('body_metrics')
+                .select('*')
+                .eq('user_id', userId)
+                .order('entry_date', { ascending: true });
+
+            if (error) {
+                throw error;
+            }
+
+            console.log('[Supabase] Successfully fetched', data?.length ?? 0, 'body metric entries');
+
+            return (data || []).map((row) => ({
+                id: row.id,
+                entry_date: row.entry_date,
+                weight_lbs: row.weight_lbs === null ? null : Number(row.weight_lbs),
+                body_fat_percent: row.body_fat_percent === null ? null : Number(row.body_fat_percent),
+                measurements: row.measurements ?? {},
+                created_at: row.created_at,
+                updated_at: row.updated_at,
+            }));
+        },
+        [],
+        'fetchBodyMetrics'
+    );
+}
+
+/**
+ * Creates or replaces the entry for a day (one entry per user per day).
+ * @returns The entry's ID
+ */
+export async function upsertBodyMetric(
+    userId: string,
+    entry: { date: string; weightLbs: number | null; bodyFatPercent: number | null; measurements: Record<string, number> }
+): Promise<string> {
+    return withRetry(async () => {
+        const { data, error } = await supabaseClient
+            .from('body_metrics')
+            .upsert(
+                {
+                    user_id: userId,
+                    entry_date: entry.date,
+                    weight_lbs: entry.weightLbs,
+                    body_fat_percent: entry.bodyFatPercent,
+                    measurements: entry.measurements,
+                    updated_at: new Date().toISOString(),
+                },
+                { onConflict: 'user_id,entry_date' }
+            )
+            .select('id')
+            .single();
+
+        if (error) {
+            console.error('[Supabase] Error saving body metric:', error);
+            throw error;
+        }
+
+        return data.id;
+    });
+}
+
+export async function deleteBodyMetric(userId: string, entryId: string): Promise<void> {
+    return withRetry(async () => {
+        const { error } = await supabaseClient
+            .from('body_metrics')
+            .delete()
+            .eq('id', entryId)
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('[Supabase] Error deleting body metric:', error);
+            throw error;
+        }
+    });
+}
+
+// ============================================================================
+// ACTIVE SESSIONS (in-progress workout shared across devices)
+// ============================================================================
+
+export interface ActiveSessionDB {
+    user_id: string;
+    /** Device that started or last continued the session */
+    device_id: string;
+    /** The session draft as saved by sessionStore */
+    session: unknown;
+    updated_at: string;
+}
+
+export async function fetchActiveSession(userId: string): Promise<ActiveSessionDB | null> {
+    return withGracefulRetry<ActiveSessionDB | null>(
+        async () => {
+            const { data, error } = await supabaseClient
+                .from('active_sessions')
+                .select('*')
+                .eq('user_id', userId)
+                .maybeSingle();
+
+            if (error) {
+                throw error;
+            }
+
+            return data;
+        },
+        null,
+        'fetchActiveSession'
+    );
+}
+
+export async function upsertActiveSession(userId: string, deviceId: string, session: unknown): Promise<void> {
+    return withRetry(async () => {
+        const { error } = await supabaseClient
+            .from('active_sessions')
+            .upsert(
+                {
+                    user_id: userId,
+                    device_id: deviceId,
+                    session,
+                    updated_at: new Date().toISOString(),
+                },
+                { onConflict: 'user_id' }
+            );
+
+        if (error) {
+            console.error('[Supabase] Error saving active session:', error);
+            throw error;
+        }
+    });
+}
+
+/**
+ * Removes the user's active session, but only while this device still owns it,
+ * so finishing a handed-off session doesn't clear the other device's copy.
+ */
+export async function deleteActiveSession(userId: string, deviceId: string): Promise<void> {
+    return withRetry(async () => {
+        const { error } = await supabaseClient
+            .from('active_sessions')
+            .delete()
+            .eq('user_id', userId)
+            .eq('device_id', deviceId);
+
+        if (error) {
+            console.error('[Supabase] Error deleting active session:', error);
+            throw error;
+        }
+    });
+}
@@ -0,0 +1,203 @@
+/**
+ * Sync queue executors
+ * Replays queued mutations against Supabase, checking the server row's last
+ * modification before updates and deletes so a newer edit from another device wins.
+ */
+
+import { supabaseClient } from './supabaseClient';
+import {
+  createCustomExercise,
+  createSchedule,
+  createUserPlan,
+  createWorkoutTemplate,
+  deleteCustomExercise,
+  deletePlanWorkout,
+  deleteSchedule,
+  deleteUserPlan,
+  deleteWorkoutSession,
+  deleteWorkoutTemplate,
+  fetchRowModifiedAt,
+  setActivePlan,
+  updatePlanWorkout,
+  updateRotationState,
+  updateSchedule,
+  updateUserPlan,
+  updateWorkoutSession,
+  updateWorkoutTemplate,
+  type SyncedTable,
+} from './supabaseQueries';
+import type { SyncConflictReason, SyncMutation, SyncMutationArgs, SyncMutationKind } from '@/types/syncQueue';
+
+const LOCAL_ID_PREFIX = 'local-';
+
+/** Entity ID shared by all setActivePlan mutations, so only the latest choice is kept */
+export const ACTIVE_PLAN_ENTITY_ID = 'active-plan';
+
+/** Maps local IDs to the IDs Supabase generated for them */
+export type SyncIdMap = Record<string, string>;
+
+type SyncExecutor<K extends SyncMutationKind> = (
+  userId: string,
+  mutation: SyncMutation<K>,
+) => Promise<SyncIdMap | void>;
+
+const EXECUTORS: { [K in SyncMutationKind]: SyncExecutor<K> } = {
+  createWorkoutTemplate: async (userId, { entityId, args }) => ({
+    [entityId]: await createWorkoutTemplate(userId, ...args),
+  }),
+  updateWorkoutTemplate: (userId, { args }) => updateWorkoutTemplate(userId, ...args),
+  deleteWorkoutTemplate: (userId, { args }) => deleteWorkoutTemplate(userId, ...args),
+  createUserPlan: async (userId, { entityId, args }) => {
+    const [plan] = args;
+    const created = await createUserPlan(userId, ...args);
+    // Workouts come back in insertion order
+    return plan.workouts.reduce<SyncIdMap>((idMap, workout, index) => {
+      if (created.workouts[index]) {
+        idMap[workout.id] = created.workouts[index].id;
+      }
+      return idMap;
+    }, { [entityId]: created.id });
+  },
+  updateUserPlan: (userId, { args }) => updateUserPlan(userId, ...args),
+  deleteUserPlan: (userId, { args }) => deleteUserPlan(userId, ...args),
+  setActivePlan: (userId, { args }) => setActivePlan(userId, ...args),
+  updateRotationState: (userId, { args }) => updateRotationState(userId, ...args),
+  updatePlanWorkout: (userId, { args }) => updatePlanWorkout(userId, ...args),
+  deletePlanWorkout: (userId, { args }) => deletePlanWorkout(userId, ...args),
+  createSchedule: async (userId, { entityId, args }) => ({
+    [entityId]: await createSchedule(userId, ...args),
+  }),
+  updateSchedule: (userId, { args }) => updateSchedule(userId, ...args),
+  deleteSchedule: (userId, { args }) => deleteSchedule(userId, ...args),
+  createCustomExercise: async (userId, { entityId, args }) => ({
+    [entityId]: await createCustomExercise(userId, ...args),
+  }),
+  deleteCustomExercise: (userId, { args }) => deleteCustomExercise(userId, ...args),
+  updateWorkoutSession: (userId, { args }) => updateWorkoutSession(userId, ...args),
+  deleteWorkoutSession: (userId, { args }) => deleteWorkoutSession(userId, ...args),
+};
+
+/** Tables checked for newer server edits before a mutation is applied */
+const CONFLICT_TABLES: Partial<Record<SyncMutationKind, SyncedTable>> = {
+  updateWorkoutTemplate: 'workout_templates',
+  deleteWorkoutTemplate: 'workout_templates',
+  updateUserPlan: 'plans',
+  deleteUserPlan: 'plans',
+  updatePlanWorkout: 'plan_workouts',
+  deletePlanWorkout: 'plan_workouts',
+  updateSchedule: 'schedules',
+  deleteSchedule: 'schedules',
+  deleteCustomExercise: 'custom_exercises',
+  updateWorkoutSession: 'workout_sessions',
+  deleteWorkoutSession: 'workout_sessions',
+};
+
+/** Updates whose second argument only lists the fields that changed */
+const PARTIAL_UPDATE_KINDS: SyncMutationKind[] = ['updateWorkoutTemplate', 'updatePlanWorkout', 'updateSchedule'];
+
+export interface SyncResult {
+  /** IDs generated by a create */
+  idMap?: SyncIdMap;
+  /** Server version of the row after an update, when it could be read back */
+  serverModifiedAt?: number;
+  /** Set when the mutation was skipped in favor of the server copy */
+  conflict?: SyncConflictReason;
+}
+
+export const createLocalId = (): string => {
+  return `${LOCAL_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/** Whether an ID was generated on this device and its row hasn't synced yet */
+export const isLocalId = (id: string): boolean => id.startsWith(LOCAL_ID_PREFIX);
+
+export const isCreateMutation = (kind: SyncMutationKind): boolean => kind.startsWith('create');
+
+export const isDeleteMutation = (kind: SyncMutationKind): boolean => kind.startsWith('delete');
+
+/**
+ * Replaces every string (and object key) that matches a mapped ID.
+ * IDs are unique random strings, so exact matches are safe to swap anywhere in a value.
+ */
+export const replaceIds = <T>(value: T, idMap: SyncIdMap): T => {
+  if (typeof value === 'string') {
+    return (idMap[value] ?? value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceIds(item, idMap)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [idMap[key] ?? key, replaceIds(item, idMap)]),
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Combines a queued update with a newer one for the same row.
+ * Partial updates keep fields only the earlier edit set; full-row updates take the newer arguments.
+ */
+export const mergeMutationArgs = <K extends SyncMutationKind>(
+  kind: K,
+  previous: SyncMutationArgs[K],
+  next: SyncMutationArgs[K],
+): SyncMutationArgs[K] => {
+  if (!PARTIAL_UPDATE_KINDS.includes(kind)) {
+    return next;
+  }
+
+  const [id, previousUpdates] = previous as [string, Record<string, unknown>];
+  const [, nextUpdates] = next as [string, Record<string, unknown>];
+  const definedUpdates = Object.fromEntries(
+    Object.entries(nextUpdates).filter(([, value]) => value !== undefined),
+  );
+  return [id, { ...previousUpdates, ...definedUpdates }] as unknown as SyncMutationArgs[K];
+};
+
+/**
+ * Signed-in user's ID from the stored session.
+ * Unlike auth.getUser() this doesn't hit the network, so writes can be queued offline.
+ */
+export const getSessionUserId = async (): Promise<string | null> => {
+  const { data } = await supabaseClient.auth.getSession();
+  return data.session?.user.id ?? null;
+};
+
+/**
+ * Applies a queued mutation.
+ * Updates and deletes are skipped when the server row is newer than the version the edit
+ * was made on. Both versions are server timestamps, so device clocks don't matter.
+ * Deleting a row that is already gone counts as done.
+ * Throws on failure, like the underlying queries.
+ */
+export const applySyncMutation = async (mutation: SyncMutation): Promise<SyncResult> => {
+  const table = CONFLICT_TABLES[mutation.kind];
+
+  if (table) {
+    const serverModifiedAt = await fetchRowModifiedAt(mutation.userId, table, mutation.entityId);
+
+    if (serverModifiedAt === null) {
+      return isDeleteMutation(mutation.kind) ? {} : { conflict: 'deleted-on-server' };
+    }
+    if (mutation.baseModifiedAt !== undefined && serverModifiedAt > mutation.baseModifiedAt) {
+      return { conflict: 'newer-on-server' };
+    }
+  }
+
+  const executor = EXECUTORS[mutation.kind] as SyncExecutor<SyncMutationKind>;
+  const idMap = await executor(mutation.userId, mutation);
+
+  if (table && !isDeleteMutation(mutation.kind)) {
+    // The next edit to this row builds on the version just written. Best effort: the
+    // write already went through, so a failed read must not retry it.
+    try {
+      const serverModifiedAt = await fetchRowModifiedAt(mutation.userId, table, mutation.entityId);
+      return serverModifiedAt === null ? {} : { serverModifiedAt };
+    } catch {
+      return {};
+    }
+  }
+
+  return idMap ? { idMap } : {};
+};
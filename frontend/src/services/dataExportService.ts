@@ -0,0 +1,120 @@
+/**
+ * Data export service
+ * Gathers the user's training data, writes it to a file and opens the OS share sheet.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import {
+  fetchAllWorkoutSessions,
+  fetchBodyMetrics,
+  fetchCustomExercises,
+  fetchSchedules,
+  fetchUserPlans,
+  fetchWorkoutTemplates,
+} from '@/lib/supabaseQueries';
+import { exercises as exerciseCatalog } from '@/constants/exercises';
+import { useCustomExerciseStore } from '@/store/customExerciseStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
+import type { Workout } from '@/types/workout';
+import {
+  buildExportBundle,
+  buildWorkoutsCsv,
+  getExportFileName,
+  type DataExportFormat,
+  type ExportExerciseInfo,
+} from '@/utils/dataExport';
+
+const MIME_TYPES: Record<DataExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+const UTIS: Record<DataExportFormat, string> = {
+  csv: 'public.comma-separated-values-text',
+  json: 'public.json',
+};
+
+/**
+ * Remote workouts plus any local ones that have not finished syncing yet.
+ * Throws when history can't be fetched in full, so a partial file is never shared.
+ */
+const collectWorkouts = async (userId: string): Promise<Workout[]> => {
+  const remoteWorkouts = await fetchAllWorkoutSessions(userId);
+  const remoteIds = new Set(remoteWorkouts.map((workout) => workout.id));
+  const localOnly = useWorkoutSessionsStore.getState().workouts.filter((workout) => !remoteIds.has(workout.id));
+
+  return [...localOnly, ...remoteWorkouts];
+};
+
+const createExerciseInfoLookup = (): ((exerciseName: string) => ExportExerciseInfo) => {
+  const lookup = new Map<string, ExportExerciseInfo>();
+
+  exerciseCatalog.forEach((exercise) => {
+    lookup.set(exercise.name.toLowerCase(), { exerciseType: exercise.exerciseType, distanceUnit: exercise.distanceUnit });
+  });
+  useCustomExerciseStore.getState().customExercises.forEach((exercise) => {
+    lookup.set(exercise.name.toLowerCase(), {
+      exerciseType: exercise.exerciseType,
+      distanceUnit: exercise.supportsGpsTracking ? 'miles' : undefined,
+    });
+  });
+
+  return (exerciseName) => lookup.get(exerciseName.toLowerCase()) ?? { exerciseType: 'weight' };
+};
+
+const buildExportContents = async (userId: string, format: DataExportFormat): Promise<string> => {
+  if (format === 'csv') {
+    const workouts = await collectWorkouts(userId);
+    return buildWorkoutsCsv(workouts, createExerciseInfoLookup(), useSettingsStore.getState());
+  }
+
+  const [workouts, templates, plans, schedules, customExercises, bodyMetrics] = await Promise.all([
+    collectWorkouts(userId),
+    fetchWorkoutTemplates(userId),
+    fetchUserPlans(userId),
+    fetchSchedules(userId),
+    fetchCustomExercises(userId),
+    fetchBodyMetrics(userId),
+  ]);
+
+  return JSON.stringify(buildExportBundle({ workouts, templates, plans, schedules, customExercises, bodyMetrics }), null, 2);
+};
+
+/**
+ * Export the signed-in user's data and hand the file to the share sheet.
+ * CSV contains workout history; JSON contains history, templates, plans, schedules, custom exercises and body metrics.
+ */
+export const exportUserData = async (format: DataExportFormat): Promise<void> => {
+  try {
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) {
+      throw new Error('No authenticated user');
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const contents = await buildExportContents(user.id, format);
+
+    const file = new File(Paths.cache, getExportFileName(format));
+    if (file.exists) {
+      file.delete();
+    }
+    file.create();
+    file.write(contents);
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: MIME_TYPES[format],
+      UTI: UTIS[format],
+      dialogTitle: 'Export Workout Data',
+    });
+  } catch (error) {
+    console.error('[DataExportService] Error exporting data:', error);
+    throw new Error('Failed to export your data. Please try again later.');
+  }
+};
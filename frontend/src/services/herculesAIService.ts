@@ -15,6 +15,7 @@ import type {
   ChatHistoryMessage,
   AppStats,
 } from '@/types/herculesAI';
+import type { GymProfileForAI } from '@/types/gymProfile';
 
 const FUNCTION_NAME = 'hercules-ai';
 
@@ -74,7 +75,8 @@ const parseFunctionError = async (
 export async function sendChatMessage(
   message: string,
   sessionId?: string,
-  appStats?: AppStats
+  appStats?: AppStats,
+  gymProfile?: GymProfileForAI
 ): Promise<{ data: ChatResponseBody | null; error: HerculesAIError | null }> {
   try {
     const body: ChatRequestBody = {
@@ -87,6 +89,9 @@ export async function sendChatMessage(
     if (appStats) {
       body.appStats = appStats;
     }
+    if (gymProfile) {
+      body.gymProfile = gymProfile;
+    }
 
     const { data, error, response } = await supabaseClient.functions.invoke<ChatResponseBody>(
       FUNCTION_NAME,
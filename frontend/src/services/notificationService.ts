@@ -159,6 +159,121 @@ const scheduleWeeklyNotification = async (
   return identifier;
 };
 
+const REST_TIMER_CHANNEL_ID = 'rest-timer';
+
+/**
+ * Ensure notification permission for rest timers without re-prompting users who declined.
+ */
+const ensureRestTimerPermission = async (Notifications: NotificationsModule): Promise<boolean> => {
+  const { status, canAskAgain } = await Notifications.getPermissionsAsync();
+
+  if (status === 'granted') {
+    return true;
+  }
+
+  if (!canAskAgain) {
+    return false;
+  }
+
+  const { status: requestedStatus } = await Notifications.requestPermissionsAsync();
+  return requestedStatus === 'granted';
+};
+
+/**
+ * Schedule a one-off "rest is over" notification so the timer still alerts while the app is backgrounded.
+ * @returns The notification identifier, or null when notifications are unavailable
+ */
+export const scheduleRestTimerNotification = async (
+  seconds: number,
+  exerciseName: string
+): Promise<string | null> => {
+  try {
+    const Notifications = await getNotificationsModule();
+    if (!Notifications || seconds <= 0) return null;
+
+    const hasPermission = await ensureRestTimerPermission(Notifications);
+    if (!hasPermission) return null;
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(REST_TIMER_CHANNEL_ID, {
+        name: 'Rest Timer',
+        importance: Notifications.AndroidImportance.HIGH,
+        vibrationPattern: [0, 250, 250, 250],
+        lightColor: '#FF6B4A',
+      });
+    }
+
+    return await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Rest Complete',
+        body: `Time for your next set of ${exerciseName}`,
+        sound: true,
+        data: { type: 'rest-timer', exerciseName },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+        seconds,
+        channelId: Platform.OS === 'android' ? REST_TIMER_CHANNEL_ID : undefined,
+      },
+    });
+  } catch (error) {
+    console.error('[NotificationService] Error scheduling rest timer:', error);
+    return null;
+  }
+};
+
+const OUTDOOR_CUE_CHANNEL_ID = 'outdoor-cues';
+
+/**
+ * Show an outdoor session cue right away, for when the screen is locked or the app is backgrounded.
+ * Never prompts for permission: cues fire mid-session, usually with nobody looking at the screen.
+ */
+export const presentOutdoorCueNotification = async (title: string, body: string): Promise<void> => {
+  try {
+    const Notifications = await getNotificationsModule();
+    if (!Notifications) return;
+
+    const { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') return;
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(OUTDOOR_CUE_CHANNEL_ID, {
+        name: 'Outdoor Session Cues',
+        importance: Notifications.AndroidImportance.HIGH,
+        vibrationPattern: [0, 250, 250, 250],
+        lightColor: '#FF6B4A',
+      });
+    }
+
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title,
+        body,
+        sound: true,
+        data: { type: 'outdoor-cue' },
+      },
+      trigger: Platform.OS === 'android' ? { channelId: OUTDOOR_CUE_CHANNEL_ID } : null,
+    });
+  } catch (error) {
+    console.error('[NotificationService] Error showing outdoor cue:', error);
+  }
+};
+
+/**
+ * Cancel a pending rest timer notification.
+ */
+export const cancelRestTimerNotification = async (identifier: string | null | undefined): Promise<void> => {
+  if (!identifier) return;
+
+  try {
+    const Notifications = await getNotificationsModule();
+    if (!Notifications) return;
+    await Notifications.cancelScheduledNotificationAsync(identifier);
+  } catch (error) {
+    console.error('[NotificationService] Error cancelling rest timer:', error);
+  }
+};
+
 /**
  * Cancel all scheduled notifications.
  */
@@ -3,11 +3,18 @@
  * Global service for GPS tracking and timer that persists across navigation.
  * Uses expo-task-manager for background location updates so the route
  * continues to be recorded when the app is backgrounded or the phone is locked.
+ * Also delivers the session's cues: read aloud with a haptic, and as a notification when
+ * the app isn't in the foreground.
  */
+import { AppState } from 'react-native';
 import * as Location from 'expo-location';
+import * as Speech from 'expo-speech';
 import * as TaskManager from 'expo-task-manager';
 import type { GpsCoordinate } from '@/types/outdoor';
 import { isAccurateEnough } from '@/utils/geo';
+import { triggerHaptic } from '@/utils/haptics';
+import { getSpokenCueText } from '@/utils/outdoorCues';
+import { presentOutdoorCueNotification } from '@/services/notificationService';
 import { useOutdoorSessionStore } from '@/store/outdoorSessionStore';
 
 const BACKGROUND_LOCATION_TASK = 'hercules-background-location';
@@ -24,9 +31,10 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
 
   if (data) {
     const { locations } = data as { locations: Location.LocationObject[] };
-    const { addCoordinate, status } = useOutdoorSessionStore.getState();
+    const { addCoordinate, status, isAutoPaused } = useOutdoorSessionStore.getState();
 
-    if (status !== 'active') return;
+    // Auto-paused sessions keep listening so they can resume when the user moves again
+    if (status !== 'active' && !isAutoPaused) return;
 
     for (const loc of locations) {
       const coord: GpsCoordinate = {
@@ -43,6 +51,22 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
   }
 });
 
+/**
+ * Cues are raised by the store as fixes come in, including from the background task above.
+ * They're spoken for a user who isn't looking at the screen; haptics only reach one holding
+ * the phone, so anywhere but the foreground the cue is also a notification.
+ */
+useOutdoorSessionStore.subscribe((state, previous) => {
+  const cue = state.latestCue;
+  if (!cue || cue === previous.latestCue) return;
+
+  triggerHaptic(cue.haptic);
+  Speech.speak(getSpokenCueText(cue.message));
+  if (AppState.currentState !== 'active') {
+    void presentOutdoorCueNotification(state.exerciseName ?? 'Outdoor Session', cue.message);
+  }
+});
+
 class OutdoorTrackingService {
   private foregroundSubscription: Location.LocationSubscription | null = null;
   private timerInterval: ReturnType<typeof setInterval> | null = null;
@@ -186,13 +210,19 @@ class OutdoorTrackingService {
     this.stopTimer();
 
     const tick = () => {
-      const { status, startTime, pausedDurationMs, updateElapsed } = useOutdoorSessionStore.getState();
-      
+      const { status, startTime, pausedDurationMs, isAutoPaused, updateElapsed, checkAutoPause } = useOutdoorSessionStore.getState();
+
+      // Keep ticking through an auto-pause; the store resumes on its own when movement picks up
+      if (status === 'paused' && isAutoPaused) return;
+
       if (status !== 'active' || !startTime) {
         this.stopTimer();
         return;
       }
 
+      checkAutoPause(Date.now());
+      if (useOutdoorSessionStore.getState().status !== 'active') return;
+
       const now = Date.now();
       const totalMs = now - startTime - pausedDurationMs;
       const seconds = Math.max(Math.floor(totalMs / 1000), 0);
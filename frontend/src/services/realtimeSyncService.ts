@@ -0,0 +1,288 @@
+/**
+ * Realtime Sync Service
+ * Keeps stores in step with edits made on the user's other devices, and shares the
+ * in-progress workout so it can be continued on another device.
+ *
+ * - Workout sessions are merged row by row from the change payload
+ * - Templates, programs, schedules and custom exercises rehydrate their store, since
+ *   their rows need the same normalization hydration already does
+ * - This device's own writes echo back too; merging them is a no-op
+ * - Deletes arrive for any user's rows and can be missed, so everything is re-checked
+ *   whenever the app comes back to the foreground
+ */
+
+import { Alert, AppState } from 'react-native';
+
+import { getDeviceId, subscribeToRealtimeChanges, type RealtimeChange, type RealtimeTable } from '@/lib/realtimeSync';
+import {
+  deleteActiveSession,
+  fetchActiveSession,
+  mapWorkoutSessionRow,
+  upsertActiveSession,
+  type ActiveSessionDB,
+} from '@/lib/supabaseQueries';
+import { useCustomExerciseStore } from '@/store/customExerciseStore';
+import { usePlansStore } from '@/store/plansStore';
+import { useProgramsStore } from '@/store/programsStore';
+import { useSchedulesStore } from '@/store/schedulesStore';
+import { useSessionStore, type SessionDraft } from '@/store/sessionStore';
+import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
+
+/** Bursts of row changes (e.g. a plan and all its workouts) collapse into one rehydrate */
+const REHYDRATE_DEBOUNCE_MS = 500;
+/** Sets are logged quickly; publish the session once the user pauses */
+const ACTIVE_SESSION_PUBLISH_DEBOUNCE_MS = 2_000;
+/** Sessions untouched for this long were abandoned, not left running */
+const STALE_ACTIVE_SESSION_MS = 12 * 60 * 60_000;
+
+type StoreRehydrator = (userId: string) => Promise<void>;
+
+const rehydrateTemplates: StoreRehydrator = (userId) => usePlansStore.getState().hydratePlans(userId);
+const rehydratePrograms: StoreRehydrator = (userId) => useProgramsStore.getState().hydratePrograms(userId);
+const rehydrateSchedules: StoreRehydrator = (userId) => useSchedulesStore.getState().hydrateSchedules(userId);
+const rehydrateCustomExercises: StoreRehydrator = (userId) =>
+  useCustomExerciseStore.getState().hydrateCustomExercises(userId);
+
+const REHYDRATORS: Partial<Record<RealtimeTable, StoreRehydrator>> = {
+  workout_templates: rehydrateTemplates,
+  plans: rehydratePrograms,
+  plan_workouts: rehydratePrograms,
+  schedules: rehydrateSchedules,
+  custom_exercises: rehydrateCustomExercises,
+};
+
+/** This device's view of the session it is running, for deciding whether another device may take it over */
+interface LocalSessionState {
+  /** True when this device changed the session in ways the other device's copy from `updatedAt` can't include */
+  hasUnsharedEdits: (updatedAt: number) => boolean;
+  /** Publishes this device's copy right away, so the other device picks it up instead */
+  keepSession: () => void;
+}
+
+const isSessionDraft = (value: unknown): value is SessionDraft => {
+  const draft = value as SessionDraft | null;
+  return Boolean(draft) && typeof draft?.startTime === 'number' && Array.isArray(draft?.exercises);
+};
+
+const applyWorkoutChange = (change: RealtimeChange) => {
+  const store = useWorkoutSessionsStore.getState();
+
+  if (change.eventType === 'DELETE') {
+    if (change.oldRecord?.id) {
+      store.removeRemoteWorkout(change.oldRecord.id);
+    }
+    return;
+  }
+
+  if (change.record) {
+    store.applyRemoteWorkout(mapWorkoutSessionRow(change.record));
+  }
+};
+
+/** Start time of the session whose takeover the user is being asked about */
+let confirmingTakeoverStartTime: number | null = null;
+
+/**
+ * Asks before dropping a session another device took over while this one still had
+ * edits it hadn't shared; keeping it publishes this device's copy over the other's.
+ */
+const confirmSessionTakeover = (startTime: number, local: LocalSessionState) => {
+  if (confirmingTakeoverStartTime === startTime) {
+    return;
+  }
+  confirmingTakeoverStartTime = startTime;
+
+  const resolve = (keep: boolean) => {
+    confirmingTakeoverStartTime = null;
+    const { currentSession, clearSession } = useSessionStore.getState();
+    if (currentSession?.startTime !== startTime) {
+      return;
+    }
+    if (keep) {
+      local.keepSession();
+    } else {
+      clearSession();
+    }
+  };
+
+  Alert.alert(
+    'Workout continued on another device',
+    'Your latest changes on this device aren\'t in the other device\'s copy. Keep the workout going here, or stop it on this device?',
+    [
+      { text: 'Stop Here', style: 'destructive', onPress: () => resolve(false) },
+      { text: 'Keep Here', onPress: () => resolve(true) },
+    ],
+    { cancelable: false },
+  );
+};
+
+/**
+ * Reacts to the shared active session: offers another device's session to continue here,
+ * and stops tracking this device's session once another device has taken it over.
+ */
+const applyActiveSession = (row: ActiveSessionDB | null, deviceId: string, local: LocalSessionState) => {
+  const sessionStore = useSessionStore.getState();
+
+  if (!row || row.device_id === deviceId) {
+    // Finished or discarded on the other device
+    if (sessionStore.remoteSession) {
+      sessionStore.setRemoteSession(null);
+    }
+    return;
+  }
+
+  if (!isSessionDraft(row.session)) {
+    return;
+  }
+
+  const { currentSession } = sessionStore;
+  const updatedAt = new Date(row.updated_at).getTime();
+  if (currentSession && currentSession.startTime === row.session.startTime) {
+    if (local.hasUnsharedEdits(updatedAt)) {
+      confirmSessionTakeover(currentSession.startTime, local);
+    } else {
+      sessionStore.clearSession();
+    }
+    return;
+  }
+
+  if (Date.now() - updatedAt > STALE_ACTIVE_SESSION_MS) {
+    return;
+  }
+
+  sessionStore.setRemoteSession({ deviceId: row.device_id, session: row.session, updatedAt });
+};
+
+/**
+ * Starts listening for changes from the user's other devices and publishing this
+ * device's in-progress workout. Returns a function that stops both.
+ */
+export const startRealtimeSync = (userId: string): (() => void) => {
+  const rehydrateTimers = new Map<StoreRehydrator, ReturnType<typeof setTimeout>>();
+  let publishTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Epoch ms this device last sent its session */
+  let lastPublishedAt = 0;
+  let isStopped = false;
+  const deviceIdPromise = getDeviceId();
+
+  const publishSession = async () => {
+    if (publishTimer) {
+      clearTimeout(publishTimer);
+      publishTimer = null;
+    }
+    const deviceId = await deviceIdPromise;
+    const { currentSession } = useSessionStore.getState();
+    lastPublishedAt = Date.now();
+    const request = currentSession
+      ? upsertActiveSession(userId, deviceId, { ...currentSession, restTimer: null })
+      : deleteActiveSession(userId, deviceId);
+
+    request.catch((error) => {
+      console.warn('[realtimeSyncService] Failed to share active session:', error);
+    });
+  };
+
+  const localSession: LocalSessionState = {
+    // Edits still waiting to publish, or published after the other device's copy was made
+    hasUnsharedEdits: (updatedAt) => publishTimer !== null || lastPublishedAt > updatedAt,
+    keepSession: () => {
+      void publishSession();
+    },
+  };
+
+  const scheduleRehydrate = (rehydrate: StoreRehydrator) => {
+    const existing = rehydrateTimers.get(rehydrate);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    rehydrateTimers.set(rehydrate, setTimeout(() => {
+      rehydrateTimers.delete(rehydrate);
+      void rehydrate(userId);
+    }, REHYDRATE_DEBOUNCE_MS));
+  };
+
+  const refreshActiveSession = async () => {
+    const [row, deviceId] = await Promise.all([fetchActiveSession(userId), deviceIdPromise]);
+    if (!isStopped) {
+      applyActiveSession(row, deviceId, localSession);
+    }
+  };
+
+  /** Catches up on changes that never arrived: missed while disconnected, or deletes dropped in transit */
+  const recheckAll = () => {
+    void useWorkoutSessionsStore.getState().hydrateWorkouts(userId);
+    [rehydrateTemplates, rehydratePrograms, rehydrateSchedules, rehydrateCustomExercises].forEach(scheduleRehydrate);
+    void refreshActiveSession();
+  };
+
+  const handleChange = (change: RealtimeChange) => {
+    if (change.table === 'workout_sessions') {
+      applyWorkoutChange(change);
+      return;
+    }
+
+    if (change.table === 'active_sessions') {
+      // Deletes aren't filtered by user; the old row's key is the user ID
+      if (change.eventType === 'DELETE' && change.oldRecord?.user_id !== userId) {
+        return;
+      }
+      void deviceIdPromise.then((deviceId) => {
+        if (!isStopped) {
+          applyActiveSession(change.record as ActiveSessionDB | null, deviceId, localSession);
+        }
+      });
+      return;
+    }
+
+    const rehydrate = REHYDRATORS[change.table];
+    if (rehydrate) {
+      scheduleRehydrate(rehydrate);
+    }
+  };
+
+  const unsubscribeRealtime = subscribeToRealtimeChanges(userId, {
+    onChange: handleChange,
+    onSubscribed: (isReconnect) => {
+      // Anything changed while the socket was down never arrived; catch up with a hydrate
+      if (isReconnect) {
+        recheckAll();
+      } else {
+        void refreshActiveSession();
+      }
+    },
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      recheckAll();
+    }
+  });
+
+  // Publish this device's session as it changes. The restored session at startup isn't
+  // published, so a stale one left on this device can't replace a newer one elsewhere.
+  const unsubscribeSession = useSessionStore.subscribe((state, previous) => {
+    if (state.currentSession === previous.currentSession || !previous._hasHydrated) {
+      return;
+    }
+
+    if (publishTimer) {
+      clearTimeout(publishTimer);
+    }
+    publishTimer = setTimeout(() => {
+      void publishSession();
+    }, ACTIVE_SESSION_PUBLISH_DEBOUNCE_MS);
+  });
+
+  return () => {
+    isStopped = true;
+    unsubscribeRealtime();
+    unsubscribeSession();
+    appStateSubscription.remove();
+    rehydrateTimers.forEach((timer) => clearTimeout(timer));
+    rehydrateTimers.clear();
+    if (publishTimer) {
+      clearTimeout(publishTimer);
+    }
+    useSessionStore.getState().setRemoteSession(null);
+  };
+};
@@ -0,0 +1,108 @@
+/**
+ * Route file service
+ * Shares outdoor sessions as GPX or TCX files and imports GPX routes as cardio workouts.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { fetchWorkoutStartTimesInRange } from '@/lib/supabaseQueries';
+import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
+import type { ParsedRoute, RouteFileFormat } from '@/types/outdoor';
+import type { Workout } from '@/types/workout';
+import { buildRouteFile, createWorkoutFromRoute, getRouteFileName, parseGpx } from '@/utils/routeFiles';
+
+const MIME_TYPES: Record<RouteFileFormat, string> = {
+  gpx: 'application/gpx+xml',
+  tcx: 'application/vnd.garmin.tcx+xml',
+};
+
+/** Neither format has a system type identifier, so both are shared as generic XML */
+const ROUTE_FILE_UTI = 'public.xml';
+
+/**
+ * Write an outdoor session's route to a file and hand it to the share sheet.
+ */
+export const exportWorkoutRoute = async (workout: Workout, format: RouteFileFormat): Promise<void> => {
+  try {
+    if (!workout.routeCoordinates || workout.routeCoordinates.length < 2) {
+      throw new Error('Workout has no recorded route');
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const file = new File(Paths.cache, getRouteFileName(workout, format));
+    if (file.exists) {
+      file.delete();
+    }
+    file.create();
+    file.write(buildRouteFile(workout, format));
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: MIME_TYPES[format],
+      UTI: ROUTE_FILE_UTI,
+      dialogTitle: 'Export Route',
+    });
+  } catch (error) {
+    console.error('[RouteFileService] Error exporting route:', error);
+    throw new Error('Failed to export this route. Please try again later.');
+  }
+};
+
+/**
+ * Let the user pick a GPX file and parse its track.
+ * @returns The parsed route, null if the user cancelled
+ * @throws When the file is not GPX or has too few timestamped points to make a workout
+ */
+export const pickGpxRoute = async (): Promise<ParsedRoute | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/gpx+xml', 'application/xml', 'text/xml', 'application/octet-stream'],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || !result.assets?.[0]) {
+    return null;
+  }
+
+  const text = await new File(result.assets[0].uri).text();
+  const route = parseGpx(text);
+
+  if (!route) {
+    throw new Error('This file is not a GPX route.');
+  }
+  if (route.coordinates.length < 2) {
+    throw new Error('This route has no timestamped track points to build a workout from.');
+  }
+
+  return route;
+};
+
+/**
+ * Saves an imported route to history as a workout of the given outdoor exercise.
+ * @throws When a workout starting at the same time is already in history
+ */
+export const importGpxRoute = async (route: ParsedRoute, exerciseName: string): Promise<Workout> => {
+  const { data: { user } } = await supabaseClient.auth.getUser();
+  if (!user) {
+    throw new Error('You need to be signed in to import routes.');
+  }
+
+  const workout = createWorkoutFromRoute(route, exerciseName);
+  const { workouts, addWorkout } = useWorkoutSessionsStore.getState();
+
+  // Local history may only hold recent pages, so the server has the final say; the local
+  // list still catches workouts that haven't synced yet
+  const serverStartTimes = await fetchWorkoutStartTimesInRange(user.id, workout.startTime, workout.startTime);
+  if (serverStartTimes.length > 0 || workouts.some((existing) => existing.startTime === workout.startTime)) {
+    throw new Error('A workout starting at the same time is already in your history.');
+  }
+
+  await addWorkout(workout);
+
+  // A successful sync swaps the optimistic ID for the server one
+  return useWorkoutSessionsStore.getState().workouts.find((existing) => existing.startTime === workout.startTime) ?? workout;
+};
@@ -0,0 +1,135 @@
+/**
+ * Workout import service
+ * Reads another app's CSV export and bulk-inserts the reviewed workouts into Supabase.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { createWorkoutSession, fetchWorkoutStartTimesInRange } from '@/lib/supabaseQueries';
+import { useCustomExerciseStore } from '@/store/customExerciseStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
+import type { Workout } from '@/types/workout';
+import type { ImportExerciseResolution, ParsedWorkoutImport } from '@/types/workoutImport';
+import { applyImportResolutions, inferImportedExerciseType } from '@/utils/importExerciseMatching';
+import { parseWorkoutImport } from '@/utils/workoutImport';
+
+export interface WorkoutImportResult {
+  imported: number;
+  /** Workouts already in history (same start time) that were not inserted again */
+  duplicates: number;
+  failed: number;
+}
+
+/**
+ * Let the user pick an export file and parse it.
+ * @returns The parsed import, null if the user cancelled
+ * @throws When the file is not a recognized Strong, Hevy or FitNotes export
+ */
+export const pickWorkoutImportFile = async (): Promise<ParsedWorkoutImport | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || !result.assets?.[0]) {
+    return null;
+  }
+
+  const text = await new File(result.assets[0].uri).text();
+  const { weightUnit, distanceUnit } = useSettingsStore.getState();
+  const parsed = parseWorkoutImport(text, { weightUnit, distanceUnit });
+
+  if (!parsed) {
+    throw new Error('This file is not a Strong, Hevy or FitNotes CSV export.');
+  }
+
+  return parsed;
+};
+
+/**
+ * Creates custom exercises for names the user chose to keep as-is and
+ * returns the final exercise name for every imported name that is not skipped.
+ */
+const resolveExerciseNames = async (
+  workouts: Workout[],
+  resolutions: Record<string, ImportExerciseResolution>,
+): Promise<Map<string, string>> => {
+  const resolvedNames = new Map<string, string>();
+  const { addCustomExercise, getCustomExerciseByName } = useCustomExerciseStore.getState();
+
+  for (const [sourceName, resolution] of Object.entries(resolutions)) {
+    if (resolution.type === 'existing') {
+      resolvedNames.set(sourceName, resolution.exerciseName);
+      continue;
+    }
+
+    if (resolution.type === 'custom') {
+      const existing = getCustomExerciseByName(sourceName);
+      const created = existing ?? await addCustomExercise({
+        name: sourceName,
+        exerciseType: inferImportedExerciseType(workouts, sourceName),
+      });
+
+      if (created) {
+        resolvedNames.set(sourceName, created.name);
+      } else {
+        console.warn('[WorkoutImportService] Could not create custom exercise, skipping:', sourceName);
+      }
+    }
+  }
+
+  return resolvedNames;
+};
+
+/**
+ * Writes imported workouts to history.
+ * Workouts whose start time already exists in history are skipped so re-importing a file is safe.
+ */
+export const importWorkouts = async (
+  workouts: Workout[],
+  resolutions: Record<string, ImportExerciseResolution>,
+  onProgress?: (completed: number, total: number) => void,
+): Promise<WorkoutImportResult> => {
+  const { data: { user } } = await supabaseClient.auth.getUser();
+  if (!user) {
+    throw new Error('You need to be signed in to import workouts.');
+  }
+
+  const resolvedNames = await resolveExerciseNames(workouts, resolutions);
+  const resolvedWorkouts = applyImportResolutions(workouts, resolvedNames);
+
+  // Local history may only hold recent pages, so check the server for the file's whole date range
+  const startTimes = resolvedWorkouts.map((workout) => workout.startTime);
+  const existingStartTimes = new Set(
+    startTimes.length > 0
+      ? await fetchWorkoutStartTimesInRange(user.id, Math.min(...startTimes), Math.max(...startTimes))
+      : [],
+  );
+  const pending = resolvedWorkouts.filter((workout) => !existingStartTimes.has(workout.startTime));
+  const result: WorkoutImportResult = {
+    imported: 0,
+    duplicates: resolvedWorkouts.length - pending.length,
+    failed: 0,
+  };
+
+  // Sequential inserts keep load on Supabase predictable for multi-year histories
+  for (let index = 0; index < pending.length; index++) {
+    try {
+      await createWorkoutSession(user.id, pending[index]);
+      result.imported++;
+    } catch (error) {
+      console.error('[WorkoutImportService] Failed to insert workout:', error);
+      result.failed++;
+    }
+    onProgress?.(index + 1, pending.length);
+  }
+
+  if (result.imported > 0) {
+    await useWorkoutSessionsStore.getState().hydrateWorkouts(user.id);
+  }
+
+  return result;
+};
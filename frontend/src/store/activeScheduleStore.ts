@@ -51,6 +51,9 @@ interface ActiveScheduleStore {
   /** Get schedule summary for display */
   getScheduleSummary: () => ScheduleSummary;
 
+  /** Week (1-based) the plan is in on the given date, or null when it isn't driving the schedule */
+  getPlanWeek: (planId: string, date?: Date) => number | null;
+
   /** Advance plan-driven schedule to next workout */
   advancePlanDriven: () => Promise<void>;
 
@@ -272,6 +275,14 @@ export const useActiveScheduleStore = create<ActiveScheduleStore>((set, get) =>
     }
   },
 
+  getPlanWeek: (planId: string, date: Date = new Date()) => {
+    const { activeRule } = get().state;
+    if (!activeRule || activeRule.type !== 'plan-driven' || activeRule.planId !== planId) {
+      return null;
+    }
+    return computePlanWeek(activeRule, date);
+  },
+
   advancePlanDriven: async () => {
     const { activeRule } = get().state;
     if (!activeRule || activeRule.type !== 'plan-driven') return;
@@ -431,6 +442,13 @@ function computeRotatingWorkout(rule: RotatingScheduleRule, date: Date): TodayWo
   };
 }
 
+/** Pure function: week of a plan-driven schedule on a date (1-based), or null before it starts */
+export function computePlanWeek(rule: PlanDrivenScheduleRule, date: Date): number | null {
+  const daysDiff = getDaysDiff(new Date(rule.startDate), date);
+  if (daysDiff < 0) return null;
+  return Math.floor(daysDiff / 7) + 1;
+}
+
 /** Compute workout for plan-driven schedule (works like rotating cycle) */
 function computePlanDrivenWorkout(rule: PlanDrivenScheduleRule, date: Date): TodayWorkoutResult {
   const startDate = new Date(rule.startDate);
@@ -460,12 +478,14 @@ function computePlanDrivenWorkout(rule: PlanDrivenScheduleRule, date: Date): Tod
 
   const cycleDay = daysDiff % cycleLength;
   const workoutId = cycleWorkouts[cycleDay] ?? null;
+  const planWeek = Math.floor(daysDiff / 7) + 1;
 
   return {
     workoutId,
     source: 'rule',
-    label: `Day ${cycleDay + 1} of ${cycleLength}`,
+    label: `Week ${planWeek}, Day ${cycleDay + 1} of ${cycleLength}`,
     context: workoutId ? 'Plan-driven schedule' : 'Rest day',
+    planWeek,
   };
 }
 
@@ -0,0 +1,131 @@
+/**
+ * bodyMetricsStore
+ * Zustand store managing the dated body-metrics log (weight, body-fat %, circumferences).
+ *
+ * Entries:
+ * - Are keyed by local calendar day; logging a day again merges into that day's entry
+ * - Store weight in lbs and circumferences in inches
+ * - Supply the bodyweight in effect on each workout's date for volume calculations
+ *
+ * Storage: Supabase (body_metrics table)
+ */
+
+import { create } from 'zustand';
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import {
+  fetchBodyMetrics,
+  upsertBodyMetric,
+  deleteBodyMetric,
+} from '@/lib/supabaseQueries';
+import type { BodyMeasurements, BodyMetricEntry, BodyMetricEntryInput } from '@/types/bodyMetrics';
+
+export interface BodyMetricsState {
+  /** Entries sorted by date, oldest first */
+  entries: BodyMetricEntry[];
+  isLoading: boolean;
+  /** Create or update the entry for input.date; omitted fields keep that day's existing values */
+  logEntry: (input: BodyMetricEntryInput) => Promise<BodyMetricEntry | null>;
+  removeEntry: (id: string) => Promise<void>;
+  hydrateBodyMetrics: (userId?: string) => Promise<void>;
+}
+
+const sortByDate = (entries: BodyMetricEntry[]): BodyMetricEntry[] => {
+  return [...entries].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const useBodyMetricsStore = create<BodyMetricsState>((set, get) => ({
+  entries: [],
+  isLoading: false,
+
+  logEntry: async (input) => {
+    const existing = get().entries.find((entry) => entry.date === input.date);
+    const measurements: BodyMeasurements = input.measurements ?? existing?.measurements ?? {};
+    const merged = {
+      date: input.date,
+      weightLbs: input.weightLbs !== undefined ? input.weightLbs : existing?.weightLbs ?? null,
+      bodyFatPercent: input.bodyFatPercent !== undefined ? input.bodyFatPercent : existing?.bodyFatPercent ?? null,
+      measurements,
+    };
+
+    try {
+      const { data: { user } } = await supabaseClient.auth.getUser();
+      if (!user) {
+        console.error('[bodyMetricsStore] No authenticated user');
+        return null;
+      }
+
+      const id = await upsertBodyMetric(user.id, merged);
+
+      const entry: BodyMetricEntry = {
+        ...merged,
+        id,
+        createdAt: existing?.createdAt ?? Date.now(),
+      };
+
+      set((state) => ({
+        entries: sortByDate([...state.entries.filter((e) => e.date !== entry.date), entry]),
+      }));
+
+      return entry;
+    } catch (error) {
+      console.error('[bodyMetricsStore] Failed to log body metrics', error);
+      await get().hydrateBodyMetrics();
+      return null;
+    }
+  },
+
+  removeEntry: async (id) => {
+    try {
+      const { data: { user } } = await supabaseClient.auth.getUser();
+      if (!user) {
+        console.error('[bodyMetricsStore] No authenticated user');
+        return;
+      }
+
+      set((state) => ({
+        entries: state.entries.filter((e) => e.id !== id),
+      }));
+
+      await deleteBodyMetric(user.id, id);
+    } catch (error) {
+      console.error('[bodyMetricsStore] Failed to delete body metric entry', error);
+      await get().hydrateBodyMetrics();
+    }
+  },
+
+  hydrateBodyMetrics: async (userId?: string) => {
+    try {
+      set({ isLoading: true });
+
+      let uid = userId;
+      if (!uid) {
+        const { data: { user } } = await supabaseClient.auth.getUser();
+        uid = user?.id;
+      }
+
+      if (!uid) {
+        console.log('[bodyMetricsStore] No authenticated user, skipping hydration');
+        set({ entries: [], isLoading: false });
+        return;
+      }
+
+      const rows = await fetchBodyMetrics(uid);
+
+      const entries: BodyMetricEntry[] = rows.map((row) => ({
+        id: row.id,
+        date: row.entry_date,
+        weightLbs: row.weight_lbs,
+        bodyFatPercent: row.body_fat_percent,
+        measurements: row.measurements as BodyMeasurements,
+        createdAt: new Date(row.created_at).getTime(),
+      }));
+
+      set({ entries: sortByDate(entries), isLoading: false });
+      console.log('[bodyMetricsStore] Hydrated', entries.length, 'body metric entries');
+    } catch {
+      console.warn('[bodyMetricsStore] Hydration failed, using empty state');
+      set({ entries: [], isLoading: false });
+    }
+  },
+}));
@@ -9,18 +9,17 @@
  * - Do NOT contribute to analytics/statistics
  * - Are user-specific
  * 
- * Storage: Supabase (custom_exercises table)
+ * Storage: Supabase (custom_exercises table), written through the sync queue
  */
 
 import { create } from 'zustand';
 
 import { supabaseClient } from '@/lib/supabaseClient';
-import {
-  fetchCustomExercises,
-  createCustomExercise,
-  deleteCustomExercise,
-} from '@/lib/supabaseQueries';
+import { fetchCustomExercises } from '@/lib/supabaseQueries';
+import { createLocalId, getSessionUserId, replaceIds } from '@/lib/syncQueue';
+import { mergeWithPendingMutations, subscribeToSync, useSyncQueueStore } from '@/store/syncQueueStore';
 import type { ExerciseType } from '@/types/exercise';
+import type { SyncMutationKind } from '@/types/syncQueue';
 import { exercises as baseExerciseCatalog } from '@/constants/exercises';
 
 export interface CustomExercise {
@@ -41,6 +40,8 @@ export interface CustomExerciseState {
   getCustomExerciseByName: (name: string) => CustomExercise | undefined;
 }
 
+const CUSTOM_EXERCISE_SYNC_KINDS: SyncMutationKind[] = ['createCustomExercise', 'deleteCustomExercise'];
+
 export const useCustomExerciseStore = create<CustomExerciseState>((set, get) => ({
   customExercises: [],
   isLoading: false,
@@ -62,59 +63,54 @@ export const useCustomExerciseStore = create<CustomExerciseState>((set, get) =>
       return null;
     }
 
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
-        console.error('[customExerciseStore] No authenticated user');
-        return null;
-      }
-
-      const newId = await createCustomExercise(user.id, {
-        name: trimmedName,
-        exerciseType,
-        supportsGpsTracking,
-      });
-
-      const customExercise: CustomExercise = {
-        id: newId,
-        name: trimmedName,
-        exerciseType,
-        supportsGpsTracking,
-        isCustom: true,
-        createdAt: Date.now(),
-      };
-
-      set((state) => ({
-        customExercises: [customExercise, ...state.customExercises],
-      }));
-
-      console.log('[customExerciseStore] Custom exercise added with ID:', newId);
-      return customExercise;
-    } catch (error) {
-      console.error('[customExerciseStore] Failed to add custom exercise', error);
-      await get().hydrateCustomExercises();
+    const userId = await getSessionUserId();
+    if (!userId) {
+      console.error('[customExerciseStore] No authenticated user');
       return null;
     }
+
+    // Local ID until Supabase assigns one
+    const customExercise: CustomExercise = {
+      id: createLocalId(),
+      name: trimmedName,
+      exerciseType,
+      supportsGpsTracking,
+      isCustom: true,
+      createdAt: Date.now(),
+    };
+
+    set((state) => ({
+      customExercises: [customExercise, ...state.customExercises],
+    }));
+
+    useSyncQueueStore.getState().enqueue({
+      kind: 'createCustomExercise',
+      entityId: customExercise.id,
+      userId,
+      args: [{ name: trimmedName, exerciseType, supportsGpsTracking }],
+    });
+
+    console.log('[customExerciseStore] Custom exercise added, queued for sync:', customExercise.id);
+    return customExercise;
   },
 
   removeCustomExercise: async (id) => {
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
-        console.error('[customExerciseStore] No authenticated user');
-        return;
-      }
+    const userId = await getSessionUserId();
+    if (!userId) {
+      console.error('[customExerciseStore] No authenticated user');
+      return;
+    }
 
-      set((state) => ({
-        customExercises: state.customExercises.filter((e) => e.id !== id),
-      }));
+    set((state) => ({
+      customExercises: state.customExercises.filter((e) => e.id !== id),
+    }));
 
-      await deleteCustomExercise(user.id, id);
-      console.log('[customExerciseStore] Custom exercise deleted');
-    } catch (error) {
-      console.error('[customExerciseStore] Failed to delete custom exercise', error);
-      await get().hydrateCustomExercises();
-    }
+    useSyncQueueStore.getState().enqueue({
+      kind: 'deleteCustomExercise',
+      entityId: id,
+      userId,
+      args: [id],
+    });
   },
 
   hydrateCustomExercises: async (userId?: string) => {
@@ -144,7 +140,10 @@ export const useCustomExerciseStore = create<CustomExerciseState>((set, get) =>
         createdAt: new Date(item.created_at).getTime(),
       }));
 
-      set({ customExercises: normalizedExercises, isLoading: false });
+      set({
+        customExercises: mergeWithPendingMutations(normalizedExercises, get().customExercises, CUSTOM_EXERCISE_SYNC_KINDS),
+        isLoading: false,
+      });
       console.log('[customExerciseStore] Hydrated', normalizedExercises.length, 'custom exercises');
     } catch (error) {
       console.warn('[customExerciseStore] Hydration failed, using empty state');
@@ -158,3 +157,13 @@ export const useCustomExerciseStore = create<CustomExerciseState>((set, get) =>
     );
   },
 }));
+
+subscribeToSync({
+  kinds: CUSTOM_EXERCISE_SYNC_KINDS,
+  onIdsRemapped: (idMap) => {
+    useCustomExerciseStore.setState((state) => ({ customExercises: replaceIds(state.customExercises, idMap) }));
+  },
+  onConflict: () => {
+    void useCustomExerciseStore.getState().hydrateCustomExercises();
+  },
+});
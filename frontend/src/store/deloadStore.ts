@@ -0,0 +1,69 @@
+/**
+ * deloadStore
+ * Zustand store holding the deload weeks the user has accepted, with AsyncStorage persistence.
+ *
+ * Deload weeks:
+ * - Are keyed by the YYYY-MM-DD date of their Monday
+ * - Come from the fatigue model's recommendation, which the user accepts or dismisses
+ * - Lighten smart suggestions for every session logged during them
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+import { getWeekStartKey } from '@/utils/chartUtils';
+
+interface DeloadState {
+  /** Mondays of accepted deload weeks, oldest first */
+  deloadWeeks: string[];
+  /** Monday of the last recommendation the user dismissed, so it isn't offered again */
+  dismissedWeekStart: string | null;
+  acceptDeload: (weekStart: string) => void;
+  cancelDeload: (weekStart: string) => void;
+  dismissRecommendation: (weekStart: string) => void;
+  /** Whether the given time falls inside an accepted deload week */
+  isDeloadWeek: (timestamp: number) => boolean;
+}
+
+export const useDeloadStore = create<DeloadState>()(
+  persist(
+    (set, get) => ({
+      deloadWeeks: [],
+      dismissedWeekStart: null,
+
+      acceptDeload: (weekStart) => {
+        set((state) => ({
+          deloadWeeks: state.deloadWeeks.includes(weekStart)
+            ? state.deloadWeeks
+            : [...state.deloadWeeks, weekStart].sort(),
+        }));
+      },
+
+      cancelDeload: (weekStart) => {
+        set((state) => ({
+          deloadWeeks: state.deloadWeeks.filter((week) => week !== weekStart),
+          // Cancelling counts as a dismissal, otherwise the card would offer it straight back
+          dismissedWeekStart: weekStart,
+        }));
+      },
+
+      dismissRecommendation: (weekStart) => {
+        set({ dismissedWeekStart: weekStart });
+      },
+
+      isDeloadWeek: (timestamp) => {
+        const { deloadWeeks } = get();
+        return deloadWeeks.length > 0 && deloadWeeks.includes(getWeekStartKey(new Date(timestamp)));
+      },
+    }),
+    {
+      name: 'hercules-deload',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        deloadWeeks: state.deloadWeeks,
+        dismissedWeekStart: state.dismissedWeekStart,
+      }),
+    }
+  )
+);
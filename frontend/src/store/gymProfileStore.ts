@@ -0,0 +1,95 @@
+/**
+ * gymProfileStore
+ * Zustand store for the user's gym profiles with AsyncStorage persistence.
+ *
+ * Gym profiles:
+ * - Describe where the user trains: equipment on hand, dumbbell jumps, machine stack steps and plates
+ * - One profile is active at a time; weight suggestions, exercise search and Hercules AI follow it
+ * - There is always at least one profile
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+import type { GymProfile } from '@/types/gymProfile';
+import { DEFAULT_GYM_PROFILES, DEFAULT_GYM_PROFILE_ID, createGymProfile } from '@/utils/gymProfiles';
+
+interface GymProfileState {
+  profiles: GymProfile[];
+  activeProfileId: string;
+  /** Adds a profile copying the active profile's setup and makes it active. Returns its ID. */
+  addProfile: (name: string) => string;
+  updateProfile: (id: string, updates: Partial<Omit<GymProfile, 'id'>>) => void;
+  /** Removes a profile unless it is the last one; removing the active profile activates the first remaining */
+  removeProfile: (id: string) => void;
+  setActiveProfile: (id: string) => void;
+  getActiveProfile: () => GymProfile;
+}
+
+const generateId = (): string => {
+  return `gym_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+};
+
+export const useGymProfileStore = create<GymProfileState>()(
+  persist(
+    (set, get) => ({
+      profiles: DEFAULT_GYM_PROFILES,
+      activeProfileId: DEFAULT_GYM_PROFILE_ID,
+
+      addProfile: (name) => {
+        const active = get().getActiveProfile();
+        const profile: GymProfile = {
+          ...createGymProfile(generateId(), name.trim() || 'New Gym', active.equipment),
+          dumbbellIncrements: { ...active.dumbbellIncrements },
+          machineIncrements: { ...active.machineIncrements },
+        };
+
+        set((state) => ({
+          profiles: [...state.profiles, profile],
+          activeProfileId: profile.id,
+        }));
+        return profile.id;
+      },
+
+      updateProfile: (id, updates) => {
+        set((state) => ({
+          profiles: state.profiles.map((profile) => (profile.id === id ? { ...profile, ...updates, id } : profile)),
+        }));
+      },
+
+      removeProfile: (id) => {
+        set((state) => {
+          if (state.profiles.length <= 1) {
+            return state;
+          }
+
+          const profiles = state.profiles.filter((profile) => profile.id !== id);
+          return {
+            profiles,
+            activeProfileId: state.activeProfileId === id ? profiles[0].id : state.activeProfileId,
+          };
+        });
+      },
+
+      setActiveProfile: (id) => {
+        if (get().profiles.some((profile) => profile.id === id)) {
+          set({ activeProfileId: id });
+        }
+      },
+
+      getActiveProfile: () => {
+        const { profiles, activeProfileId } = get();
+        return profiles.find((profile) => profile.id === activeProfileId) ?? profiles[0] ?? DEFAULT_GYM_PROFILES[0];
+      },
+    }),
+    {
+      name: 'hercules-gym-profiles',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        profiles: state.profiles,
+        activeProfileId: state.activeProfileId,
+      }),
+    }
+  )
+);
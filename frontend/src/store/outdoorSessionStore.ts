@@ -1,14 +1,21 @@
 /**
  * outdoorSessionStore
  * Manages the in-progress outdoor exercise session with AsyncStorage persistence.
- * Tracks GPS coordinates, distance, elapsed time, and pace.
+ * Tracks GPS coordinates, distance, elapsed time, pace, splits and laps.
+ * Incoming fixes are smoothed and checked for jumps, and the session auto-pauses while the user is stopped.
+ * Split, goal and pace cues are checked on every fix and timer tick, so they keep coming in the background.
  */
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-import type { GpsCoordinate, OutdoorSessionStatus } from '@/types/outdoor';
+import type { GpsCoordinate, OutdoorSessionStatus, OutdoorSplits, OutdoorTarget, SplitMark, SplitUnit } from '@/types/outdoor';
 import { haversineDistance, calculatePace, isRealisticMovement } from '@/utils/geo';
+import { buildSplitsFromMarks, getCrossedSplitMarks, getMovingSeconds } from '@/utils/outdoorSplits';
+import { applyGpsFix, getAutoPauseStart, settleGpsFilter, shouldAutoResume } from '@/utils/gpsFilter';
+import type { GpsFilterState } from '@/utils/gpsFilter';
+import { getDueOutdoorCues, INITIAL_CUE_STATE } from '@/utils/outdoorCues';
+import type { OutdoorCue, OutdoorCueState } from '@/utils/outdoorCues';
 
 interface OutdoorSessionState {
   exerciseName: string | null;
@@ -20,12 +27,33 @@ interface OutdoorSessionState {
   coordinates: GpsCoordinate[];
   pausedDurationMs: number;
   pauseStartTime: number | null;
+  splitUnit: SplitUnit;
+  splitMarks: SplitMark[];
+  lapMarks: SplitMark[];
+  autoPauseEnabled: boolean;
+  /** Paused because the user stopped moving; GPS keeps running to detect the restart */
+  isAutoPaused: boolean;
+  gpsFilter: GpsFilterState | null;
+  /** Moving fixes seen while auto-paused, recorded once the speed confirms the user set off again */
+  resumeFixes: GpsCoordinate[];
+  target: OutdoorTarget | null;
+  cueState: OutdoorCueState;
+  /** Latest cue, with when it was announced; outdoorTrackingService delivers each one */
+  latestCue: (OutdoorCue & { at: number }) | null;
 
   startSession: (exerciseName: string) => void;
-  beginTracking: () => void;
+  /** Sets or clears (null) the pace range or distance/time goal; only before tracking starts */
+  setTarget: (target: OutdoorTarget | null) => void;
+  /** Starts the clock; automatic splits are taken every mile or km per splitUnit */
+  beginTracking: (splitUnit: SplitUnit, autoPauseEnabled: boolean) => void;
   pauseSession: () => void;
   resumeSession: () => void;
+  /** Smooths a raw GPS fix, drops impossible jumps and auto-pauses/resumes before recording it */
   addCoordinate: (coord: GpsCoordinate) => void;
+  /** Auto-pauses if the user has been stopped long enough; called on every timer tick */
+  checkAutoPause: (now: number) => void;
+  /** Ends the current lap at the current distance and moving time */
+  markLap: () => void;
   updateElapsed: (seconds: number) => void;
   endSession: () => OutdoorSessionResult | null;
   clearSession: () => void;
@@ -42,6 +70,7 @@ export interface OutdoorSessionResult {
   distanceMiles: number;
   paceSecondsPerMile: number | null;
   coordinates: GpsCoordinate[];
+  splits: OutdoorSplits;
 }
 
 const INITIAL_STATE = {
@@ -54,8 +83,98 @@ const INITIAL_STATE = {
   coordinates: [] as GpsCoordinate[],
   pausedDurationMs: 0,
   pauseStartTime: null,
+  splitUnit: 'mi' as SplitUnit,
+  splitMarks: [] as SplitMark[],
+  lapMarks: [] as SplitMark[],
+  autoPauseEnabled: false,
+  isAutoPaused: false,
+  gpsFilter: null as GpsFilterState | null,
+  resumeFixes: [] as GpsCoordinate[],
+  target: null as OutdoorTarget | null,
+  cueState: INITIAL_CUE_STATE,
+  latestCue: null as (OutdoorCue & { at: number }) | null,
 };
 
+type RouteState = Pick<
+  OutdoorSessionState,
+  'coordinates' | 'distanceMiles' | 'paceSecondsPerMile' | 'elapsedSeconds' | 'startTime' | 'pausedDurationMs' | 'splitUnit' | 'splitMarks'
+>;
+
+/**
+ * Adds a smoothed point to the route, along with the distance, pace and split ends it brings.
+ * The route is unchanged when the point is no realistic movement from the previous one.
+ */
+const appendRoutePoint = (route: RouteState, coord: GpsCoordinate): RouteState => {
+  const { coordinates, distanceMiles, elapsedSeconds, startTime, pausedDurationMs, splitUnit, splitMarks } = route;
+  const prevCoord = coordinates.length > 0 ? coordinates[coordinates.length - 1] : null;
+
+  // Filter unrealistic movement
+  if (prevCoord && !isRealisticMovement(prevCoord, coord)) {
+    return route;
+  }
+
+  let newDistance = distanceMiles;
+  if (prevCoord) {
+    newDistance += haversineDistance(prevCoord, coord);
+  }
+
+  const newPace = calculatePace(newDistance, elapsedSeconds);
+
+  // Record any split end passed since the previous point
+  let newSplitMarks = splitMarks;
+  if (prevCoord && startTime) {
+    const lastMarkSeconds = splitMarks.length > 0 ? splitMarks[splitMarks.length - 1].elapsedSeconds : 0;
+    const nextSeconds = getMovingSeconds(coord.timestamp, startTime, pausedDurationMs);
+    // A pause since the previous point would push its moving time below the last mark
+    const prevSeconds = Math.min(
+      Math.max(getMovingSeconds(prevCoord.timestamp, startTime, pausedDurationMs), lastMarkSeconds),
+      nextSeconds,
+    );
+    const crossed = getCrossedSplitMarks(
+      { distanceMiles, elapsedSeconds: prevSeconds },
+      { distanceMiles: newDistance, elapsedSeconds: nextSeconds },
+      splitUnit,
+    );
+    if (crossed.length > 0) {
+      newSplitMarks = [...splitMarks, ...crossed];
+    }
+  }
+
+  return {
+    ...route,
+    coordinates: [...coordinates, coord],
+    distanceMiles: newDistance,
+    paceSecondsPerMile: newPace,
+    splitMarks: newSplitMarks,
+  };
+};
+
+/**
+ * Announces the cues due at a moment of the session, one at a time so every subscriber sees each.
+ */
+const announceDueCues = (
+  state: OutdoorSessionState,
+  set: (partial: Partial<OutdoorSessionState>) => void,
+  elapsedSeconds: number,
+  now: number,
+) => {
+  const { cues, cueState } = getDueOutdoorCues({ ...state, elapsedSeconds }, state.cueState, now);
+  set({ cueState });
+  cues.forEach((cue) => set({ latestCue: { ...cue, at: Date.now() } }));
+};
+
+/** Route fields of the session, for appendRoutePoint */
+const getRouteState = (state: OutdoorSessionState): RouteState => ({
+  coordinates: state.coordinates,
+  distanceMiles: state.distanceMiles,
+  paceSecondsPerMile: state.paceSecondsPerMile,
+  elapsedSeconds: state.elapsedSeconds,
+  startTime: state.startTime,
+  pausedDurationMs: state.pausedDurationMs,
+  splitUnit: state.splitUnit,
+  splitMarks: state.splitMarks,
+});
+
 export const useOutdoorSessionStore = create<OutdoorSessionState>()(
   persist(
     (set, get) => ({
@@ -74,7 +193,14 @@ export const useOutdoorSessionStore = create<OutdoorSessionState>()(
         });
       },
 
-      beginTracking: () => {
+      setTarget: (target: OutdoorTarget | null) => {
+        const { status } = get();
+        if (status !== 'idle') return;
+
+        set({ target });
+      },
+
+      beginTracking: (splitUnit: SplitUnit, autoPauseEnabled: boolean) => {
         const { status } = get();
         if (status !== 'idle') return;
 
@@ -86,6 +212,15 @@ export const useOutdoorSessionStore = create<OutdoorSessionState>()(
           coordinates: [],
           pausedDurationMs: 0,
           pauseStartTime: null,
+          splitUnit,
+          splitMarks: [],
+          lapMarks: [],
+          autoPauseEnabled,
+          isAutoPaused: false,
+          gpsFilter: null,
+          resumeFixes: [],
+          cueState: INITIAL_CUE_STATE,
+          latestCue: null,
         });
       },
 
@@ -96,6 +231,7 @@ export const useOutdoorSessionStore = create<OutdoorSessionState>()(
         set({
           status: 'paused',
           pauseStartTime: Date.now(),
+          isAutoPaused: false,
         });
       },
 
@@ -109,34 +245,89 @@ export const useOutdoorSessionStore = create<OutdoorSessionState>()(
           status: 'active',
           pausedDurationMs: pausedDurationMs + additionalPause,
           pauseStartTime: null,
+          isAutoPaused: false,
+          // GPS was off during a manual pause; start the filter over from the next fix
+          gpsFilter: null,
+          resumeFixes: [],
         });
       },
 
-      addCoordinate: (coord: GpsCoordinate) => {
-        const { status, coordinates, distanceMiles, elapsedSeconds } = get();
-        if (status !== 'active') return;
-
-        const prevCoord = coordinates.length > 0 ? coordinates[coordinates.length - 1] : null;
-
-        // Filter unrealistic movement
-        if (prevCoord && !isRealisticMovement(prevCoord, coord)) {
+      addCoordinate: (fix: GpsCoordinate) => {
+        const { status, isAutoPaused, autoPauseEnabled, gpsFilter, pauseStartTime, pausedDurationMs, resumeFixes } = get();
+        if (status !== 'active' && !(status === 'paused' && isAutoPaused)) return;
+
+        const { state: filter, point: coord } = applyGpsFix(gpsFilter, fix);
+        set({ gpsFilter: filter });
+        if (!coord) return;
+
+        if (status === 'paused') {
+          // The speed ramps up from zero after a pause, so hold on to the fixes since the user set off
+          const movingFixes = filter.slowSince === null ? [...resumeFixes, coord] : [];
+          if (!shouldAutoResume(filter)) {
+            set({ resumeFixes: movingFixes });
+            return;
+          }
+
+          // The pause ends at the first moving fix, and the route picks up from the last point before it
+          const [firstMoving] = movingFixes;
+          set({
+            status: 'active',
+            pausedDurationMs: pausedDurationMs + Math.max(firstMoving.timestamp - (pauseStartTime ?? firstMoving.timestamp), 0),
+            pauseStartTime: null,
+            isAutoPaused: false,
+            resumeFixes: [],
+          });
+          set(movingFixes.reduce(appendRoutePoint, getRouteState(get())));
+        } else if (autoPauseEnabled && getAutoPauseStart(filter, coord.timestamp) !== null) {
+          get().checkAutoPause(coord.timestamp);
           return;
+        } else {
+          set(appendRoutePoint(getRouteState(get()), coord));
         }
 
-        let newDistance = distanceMiles;
-        if (prevCoord) {
-          newDistance += haversineDistance(prevCoord, coord);
+        // The timer doesn't tick while the app is in the background, so time is taken from the fix
+        const session = get();
+        if (session.startTime) {
+          const elapsedSeconds = Math.floor(getMovingSeconds(coord.timestamp, session.startTime, session.pausedDurationMs));
+          announceDueCues(session, set, elapsedSeconds, coord.timestamp);
         }
+      },
+
+      checkAutoPause: (now: number) => {
+        const { status, autoPauseEnabled, gpsFilter, startTime, pausedDurationMs } = get();
+        if (status !== 'active' || !autoPauseEnabled || !gpsFilter || !startTime) return;
+
+        const stoppedSince = getAutoPauseStart(gpsFilter, now);
+        if (stoppedSince === null) return;
 
-        const newPace = calculatePace(newDistance, elapsedSeconds);
+        // The pause counts from when the user stopped, so standing still adds no time
+        const pauseStartTime = Math.max(stoppedSince, startTime);
 
         set({
-          coordinates: [...coordinates, coord],
-          distanceMiles: newDistance,
-          paceSecondsPerMile: newPace,
+          status: 'paused',
+          pauseStartTime,
+          isAutoPaused: true,
+          gpsFilter: settleGpsFilter(gpsFilter),
+          resumeFixes: [],
+          elapsedSeconds: Math.floor(getMovingSeconds(pauseStartTime, startTime, pausedDurationMs)),
         });
       },
 
+      markLap: () => {
+        const { status, startTime, pausedDurationMs, pauseStartTime, distanceMiles, lapMarks } = get();
+        if ((status !== 'active' && status !== 'paused') || !startTime) return;
+
+        const now = Date.now();
+        const currentPauseMs = status === 'paused' && pauseStartTime ? now - pauseStartTime : 0;
+        const elapsed = getMovingSeconds(now, startTime, pausedDurationMs + currentPauseMs);
+        const previous = lapMarks.length > 0 ? lapMarks[lapMarks.length - 1] : null;
+
+        // Ignore double taps
+        if (previous && elapsed - previous.elapsedSeconds < 1) return;
+
+        set({ lapMarks: [...lapMarks, { distanceMiles, elapsedSeconds: elapsed }] });
+      },
+
       updateElapsed: (seconds: number) => {
         const { distanceMiles } = get();
         const newPace = calculatePace(distanceMiles, seconds);
@@ -145,10 +336,11 @@ export const useOutdoorSessionStore = create<OutdoorSessionState>()(
           elapsedSeconds: seconds,
           paceSecondsPerMile: newPace,
         });
+        announceDueCues(get(), set, seconds, Date.now());
       },
 
       endSession: () => {
-        const { exerciseName, startTime, elapsedSeconds, distanceMiles, paceSecondsPerMile, coordinates, status, pauseStartTime, pausedDurationMs } = get();
+        const { exerciseName, startTime, elapsedSeconds, distanceMiles, paceSecondsPerMile, coordinates, status, pauseStartTime, pausedDurationMs, splitUnit, splitMarks, lapMarks } = get();
 
         if (!exerciseName || !startTime) return null;
 
@@ -161,6 +353,7 @@ export const useOutdoorSessionStore = create<OutdoorSessionState>()(
         const endTime = Date.now();
         const totalMs = endTime - startTime - finalPausedMs;
         const durationSeconds = Math.max(Math.floor(totalMs / 1000), elapsedSeconds);
+        const end: SplitMark = { distanceMiles, elapsedSeconds: durationSeconds };
 
         const result: OutdoorSessionResult = {
           exerciseName,
@@ -170,6 +363,11 @@ export const useOutdoorSessionStore = create<OutdoorSessionState>()(
           distanceMiles,
           paceSecondsPerMile,
           coordinates,
+          splits: {
+            unit: splitUnit,
+            splits: buildSplitsFromMarks(splitMarks, end),
+            laps: lapMarks.length > 0 ? buildSplitsFromMarks(lapMarks, end) : [],
+          },
         };
 
         set({ ...INITIAL_STATE });
@@ -194,6 +392,15 @@ export const useOutdoorSessionStore = create<OutdoorSessionState>()(
         coordinates: state.coordinates,
         pausedDurationMs: state.pausedDurationMs,
         pauseStartTime: state.pauseStartTime,
+        splitUnit: state.splitUnit,
+        splitMarks: state.splitMarks,
+        lapMarks: state.lapMarks,
+        autoPauseEnabled: state.autoPauseEnabled,
+        isAutoPaused: state.isAutoPaused,
+        gpsFilter: state.gpsFilter,
+        resumeFixes: state.resumeFixes,
+        target: state.target,
+        cueState: state.cueState,
       }),
       onRehydrateStorage: () => (state) => {
         state?.setHasHydrated(true);
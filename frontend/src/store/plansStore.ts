@@ -10,21 +10,22 @@
  * Note: The "Plan" type here is actually a Workout Template. This naming is legacy.
  * Use the Workout type alias for new code.
  * 
- * Storage: Supabase (workout_templates table)
+ * Storage: Supabase (workout_templates table), written through the sync queue
  */
 import { create } from 'zustand';
 
 import { exercises, type Exercise } from '@/constants/exercises';
 import { canAddWorkout, getTotalUniqueWorkoutCount } from '@/utils/premiumLimits';
+import { normalizeExerciseGroups, pickExerciseGrouping } from '@/utils/exerciseGroups';
+import { pickExerciseTargets } from '@/utils/exerciseTargets';
 import { useProgramsStore } from '@/store/programsStore';
 import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
+import { mergeWithPendingMutations, subscribeToSync, useSyncQueueStore } from '@/store/syncQueueStore';
 import { supabaseClient } from '@/lib/supabaseClient';
-import {
-  fetchWorkoutTemplates,
-  createWorkoutTemplate,
-  updateWorkoutTemplate,
-  deleteWorkoutTemplate,
-} from '@/lib/supabaseQueries';
+import { fetchWorkoutTemplates } from '@/lib/supabaseQueries';
+import { createLocalId, getSessionUserId, replaceIds } from '@/lib/syncQueue';
+import type { TemplateExercise } from '@/types/plan';
+import type { SyncMutationKind } from '@/types/syncQueue';
 
 /**
  * A Workout is a collection of exercises (e.g., "Push Day")
@@ -33,7 +34,7 @@ import {
 export interface Plan {
   id: string;
   name: string;
-  exercises: Exercise[];
+  exercises: TemplateExercise[];
   createdAt: number;
   source?: 'premade' | 'custom' | 'library' | 'recommended'; // Track workout source
 }
@@ -45,23 +46,33 @@ export type Workout = Plan;
 export interface PlansState {
   plans: Plan[];
   isLoading: boolean;
-  addPlan: (input: { id?: string; name: string; exercises: Exercise[]; createdAt?: number; source?: 'premade' | 'custom' | 'library' | 'recommended' }) => Promise<void>;
+  addPlan: (input: { id?: string; name: string; exercises: TemplateExercise[]; createdAt?: number; source?: 'premade' | 'custom' | 'library' | 'recommended' }) => Promise<void>;
   updatePlan: (plan: Plan) => Promise<void>;
   removePlan: (id: string) => Promise<void>;
   hydratePlans: (userId?: string) => Promise<void>;
 }
 
+const TEMPLATE_SYNC_KINDS: SyncMutationKind[] = ['createWorkoutTemplate', 'updateWorkoutTemplate', 'deleteWorkoutTemplate'];
+
+const toTemplateExercises = (exerciseList: TemplateExercise[]) => exerciseList.map(e => ({
+  id: e.id,
+  name: e.name,
+  sets: e.targets?.sets.length ?? 3,
+  ...pickExerciseGrouping(e),
+  ...pickExerciseTargets(e),
+}));
+
 export const usePlansStore = create<PlansState>((set, get) => ({
   plans: [],
   isLoading: false,
 
-  addPlan: async ({ id, name, exercises: exerciseList, source }: { id?: string; name: string; exercises: Exercise[]; source?: 'premade' | 'custom' | 'library' | 'recommended' }) => {
+  addPlan: async ({ id, name, exercises: exerciseList, source }: { id?: string; name: string; exercises: TemplateExercise[]; source?: 'premade' | 'custom' | 'library' | 'recommended' }) => {
     const trimmedName = name.trim();
     if (!trimmedName) return;
 
     try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
+      const userId = await getSessionUserId();
+      if (!userId) {
         console.error('[plansStore] No authenticated user');
         return;
       }
@@ -87,22 +98,9 @@ export const usePlansStore = create<PlansState>((set, get) => ({
         }
       }
 
-      // Create in Supabase
-      const templateExercises = exerciseList.map(e => ({
-        id: e.id,
-        name: e.name,
-        sets: 3,
-      }));
-
-      const newId = await createWorkoutTemplate(user.id, {
-        name: trimmedName,
-        exercises: templateExercises,
-        source: source || 'custom',
-      });
-
-      // Update local state
+      // Update local state under a local ID until Supabase assigns one
       const plan: Plan = {
-        id: newId,
+        id: createLocalId(),
         name: trimmedName,
         exercises: [...exerciseList],
         createdAt: Date.now(),
@@ -113,7 +111,18 @@ export const usePlansStore = create<PlansState>((set, get) => ({
         plans: [plan, ...state.plans],
       }));
 
-      console.log('[plansStore] Workout template added to Supabase with ID:', newId);
+      useSyncQueueStore.getState().enqueue({
+        kind: 'createWorkoutTemplate',
+        entityId: plan.id,
+        userId,
+        args: [{
+          name: trimmedName,
+          exercises: toTemplateExercises(exerciseList),
+          source: source || 'custom',
+        }],
+      });
+
+      console.log('[plansStore] Workout template added, queued for sync:', plan.id);
     } catch (error: any) {
       // Don't log FREE_LIMIT_REACHED errors - they're handled in the UI
       if (error?.message !== 'FREE_LIMIT_REACHED') {
@@ -128,61 +137,52 @@ export const usePlansStore = create<PlansState>((set, get) => ({
     const trimmedName = updatedPlan.name.trim();
     if (!trimmedName) return;
 
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
-        console.error('[plansStore] No authenticated user');
-        return;
-      }
-
-      // Optimistic update
-      const normalizedPlan: Plan = {
-        ...updatedPlan,
-        name: trimmedName,
-        exercises: [...updatedPlan.exercises],
-      };
-
-      set((state) => ({
-        plans: state.plans.map((plan) => (plan.id === normalizedPlan.id ? normalizedPlan : plan)),
-      }));
+    const userId = await getSessionUserId();
+    if (!userId) {
+      console.error('[plansStore] No authenticated user');
+      return;
+    }
 
-      // Sync to Supabase
-      await updateWorkoutTemplate(user.id, updatedPlan.id, {
+    // Optimistic update
+    const normalizedPlan: Plan = {
+      ...updatedPlan,
+      name: trimmedName,
+      exercises: [...updatedPlan.exercises],
+    };
+
+    set((state) => ({
+      plans: state.plans.map((plan) => (plan.id === normalizedPlan.id ? normalizedPlan : plan)),
+    }));
+
+    useSyncQueueStore.getState().enqueue({
+      kind: 'updateWorkoutTemplate',
+      entityId: updatedPlan.id,
+      userId,
+      args: [updatedPlan.id, {
         name: trimmedName,
-        exercises: (updatedPlan.exercises ?? []).map(e => ({
-          id: e.id,
-          name: e.name,
-          sets: 3,
-        })),
-      });
-
-      console.log('[plansStore] Workout template updated in Supabase');
-    } catch (error) {
-      console.error('[plansStore] Failed to update workout template', error);
-      await get().hydratePlans();
-    }
+        exercises: toTemplateExercises(updatedPlan.exercises ?? []),
+      }],
+    });
   },
 
   removePlan: async (id) => {
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
-        console.error('[plansStore] No authenticated user');
-        return;
-      }
-
-      // Optimistic update
-      set((state) => ({
-        plans: state.plans.filter((plan) => plan.id !== id),
-      }));
-
-      // Sync to Supabase
-      await deleteWorkoutTemplate(user.id, id);
-      console.log('[plansStore] Workout template deleted from Supabase');
-    } catch (error) {
-      console.error('[plansStore] Failed to delete workout template', error);
-      await get().hydratePlans();
+    const userId = await getSessionUserId();
+    if (!userId) {
+      console.error('[plansStore] No authenticated user');
+      return;
     }
+
+    // Optimistic update
+    set((state) => ({
+      plans: state.plans.filter((plan) => plan.id !== id),
+    }));
+
+    useSyncQueueStore.getState().enqueue({
+      kind: 'deleteWorkoutTemplate',
+      entityId: id,
+      userId,
+      args: [id],
+    });
   },
 
   hydratePlans: async (userId?: string) => {
@@ -228,22 +228,20 @@ export const usePlansStore = create<PlansState>((set, get) => ({
           // Ensure exercises is an array
           const templateExercises = Array.isArray(template.exercises) ? template.exercises : [];
           
-          const normalizedExercises = templateExercises
+          const resolvedExercises = templateExercises
             .filter((item) => {
               // Filter out invalid exercise objects
               return item && typeof item === 'object' && typeof item.id === 'string';
             })
-            .map((item) => {
-              if (exerciseLookupById[item.id]) {
-                return exerciseLookupById[item.id];
-              }
-              const nameKey = item.name?.toLowerCase().trim();
-              if (nameKey && exerciseLookupByName[nameKey]) {
-                return exerciseLookupByName[nameKey];
-              }
-              return null;
+            .map((item): TemplateExercise | null => {
+              const catalogExercise = exerciseLookupById[item.id]
+                ?? exerciseLookupByName[item.name?.toLowerCase().trim() ?? ''];
+              return catalogExercise ? { ...catalogExercise, ...pickExerciseGrouping(item), ...pickExerciseTargets(item) } : null;
             })
-            .filter((exercise): exercise is Exercise => Boolean(exercise));
+            .filter((exercise): exercise is TemplateExercise => Boolean(exercise));
+
+          // Exercises missing from the catalog may leave a group with a single member
+          const normalizedExercises = normalizeExerciseGroups(resolvedExercises);
 
           normalizedPlans.push({
             id: template.id,
@@ -257,7 +255,7 @@ export const usePlansStore = create<PlansState>((set, get) => ({
         }
       }
 
-      set({ plans: normalizedPlans, isLoading: false });
+      set({ plans: mergeWithPendingMutations(normalizedPlans, get().plans, TEMPLATE_SYNC_KINDS), isLoading: false });
       console.log('[plansStore] Hydrated', normalizedPlans.length, 'workout templates from Supabase');
     } catch (error) {
       // Silently handle hydration failures - network issues are expected during app startup
@@ -270,6 +268,16 @@ export const usePlansStore = create<PlansState>((set, get) => ({
 // Note: Hydration is now triggered by auth state changes, not on module load
 // This prevents hydration before the user is authenticated
 
+subscribeToSync({
+  kinds: TEMPLATE_SYNC_KINDS,
+  onIdsRemapped: (idMap) => {
+    usePlansStore.setState((state) => ({ plans: replaceIds(state.plans, idMap) }));
+  },
+  onConflict: () => {
+    void usePlansStore.getState().hydratePlans();
+  },
+});
+
 // Correctly-named exports (use these for new code)
 /** WorkoutsState - the state interface for the workouts store */
 export type WorkoutsState = PlansState;
@@ -9,6 +9,8 @@
  * 
  * Note: "Program" and "Plan" are used interchangeably in this codebase.
  * Both refer to a collection of workouts.
+ *
+ * Storage: Supabase (plans and plan_workouts tables), written through the sync queue
  */
 import { create } from 'zustand';
 import type {
@@ -22,20 +24,15 @@ import type {
 } from '@/types/premadePlan';
 import premadeData from '@/data/premadePrograms.json';
 import premadeWorkoutsData from '@/data/premadeWorkouts.json';
+import type { SyncMutationKind } from '@/types/syncQueue';
 import { supabaseClient } from '@/lib/supabaseClient';
-import {
-  fetchUserPlans,
-  createUserPlan,
-  updateUserPlan,
-  deleteUserPlan,
-  setActivePlan as setActivePlanInDB,
-  updateRotationState,
-  updatePlanWorkout,
-  deletePlanWorkout,
-  type RotationStateDB,
-} from '@/lib/supabaseQueries';
+import { fetchUserPlans, type RotationStateDB } from '@/lib/supabaseQueries';
+import { ACTIVE_PLAN_ENTITY_ID, createLocalId, getSessionUserId, replaceIds } from '@/lib/syncQueue';
 import { usePlansStore } from '@/store/plansStore';
+import { mergeWithPendingMutations, subscribeToSync, useSyncQueueStore } from '@/store/syncQueueStore';
 import { canAddPlan, canAddWorkout, getProgramLimitType, FREE_LIMITS, getTotalUniqueWorkoutCount } from '@/utils/premiumLimits';
+import { pickExerciseGrouping } from '@/utils/exerciseGroups';
+import { pickExerciseTargets } from '@/utils/exerciseTargets';
 
 interface ProgramsState {
   premadePrograms: PremadeProgram[];
@@ -76,6 +73,48 @@ interface ProgramsState {
   hydratePrograms: (userId?: string) => Promise<void>;
 }
 
+const PROGRAM_SYNC_KINDS: SyncMutationKind[] = [
+  'createUserPlan',
+  'updateUserPlan',
+  'deleteUserPlan',
+  'setActivePlan',
+  'updateRotationState',
+  'updatePlanWorkout',
+  'deletePlanWorkout',
+];
+
+const hasPendingMutation = (kind: SyncMutationKind): boolean => {
+  return useSyncQueueStore.getState().mutations.some((mutation) => mutation.kind === kind);
+};
+
+const toPlanWorkoutExercises = (exercises: ProgramWorkout['exercises'] | undefined) => exercises?.map(e => ({
+  id: e.id,
+  name: e.name,
+  sets: e.targets?.sets.length ?? 3,
+  ...pickExerciseGrouping(e),
+  ...pickExerciseTargets(e),
+  ...(e.weeks ? { weeks: e.weeks } : {}),
+}));
+
+/**
+ * Applies workout edits, keeping each exercise's week-by-week prescriptions when the
+ * edit doesn't carry them (the workout editor doesn't know about plan weeks).
+ */
+const mergeWorkoutUpdates = (workout: ProgramWorkout, workoutUpdates: Partial<ProgramWorkout>): ProgramWorkout => {
+  if (!workoutUpdates.exercises) {
+    return { ...workout, ...workoutUpdates };
+  }
+
+  const exercises = workoutUpdates.exercises.map(exercise => {
+    if (exercise.weeks) return exercise;
+    const existing = workout.exercises.find(e => e.id === exercise.id)
+      ?? workout.exercises.find(e => e.name === exercise.name);
+    return existing?.weeks ? { ...exercise, weeks: existing.weeks } : exercise;
+  });
+
+  return { ...workout, ...workoutUpdates, exercises };
+};
+
 export const useProgramsStore = create<ProgramsState>((set, get) => ({
   premadePrograms: [],
   premadeWorkouts: [],
@@ -165,11 +204,11 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
         return;
       }
 
-      const userPrograms = await fetchUserPlans(uid);
+      const serverPrograms = await fetchUserPlans(uid);
 
       // Find active plan
-      const activePlan = userPrograms.find(p => (p as any).is_active);
-      const activePlanId = activePlan?.id || null;
+      const activePlan = serverPrograms.find(p => (p as any).is_active);
+      const activePlanId = hasPendingMutation('setActivePlan') ? get().activePlanId : activePlan?.id || null;
 
       // Load Active Rotation from the active plan's rotation_state
       let activeRotation: RotationSchedule | null = null;
@@ -185,10 +224,18 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
         };
       }
 
+      // Keep edits that haven't synced yet
+      const userPrograms = mergeWithPendingMutations(
+        serverPrograms,
+        get().userPrograms,
+        PROGRAM_SYNC_KINDS,
+        (program) => [program.id, ...program.workouts.map(w => w.id)],
+      );
+
       set({
         userPrograms,
         activePlanId,
-        activeRotation,
+        activeRotation: hasPendingMutation('updateRotationState') ? get().activeRotation : activeRotation,
         isLoading: false
       });
 
@@ -202,8 +249,8 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
 
   addUserProgram: async (program): Promise<string | null> => {
     try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
+      const userId = await getSessionUserId();
+      if (!userId) {
         console.error('[programsStore] No authenticated user');
         return null;
       }
@@ -214,15 +261,15 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
         throw new Error('FREE_LIMIT_REACHED');
       }
 
-      // Create in Supabase and get the generated UUIDs
-      const { id: newPlanId, workouts: mappedWorkouts } = await createUserPlan(user.id, program);
+      // Give the plan and its workouts local IDs until Supabase assigns them.
+      // Workouts copied from templates share the template's ID, so they can't keep it.
+      const newPlanId = createLocalId();
+      const mappedWorkouts = program.workouts.map(w => ({ ...w, id: createLocalId() }));
 
       // Create a map of old IDs to new IDs for schedule correction
       const idMap = new Map<string, string>();
       program.workouts.forEach((pw, idx) => {
-        if (mappedWorkouts[idx]) {
-          idMap.set(pw.id, mappedWorkouts[idx].id);
-        }
+        idMap.set(pw.id, mappedWorkouts[idx].id);
       });
 
       // Update schedule if it exists
@@ -244,7 +291,7 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
         }
       }
 
-      // Update the program with the Supabase-generated IDs
+      // Update the program with the local IDs
       const programWithId: UserProgram = {
         ...program,
         id: newPlanId,
@@ -256,13 +303,19 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
       const nextPrograms = [programWithId, ...get().userPrograms];
       set({ userPrograms: nextPrograms });
 
-      console.log('[programsStore] Program added to Supabase with ID:', newPlanId);
+      useSyncQueueStore.getState().enqueue({
+        kind: 'createUserPlan',
+        entityId: newPlanId,
+        userId,
+        args: [programWithId],
+      });
+
+      console.log('[programsStore] Program added, queued for sync:', newPlanId);
       return newPlanId;
     } catch (error: any) {
       // Don't log FREE_LIMIT_REACHED errors - they're handled in the UI
       if (error?.message !== 'FREE_LIMIT_REACHED') {
         console.error('[programsStore] Failed to add program', error);
-        await get().hydratePrograms();
       }
       // Re-throw to let UI handle it
       throw error;
@@ -375,11 +428,11 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
       schedule: schedule,
     };
 
-    // Add to Supabase and get the real UUID
+    // Add the program and get its local ID
     try {
       const realProgramId = await get().addUserProgram(userProgram);
 
-      // Set as active using the real ID from Supabase
+      // Set as active; the queue swaps in the Supabase ID once the program syncs
       if (realProgramId) {
         await get().setActivePlan(realProgramId);
 
@@ -407,31 +460,30 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
   },
 
   updateUserProgram: async (program) => {
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
-        console.error('[programsStore] No authenticated user');
-        return;
-      }
+    const userId = await getSessionUserId();
+    if (!userId) {
+      console.error('[programsStore] No authenticated user');
+      return;
+    }
 
-      const updatedProgram = { ...program, modifiedAt: Date.now() };
-      const nextPrograms = get().userPrograms.map(p =>
-        p.id === program.id ? updatedProgram : p
-      );
-      set({ userPrograms: nextPrograms });
+    const updatedProgram = { ...program, modifiedAt: Date.now() };
+    const nextPrograms = get().userPrograms.map(p =>
+      p.id === program.id ? updatedProgram : p
+    );
+    set({ userPrograms: nextPrograms });
 
-      await updateUserPlan(user.id, updatedProgram);
-      console.log('[programsStore] Program updated in Supabase');
-    } catch (error) {
-      console.error('[programsStore] Failed to update program', error);
-      await get().hydratePrograms();
-    }
+    useSyncQueueStore.getState().enqueue({
+      kind: 'updateUserPlan',
+      entityId: program.id,
+      userId,
+      args: [updatedProgram],
+    });
   },
 
   deleteUserProgram: async (id) => {
     try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
+      const userId = await getSessionUserId();
+      if (!userId) {
         console.error('[programsStore] No authenticated user');
         return;
       }
@@ -463,7 +515,9 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
               const exercisesToSave = (workout.exercises ?? []).map(e => ({
                 id: e.id,
                 name: e.name,
-                sets: 3,
+                sets: e.targets?.sets.length ?? 3,
+                ...pickExerciseGrouping(e),
+                ...pickExerciseTargets(e),
               }));
               await plansStore.addPlan({
                 name: workout.name,
@@ -472,7 +526,7 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
                   const catalogExercise = require('@/constants/exercises').exercises.find(
                     (ex: any) => ex.id === e.id
                   );
-                  return catalogExercise || e;
+                  return catalogExercise ? { ...catalogExercise, ...pickExerciseGrouping(e), ...pickExerciseTargets(e) } : e;
                 }),
                 source: 'custom',
               });
@@ -498,8 +552,12 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
         await get().setActiveRotation(null);
       }
 
-      await deleteUserPlan(user.id, id);
-      console.log('[programsStore] Program deleted from Supabase');
+      useSyncQueueStore.getState().enqueue({
+        kind: 'deleteUserPlan',
+        entityId: id,
+        userId,
+        args: [id],
+      });
     } catch (error) {
       console.error('[programsStore] Failed to delete program', error);
       await get().hydratePrograms();
@@ -513,8 +571,9 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
 
     const program = programs[programIndex];
     const workouts = program.workouts.map(w =>
-      w.id === workoutId ? { ...w, ...workoutUpdates } : w
+      w.id === workoutId ? mergeWorkoutUpdates(w, workoutUpdates) : w
     );
+    const updatedWorkout = workouts.find(w => w.id === workoutId);
 
     // Update local state immediately
     const updatedProgram = { ...program, workouts, modifiedAt: Date.now() };
@@ -524,25 +583,17 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
     set({ userPrograms: nextPrograms });
 
     // Persist workout changes to DB
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (user) {
-        // Build the exercises array in the format expected by the DB
-        const exercisesToSave = workoutUpdates.exercises?.map(e => ({
-          id: e.id,
-          name: e.name,
-          sets: 3,
-        }));
-
-        await updatePlanWorkout(user.id, workoutId, {
+    const userId = await getSessionUserId();
+    if (userId) {
+      useSyncQueueStore.getState().enqueue({
+        kind: 'updatePlanWorkout',
+        entityId: workoutId,
+        userId,
+        args: [workoutId, {
           name: workoutUpdates.name,
-          exercises: exercisesToSave,
-        });
-        console.log('[programsStore] Workout updated in plan_workouts table');
-      }
-    } catch (error) {
-      console.error('[programsStore] Failed to update workout in DB', error);
-      await get().hydratePrograms();
+          exercises: toPlanWorkoutExercises(workoutUpdates.exercises && updatedWorkout?.exercises),
+        }],
+      });
     }
   },
 
@@ -584,16 +635,16 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
     set({ userPrograms: nextPrograms });
 
     // Delete from DB and update program
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (user) {
-        await deletePlanWorkout(user.id, workoutId);
-        await updateUserPlan(user.id, updatedProgram);
-        console.log('[programsStore] Workout deleted from plan_workouts table');
-      }
-    } catch (error) {
-      console.error('[programsStore] Failed to delete workout from DB', error);
-      await get().hydratePrograms();
+    const userId = await getSessionUserId();
+    if (userId) {
+      const { enqueue } = useSyncQueueStore.getState();
+      enqueue({ kind: 'deletePlanWorkout', entityId: workoutId, userId, args: [workoutId] });
+      enqueue({
+        kind: 'updateUserPlan',
+        entityId: programId,
+        userId,
+        args: [updatedProgram],
+      });
     }
 
     // Also update rotation sequence if needed
@@ -681,19 +732,19 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
   },
 
   setActivePlan: async (programId) => {
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
-        console.error('[programsStore] No authenticated user');
-        return;
-      }
-
-      set({ activePlanId: programId });
-      await setActivePlanInDB(user.id, programId);
-      console.log('[programsStore] Active plan set in Supabase');
-    } catch (error) {
-      console.error('[programsStore] Failed to set active plan', error);
+    const userId = await getSessionUserId();
+    if (!userId) {
+      console.error('[programsStore] No authenticated user');
+      return;
     }
+
+    set({ activePlanId: programId });
+    useSyncQueueStore.getState().enqueue({
+      kind: 'setActivePlan',
+      entityId: ACTIVE_PLAN_ENTITY_ID,
+      userId,
+      args: [programId],
+    });
   },
 
   getTodayWorkout: () => {
@@ -752,38 +803,39 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
   setActiveRotation: async (rotation) => {
     set({ activeRotation: rotation });
 
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
-        console.error('[programsStore] No authenticated user for rotation update');
-        return;
-      }
+    const userId = await getSessionUserId();
+    if (!userId) {
+      console.error('[programsStore] No authenticated user for rotation update');
+      return;
+    }
 
-      if (rotation) {
-        // Save rotation state to the plan's rotation_state column
-        // Skip if programId is temporary (starts with "prog-") - wait for real ID
-        if (rotation.programId.startsWith('prog-')) {
-          console.log('[programsStore] Skipping rotation sync for temporary program ID');
-          return;
-        }
+    const { enqueue } = useSyncQueueStore.getState();
 
-        const rotationState: RotationStateDB = {
-          workoutSequence: rotation.workoutSequence,
-          currentIndex: rotation.currentIndex,
-          lastAdvancedAt: rotation.lastAdvancedAt || Date.now(),
-        };
-        await updateRotationState(user.id, rotation.programId, rotationState);
-        console.log('[programsStore] Rotation state saved to Supabase');
-      } else {
-        // Clear rotation state from the active plan
-        const activePlanId = get().activePlanId;
-        if (activePlanId) {
-          await updateRotationState(user.id, activePlanId, null);
-          console.log('[programsStore] Rotation state cleared in Supabase');
-        }
+    if (rotation) {
+      // Save rotation state to the plan's rotation_state column.
+      // A plan that hasn't synced yet has a local ID, which the queue swaps once it does.
+      const rotationState: RotationStateDB = {
+        workoutSequence: rotation.workoutSequence,
+        currentIndex: rotation.currentIndex,
+        lastAdvancedAt: rotation.lastAdvancedAt || Date.now(),
+      };
+      enqueue({
+        kind: 'updateRotationState',
+        entityId: rotation.programId,
+        userId,
+        args: [rotation.programId, rotationState],
+      });
+    } else {
+      // Clear rotation state from the active plan
+      const activePlanId = get().activePlanId;
+      if (activePlanId) {
+        enqueue({
+          kind: 'updateRotationState',
+          entityId: activePlanId,
+          userId,
+          args: [activePlanId, null],
+        });
       }
-    } catch (error) {
-      console.error('[programsStore] Failed to save rotation state:', error);
     }
   },
 
@@ -810,7 +862,7 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
   updateWorkoutsByName: async (name, workoutUpdates) => {
     const nameKey = name.trim().toLowerCase();
     const programs = get().userPrograms;
-    const affectedWorkoutIds: string[] = [];
+    const affectedWorkouts: ProgramWorkout[] = [];
     const affectedPrograms: UserProgram[] = [];
 
     programs.forEach(prog => {
@@ -818,8 +870,9 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
       const nextWorkouts = prog.workouts.map(w => {
         if (w.name.trim().toLowerCase() === nameKey) {
           hasChange = true;
-          affectedWorkoutIds.push(w.id);
-          return { ...w, ...workoutUpdates };
+          const updatedWorkout = mergeWorkoutUpdates(w, workoutUpdates);
+          affectedWorkouts.push(updatedWorkout);
+          return updatedWorkout;
         }
         return w;
       });
@@ -839,32 +892,40 @@ export const useProgramsStore = create<ProgramsState>((set, get) => ({
     }
 
     // Persist each workout change to DB
-    if (affectedWorkoutIds.length > 0) {
-      try {
-        const { data: { user } } = await supabaseClient.auth.getUser();
-        if (user) {
-          // Build the exercises array in the format expected by the DB
-          const exercisesToSave = workoutUpdates.exercises?.map(e => ({
-            id: e.id,
-            name: e.name,
-            sets: 3,
-          }));
-
-          await Promise.all(affectedWorkoutIds.map(id =>
-            updatePlanWorkout(user.id, id, {
+    if (affectedWorkouts.length > 0) {
+      const userId = await getSessionUserId();
+      if (userId) {
+        // Each workout keeps its own week prescriptions, so exercises are mapped per workout
+        affectedWorkouts.forEach(workout => {
+          useSyncQueueStore.getState().enqueue({
+            kind: 'updatePlanWorkout',
+            entityId: workout.id,
+            userId,
+            args: [workout.id, {
               name: workoutUpdates.name,
-              exercises: exercisesToSave,
-            })
-          ));
-          console.log(`[programsStore] Updated ${affectedWorkoutIds.length} workouts in plan_workouts table for: ${name}`);
-        }
-      } catch (error) {
-        console.error('[programsStore] Failed to update workouts by name in DB', error);
-        await get().hydratePrograms();
+              exercises: toPlanWorkoutExercises(workoutUpdates.exercises && workout.exercises),
+            }],
+          });
+        });
+        console.log(`[programsStore] Queued ${affectedWorkouts.length} workout updates for: ${name}`);
       }
     }
   }
 }));
 
+subscribeToSync({
+  kinds: PROGRAM_SYNC_KINDS,
+  onIdsRemapped: (idMap) => {
+    useProgramsStore.setState((state) => ({
+      userPrograms: replaceIds(state.userPrograms, idMap),
+      activePlanId: state.activePlanId ? idMap[state.activePlanId] ?? state.activePlanId : null,
+      activeRotation: replaceIds(state.activeRotation, idMap),
+    }));
+  },
+  onConflict: () => {
+    void useProgramsStore.getState().hydratePrograms();
+  },
+});
+
 // Note: Hydration is now triggered by auth state changes in _layout.tsx
 // This prevents hydration before the user is authenticated
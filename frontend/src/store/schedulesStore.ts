@@ -2,19 +2,16 @@
  * schedulesStore
  * Zustand store managing user workout schedules.
  * 
- * Storage: Supabase (schedules table)
+ * Storage: Supabase (schedules table), written through the sync queue
  */
 import { create } from 'zustand';
 
 import type { Schedule, ScheduleType, RotatingScheduleConfig } from '@/types/schedule';
+import type { SyncMutationKind } from '@/types/syncQueue';
 import { supabaseClient } from '@/lib/supabaseClient';
-import {
-  fetchSchedules,
-  createSchedule,
-  updateSchedule as updateScheduleDB,
-  deleteSchedule as deleteScheduleDB,
-  type ScheduleDataFull,
-} from '@/lib/supabaseQueries';
+import { fetchSchedules, type ScheduleDataFull } from '@/lib/supabaseQueries';
+import { createLocalId, getSessionUserId, replaceIds } from '@/lib/syncQueue';
+import { mergeWithPendingMutations, subscribeToSync, useSyncQueueStore } from '@/store/syncQueueStore';
 
 interface SchedulesState {
   schedules: Schedule[];
@@ -26,6 +23,8 @@ interface SchedulesState {
   hydrateSchedules: (userId?: string) => Promise<void>;
 }
 
+const SCHEDULE_SYNC_KINDS: SyncMutationKind[] = ['createSchedule', 'updateSchedule', 'deleteSchedule'];
+
 const scheduleToDBFormat = (schedule: Schedule): ScheduleDataFull => {
   return {
     type: schedule.type,
@@ -81,84 +80,78 @@ export const useSchedulesStore = create<SchedulesState>((set, get) => ({
   isLoading: false,
 
   addSchedule: async (schedule) => {
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
-        console.error('[schedulesStore] No authenticated user');
-        return;
-      }
+    const userId = await getSessionUserId();
+    if (!userId) {
+      console.error('[schedulesStore] No authenticated user');
+      return;
+    }
 
-      // Create in Supabase
-      const newId = await createSchedule(user.id, {
-        name: schedule.name,
-        scheduleData: scheduleToDBFormat(schedule),
-      });
+    // Update local state under a local ID until Supabase assigns one
+    const scheduleWithId: Schedule = {
+      ...schedule,
+      id: createLocalId(),
+    };
 
-      // Update local state with the new ID from Supabase
-      const scheduleWithId: Schedule = {
-        ...schedule,
-        id: newId,
-      };
+    set((state) => ({
+      schedules: [scheduleWithId, ...state.schedules],
+    }));
 
-      set((state) => ({
-        schedules: [scheduleWithId, ...state.schedules],
-      }));
+    useSyncQueueStore.getState().enqueue({
+      kind: 'createSchedule',
+      entityId: scheduleWithId.id,
+      userId,
+      args: [{
+        name: schedule.name,
+        scheduleData: scheduleToDBFormat(schedule),
+      }],
+    });
 
-      console.log('[schedulesStore] Schedule added to Supabase with ID:', newId);
-    } catch (error) {
-      console.error('[schedulesStore] Failed to add schedule', error);
-      await get().hydrateSchedules();
-    }
+    console.log('[schedulesStore] Schedule added, queued for sync:', scheduleWithId.id);
   },
 
   deleteSchedule: async (id) => {
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
-        console.error('[schedulesStore] No authenticated user');
-        return;
-      }
-
-      // Optimistic update
-      set((state) => ({
-        schedules: state.schedules.filter((schedule) => schedule.id !== id),
-      }));
-
-      // Sync to Supabase
-      await deleteScheduleDB(user.id, id);
-      console.log('[schedulesStore] Schedule deleted from Supabase');
-    } catch (error) {
-      console.error('[schedulesStore] Failed to delete schedule', error);
-      await get().hydrateSchedules();
+    const userId = await getSessionUserId();
+    if (!userId) {
+      console.error('[schedulesStore] No authenticated user');
+      return;
     }
+
+    // Optimistic update
+    set((state) => ({
+      schedules: state.schedules.filter((schedule) => schedule.id !== id),
+    }));
+
+    useSyncQueueStore.getState().enqueue({
+      kind: 'deleteSchedule',
+      entityId: id,
+      userId,
+      args: [id],
+    });
   },
 
   updateSchedule: async (schedule) => {
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
-        console.error('[schedulesStore] No authenticated user');
-        return;
-      }
-
-      // Optimistic update
-      set((state) => ({
-        schedules: state.schedules.map((existing) =>
-          existing.id === schedule.id ? schedule : existing
-        ),
-      }));
+    const userId = await getSessionUserId();
+    if (!userId) {
+      console.error('[schedulesStore] No authenticated user');
+      return;
+    }
 
-      // Sync to Supabase
-      await updateScheduleDB(user.id, schedule.id, {
+    // Optimistic update
+    set((state) => ({
+      schedules: state.schedules.map((existing) =>
+        existing.id === schedule.id ? schedule : existing
+      ),
+    }));
+
+    useSyncQueueStore.getState().enqueue({
+      kind: 'updateSchedule',
+      entityId: schedule.id,
+      userId,
+      args: [schedule.id, {
         name: schedule.name,
         scheduleData: scheduleToDBFormat(schedule),
-      });
-
-      console.log('[schedulesStore] Schedule updated in Supabase');
-    } catch (error) {
-      console.error('[schedulesStore] Failed to update schedule', error);
-      await get().hydrateSchedules();
-    }
+      }],
+    });
   },
 
   getSchedules: () => {
@@ -185,7 +178,11 @@ export const useSchedulesStore = create<SchedulesState>((set, get) => ({
       console.log('[schedulesStore] HYDRATING SCHEDULES from Supabase');
       const dbSchedules = await fetchSchedules(uid);
 
-      const schedules: Schedule[] = dbSchedules.map(dbToScheduleFormat);
+      const schedules: Schedule[] = mergeWithPendingMutations(
+        dbSchedules.map(dbToScheduleFormat),
+        get().schedules,
+        SCHEDULE_SYNC_KINDS,
+      );
 
       set({ schedules, isLoading: false });
       console.log('[schedulesStore] Hydrated', schedules.length, 'schedules from Supabase');
@@ -197,4 +194,14 @@ export const useSchedulesStore = create<SchedulesState>((set, get) => ({
   },
 }));
 
+subscribeToSync({
+  kinds: SCHEDULE_SYNC_KINDS,
+  onIdsRemapped: (idMap) => {
+    useSchedulesStore.setState((state) => ({ schedules: replaceIds(state.schedules, idMap) }));
+  },
+  onConflict: () => {
+    void useSchedulesStore.getState().hydrateSchedules();
+  },
+});
+
 export type { SchedulesState };
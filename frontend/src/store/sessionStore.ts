@@ -8,9 +8,19 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import type { Workout, WorkoutExercise, SetLog } from '@/types/workout';
+import type { SetPersonalRecord } from '@/types/personalRecords';
+import type { ExerciseTargets, SessionPlanWeek } from '@/types/plan';
 import type { ExerciseDataPoint, RepRange, SessionRepIntent, PendingIntentShift } from '@/types/smartSuggestions';
-
-interface SessionDraft {
+import {
+  linkExerciseWithNext,
+  moveExercise as moveExerciseInList,
+  normalizeExerciseGroups,
+  ungroupExerciseBlock,
+} from '@/utils/exerciseGroups';
+import { clampRestSeconds, getRestRemainingSeconds, type RestTimer } from '@/utils/restTimer';
+import { cancelRestTimerNotification, scheduleRestTimerNotification } from '@/services/notificationService';
+
+export interface SessionDraft {
   planId: string | null;
   name: string | null;
   startTime: number;
@@ -34,6 +44,20 @@ interface SessionDraft {
   intentShiftConfirmations: number;
   /** Pending intent shift waiting for second confirmation (v2). */
   pendingIntentShift: PendingIntentShift | null;
+  /** Active between-set rest countdown (absent in sessions persisted before rest timers existed). */
+  restTimer?: RestTimer | null;
+  /** Plan week and per-exercise prescriptions the session was seeded with, when started from a running plan. */
+  planWeek?: SessionPlanWeek | null;
+  /** Template targets per exercise (reps, load, tempo, rest), when the template set any. */
+  exerciseTargets?: Record<string, ExerciseTargets>;
+}
+
+/** In-progress workout running on another of the user's devices */
+export interface RemoteSession {
+  deviceId: string;
+  session: SessionDraft;
+  /** Epoch ms of the other device's last change */
+  updatedAt: number;
 }
 
 export interface SessionState {
@@ -41,7 +65,7 @@ export interface SessionState {
   isSessionActive: boolean;
   /** Completed workout awaiting Supabase sync. Persisted in AsyncStorage so data survives crashes. */
   pendingWorkoutSave: Workout | null;
-  startSession: (planId: string | null, exercises?: WorkoutExercise[], name?: string | null, historySetCounts?: Record<string, number>, suggestedSets?: Record<string, SetLog[]>, exerciseDataPoints?: Record<string, ExerciseDataPoint[]>, exerciseRepRanges?: Record<string, RepRange[]>, hasCompoundIsolationSplit?: boolean) => void;
+  startSession: (planId: string | null, exercises?: WorkoutExercise[], name?: string | null, historySetCounts?: Record<string, number>, suggestedSets?: Record<string, SetLog[]>, exerciseDataPoints?: Record<string, ExerciseDataPoint[]>, exerciseRepRanges?: Record<string, RepRange[]>, hasCompoundIsolationSplit?: boolean, planWeek?: SessionPlanWeek | null, exerciseTargets?: Record<string, ExerciseTargets>) => void;
   addExercise: (exercise: WorkoutExercise, historySetCount?: number, suggested?: SetLog[], dataPoints?: ExerciseDataPoint[], repRanges?: RepRange[]) => void;
   getHistorySetCount: (exerciseName: string) => number;
   getSuggestedSets: (exerciseName: string) => SetLog[] | null;
@@ -56,7 +80,18 @@ export interface SessionState {
   updateExerciseSuggestedSets: (exerciseName: string, sets: SetLog[]) => void;
   updateExercise: (exerciseName: string, updatedExercise: WorkoutExercise) => void;
   removeExercise: (exerciseName: string) => void;
-  reorderExercises: (fromIndex: number, toIndex: number) => void;
+  /** Moves an exercise one step; grouped exercises move within their group, otherwise whole blocks move. */
+  moveExercise: (index: number, direction: 1 | -1) => void;
+  /** Joins the exercise's block with the following block into a superset/circuit. */
+  groupExerciseWithNext: (index: number) => void;
+  /** Dissolves the superset/circuit containing the exercise. */
+  ungroupExercise: (index: number) => void;
+  /** Starts (or restarts) the rest countdown and schedules its background notification. */
+  startRestTimer: (exerciseName: string, durationSeconds: number) => void;
+  /** Adds or removes time from the running rest countdown. */
+  adjustRestTimer: (deltaSeconds: number) => void;
+  /** Stops the rest countdown and cancels its notification. */
+  clearRestTimer: () => void;
   endSession: () => Workout | null;
   clearSession: () => void;
   getCurrentSession: () => SessionDraft | null;
@@ -68,6 +103,16 @@ export interface SessionState {
   clearPendingWorkoutSave: () => void;
   isCompletionOverlayVisible: boolean;
   setCompletionOverlayVisible: (visible: boolean) => void;
+  /** Records broken in the most recently finished session, shown on the completion screens */
+  lastSessionPersonalRecords: SetPersonalRecord[];
+  setLastSessionPersonalRecords: (records: SetPersonalRecord[]) => void;
+  /** Session running on another device, offered to continue here. Not persisted. */
+  remoteSession: RemoteSession | null;
+  setRemoteSession: (remote: RemoteSession | null) => void;
+  /** Takes over the other device's session; returns false if there is none or one is already running here */
+  continueRemoteSession: () => boolean;
+  /** Hides the prompt for this remote session until a different one starts */
+  dismissRemoteSession: () => void;
   _hasHydrated: boolean;
   setHasHydrated: (state: boolean) => void;
 }
@@ -76,6 +121,13 @@ const generateWorkoutId = (): string => {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 };
 
+const cancelRestNotification = (session: SessionDraft | null): void => {
+  void cancelRestTimerNotification(session?.restTimer?.notificationId);
+};
+
+/** Start time of the remote session the user chose not to continue */
+let dismissedRemoteStartTime: number | null = null;
+
 export const useSessionStore = create<SessionState>()(
   persist(
     (set, get) => ({
@@ -83,16 +135,18 @@ export const useSessionStore = create<SessionState>()(
       isSessionActive: false,
       pendingWorkoutSave: null,
       isCompletionOverlayVisible: false,
+      lastSessionPersonalRecords: [],
+      remoteSession: null,
       _hasHydrated: false,
       setHasHydrated: (state) => {
         set({ _hasHydrated: state });
       },
-      startSession: (planId, exercises = [], name = null, historySetCounts = {}, suggestedSets = {}, exerciseDataPoints = {}, exerciseRepRanges = {}, hasCompoundIsolationSplit = false) => {
+      startSession: (planId, exercises = [], name = null, historySetCounts = {}, suggestedSets = {}, exerciseDataPoints = {}, exerciseRepRanges = {}, hasCompoundIsolationSplit = false, planWeek = null, exerciseTargets = {}) => {
         const nextSession: SessionDraft = {
           planId,
           name,
           startTime: Date.now(),
-          exercises: [...exercises],
+          exercises: normalizeExerciseGroups([...exercises]),
           historySetCounts: { ...historySetCounts },
           suggestedSets: { ...suggestedSets },
           exerciseDataPoints: { ...exerciseDataPoints },
@@ -103,8 +157,12 @@ export const useSessionStore = create<SessionState>()(
           hasCompoundIsolationSplit,
           intentShiftConfirmations: 0,
           pendingIntentShift: null,
+          restTimer: null,
+          planWeek,
+          exerciseTargets: { ...exerciseTargets },
         };
 
+        cancelRestNotification(get().currentSession);
         set({ currentSession: nextSession, isSessionActive: true, isCompletionOverlayVisible: false });
       },
       addExercise: (exercise, historySetCount = 0, suggested, dataPoints, repRanges) => {
@@ -273,7 +331,8 @@ export const useSessionStore = create<SessionState>()(
               return exercise;
             }
 
-            return { ...updatedExercise };
+            // Keep superset/circuit membership when only name or sets change
+            return { ...exercise, ...updatedExercise };
           }),
         };
 
@@ -288,28 +347,107 @@ export const useSessionStore = create<SessionState>()(
 
         const nextSession: SessionDraft = {
           ...currentSession,
-          exercises: currentSession.exercises.filter((exercise) => exercise.name !== exerciseName),
+          exercises: normalizeExerciseGroups(
+            currentSession.exercises.filter((exercise) => exercise.name !== exerciseName),
+          ),
         };
 
         set({ currentSession: nextSession });
       },
-      reorderExercises: (fromIndex, toIndex) => {
+      moveExercise: (index, direction) => {
         const { currentSession } = get();
 
         if (!currentSession) {
           return;
         }
 
-        const exercises = [...currentSession.exercises];
-        const [movedExercise] = exercises.splice(fromIndex, 1);
-        exercises.splice(toIndex, 0, movedExercise);
+        const exercises = moveExerciseInList(currentSession.exercises, index, direction);
+        if (exercises === currentSession.exercises) {
+          return;
+        }
 
-        const nextSession: SessionDraft = {
-          ...currentSession,
-          exercises,
+        set({ currentSession: { ...currentSession, exercises } });
+      },
+      groupExerciseWithNext: (index) => {
+        const { currentSession } = get();
+
+        if (!currentSession) {
+          return;
+        }
+
+        const exercises = linkExerciseWithNext(currentSession.exercises, index);
+        if (exercises === currentSession.exercises) {
+          return;
+        }
+
+        set({ currentSession: { ...currentSession, exercises } });
+      },
+      ungroupExercise: (index) => {
+        const { currentSession } = get();
+
+        if (!currentSession) {
+          return;
+        }
+
+        const exercises = ungroupExerciseBlock(currentSession.exercises, index);
+        if (exercises === currentSession.exercises) {
+          return;
+        }
+
+        set({ currentSession: { ...currentSession, exercises } });
+      },
+      startRestTimer: (exerciseName, durationSeconds) => {
+        const { currentSession } = get();
+
+        if (!currentSession) {
+          return;
+        }
+
+        cancelRestNotification(currentSession);
+
+        const restTimer: RestTimer = {
+          exerciseName,
+          startedAt: Date.now(),
+          durationSeconds: clampRestSeconds(durationSeconds),
+          notificationId: null,
         };
 
-        set({ currentSession: nextSession });
+        set({ currentSession: { ...currentSession, restTimer } });
+        scheduleRestNotification(restTimer);
+      },
+      adjustRestTimer: (deltaSeconds) => {
+        const { currentSession } = get();
+        const restTimer = currentSession?.restTimer;
+
+        if (!currentSession || !restTimer) {
+          return;
+        }
+
+        cancelRestNotification(currentSession);
+
+        const nextTimer: RestTimer = {
+          ...restTimer,
+          durationSeconds: clampRestSeconds(restTimer.durationSeconds + deltaSeconds),
+          notificationId: null,
+        };
+
+        if (getRestRemainingSeconds(nextTimer) <= 0) {
+          set({ currentSession: { ...currentSession, restTimer: null } });
+          return;
+        }
+
+        set({ currentSession: { ...currentSession, restTimer: nextTimer } });
+        scheduleRestNotification(nextTimer);
+      },
+      clearRestTimer: () => {
+        const { currentSession } = get();
+
+        if (!currentSession?.restTimer) {
+          return;
+        }
+
+        cancelRestNotification(currentSession);
+        set({ currentSession: { ...currentSession, restTimer: null } });
       },
       endSession: () => {
         const { currentSession } = get();
@@ -318,6 +456,8 @@ export const useSessionStore = create<SessionState>()(
           return null;
         }
 
+        cancelRestNotification(currentSession);
+
         const endTime = Date.now();
         const durationMilliseconds = endTime - currentSession.startTime;
         const durationSeconds = Math.max(Math.floor(durationMilliseconds / 1000), 0);
@@ -344,6 +484,7 @@ export const useSessionStore = create<SessionState>()(
         return workout;
       },
       clearSession: () => {
+        cancelRestNotification(get().currentSession);
         set({ currentSession: null, isSessionActive: false, isCompletionOverlayVisible: false });
       },
       setPendingWorkoutSave: (workout) => {
@@ -361,6 +502,35 @@ export const useSessionStore = create<SessionState>()(
       setCompletionOverlayVisible: (visible) => {
         set({ isCompletionOverlayVisible: visible });
       },
+      setLastSessionPersonalRecords: (records) => {
+        set({ lastSessionPersonalRecords: records });
+      },
+      setRemoteSession: (remote) => {
+        if (remote && remote.session.startTime === dismissedRemoteStartTime) {
+          return;
+        }
+        set({ remoteSession: remote });
+      },
+      continueRemoteSession: () => {
+        const { remoteSession, isSessionActive } = get();
+
+        if (!remoteSession || isSessionActive) {
+          return false;
+        }
+
+        // The rest notification was scheduled on the other device
+        set({
+          currentSession: { ...remoteSession.session, restTimer: null },
+          isSessionActive: true,
+          isCompletionOverlayVisible: false,
+          remoteSession: null,
+        });
+        return true;
+      },
+      dismissRemoteSession: () => {
+        dismissedRemoteStartTime = get().remoteSession?.session.startTime ?? null;
+        set({ remoteSession: null });
+      },
     }),
     {
       name: 'hercules-workout-session',
@@ -376,3 +546,34 @@ export const useSessionStore = create<SessionState>()(
     }
   )
 );
+
+/**
+ * Schedules the "rest complete" notification for a timer and records its id,
+ * unless the timer was replaced or cleared while scheduling was in flight.
+ */
+const scheduleRestNotification = (timer: RestTimer): void => {
+  const remainingSeconds = getRestRemainingSeconds(timer);
+
+  void scheduleRestTimerNotification(remainingSeconds, timer.exerciseName).then((notificationId) => {
+    if (!notificationId) {
+      return;
+    }
+
+    const { currentSession } = useSessionStore.getState();
+    const activeTimer = currentSession?.restTimer;
+
+    if (
+      !currentSession ||
+      !activeTimer ||
+      activeTimer.startedAt !== timer.startedAt ||
+      activeTimer.durationSeconds !== timer.durationSeconds
+    ) {
+      void cancelRestTimerNotification(notificationId);
+      return;
+    }
+
+    useSessionStore.setState({
+      currentSession: { ...currentSession, restTimer: { ...activeTimer, notificationId } },
+    });
+  });
+};
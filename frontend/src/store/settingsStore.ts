@@ -9,6 +9,10 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabaseClient } from '@/lib/supabaseClient';
 import { AccentColorKey } from '@/constants/accentColors';
+import type { EffortScale, SetType } from '@/types/workout';
+import { DEFAULT_REST_DURATIONS, clampRestSeconds } from '@/utils/restTimer';
+import { DEFAULT_E1RM_FORMULA } from '@/utils/oneRepMax';
+import type { E1RMFormula } from '@/utils/oneRepMax';
 
 export type UnitSystem = 'imperial' | 'metric';
 export type WeightUnit = 'lbs' | 'kg';
@@ -61,6 +65,30 @@ interface SettingsState {
   smartSuggestionsEnabled: boolean;
   /** Set smart suggestions enabled status */
   setSmartSuggestionsEnabled: (enabled: boolean) => void;
+  /** Scale used to log set effort: RPE or reps in reserve */
+  effortScale: EffortScale;
+  /** Set effort scale preference */
+  setEffortScale: (scale: EffortScale) => void;
+  /** Formula used for estimated one-rep max */
+  e1rmFormula: E1RMFormula;
+  /** Set estimated one-rep max formula */
+  setE1RMFormula: (formula: E1RMFormula) => void;
+  /** Whether a rest timer starts automatically after completing a set */
+  restTimerEnabled: boolean;
+  /** Set rest timer enabled status */
+  setRestTimerEnabled: (enabled: boolean) => void;
+  /** Whether outdoor sessions pause on their own while the user is stopped */
+  autoPauseEnabled: boolean;
+  /** Set outdoor auto-pause enabled status */
+  setAutoPauseEnabled: (enabled: boolean) => void;
+  /** Default rest in seconds per set type */
+  restDurations: Record<SetType, number>;
+  /** Set the default rest for a set type (in seconds) */
+  setRestDuration: (setType: SetType, seconds: number) => void;
+  /** Per-exercise rest overrides in seconds, keyed by exercise name */
+  exerciseRestDurations: Record<string, number>;
+  /** Set or clear (null) the rest override for an exercise */
+  setExerciseRestDuration: (exerciseName: string, seconds: number | null) => void;
   /** Get weight unit label */
   getWeightUnit: () => string;
   /** Get height unit label */
@@ -230,6 +258,47 @@ export const useSettingsStore = create<SettingsState>()(
 
       hapticsEnabled: true,
       smartSuggestionsEnabled: false,
+      effortScale: 'rpe',
+
+      setEffortScale: (scale: EffortScale) => {
+        // Display preference only — stored effort is always RPE, so local persistence is sufficient
+        set({ effortScale: scale });
+      },
+
+      e1rmFormula: DEFAULT_E1RM_FORMULA,
+
+      setE1RMFormula: (formula: E1RMFormula) => {
+        set({ e1rmFormula: formula });
+      },
+
+      restTimerEnabled: true,
+      restDurations: DEFAULT_REST_DURATIONS,
+      exerciseRestDurations: {},
+
+      setRestTimerEnabled: (enabled: boolean) => {
+        set({ restTimerEnabled: enabled });
+      },
+
+      autoPauseEnabled: true,
+
+      setAutoPauseEnabled: (enabled: boolean) => {
+        set({ autoPauseEnabled: enabled });
+      },
+
+      setRestDuration: (setType: SetType, seconds: number) => {
+        set((state) => ({
+          restDurations: { ...state.restDurations, [setType]: clampRestSeconds(seconds) },
+        }));
+      },
+
+      setExerciseRestDuration: (exerciseName: string, seconds: number | null) => {
+        set((state) => {
+          const { [exerciseName]: _previous, ...rest } = state.exerciseRestDurations;
+          return {
+            exerciseRestDurations: seconds === null ? rest : { ...rest, [exerciseName]: clampRestSeconds(seconds) },
+          };
+        });
+      },
 
       setSmartSuggestionsEnabled: async (enabled: boolean) => {
         set({ smartSuggestionsEnabled: enabled });
@@ -453,6 +522,12 @@ export const useSettingsStore = create<SettingsState>()(
         isPro: state.isPro,
         hapticsEnabled: state.hapticsEnabled,
         smartSuggestionsEnabled: state.smartSuggestionsEnabled,
+        effortScale: state.effortScale,
+        e1rmFormula: state.e1rmFormula,
+        restTimerEnabled: state.restTimerEnabled,
+        autoPauseEnabled: state.autoPauseEnabled,
+        restDurations: state.restDurations,
+        exerciseRestDurations: state.exerciseRestDurations,
         weeklyCardioTimeGoal: state.weeklyCardioTimeGoal,
         weeklyCardioDistanceGoal: state.weeklyCardioDistanceGoal,
       }),
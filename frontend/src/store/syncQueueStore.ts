@@ -0,0 +1,362 @@
+/**
+ * syncQueueStore
+ * Zustand store holding writes that haven't reached Supabase yet, with AsyncStorage persistence.
+ *
+ * Sync queue:
+ * - Stores apply edits locally first, then enqueue the matching Supabase write
+ * - Mutations replay in order; network failures keep them queued and retry with backoff
+ * - Repeated edits to the same row collapse into one mutation
+ * - Rows created offline get local IDs, swapped for Supabase's IDs once the create syncs
+ * - An edit made on an older version than the server copy is dropped as a conflict and the owning
+ *   store rehydrates. Versions are the server's updated_at as last read or written by this device.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+import { isNetworkError, setRowVersionListener, type RowVersions } from '@/lib/supabaseQueries';
+import {
+  applySyncMutation,
+  getSessionUserId,
+  isCreateMutation,
+  isDeleteMutation,
+  isLocalId,
+  mergeMutationArgs,
+  replaceIds,
+  type SyncIdMap,
+} from '@/lib/syncQueue';
+import type {
+  SyncConflict,
+  SyncMutation,
+  SyncMutationArgs,
+  SyncMutationKind,
+} from '@/types/syncQueue';
+
+/** Non-network failures before a mutation is given up on */
+const MAX_SYNC_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 5_000;
+const RETRY_MAX_DELAY_MS = 5 * 60_000;
+/** Conflicts kept for the sync indicator */
+const MAX_CONFLICTS = 20;
+/** Row versions kept; the least recently seen are forgotten first */
+const MAX_SERVER_VERSIONS = 2000;
+
+interface EnqueueInput<K extends SyncMutationKind> {
+  kind: K;
+  args: SyncMutationArgs[K];
+  entityId: string;
+  userId: string;
+}
+
+interface SyncQueueState {
+  mutations: SyncMutation[];
+  conflicts: SyncConflict[];
+  /** Server version of each row as this device last read or wrote it */
+  serverVersions: RowVersions;
+  isFlushing: boolean;
+  /** Queues a write and starts syncing */
+  enqueue: <K extends SyncMutationKind>(input: EnqueueInput<K>) => void;
+  /** Replays queued mutations for the signed-in user until the queue is empty or the network fails */
+  flush: () => Promise<void>;
+  /** Swaps local IDs for server IDs in queued mutations and every subscribed store */
+  remapIds: (idMap: SyncIdMap) => void;
+  /** Remembers the server versions of rows just read, as the base for later edits */
+  recordServerVersions: (versions: RowVersions) => void;
+  dismissConflicts: () => void;
+}
+
+export interface SyncListener {
+  /** Mutation kinds the listener's store writes; it is told about conflicts on these */
+  kinds: SyncMutationKind[];
+  onIdsRemapped?: (idMap: SyncIdMap) => void;
+  onConflict?: (conflict: SyncConflict) => void;
+}
+
+const syncListeners = new Set<SyncListener>();
+
+/** Mutation currently being sent; it can't be collapsed into or dropped */
+let inFlightMutationId: string | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAttempt = 0;
+
+const generateId = (): string => {
+  return `mutation_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+};
+
+/**
+ * Registers a store to hear about ID swaps and conflicts.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToSync = (listener: SyncListener): (() => void) => {
+  syncListeners.add(listener);
+  return () => {
+    syncListeners.delete(listener);
+  };
+};
+
+const referencesId = (mutation: SyncMutation, id: string): boolean => {
+  return mutation.entityId === id || JSON.stringify(mutation.args).includes(`"${id}"`);
+};
+
+export const useSyncQueueStore = create<SyncQueueState>()(
+  persist(
+    (set, get) => {
+      const scheduleRetry = () => {
+        if (retryTimer) {
+          clearTimeout(retryTimer);
+        }
+        const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** retryAttempt, RETRY_MAX_DELAY_MS);
+        retryAttempt += 1;
+        retryTimer = setTimeout(() => {
+          retryTimer = null;
+          void get().flush();
+        }, delay);
+        console.log(`[syncQueueStore] Retrying sync in ${delay}ms`);
+      };
+
+      /**
+       * Removes a mutation; a dropped create takes everything that depends on its local ID with it.
+       * Returns the dependents dropped along with it.
+       */
+      const dropMutation = (mutation: SyncMutation): SyncMutation[] => {
+        const dropDependents = isCreateMutation(mutation.kind) && isLocalId(mutation.entityId);
+        const dependents = dropDependents
+          ? get().mutations.filter((item) => item.id !== mutation.id && referencesId(item, mutation.entityId))
+          : [];
+        set((state) => ({
+          mutations: state.mutations.filter((item) =>
+            item.id !== mutation.id && !(dropDependents && referencesId(item, mutation.entityId)),
+          ),
+        }));
+        return dependents;
+      };
+
+      const recordConflict = (mutation: SyncMutation, reason: SyncConflict['reason']) => {
+        const conflict: SyncConflict = {
+          kind: mutation.kind,
+          entityId: mutation.entityId,
+          reason,
+          detectedAt: Date.now(),
+        };
+        console.warn('[syncQueueStore] Dropped', mutation.kind, 'for', mutation.entityId, `(${reason})`);
+        set((state) => ({ conflicts: [conflict, ...state.conflicts].slice(0, MAX_CONFLICTS) }));
+
+        syncListeners.forEach((listener) => {
+          if (listener.kinds.includes(mutation.kind)) {
+            listener.onConflict?.(conflict);
+          }
+        });
+      };
+
+      return {
+        mutations: [],
+        conflicts: [],
+        serverVersions: {},
+        isFlushing: false,
+
+        enqueue: ({ kind, args, entityId, userId }) => {
+          const mutations = get().mutations;
+          const isQueued = (item: SyncMutation) => item.id !== inFlightMutationId && item.userId === userId;
+          // Edits already queued for the row were made on an earlier version than the one read since
+          const baseModifiedAt = mutations.find((item) => isQueued(item) && item.entityId === entityId)?.baseModifiedAt
+            ?? get().serverVersions[entityId];
+
+          if (isDeleteMutation(kind)) {
+            const pendingCreate = mutations.find((item) =>
+              isQueued(item) && isCreateMutation(item.kind) && item.entityId === entityId,
+            );
+
+            // Never synced: forget the row instead of creating and deleting it
+            if (pendingCreate && isLocalId(entityId)) {
+              set({ mutations: mutations.filter((item) => !(isQueued(item) && referencesId(item, entityId))) });
+              return;
+            }
+
+            const mutation: SyncMutation = { id: generateId(), kind, args, entityId, userId, baseModifiedAt, attempts: 0 };
+            set({
+              mutations: [
+                ...mutations.filter((item) => !(isQueued(item) && item.entityId === entityId)),
+                mutation,
+              ],
+            });
+          } else {
+            const existing = isCreateMutation(kind)
+              ? undefined
+              : mutations.find((item) => isQueued(item) && item.kind === kind && item.entityId === entityId);
+
+            if (existing) {
+              const mergedArgs = mergeMutationArgs(kind, existing.args as SyncMutationArgs[typeof kind], args);
+              set({
+                mutations: mutations.map((item) =>
+                  item.id === existing.id
+                    ? { ...item, args: mergedArgs, attempts: 0, lastError: undefined }
+                    : item,
+                ),
+              });
+            } else {
+              const mutation: SyncMutation = { id: generateId(), kind, args, entityId, userId, baseModifiedAt, attempts: 0 };
+              set({ mutations: [...mutations, mutation] });
+            }
+          }
+
+          void get().flush();
+        },
+
+        flush: async () => {
+          if (get().isFlushing) {
+            return;
+          }
+
+          const userId = await getSessionUserId();
+          if (!userId || get().isFlushing) {
+            return;
+          }
+
+          if (retryTimer) {
+            clearTimeout(retryTimer);
+            retryTimer = null;
+          }
+          set({ isFlushing: true });
+
+          try {
+            while (true) {
+              const mutation = get().mutations.find((item) => item.userId === userId);
+              if (!mutation) {
+                break;
+              }
+
+              inFlightMutationId = mutation.id;
+
+              try {
+                const result = await applySyncMutation(mutation);
+                inFlightMutationId = null;
+                retryAttempt = 0;
+                dropMutation(mutation);
+
+                if (result.conflict) {
+                  recordConflict(mutation, result.conflict);
+                } else if (result.serverModifiedAt !== undefined) {
+                  get().recordServerVersions({ [mutation.entityId]: result.serverModifiedAt });
+                }
+
+                if (result.idMap) {
+                  get().remapIds(result.idMap);
+                }
+              } catch (error) {
+                inFlightMutationId = null;
+                const lastError = error instanceof Error ? error.message : String(error);
+
+                if (isNetworkError(error)) {
+                  console.warn('[syncQueueStore] Offline, keeping', get().mutations.length, 'queued mutations');
+                  set((state) => ({
+                    mutations: state.mutations.map((item) => (item.id === mutation.id ? { ...item, lastError } : item)),
+                  }));
+                  scheduleRetry();
+                  break;
+                }
+
+                const attempts = mutation.attempts + 1;
+                if (attempts >= MAX_SYNC_ATTEMPTS) {
+                  console.error('[syncQueueStore] Giving up on', mutation.kind, 'after', attempts, 'attempts:', error);
+                  // Surface the lost write and let the owning stores rehydrate from the server
+                  const dependents = dropMutation(mutation);
+                  [mutation, ...dependents].forEach((dropped) => recordConflict(dropped, 'sync-failed'));
+                  continue;
+                }
+
+                console.warn('[syncQueueStore] Failed to sync', mutation.kind, `(attempt ${attempts}):`, error);
+                set((state) => ({
+                  mutations: state.mutations.map((item) =>
+                    item.id === mutation.id ? { ...item, attempts, lastError } : item,
+                  ),
+                }));
+                scheduleRetry();
+                break;
+              }
+            }
+          } finally {
+            inFlightMutationId = null;
+            set({ isFlushing: false });
+          }
+        },
+
+        remapIds: (idMap) => {
+          set((state) => ({
+            mutations: state.mutations.map((mutation) => ({
+              ...mutation,
+              entityId: idMap[mutation.entityId] ?? mutation.entityId,
+              args: replaceIds(mutation.args, idMap),
+            })),
+          }));
+
+          syncListeners.forEach((listener) => listener.onIdsRemapped?.(idMap));
+        },
+
+        recordServerVersions: (versions) => {
+          set((state) => {
+            const serverVersions = { ...state.serverVersions };
+            Object.entries(versions).forEach(([id, version]) => {
+              // Re-insert so the most recently seen rows sit at the end
+              delete serverVersions[id];
+              serverVersions[id] = version;
+            });
+
+            const ids = Object.keys(serverVersions);
+            ids.slice(0, Math.max(0, ids.length - MAX_SERVER_VERSIONS)).forEach((id) => {
+              delete serverVersions[id];
+            });
+            return { serverVersions };
+          });
+        },
+
+        dismissConflicts: () => {
+          set({ conflicts: [] });
+        },
+      };
+    },
+    {
+      name: 'hercules-sync-queue',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        mutations: state.mutations,
+        conflicts: state.conflicts,
+        serverVersions: state.serverVersions,
+      }),
+    }
+  )
+);
+
+setRowVersionListener((versions) => useSyncQueueStore.getState().recordServerVersions(versions));
+
+/**
+ * Overlays queued local changes on rows fetched from Supabase, so hydrating doesn't
+ * undo edits that haven't synced: rows with pending writes keep their local version,
+ * rows with a pending delete stay gone and rows created offline are kept.
+ * getRelatedIds lists the IDs whose mutations touch an item, e.g. a plan and its workouts.
+ */
+export const mergeWithPendingMutations = <T extends { id: string }>(
+  serverItems: T[],
+  localItems: T[],
+  kinds: SyncMutationKind[],
+  getRelatedIds: (item: T) => string[] = (item) => [item.id],
+): T[] => {
+  const pending = useSyncQueueStore.getState().mutations.filter((mutation) => kinds.includes(mutation.kind));
+  if (pending.length === 0) {
+    return serverItems;
+  }
+
+  const touchedIds = new Set(pending.map((mutation) => mutation.entityId));
+  const deletedIds = new Set(
+    pending.filter((mutation) => isDeleteMutation(mutation.kind)).map((mutation) => mutation.entityId),
+  );
+  const localById = new Map(localItems.map((item) => [item.id, item]));
+  const isTouched = (item: T) => getRelatedIds(item).some((id) => touchedIds.has(id));
+
+  const createdOffline = localItems.filter((item) => isLocalId(item.id) && isTouched(item));
+  const merged = serverItems
+    .filter((item) => !deletedIds.has(item.id))
+    .map((item) => (isTouched(item) ? localById.get(item.id) ?? item : item));
+
+  return [...createdOffline, ...merged];
+};
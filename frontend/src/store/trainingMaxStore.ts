@@ -0,0 +1,151 @@
+/**
+ * trainingMaxStore
+ * Zustand store holding the user's training max per exercise, with AsyncStorage persistence.
+ *
+ * Training maxes:
+ * - Are keyed by exercise name and stored in lbs
+ * - Can be set by hand or seeded from the exercise's best e1RM in workout history
+ * - Rise by a fixed step for every completed cycle of the plan that uses them, when auto-bump is on
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+import { exercises as exerciseCatalog } from '@/constants/exercises';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
+import type { TrainingMax, TrainingMaxSource } from '@/types/trainingMax';
+import { getExerciseBests } from '@/utils/personalRecords';
+import { getTrainingMaxBump, seedTrainingMaxFromE1RM } from '@/utils/trainingMax';
+
+interface TrainingMaxState {
+  trainingMaxes: Record<string, TrainingMax>;
+  /** Latest plan cycle already accounted for, keyed by plan ID */
+  appliedCycles: Record<string, number>;
+  autoBumpEnabled: boolean;
+  setTrainingMax: (exerciseName: string, weightLbs: number, source?: TrainingMaxSource) => void;
+  removeTrainingMax: (exerciseName: string) => void;
+  /**
+   * Seeds training maxes from e1RM history, paging in all of it first.
+   * Existing training maxes are kept unless overwrite is set. Nothing is seeded while part of
+   * the history couldn't be loaded. Returns the names that were seeded.
+   */
+  seedFromHistory: (exerciseNames: string[], overwrite?: boolean) => Promise<string[]>;
+  /**
+   * Records that a plan has reached a cycle, bumping the given exercises' training maxes once
+   * per cycle completed since the last call. The first call for a plan only records the cycle.
+   */
+  applyPlanCycle: (planId: string, cycle: number, exerciseNames: string[]) => void;
+  setAutoBumpEnabled: (enabled: boolean) => void;
+}
+
+export const useTrainingMaxStore = create<TrainingMaxState>()(
+  persist(
+    (set, get) => ({
+      trainingMaxes: {},
+      appliedCycles: {},
+      autoBumpEnabled: true,
+
+      setTrainingMax: (exerciseName, weightLbs, source = 'manual') => {
+        if (!(weightLbs > 0)) {
+          return;
+        }
+
+        set((state) => ({
+          trainingMaxes: {
+            ...state.trainingMaxes,
+            [exerciseName]: { weightLbs, source, updatedAt: Date.now() },
+          },
+        }));
+      },
+
+      removeTrainingMax: (exerciseName) => {
+        set((state) => {
+          const { [exerciseName]: _removed, ...rest } = state.trainingMaxes;
+          return { trainingMaxes: rest };
+        });
+      },
+
+      seedFromHistory: async (exerciseNames, overwrite = false) => {
+        const isMissing = (name: string) => overwrite || !get().trainingMaxes[name];
+        if (!exerciseNames.some(isMissing)) {
+          return [];
+        }
+
+        // A best from the newest page alone would seed too low a max
+        await useWorkoutSessionsStore.getState().loadOlderWorkouts();
+        const { workouts, hasMoreHistory } = useWorkoutSessionsStore.getState();
+        const names = exerciseNames.filter(isMissing);
+        if (hasMoreHistory || names.length === 0) {
+          return [];
+        }
+
+        const { e1rmFormula } = useSettingsStore.getState();
+        const bests = getExerciseBests(workouts, names, e1rmFormula);
+        const now = Date.now();
+        const seeded: Record<string, TrainingMax> = {};
+
+        names.forEach((name) => {
+          const bestE1RM = bests.get(name)?.bestE1RM;
+          if (!bestE1RM) return;
+
+          const equipment = exerciseCatalog.find((exercise) => exercise.name === name)?.equipment ?? [];
+          const weightLbs = seedTrainingMaxFromE1RM(bestE1RM, equipment);
+          if (weightLbs > 0) {
+            seeded[name] = { weightLbs, source: 'e1rm', updatedAt: now };
+          }
+        });
+
+        if (Object.keys(seeded).length > 0) {
+          set((state) => ({ trainingMaxes: { ...state.trainingMaxes, ...seeded } }));
+        }
+        return Object.keys(seeded);
+      },
+
+      applyPlanCycle: (planId, cycle, exerciseNames) => {
+        const { appliedCycles, autoBumpEnabled, trainingMaxes } = get();
+        const previousCycle = appliedCycles[planId];
+        if (previousCycle !== undefined && cycle <= previousCycle) {
+          return;
+        }
+
+        const completedCycles = previousCycle === undefined ? 0 : cycle - previousCycle;
+        const bumped: Record<string, TrainingMax> = {};
+
+        if (autoBumpEnabled && completedCycles > 0) {
+          const now = Date.now();
+          new Set(exerciseNames).forEach((name) => {
+            const current = trainingMaxes[name];
+            if (!current) return;
+
+            const catalogExercise = exerciseCatalog.find((exercise) => exercise.name === name);
+            bumped[name] = {
+              weightLbs: current.weightLbs + getTrainingMaxBump(catalogExercise) * completedCycles,
+              source: 'bump',
+              updatedAt: now,
+            };
+          });
+        }
+
+        set((state) => ({
+          appliedCycles: { ...state.appliedCycles, [planId]: cycle },
+          trainingMaxes: { ...state.trainingMaxes, ...bumped },
+        }));
+      },
+
+      setAutoBumpEnabled: (enabled) => {
+        set({ autoBumpEnabled: enabled });
+      },
+    }),
+    {
+      name: 'hercules-training-maxes',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        trainingMaxes: state.trainingMaxes,
+        appliedCycles: state.appliedCycles,
+        autoBumpEnabled: state.autoBumpEnabled,
+      }),
+    }
+  )
+);
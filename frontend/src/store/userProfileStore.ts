@@ -6,6 +6,8 @@
 
 import { create } from 'zustand';
 import { supabaseClient } from '@/lib/supabaseClient';
+import { useBodyMetricsStore } from '@/store/bodyMetricsStore';
+import { getTodayLocalISO } from '@/utils/date';
 
 export type Gender = 'male' | 'female' | 'other' | 'prefer_not_to_say';
 export type ExperienceLevel = 'beginner' | 'intermediate' | 'advanced';
@@ -37,7 +39,7 @@ interface UserProfileState {
   fetchProfile: (userId: string) => Promise<void>;
   /** Update profile in store and database */
   updateProfile: (firstName: string, lastName: string) => Promise<void>;
-  /** Update body metrics (height/weight) */
+  /** Update body metrics (height/weight); a changed weight is also logged as today's weigh-in */
   updateBodyMetrics: (heightFeet: number, heightInches: number, weightLbs: number) => Promise<void>;
   /** Update a single profile field and sync to Supabase */
   updateProfileField: (field: string, value: any) => Promise<void>;
@@ -118,6 +120,11 @@ export const useUserProfileStore = create<UserProfileState>((set, get) => ({
   updateBodyMetrics: async (heightFeet: number, heightInches: number, weightLbs: number) => {
     const currentProfile = get().profile;
 
+    // Keep history: past workouts resolve bodyweight from the log, not the profile
+    if (weightLbs > 0 && weightLbs !== currentProfile?.weightLbs) {
+      useBodyMetricsStore.getState().logEntry({ date: getTodayLocalISO(), weightLbs });
+    }
+
     set({
       profile: {
         ...currentProfile,
@@ -151,6 +158,7 @@ export const useUserProfileStore = create<UserProfileState>((set, get) => ({
       primaryGoal: 'primary_goal',
       availableEquipment: 'available_equipment',
       trainingDaysPerWeek: 'training_days_per_week',
+      weightLbs: 'weight_lbs',
       onboardingCompleted: 'onboarding_completed',
     };
     const dbColumn = fieldMap[field];
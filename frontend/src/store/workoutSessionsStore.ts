@@ -1,15 +1,30 @@
 import { create } from 'zustand';
 
 import type { Workout } from '@/types/workout';
+import type { SyncMutationKind } from '@/types/syncQueue';
 import { supabaseClient } from '@/lib/supabaseClient';
 import {
-  fetchWorkoutSessions,
+  fetchWorkoutSessionIds,
+  fetchWorkoutSessionsChangedSince,
+  fetchWorkoutSessionsPage,
   createWorkoutSession,
-  updateWorkoutSession,
-  deleteWorkoutSession,
+  type WorkoutSessionsCursor,
 } from '@/lib/supabaseQueries';
+import { getSessionUserId, replaceIds } from '@/lib/syncQueue';
+import { mergeWithPendingMutations, subscribeToSync, useSyncQueueStore } from '@/store/syncQueueStore';
+import {
+  clearStoredWorkoutSessions,
+  loadStoredWorkoutSessions,
+  persistStoredWorkoutSessions,
+} from '@/utils/workoutSessionStorage';
 
 const SYNC_TIMEOUT_MS = 15_000;
+/** Delta syncs re-fetch this far before the last sync, covering clock skew between device and server */
+const DELTA_SYNC_OVERLAP_MS = 5 * 60_000;
+const PERSIST_DEBOUNCE_MS = 1_000;
+
+/** Completed workouts are created through pendingWorkoutSave; edits and deletes go through the sync queue */
+const WORKOUT_SYNC_KINDS: SyncMutationKind[] = ['updateWorkoutSession', 'deleteWorkoutSession'];
 
 /**
  * Wraps a promise with a timeout. Rejects with a timeout error if the
@@ -25,9 +40,107 @@ function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise
   });
 }
 
+/**
+ * Workout history hydration:
+ * - The last synced history is cached on disk per user and restored before any network call
+ * - First hydrate fetches the newest page; screens that need older history page it in with loadOlderWorkouts
+ * - Later hydrates only fetch rows changed since the last sync, plus the ID list to catch deletions
+ * - The cache keeps the newest workouts without GPS routes; restored routes come back with the next delta
+ */
+
+/** User whose history is in memory; null until the cache has been restored */
+let loadedUserId: string | null = null;
+/** Epoch ms of the last successful hydrate for loadedUserId; 0 forces a full first-page fetch */
+let lastHydratedAt = 0;
+/** Where the next page of older history starts; null once everything is loaded */
+let historyCursor: WorkoutSessionsCursor | null = null;
+let hydrationPromise: Promise<void> | null = null;
+/** Page of older history being fetched; hydration waits for it so neither overwrites the other */
+let pageLoadPromise: Promise<void> | null = null;
+/** Workouts whose offline edit lost a sync conflict or whose route wasn't cached; the next delta re-fetches them whatever their updated_at */
+const staleWorkoutIds = new Set<string>();
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+const hasPendingMutation = (id: string): boolean => {
+  return useSyncQueueStore.getState().mutations.some(
+    (mutation) => WORKOUT_SYNC_KINDS.includes(mutation.kind) && mutation.entityId === id,
+  );
+};
+
+/** Newest first, matching the order pages come back from Supabase */
+const sortWorkouts = (workouts: Workout[]): Workout[] => {
+  return [...workouts].sort((a, b) => {
+    if (a.date !== b.date) {
+      return a.date < b.date ? 1 : -1;
+    }
+    return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+  });
+};
+
+/** Applies changed rows to the current list and drops workouts that no longer exist on the server */
+const applyWorkoutDelta = (current: Workout[], changed: Workout[], serverIds: string[]): Workout[] => {
+  const liveIds = new Set(serverIds);
+  const changedIds = new Set(changed.map((workout) => workout.id));
+  const kept = current.filter((workout) => liveIds.has(workout.id) && !changedIds.has(workout.id));
+  return sortWorkouts([...changed.filter((workout) => liveIds.has(workout.id)), ...kept]);
+};
+
+/**
+ * Protect unsynced pending workout from being overwritten by hydration.
+ * If there is a pendingWorkoutSave in sessionStore (AsyncStorage), ensure
+ * it appears in the hydrated list so the user's data is never lost.
+ */
+const mergePendingWorkoutSave = (workouts: Workout[]): Workout[] => {
+  try {
+    const { useSessionStore } = require('@/store/sessionStore');
+    const pending: Workout | null = useSessionStore.getState().pendingWorkoutSave;
+    if (pending) {
+      const alreadySynced = workouts.some(
+        (w: Workout) => w.id === pending.id || (w.startTime === pending.startTime && w.name === pending.name),
+      );
+      if (!alreadySynced) {
+        console.log('[workoutSessionsStore] Merged pending workout into hydrated list');
+        return [pending, ...workouts];
+      }
+    }
+  } catch {
+    // Non-critical — if sessionStore isn't available, skip merge
+  }
+  return workouts;
+};
+
+const schedulePersist = (workouts: Workout[]) => {
+  const userId = loadedUserId;
+  if (!userId) {
+    return;
+  }
+
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+  }
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    if (loadedUserId !== userId) {
+      return;
+    }
+    persistStoredWorkoutSessions({
+      userId,
+      workouts,
+      syncedAt: lastHydratedAt,
+      nextCursor: historyCursor,
+      staleWorkoutIds: [...staleWorkoutIds],
+    }).catch(() => {
+      // Logged by workoutSessionStorage; the in-memory copy is still authoritative
+    });
+  }, PERSIST_DEBOUNCE_MS);
+};
+
 interface WorkoutSessionsState {
   workouts: Workout[];
   isLoading: boolean;
+  /** True while older history hasn't been fetched yet */
+  hasMoreHistory: boolean;
+  isLoadingMore: boolean;
   /** Original add (optimistic insert + Supabase sync). Kept for backward compat. */
   addWorkout: (workout: Workout) => Promise<void>;
   /** Instantly add a workout to local state only (no network). */
@@ -41,12 +154,25 @@ interface WorkoutSessionsState {
   deleteWorkout: (id: string) => Promise<void>;
   getWorkouts: () => Workout[];
   clearWorkouts: () => Promise<void>;
+  /** Fills the store from the on-disk cache without touching the network. No-op once loaded for the user. */
+  restoreCachedWorkouts: (userId?: string) => Promise<void>;
+  /** Syncs with Supabase: the newest page on first run, only changed rows after that */
   hydrateWorkouts: (userId?: string) => Promise<void>;
+  /** Fetches the next page of older history */
+  loadMoreWorkouts: () => Promise<void>;
+  /** Pages in older history until it reaches `since` (ISO date), or all of it when omitted */
+  loadOlderWorkouts: (since?: string) => Promise<void>;
+  /** Merges a workout created or edited on another device. Ignored while this device has unsynced edits to it. */
+  applyRemoteWorkout: (workout: Workout) => void;
+  /** Drops a workout deleted on another device */
+  removeRemoteWorkout: (id: string) => void;
 }
 
 export const useWorkoutSessionsStore = create<WorkoutSessionsState>((set, get) => ({
   workouts: [],
   isLoading: false,
+  hasMoreHistory: false,
+  isLoadingMore: false,
 
   addWorkoutLocally: (workout) => {
     const exists = get().workouts.some((w) => w.id === workout.id);
@@ -74,12 +200,14 @@ export const useWorkoutSessionsStore = create<WorkoutSessionsState>((set, get) =
         'createWorkoutSession',
       );
 
-      // Replace optimistic ID with Supabase UUID in local state
+      // Replace optimistic ID with Supabase UUID in local state and in any queued edits.
+      // The realtime echo of the insert may already have added the server row.
       set({
-        workouts: get().workouts.map((existing) =>
-          existing.id === workout.id ? { ...existing, id: newId } : existing
-        ),
+        workouts: get().workouts
+          .filter((existing) => existing.id !== newId)
+          .map((existing) => (existing.id === workout.id ? { ...existing, id: newId } : existing)),
       });
+      useSyncQueueStore.getState().remapIds({ [workout.id]: newId });
 
       console.log('[workoutSessionsStore] Workout synced to Supabase:', newId);
       return true;
@@ -98,47 +226,41 @@ export const useWorkoutSessionsStore = create<WorkoutSessionsState>((set, get) =
   },
 
   updateWorkout: async (workout) => {
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
-        console.error('[workoutSessionsStore] No authenticated user');
-        return;
-      }
+    const userId = await getSessionUserId();
+    if (!userId) {
+      console.error('[workoutSessionsStore] No authenticated user');
+      return;
+    }
 
-      // Optimistic update
-      const next = get().workouts.map((existing) => (existing.id === workout.id ? workout : existing));
-      set({ workouts: next });
+    // Optimistic update, kept even while offline
+    const next = get().workouts.map((existing) => (existing.id === workout.id ? workout : existing));
+    set({ workouts: next });
 
-      // Sync to Supabase
-      await updateWorkoutSession(user.id, workout);
-      console.log('[workoutSessionsStore] Workout updated in Supabase');
-    } catch (error) {
-      console.error('[workoutSessionsStore] Failed to update workout', error);
-      // Revert optimistic update on error
-      await get().hydrateWorkouts();
-    }
+    useSyncQueueStore.getState().enqueue({
+      kind: 'updateWorkoutSession',
+      entityId: workout.id,
+      userId,
+      args: [workout],
+    });
   },
 
   deleteWorkout: async (id) => {
-    try {
-      const { data: { user } } = await supabaseClient.auth.getUser();
-      if (!user) {
-        console.error('[workoutSessionsStore] No authenticated user');
-        return;
-      }
+    const userId = await getSessionUserId();
+    if (!userId) {
+      console.error('[workoutSessionsStore] No authenticated user');
+      return;
+    }
 
-      // Optimistic update
-      const next = get().workouts.filter((workout) => workout.id !== id);
-      set({ workouts: next });
+    // Optimistic update, kept even while offline
+    const next = get().workouts.filter((workout) => workout.id !== id);
+    set({ workouts: next });
 
-      // Sync to Supabase
-      await deleteWorkoutSession(user.id, id);
-      console.log('[workoutSessionsStore] Workout deleted from Supabase');
-    } catch (error) {
-      console.error('[workoutSessionsStore] Failed to delete workout', error);
-      // Revert optimistic update on error
-      await get().hydrateWorkouts();
-    }
+    useSyncQueueStore.getState().enqueue({
+      kind: 'deleteWorkoutSession',
+      entityId: id,
+      userId,
+      args: [id],
+    });
   },
 
   getWorkouts: () => {
@@ -146,61 +268,240 @@ export const useWorkoutSessionsStore = create<WorkoutSessionsState>((set, get) =
   },
 
   clearWorkouts: async () => {
-    set({ workouts: [] });
+    const userId = loadedUserId;
+    loadedUserId = null;
+    lastHydratedAt = 0;
+    historyCursor = null;
+    staleWorkoutIds.clear();
+    set({ workouts: [], hasMoreHistory: false });
+
+    if (userId) {
+      await clearStoredWorkoutSessions(userId);
+    }
   },
 
-  hydrateWorkouts: async (userId?: string) => {
-    try {
-      set({ isLoading: true });
-      
-      // Use provided userId or fetch from auth
-      let uid = userId;
-      if (!uid) {
-        const { data: { user } } = await supabaseClient.auth.getUser();
-        uid = user?.id;
-      }
+  restoreCachedWorkouts: async (userId?: string) => {
+    const uid = userId ?? await getSessionUserId();
+    if (!uid || loadedUserId === uid) {
+      return;
+    }
 
-      if (!uid) {
-        console.log('[workoutSessionsStore] No authenticated user, skipping hydration');
-        set({ workouts: [], isLoading: false });
-        return;
-      }
+    const snapshot = await loadStoredWorkoutSessions(uid);
+    if (loadedUserId === uid) {
+      return;
+    }
+
+    // Workouts added before the first restore belong to this user; another user's history doesn't
+    const current = loadedUserId === null ? get().workouts : [];
+    const cached = snapshot?.workouts ?? [];
+    const cachedIds = new Set(cached.map((workout) => workout.id));
 
-      const workouts = await fetchWorkoutSessions(uid);
+    loadedUserId = uid;
+    lastHydratedAt = snapshot?.syncedAt ?? 0;
+    historyCursor = snapshot?.nextCursor ?? null;
+    snapshot?.staleWorkoutIds.forEach((id) => staleWorkoutIds.add(id));
+    set({
+      workouts: [...current.filter((workout) => !cachedIds.has(workout.id)), ...cached],
+      hasMoreHistory: historyCursor !== null,
+    });
+
+    if (snapshot) {
+      console.log('[workoutSessionsStore] Restored', cached.length, 'cached workouts');
+    }
+  },
 
-      // Protect unsynced pending workout from being overwritten by hydration.
-      // If there is a pendingWorkoutSave in sessionStore (AsyncStorage), ensure
-      // it appears in the hydrated list so the user's data is never lost.
+  hydrateWorkouts: async (userId?: string) => {
+    if (hydrationPromise) {
+      return hydrationPromise;
+    }
+
+    hydrationPromise = (async () => {
       try {
-        const { useSessionStore } = require('@/store/sessionStore');
-        const pending: Workout | null = useSessionStore.getState().pendingWorkoutSave;
-        if (pending) {
-          const alreadySynced = workouts.some(
-            (w: Workout) => w.id === pending.id || (w.startTime === pending.startTime && w.name === pending.name),
-          );
-          if (!alreadySynced) {
-            workouts.unshift(pending);
-            console.log('[workoutSessionsStore] Merged pending workout into hydrated list');
+        set({ isLoading: true });
+
+        // Use provided userId or fetch from auth
+        let uid = userId;
+        if (!uid) {
+          const { data: { user } } = await supabaseClient.auth.getUser();
+          uid = user?.id;
+        }
+
+        if (!uid) {
+          console.log('[workoutSessionsStore] No authenticated user, skipping hydration');
+          loadedUserId = null;
+          lastHydratedAt = 0;
+          historyCursor = null;
+          set({ workouts: [], isLoading: false, hasMoreHistory: false });
+          return;
+        }
+
+        await get().restoreCachedWorkouts(uid);
+        if (pageLoadPromise) {
+          await pageLoadPromise;
+        }
+
+        const startedAt = Date.now();
+        let serverWorkouts: Workout[];
+        let nextCursor = historyCursor;
+
+        if (lastHydratedAt > 0) {
+          const since = new Date(lastHydratedAt - DELTA_SYNC_OVERLAP_MS).toISOString();
+          const refetchIds = [...staleWorkoutIds];
+          const [changed, serverIds] = await Promise.all([
+            fetchWorkoutSessionsChangedSince(uid, since, refetchIds),
+            fetchWorkoutSessionIds(uid),
+          ]);
+
+          if (!changed || !serverIds) {
+            console.warn('[workoutSessionsStore] Delta sync failed, keeping', get().workouts.length, 'local workouts');
+            set({ isLoading: false });
+            return;
           }
+
+          refetchIds.forEach((id) => staleWorkoutIds.delete(id));
+          serverWorkouts = applyWorkoutDelta(get().workouts, changed, serverIds);
+          console.log('[workoutSessionsStore] Applied', changed.length, 'changed workouts from Supabase');
+        } else {
+          const page = await fetchWorkoutSessionsPage(uid);
+
+          if (!page) {
+            console.warn('[workoutSessionsStore] Hydration failed, keeping', get().workouts.length, 'local workouts');
+            set({ isLoading: false });
+            return;
+          }
+
+          serverWorkouts = page.workouts;
+          nextCursor = page.nextCursor;
+          console.log('[workoutSessionsStore] Hydrated', page.workouts.length, 'workouts from Supabase');
         }
+
+        if (loadedUserId !== uid) {
+          set({ isLoading: false });
+          return;
+        }
+
+        const workouts = mergePendingWorkoutSave(
+          mergeWithPendingMutations(serverWorkouts, get().workouts, WORKOUT_SYNC_KINDS),
+        );
+
+        lastHydratedAt = startedAt;
+        historyCursor = nextCursor;
+        set({ workouts, isLoading: false, hasMoreHistory: nextCursor !== null });
       } catch {
-        // Non-critical — if sessionStore isn't available, skip merge
+        // Silently handle hydration failures - network issues are expected during app startup
+        // Keep existing local state if any, instead of wiping to empty
+        const current = get().workouts;
+        if (current.length > 0) {
+          console.warn('[workoutSessionsStore] Hydration failed, keeping', current.length, 'local workouts');
+        }
+        set({ isLoading: false });
+      } finally {
+        hydrationPromise = null;
       }
+    })();
 
-      set({ workouts, isLoading: false });
-      console.log('[workoutSessionsStore] Hydrated', workouts.length, 'workouts from Supabase');
-    } catch {
-      // Silently handle hydration failures - network issues are expected during app startup
-      // Keep existing local state if any, instead of wiping to empty
-      const current = get().workouts;
-      if (current.length === 0) {
-        set({ isLoading: false });
-      } else {
-        console.warn('[workoutSessionsStore] Hydration failed, keeping', current.length, 'local workouts');
-        set({ isLoading: false });
+    return hydrationPromise;
+  },
+
+  loadMoreWorkouts: async () => {
+    const uid = loadedUserId;
+    const cursor = historyCursor;
+    // A running hydration may replace the cursor, so page only once it settles
+    if (!uid || !cursor || pageLoadPromise || hydrationPromise) {
+      return pageLoadPromise ?? undefined;
+    }
+
+    pageLoadPromise = (async () => {
+      set({ isLoadingMore: true });
+      try {
+        const page = await fetchWorkoutSessionsPage(uid, cursor);
+
+        if (!page || loadedUserId !== uid || historyCursor !== cursor) {
+          return;
+        }
+
+        // Delta syncs can already have pulled in older rows that were edited recently,
+        // inserted wherever their date falls, so merge the page back into date order
+        const loadedIds = new Set(get().workouts.map((workout) => workout.id));
+        historyCursor = page.nextCursor;
+        set({
+          workouts: sortWorkouts([...get().workouts, ...page.workouts.filter((workout) => !loadedIds.has(workout.id))]),
+          hasMoreHistory: page.nextCursor !== null,
+        });
+        console.log('[workoutSessionsStore] Loaded', page.workouts.length, 'older workouts');
+      } finally {
+        pageLoadPromise = null;
+        set({ isLoadingMore: false });
       }
+    })();
+
+    return pageLoadPromise;
+  },
+
+  loadOlderWorkouts: async (since) => {
+    const sinceTime = since ? new Date(since).getTime() : -Infinity;
+
+    while (true) {
+      if (hydrationPromise) {
+        await hydrationPromise;
+      }
+
+      const cursor = historyCursor;
+      if (!cursor || new Date(cursor.date).getTime() < sinceTime) {
+        return;
+      }
+
+      await get().loadMoreWorkouts();
+      if (historyCursor === cursor) {
+        return;
+      }
+    }
+  },
+
+  applyRemoteWorkout: (workout) => {
+    if (hasPendingMutation(workout.id)) {
+      return;
+    }
+
+    const current = get().workouts;
+    if (current.some((existing) => existing.id === workout.id)) {
+      set({ workouts: current.map((existing) => (existing.id === workout.id ? workout : existing)) });
+      return;
+    }
+
+    // This device's own save, still under its optimistic ID until syncWorkoutToSupabase swaps it
+    const isOwnOptimisticSave = current.some(
+      (existing) => existing.startTime === workout.startTime && existing.name === workout.name,
+    );
+    if (!isOwnOptimisticSave) {
+      set({ workouts: sortWorkouts([workout, ...current]) });
     }
   },
+
+  removeRemoteWorkout: (id) => {
+    if (hasPendingMutation(id)) {
+      return;
+    }
+    set({ workouts: get().workouts.filter((workout) => workout.id !== id) });
+  },
 }));
 
+// Keep the on-disk cache in step with every change, including local edits made offline
+useWorkoutSessionsStore.subscribe((state, previous) => {
+  if (state.workouts !== previous.workouts) {
+    schedulePersist(state.workouts);
+  }
+});
+
+subscribeToSync({
+  kinds: WORKOUT_SYNC_KINDS,
+  onIdsRemapped: (idMap) => {
+    useWorkoutSessionsStore.setState((state) => ({ workouts: replaceIds(state.workouts, idMap) }));
+  },
+  onConflict: (conflict) => {
+    staleWorkoutIds.add(conflict.entityId);
+    void useWorkoutSessionsStore.getState().hydrateWorkouts();
+  },
+});
+
 export type { WorkoutSessionsState };
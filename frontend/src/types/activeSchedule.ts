@@ -79,6 +79,8 @@ export interface TodayWorkoutResult {
   label: string;
   /** Additional context about the schedule */
   context?: string;
+  /** Week of the plan (1-based) for plan-driven schedules */
+  planWeek?: number;
 }
 
 /** Helper type for schedule summary display */
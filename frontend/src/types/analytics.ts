@@ -49,6 +49,13 @@ export interface WeeklyVolumeData {
   };
 }
 
+// Volume per mid-tier muscle (Chest, Back, Quads, etc.) for one Monday-start week
+export interface WeeklyMuscleVolume {
+  weekStart: string; // YYYY-MM-DD of the week's Monday
+  mid: Record<string, number>;
+  total: number;
+}
+
 // Time range for analytics
 // 'week' = last 7 days, 'month' = since first of current month, 'year' = since first of current year, 'all' = all time
 export type TimeRange = 'week' | 'month' | 'year' | 'all';
@@ -0,0 +1,40 @@
+/**
+ * TypeScript interfaces for the dated body-metrics log.
+ * Weight is stored in lbs and circumferences in inches, like the rest of storage;
+ * convert with the user's weight and size units for display.
+ */
+
+/** Circumference measurement sites */
+export type BodyMeasurementSite = 'neck' | 'chest' | 'waist' | 'hips' | 'arm' | 'thigh' | 'calf';
+
+export const BODY_MEASUREMENT_SITES: BodyMeasurementSite[] = ['neck', 'chest', 'waist', 'hips', 'arm', 'thigh', 'calf'];
+
+export const BODY_MEASUREMENT_LABELS: Record<BodyMeasurementSite, string> = {
+  neck: 'Neck',
+  chest: 'Chest',
+  waist: 'Waist',
+  hips: 'Hips',
+  arm: 'Arm',
+  thigh: 'Thigh',
+  calf: 'Calf',
+};
+
+/** Circumferences in inches; sites that were not measured are omitted */
+export type BodyMeasurements = Partial<Record<BodyMeasurementSite, number>>;
+
+export interface BodyMetricEntry {
+  id: string;
+  /** Local calendar day in YYYY-MM-DD format; one entry per day */
+  date: string;
+  weightLbs: number | null;
+  bodyFatPercent: number | null;
+  measurements: BodyMeasurements;
+  createdAt: number;
+}
+
+/** Fields a new or updated entry can set */
+export type BodyMetricEntryInput = Pick<BodyMetricEntry, 'date'> &
+  Partial<Pick<BodyMetricEntry, 'weightLbs' | 'bodyFatPercent' | 'measurements'>>;
+
+/** Metrics that can be charted over time */
+export type BodyMetricKey = 'weight' | 'bodyFat' | BodyMeasurementSite;
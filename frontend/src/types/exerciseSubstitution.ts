@@ -0,0 +1,56 @@
+/**
+ * exerciseSubstitution
+ * TypeScript interfaces and tuning for ranking equivalent exercises to swap in,
+ * e.g. when the machine a workout calls for is taken.
+ */
+
+import type { EquipmentType, Exercise } from '@/types/exercise';
+
+/** What a swap has in common with the exercise it replaces */
+export type SubstituteMatchReason = 'same_pattern' | 'same_muscles' | 'same_equipment';
+
+/** A ranked swap for an exercise */
+export interface ExerciseSubstitute {
+  exercise: Exercise;
+  /** 0–1 similarity to the exercise being replaced */
+  score: number;
+  reasons: SubstituteMatchReason[];
+}
+
+export const SUBSTITUTE_REASON_LABELS: Record<SubstituteMatchReason, string> = {
+  same_pattern: 'Same movement',
+  same_muscles: 'Same muscles',
+  same_equipment: 'Same equipment',
+};
+
+/**
+ * Typical working load on each kind of equipment relative to a barbell, for the same
+ * movement. Dumbbells and kettlebells are per hand. Used to carry weights across a swap.
+ */
+export const EQUIPMENT_LOAD_FACTORS: Partial<Record<EquipmentType, number>> = {
+  Barbell: 1,
+  'Trap Bar': 1.1,
+  'Smith Machine': 0.9,
+  Machine: 1,
+  Cable: 0.7,
+  Dumbbell: 0.4,
+  Kettlebell: 0.4,
+};
+
+/** Configuration constants for the substitution ranking */
+export const SUBSTITUTION_CONFIG = {
+  /** Share of the score from overlap of the muscle weightings (cosine similarity) */
+  MUSCLE_WEIGHT: 0.6,
+  /** Share of the score for sharing a movement pattern */
+  PATTERN_WEIGHT: 0.25,
+  /** Share of the score for both being compound (or both isolation) */
+  COMPOUND_WEIGHT: 0.1,
+  /** Share of the score from overlap of the equipment used */
+  EQUIPMENT_WEIGHT: 0.05,
+  /** Candidates scoring below this aren't offered */
+  MIN_SCORE: 0.45,
+  /** Muscle similarity at or above this counts as working the same muscles */
+  SAME_MUSCLES_THRESHOLD: 0.8,
+  /** Swaps offered at most */
+  MAX_RESULTS: 12,
+} as const;
@@ -0,0 +1,69 @@
+/**
+ * fatigue
+ * TypeScript interfaces and tuning for the fatigue model that recommends deload weeks.
+ * Weeks start on Monday and are keyed by that Monday's YYYY-MM-DD date.
+ */
+
+import { SMART_CONFIG } from '@/types/smartSuggestions';
+
+/** Why the fatigue model thinks a deload is due */
+export type FatigueSignalType = 'volume_spike' | 'rep_drop' | 'overdue';
+
+export interface FatigueSignal {
+  type: FatigueSignalType;
+  /** Muscle for volume spikes, exercise for rep drops; null when overdue */
+  subject: string | null;
+  /**
+   * Fractional change behind the signal, e.g. 0.4 for a 40% volume jump or -0.2 for 20% fewer reps.
+   * Weeks without a deload when overdue.
+   */
+  change: number;
+}
+
+/** Output of the fatigue model for the current week */
+export interface FatigueAssessment {
+  /** 0–1, how strongly recent training points to accumulated fatigue */
+  score: number;
+  signals: FatigueSignal[];
+  /** Whole weeks since the last deload (accepted or detected), null if none is known */
+  weeksSinceDeload: number | null;
+  shouldDeload: boolean;
+  /** Monday of the week a deload is recommended for, null when none is recommended */
+  recommendedWeekStart: string | null;
+}
+
+/** Tuning for the fatigue model and for the sessions generated during a deload week */
+export const FATIGUE_CONFIG = {
+  /** Weeks of per-muscle volume the model looks at, current week included */
+  HISTORY_WEEKS: SMART_CONFIG.MIN_WEEKS_DELOAD_AUTO,
+  /** Most recent complete weeks compared against the baseline */
+  RECENT_WEEKS: 2,
+  /** Complete weeks before the recent ones that form the baseline */
+  BASELINE_WEEKS: 4,
+  /** Recent weekly volume at or above this multiple of the baseline counts as a spike */
+  VOLUME_SPIKE_RATIO: 1.3,
+  /** Muscles with less baseline volume than this share of the weekly total are ignored */
+  MIN_MUSCLE_SHARE: 0.05,
+  /** Spiking muscles needed for the volume component to max out */
+  SPIKES_FOR_FULL_SCORE: 3,
+  /** Sessions compared on each side when looking for a rep drop */
+  REP_DROP_SESSIONS: 3,
+  /** Average reps falling by this fraction at the same or a heavier load counts as a drop */
+  REP_DROP_THRESHOLD: 0.15,
+  /** Loads within this fraction of each other count as the same load */
+  REP_DROP_LOAD_TOLERANCE: 0.025,
+  /** Exercises with a rep drop needed for the rep component to max out */
+  REP_DROPS_FOR_FULL_SCORE: 2,
+  /** Share of the score that comes from volume spikes; the rest comes from rep drops */
+  VOLUME_SCORE_WEIGHT: 0.4,
+  /** Score at or above which a deload is recommended */
+  RECOMMEND_SCORE: 0.5,
+  /** Weeks of training history required before anything is recommended */
+  MIN_TRAINING_WEEKS: 4,
+  /** Weeks after a deload during which no new one is recommended */
+  COOLDOWN_WEEKS: 4,
+  /** Deload weeks keep this share of the working sets */
+  DELOAD_SET_FACTOR: 0.5,
+  /** Deload weeks keep this share of the load */
+  DELOAD_LOAD_FACTOR: 0.9,
+} as const;
@@ -0,0 +1,45 @@
+/**
+ * Gym profile types
+ * Where the user trains: the equipment on hand and the weight steps it allows.
+ */
+
+import type { WeightUnit } from '@/store/settingsStore';
+import type { EquipmentType } from '@/types/exercise';
+
+export interface PlateStock {
+  /** Plate weight in the inventory's unit */
+  weight: number;
+  /** Pairs available; one plate of each pair goes on each side */
+  pairs: number;
+}
+
+export interface PlateInventory {
+  barWeight: number;
+  /** Heaviest plate first */
+  plates: PlateStock[];
+}
+
+export interface GymProfile {
+  id: string;
+  name: string;
+  /** Equipment available at this gym */
+  equipment: EquipmentType[];
+  /** Jump between dumbbells (and kettlebells), per weight unit */
+  dumbbellIncrements: Record<WeightUnit, number>;
+  /** Weight stack step for machines and cables, per weight unit */
+  machineIncrements: Record<WeightUnit, number>;
+  /** Bar weight and plates on hand, per weight unit, each in its own unit */
+  plateInventories: Record<WeightUnit, PlateInventory>;
+}
+
+/** Compact description of the active gym profile sent with Hercules AI requests */
+export interface GymProfileForAI {
+  name: string;
+  equipment: EquipmentType[];
+  weightUnit: WeightUnit;
+  dumbbellIncrement: number;
+  machineIncrement: number;
+  barWeight: number;
+  /** Plate sizes with at least one pair, heaviest first */
+  plates: number[];
+}
@@ -3,6 +3,8 @@
  * Frontend type definitions for AI chat functionality
  */
 
+import type { GymProfileForAI } from '@/types/gymProfile';
+
 export type ChatRole = 'user' | 'assistant' | 'system';
 
 export interface NavigationLink {
@@ -58,6 +60,7 @@ export interface ChatRequestBody {
   title?: string;
   timezone?: string;
   appStats?: AppStats;
+  gymProfile?: GymProfileForAI;
 }
 
 export interface ChatResponseBody {
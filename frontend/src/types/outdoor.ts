@@ -12,6 +12,56 @@ export interface GpsCoordinate {
 
 export type OutdoorSessionStatus = 'idle' | 'active' | 'paused' | 'finished';
 
+/** A point on a route's smoothed elevation profile */
+export interface ElevationProfilePoint {
+  /** Distance along the route in miles */
+  distanceMiles: number;
+  /** Smoothed altitude in meters */
+  altitudeMeters: number;
+  /** Grade of the climb leading to this point, as a fraction (0.05 = 5%) */
+  grade: number;
+}
+
+/** Total climbing and descending over a route, in meters */
+export interface ElevationChange {
+  gainMeters: number;
+  lossMeters: number;
+}
+
+/** Distance automatic splits are taken every, following the user's distance unit */
+export type SplitUnit = 'mi' | 'km';
+
+/** Where a split or lap ended, as distance and moving time since the start */
+export interface SplitMark {
+  distanceMiles: number;
+  elapsedSeconds: number;
+}
+
+/** One split or lap of an outdoor session */
+export interface OutdoorSplit {
+  distanceMiles: number;
+  /** Moving time, paused time excluded */
+  durationSeconds: number;
+}
+
+/** Splits and laps saved with an outdoor workout */
+export interface OutdoorSplits {
+  unit: SplitUnit;
+  /** Automatic splits every mile or km; the last one is usually partial */
+  splits: OutdoorSplit[];
+  /** Manual laps; empty when the lap button was never used */
+  laps: OutdoorSplit[];
+}
+
+/** What the user is aiming for in an outdoor session, set before starting */
+export type OutdoorTarget =
+  | { type: 'pace'; fastestPaceSecondsPerMile: number; slowestPaceSecondsPerMile: number }
+  | { type: 'distance'; distanceMiles: number }
+  | { type: 'time'; durationSeconds: number };
+
+/** Where the current pace sits relative to a target pace range */
+export type PaceTargetStatus = 'slow' | 'on-target' | 'fast';
+
 export interface OutdoorSessionData {
   exerciseName: string;
   status: OutdoorSessionStatus;
@@ -28,4 +78,25 @@ export interface OutdoorSessionData {
   pausedDurationMs: number;
   /** Timestamp when pause started (null if not paused) */
   pauseStartTime: number | null;
+  /** Unit automatic splits are taken in, fixed when tracking starts */
+  splitUnit: SplitUnit;
+  /** Ends of the automatic splits completed so far */
+  splitMarks: SplitMark[];
+  /** Ends of the manual laps marked so far */
+  lapMarks: SplitMark[];
+  /** Pace range or distance/time goal chosen before starting, if any */
+  target: OutdoorTarget | null;
+}
+
+/** File formats a recorded route can be shared in */
+export type RouteFileFormat = 'gpx' | 'tcx';
+
+/** A route read from a GPX file recorded elsewhere, e.g. on a watch */
+export interface ParsedRoute {
+  /** Track name from the file, if it has one */
+  name: string | null;
+  /** Activity type from the file (e.g. "running"), if it has one */
+  activityType: string | null;
+  /** Timestamped track points in recording order */
+  coordinates: GpsCoordinate[];
 }
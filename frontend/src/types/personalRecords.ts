@@ -0,0 +1,93 @@
+/**
+ * TypeScript interfaces for personal-record history.
+ * Weights and volumes are in lbs, like the workouts they are computed from.
+ */
+
+/**
+ * Kinds of personal record tracked per weighted exercise.
+ * - rep_max: heaviest weight lifted for an exact rep count (1RM–12RM)
+ * - volume_set: highest weight × reps in a single set
+ * - session_volume: highest total working volume in one session
+ */
+export type PersonalRecordKind = 'rep_max' | 'volume_set' | 'session_volume';
+
+/** Where a record was set, used to deep-link to the workout */
+export interface PersonalRecordSource {
+  workoutId: string;
+  date: string;
+}
+
+export interface RepMaxRecord extends PersonalRecordSource {
+  reps: number;
+  weight: number;
+}
+
+export interface VolumeSetRecord extends PersonalRecordSource {
+  weight: number;
+  reps: number;
+  volume: number;
+}
+
+export interface SessionVolumeRecord extends PersonalRecordSource {
+  volume: number;
+}
+
+/** A record being broken, for the PR timeline */
+export interface PersonalRecordEvent extends PersonalRecordSource {
+  kind: PersonalRecordKind;
+  exerciseName: string;
+  /** Rep count for rep_max and volume_set events */
+  reps?: number;
+  /** Weight for rep_max and volume_set events */
+  weight?: number;
+  /** New record value: weight for rep_max, volume for the volume kinds */
+  value: number;
+  /** Record value that was beaten */
+  previousValue: number;
+}
+
+export interface ExercisePersonalRecords {
+  exerciseName: string;
+  /** Index 0 is the 1RM, index 11 the 12RM; null when never lifted for that many reps */
+  repMaxes: (RepMaxRecord | null)[];
+  bestVolumeSet: VolumeSetRecord | null;
+  bestSessionVolume: SessionVolumeRecord | null;
+  /** Broken records for this exercise, newest first */
+  timeline: PersonalRecordEvent[];
+  /** Date of the most recent session with this exercise */
+  lastPerformed: string;
+}
+
+/**
+ * Records a single set can break while a session is in progress.
+ * - weight: heaviest weight ever lifted for the exercise
+ * - rep_max: heaviest weight for this exact rep count
+ * - e1rm: highest estimated one-rep max
+ */
+export type SetPersonalRecordType = 'weight' | 'rep_max' | 'e1rm';
+
+export const SET_PERSONAL_RECORD_LABELS: Record<SetPersonalRecordType, string> = {
+  weight: 'Heaviest',
+  rep_max: 'Rep Max',
+  e1rm: 'e1RM',
+};
+
+/** Best values for one exercise that a new set is compared against (lbs) */
+export interface ExerciseBests {
+  maxWeight: number;
+  /** Index 0 is the 1RM; 0 when never lifted for that many reps */
+  repMaxes: number[];
+  bestE1RM: number;
+}
+
+/** A set from the current session that broke one or more records */
+export interface SetPersonalRecord {
+  exerciseName: string;
+  setIndex: number;
+  types: SetPersonalRecordType[];
+  /** lbs */
+  weight: number;
+  reps: number;
+  /** lbs */
+  e1rm: number;
+}
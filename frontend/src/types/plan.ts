@@ -1,9 +1,82 @@
-export interface PlanExercise {
+import type { Exercise } from '@/types/exercise';
+import type { RepRange } from '@/types/smartSuggestions';
+import type { ExerciseGrouping } from '@/types/workout';
+
+/**
+ * One week's prescription for a plan exercise.
+ * Load is given as a percentage of training max, a percentage of estimated 1RM or a
+ * target RPE, in that order of precedence; a target RPE is always shown as a guide.
+ */
+export interface PlanWeekPrescription {
+  /** Working sets this week; falls back to the exercise's base `sets` */
+  sets?: number;
+  /** Target reps per working set */
+  reps?: RepRange;
+  /** Load as a percentage of estimated 1RM (e.g. 75) */
+  percent1RM?: number;
+  /** Load as a percentage of the exercise's training max (e.g. 85) */
+  percentTM?: number;
+  /** Target rating of perceived exertion (6–10) */
+  rpe?: number;
+}
+
+/**
+ * Target for one working set of a template exercise.
+ * Load is a fixed weight, a percentage of estimated 1RM or a percentage of training max.
+ */
+export interface TemplateSetTarget {
+  /** Rep target; min === max for a fixed count. For AMRAP sets this is the minimum to hit */
+  reps?: RepRange;
+  /** As many reps as possible */
+  amrap?: boolean;
+  /** Fixed target weight (lbs) */
+  weightLbs?: number;
+  /** Load as a percentage of estimated 1RM (e.g. 80) */
+  percent1RM?: number;
+  /** Load as a percentage of the exercise's training max (e.g. 85) */
+  percentTM?: number;
+}
+
+/** Set-by-set targets for a template exercise, e.g. "4×6–8 @ 185" or "3×AMRAP" */
+export interface ExerciseTargets {
+  /** One entry per working set; its length is the exercise's set count */
+  sets: TemplateSetTarget[];
+  /** Tempo as eccentric-pause-concentric-pause seconds, e.g. "3-1-1-0" */
+  tempo?: string;
+  /** Rest between sets in seconds; replaces the set-type default unless the user picked a rest for the exercise */
+  restSeconds?: number;
+}
+
+export interface PlanExercise extends ExerciseGrouping {
   id: string;
   name: string;
   sets: number;
+  targets?: ExerciseTargets;
+  /**
+   * Week-by-week prescriptions; index 0 is week 1.
+   * Shorter lists repeat as a wave, so four entries cover weeks 5–8 again.
+   */
+  weeks?: PlanWeekPrescription[];
+}
+
+/** Where a running plan is in its program when a session starts */
+export interface PlanWeekContext {
+  /** 1-based week within the program */
+  week: number;
+  /** Program length in weeks, when the plan declares one */
+  totalWeeks?: number;
+  isDeload: boolean;
 }
 
+/** Plan week a session was seeded from, with each exercise's prescription for that week */
+export interface SessionPlanWeek extends PlanWeekContext {
+  /** Keyed by exercise name; deload adjustments already applied */
+  prescriptions: Record<string, PlanWeekPrescription>;
+}
+
+/** Catalog exercise as placed in a workout template, including its superset/circuit membership and targets */
+export type TemplateExercise = Exercise & ExerciseGrouping & Pick<PlanExercise, 'targets'>;
+
 export interface WorkoutPlan {
   id: string;
   name: string;
@@ -60,6 +60,7 @@ export interface PlanMetadata {
   equipment: EquipmentType;
   daysPerWeek: number; // 2-7
   durationWeeks?: number; // Optional program length
+  deloadWeeks?: number[]; // 1-based program weeks run at reduced volume and load
   description: string;
   tags?: string[];
   recommendation?: string; // Optional recommended schedule and training guidelines
@@ -119,7 +119,10 @@ export interface WeightIncrement {
   roundDirection: 'down' | 'nearest';
 }
 
-/** Map of equipment types to their practical weight increments (in lbs) */
+/**
+ * Map of equipment types to their practical weight increments (in lbs).
+ * Fallback for equipment the active gym profile doesn't set steps for.
+ */
 export const EQUIPMENT_INCREMENTS: Record<string, WeightIncrement> = {
   Barbell: { increment: 5, roundDirection: 'down' },
   'Smith Machine': { increment: 5, roundDirection: 'down' },
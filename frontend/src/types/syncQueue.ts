@@ -0,0 +1,83 @@
+/**
+ * TypeScript interfaces for the offline sync queue.
+ * Writes to Supabase are queued as mutations and replayed in order once the device is online,
+ * so edits made without signal are never lost or rolled back.
+ */
+
+import type {
+  createCustomExercise,
+  createSchedule,
+  createUserPlan,
+  createWorkoutTemplate,
+  deleteCustomExercise,
+  deletePlanWorkout,
+  deleteSchedule,
+  deleteUserPlan,
+  deleteWorkoutSession,
+  deleteWorkoutTemplate,
+  setActivePlan,
+  updatePlanWorkout,
+  updateRotationState,
+  updateSchedule,
+  updateUserPlan,
+  updateWorkoutSession,
+  updateWorkoutTemplate,
+} from '@/lib/supabaseQueries';
+
+/** Arguments a query takes after the user ID */
+type QueryArgs<F> = F extends (userId: string, ...args: infer A) => Promise<unknown> ? A : never;
+
+/** Queued writes, keyed by the supabaseQueries function that applies them */
+export interface SyncMutationArgs {
+  createWorkoutTemplate: QueryArgs<typeof createWorkoutTemplate>;
+  updateWorkoutTemplate: QueryArgs<typeof updateWorkoutTemplate>;
+  deleteWorkoutTemplate: QueryArgs<typeof deleteWorkoutTemplate>;
+  createUserPlan: QueryArgs<typeof createUserPlan>;
+  updateUserPlan: QueryArgs<typeof updateUserPlan>;
+  deleteUserPlan: QueryArgs<typeof deleteUserPlan>;
+  setActivePlan: QueryArgs<typeof setActivePlan>;
+  updateRotationState: QueryArgs<typeof updateRotationState>;
+  updatePlanWorkout: QueryArgs<typeof updatePlanWorkout>;
+  deletePlanWorkout: QueryArgs<typeof deletePlanWorkout>;
+  createSchedule: QueryArgs<typeof createSchedule>;
+  updateSchedule: QueryArgs<typeof updateSchedule>;
+  deleteSchedule: QueryArgs<typeof deleteSchedule>;
+  createCustomExercise: QueryArgs<typeof createCustomExercise>;
+  deleteCustomExercise: QueryArgs<typeof deleteCustomExercise>;
+  updateWorkoutSession: QueryArgs<typeof updateWorkoutSession>;
+  deleteWorkoutSession: QueryArgs<typeof deleteWorkoutSession>;
+}
+
+export type SyncMutationKind = keyof SyncMutationArgs;
+
+export interface SyncMutation<K extends SyncMutationKind = SyncMutationKind> {
+  id: string;
+  kind: K;
+  args: SyncMutationArgs[K];
+  /** Row the mutation writes. A local ID until the row's create has synced. */
+  entityId: string;
+  /** Owner of the write; mutations only sync while that user is signed in */
+  userId: string;
+  /**
+   * Server version (updated_at, epoch ms) of the row the edit was made on; for merged edits,
+   * the first one's. A newer server row means another device edited it meanwhile.
+   * Unknown when this device never read the row.
+   */
+  baseModifiedAt?: number;
+  attempts: number;
+  lastError?: string;
+}
+
+/**
+ * Why a queued write was dropped in favor of the server copy:
+ * another device changed or deleted the row, or the server kept rejecting the write
+ */
+export type SyncConflictReason = 'newer-on-server' | 'deleted-on-server' | 'sync-failed';
+
+export interface SyncConflict {
+  kind: SyncMutationKind;
+  entityId: string;
+  reason: SyncConflictReason;
+  /** Epoch ms */
+  detectedAt: number;
+}
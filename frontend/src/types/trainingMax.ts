@@ -0,0 +1,22 @@
+/**
+ * TypeScript interfaces for per-exercise training maxes.
+ * A training max (TM) is the working number percentage-based programs such as 5/3/1
+ * and GZCL prescribe from, usually a little under the lifter's true 1RM.
+ * Weights are stored in lbs like the rest of storage.
+ */
+
+/** Where a training max came from */
+export type TrainingMaxSource = 'manual' | 'e1rm' | 'bump';
+
+export interface TrainingMax {
+  weightLbs: number;
+  source: TrainingMaxSource;
+  /** Epoch ms of the last change */
+  updatedAt: number;
+}
+
+export const TRAINING_MAX_SOURCE_LABELS: Record<TrainingMaxSource, string> = {
+  manual: 'Set by hand',
+  e1rm: 'From e1RM history',
+  bump: 'Raised after a cycle',
+};
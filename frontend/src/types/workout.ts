@@ -1,5 +1,11 @@
+import type { OutdoorSplits } from '@/types/outdoor';
+
+/** Set classification; sets without a type are working sets */
+export type SetType = 'warmup' | 'working' | 'drop' | 'failure' | 'backoff';
+
 export interface SetLog {
   completed: boolean;
+  setType?: SetType;
   // Weight exercises
   weight?: number;
   reps?: number;
@@ -8,9 +14,28 @@ export interface SetLog {
   distance?: number;      // miles, meters, or floors based on exercise
   // Assisted exercises (also uses reps)
   assistanceWeight?: number;
+  // Effort (weight, bodyweight, assisted and reps-only exercises)
+  rpe?: number;           // RPE_MIN-RPE_MAX (5-10) in half-point steps; RIR is derived as 10 - rpe
+  // Rest started after this set was completed, in seconds
+  restSeconds?: number;
+}
+
+/** Scale used to enter and display set effort */
+export type EffortScale = 'rpe' | 'rir';
+
+export const RPE_MIN = 5;
+export const RPE_MAX = 10;
+export const RPE_STEP = 0.5;
+
+/**
+ * Superset/circuit membership.
+ * Consecutive exercises sharing a groupId are performed together: two form a superset, three or more a circuit.
+ */
+export interface ExerciseGrouping {
+  groupId?: string;
 }
 
-export interface WorkoutExercise {
+export interface WorkoutExercise extends ExerciseGrouping {
   name: string;
   sets: SetLog[];
 }
@@ -29,5 +54,7 @@ export interface Workout {
   duration?: number;
   exercises: WorkoutExercise[];
   /** GPS route coordinates for outdoor exercise sessions */
-  routeCoordinates?: { latitude: number; longitude: number; timestamp: number }[];
+  routeCoordinates?: { latitude: number; longitude: number; altitude?: number; timestamp: number }[];
+  /** Automatic splits and manual laps for outdoor exercise sessions */
+  outdoorSplits?: OutdoorSplits;
 }
@@ -0,0 +1,44 @@
+/**
+ * TypeScript interfaces for importing workout history from other logging apps.
+ */
+
+import type { Workout } from '@/types/workout';
+
+export type WorkoutImportSource = 'strong' | 'hevy' | 'fitnotes';
+
+export const WORKOUT_IMPORT_SOURCE_LABELS: Record<WorkoutImportSource, string> = {
+  strong: 'Strong',
+  hevy: 'Hevy',
+  fitnotes: 'FitNotes',
+};
+
+export interface ParsedWorkoutImport {
+  source: WorkoutImportSource;
+  /** Workouts in app format; exercise names are still the source app's names */
+  workouts: Workout[];
+  /** Distinct source exercise names, in first-seen order */
+  exerciseNames: string[];
+  /** Data rows that could not be read */
+  skippedRows: number;
+}
+
+/**
+ * How an imported exercise name was matched against the catalog.
+ * - exact: same exercise under the same (or a migrated/reordered) name
+ * - suggested: a close catalog match the user should confirm
+ * - unmatched: no reasonable catalog match
+ */
+export type ImportMatchStatus = 'exact' | 'suggested' | 'unmatched';
+
+export interface ImportExerciseMatch {
+  sourceName: string;
+  status: ImportMatchStatus;
+  /** Best catalog/custom exercise name, or null when unmatched */
+  matchedName: string | null;
+}
+
+/** What to do with an imported exercise name when writing workouts */
+export type ImportExerciseResolution =
+  | { type: 'existing'; exerciseName: string }
+  | { type: 'custom' }
+  | { type: 'skip' };
@@ -0,0 +1,85 @@
+/**
+ * GPS track fixtures for the gpsFilter tests.
+ * Each row is [seconds since start, meters north, meters east, reported accuracy in meters]
+ * relative to ORIGIN, so the true path of every track is easy to read off.
+ */
+
+import type { GpsCoordinate } from '@/types/outdoor';
+
+type TrackRow = [seconds: number, north: number, east: number, accuracy: number];
+
+export const ORIGIN = { latitude: 40.7128, longitude: -74.006 };
+
+const START_TIME = Date.UTC(2026, 0, 1, 7, 0, 0);
+const METERS_PER_DEGREE_LATITUDE = 111_320;
+
+const toCoordinate = ([seconds, north, east, accuracy]: TrackRow): GpsCoordinate => ({
+  latitude: ORIGIN.latitude + north / METERS_PER_DEGREE_LATITUDE,
+  longitude: ORIGIN.longitude + east / (METERS_PER_DEGREE_LATITUDE * Math.cos((ORIGIN.latitude * Math.PI) / 180)),
+  accuracy,
+  timestamp: START_TIME + seconds * 1000,
+});
+
+/**
+ * Standing still at ORIGIN. The location watchers only report after 3 m of movement,
+ * so fixes arrive every few seconds as the position drifts around.
+ */
+const STANDING_ROWS: TrackRow[] = [
+  [0, 0, 0, 8],
+  [2, 3, -1, 8],
+  [5, -1, 2, 8],
+  [7, 2, -2, 8],
+  [11, -2, 1, 8],
+  [13, 2, 2, 8],
+  [16, -1, -2, 8],
+  [19, 3, 0, 8],
+  [22, -1, 1, 8],
+];
+
+export const standingJitter: GpsCoordinate[] = STANDING_ROWS.map(toCoordinate);
+
+/** Jogging north at 3 m/s with a fix every 2 s, weaving ±2 m east of the line */
+export const steadyJog: GpsCoordinate[] = ([
+  [0, 0, 0, 5],
+  [2, 6, 2, 5],
+  [4, 12, -2, 5],
+  [6, 18, 2, 5],
+  [8, 24, -2, 5],
+  [10, 30, 2, 5],
+  [12, 36, -2, 5],
+  [14, 42, 2, 5],
+  [16, 48, -2, 5],
+  [18, 54, 0, 5],
+] as TrackRow[]).map(toCoordinate);
+
+/** The same jog, then stopping at its end for about 45 s */
+export const jogThenStand: GpsCoordinate[] = [
+  ...steadyJog,
+  ...[18, 41].flatMap((offset) =>
+    STANDING_ROWS.slice(1).map(([seconds, north, east, accuracy]): TrackRow => [seconds + offset, north + 54, east, accuracy]),
+  ).map(toCoordinate),
+];
+
+/** The jog with one fix thrown 500 m off course */
+export const jogWithJump: GpsCoordinate[] = ([
+  [0, 0, 0, 5],
+  [2, 6, 0, 5],
+  [4, 12, 0, 5],
+  [6, 500, 300, 5],
+  [8, 24, 0, 5],
+  [10, 30, 0, 5],
+] as TrackRow[]).map(toCoordinate);
+
+/** Coming out of a tunnel: the filter last saw the entrance, every fix since agrees on a spot 800 m on */
+export const tunnelExit: GpsCoordinate[] = ([
+  [0, 0, 0, 5],
+  [2, 6, 0, 5],
+  [40, 800, 0, 5],
+  [42, 806, 0, 5],
+  [44, 812, 0, 5],
+  [46, 818, 0, 5],
+] as TrackRow[]).map(toCoordinate);
+
+/** Shifts a track's timestamps, e.g. to continue one track after another */
+export const shiftTrack = (track: GpsCoordinate[], offsetMs: number): GpsCoordinate[] =>
+  track.map((coord) => ({ ...coord, timestamp: coord.timestamp + offsetMs }));
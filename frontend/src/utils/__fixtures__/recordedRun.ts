@@ -0,0 +1,82 @@
+/**
+ * A recorded run for the gpsFilter tests, trimmed to the half minute before and after a stop.
+ * The runner jogs at about 2.5 m/s, stands for nearly two minutes (the watch logs no fixes
+ * while stationary), then sets off again.
+ *
+ * Recorded on a TomTom watch on 2014-05-10 at one fix per second, without accuracy readings.
+ * Taken from the gpx-parse test data (MIT License, Copyright (c) Elliot Stokes).
+ */
+
+/** Index of the first fix after the stop */
+export const RECORDED_RUN_STOP_INDEX = 31;
+
+export const RECORDED_RUN_GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="TomTom" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk>
+    <name>RUNNING</name>
+    <trkseg>
+      <trkpt lat="51.340016" lon="0.752984"><ele>19</ele><time>2014-05-10T08:55:48.000Z</time></trkpt>
+      <trkpt lat="51.340044" lon="0.752986"><ele>19</ele><time>2014-05-10T08:55:49.000Z</time></trkpt>
+      <trkpt lat="51.340072" lon="0.752984"><ele>19</ele><time>2014-05-10T08:55:50.000Z</time></trkpt>
+      <trkpt lat="51.340100" lon="0.752980"><ele>19</ele><time>2014-05-10T08:55:51.000Z</time></trkpt>
+      <trkpt lat="51.340129" lon="0.752974"><ele>19</ele><time>2014-05-10T08:55:52.000Z</time></trkpt>
+      <trkpt lat="51.340158" lon="0.752967"><ele>19</ele><time>2014-05-10T08:55:53.000Z</time></trkpt>
+      <trkpt lat="51.340186" lon="0.752959"><ele>19</ele><time>2014-05-10T08:55:54.000Z</time></trkpt>
+      <trkpt lat="51.340214" lon="0.752951"><ele>19</ele><time>2014-05-10T08:55:55.000Z</time></trkpt>
+      <trkpt lat="51.340241" lon="0.752944"><ele>19</ele><time>2014-05-10T08:55:56.000Z</time></trkpt>
+      <trkpt lat="51.340268" lon="0.752938"><ele>19</ele><time>2014-05-10T08:55:57.000Z</time></trkpt>
+      <trkpt lat="51.340293" lon="0.752934"><ele>19</ele><time>2014-05-10T08:55:58.000Z</time></trkpt>
+      <trkpt lat="51.340318" lon="0.752930"><ele>19</ele><time>2014-05-10T08:55:59.000Z</time></trkpt>
+      <trkpt lat="51.340344" lon="0.752927"><ele>19</ele><time>2014-05-10T08:56:00.000Z</time></trkpt>
+      <trkpt lat="51.340369" lon="0.752924"><ele>19</ele><time>2014-05-10T08:56:01.000Z</time></trkpt>
+      <trkpt lat="51.340395" lon="0.752921"><ele>19</ele><time>2014-05-10T08:56:02.000Z</time></trkpt>
+      <trkpt lat="51.340421" lon="0.752918"><ele>19</ele><time>2014-05-10T08:56:03.000Z</time></trkpt>
+      <trkpt lat="51.340449" lon="0.752915"><ele>19</ele><time>2014-05-10T08:56:04.000Z</time></trkpt>
+      <trkpt lat="51.340477" lon="0.752911"><ele>19</ele><time>2014-05-10T08:56:05.000Z</time></trkpt>
+      <trkpt lat="51.340507" lon="0.752907"><ele>19</ele><time>2014-05-10T08:56:06.000Z</time></trkpt>
+      <trkpt lat="51.340536" lon="0.752902"><ele>19</ele><time>2014-05-10T08:56:07.000Z</time></trkpt>
+      <trkpt lat="51.340567" lon="0.752897"><ele>19</ele><time>2014-05-10T08:56:08.000Z</time></trkpt>
+      <trkpt lat="51.340597" lon="0.752891"><ele>19</ele><time>2014-05-10T08:56:09.000Z</time></trkpt>
+      <trkpt lat="51.340627" lon="0.752886"><ele>19</ele><time>2014-05-10T08:56:10.000Z</time></trkpt>
+      <trkpt lat="51.340657" lon="0.752880"><ele>19</ele><time>2014-05-10T08:56:11.000Z</time></trkpt>
+      <trkpt lat="51.340687" lon="0.752874"><ele>19</ele><time>2014-05-10T08:56:12.000Z</time></trkpt>
+      <trkpt lat="51.340715" lon="0.752867"><ele>19</ele><time>2014-05-10T08:56:13.000Z</time></trkpt>
+      <trkpt lat="51.340744" lon="0.752861"><ele>18</ele><time>2014-05-10T08:56:14.000Z</time></trkpt>
+      <trkpt lat="51.340771" lon="0.752854"><ele>18</ele><time>2014-05-10T08:56:15.000Z</time></trkpt>
+      <trkpt lat="51.340797" lon="0.752848"><ele>18</ele><time>2014-05-10T08:56:16.000Z</time></trkpt>
+      <trkpt lat="51.340821" lon="0.752841"><ele>18</ele><time>2014-05-10T08:56:17.000Z</time></trkpt>
+      <trkpt lat="51.340844" lon="0.752835"><ele>18</ele><time>2014-05-10T08:56:18.000Z</time></trkpt>
+      <trkpt lat="51.340908" lon="0.752615"><ele>17</ele><time>2014-05-10T08:58:13.000Z</time></trkpt>
+      <trkpt lat="51.340927" lon="0.752624"><ele>17</ele><time>2014-05-10T08:58:14.000Z</time></trkpt>
+      <trkpt lat="51.340947" lon="0.752629"><ele>17</ele><time>2014-05-10T08:58:15.000Z</time></trkpt>
+      <trkpt lat="51.340969" lon="0.752630"><ele>17</ele><time>2014-05-10T08:58:16.000Z</time></trkpt>
+      <trkpt lat="51.340993" lon="0.752629"><ele>17</ele><time>2014-05-10T08:58:17.000Z</time></trkpt>
+      <trkpt lat="51.341018" lon="0.752625"><ele>17</ele><time>2014-05-10T08:58:18.000Z</time></trkpt>
+      <trkpt lat="51.341043" lon="0.752620"><ele>17</ele><time>2014-05-10T08:58:19.000Z</time></trkpt>
+      <trkpt lat="51.341070" lon="0.752613"><ele>17</ele><time>2014-05-10T08:58:20.000Z</time></trkpt>
+      <trkpt lat="51.341097" lon="0.752604"><ele>17</ele><time>2014-05-10T08:58:21.000Z</time></trkpt>
+      <trkpt lat="51.341125" lon="0.752595"><ele>16</ele><time>2014-05-10T08:58:22.000Z</time></trkpt>
+      <trkpt lat="51.341153" lon="0.752586"><ele>16</ele><time>2014-05-10T08:58:23.000Z</time></trkpt>
+      <trkpt lat="51.341181" lon="0.752577"><ele>16</ele><time>2014-05-10T08:58:24.000Z</time></trkpt>
+      <trkpt lat="51.341208" lon="0.752569"><ele>16</ele><time>2014-05-10T08:58:25.000Z</time></trkpt>
+      <trkpt lat="51.341236" lon="0.752561"><ele>16</ele><time>2014-05-10T08:58:26.000Z</time></trkpt>
+      <trkpt lat="51.341263" lon="0.752555"><ele>16</ele><time>2014-05-10T08:58:27.000Z</time></trkpt>
+      <trkpt lat="51.341290" lon="0.752550"><ele>15</ele><time>2014-05-10T08:58:28.000Z</time></trkpt>
+      <trkpt lat="51.341315" lon="0.752548"><ele>15</ele><time>2014-05-10T08:58:29.000Z</time></trkpt>
+      <trkpt lat="51.341340" lon="0.752548"><ele>15</ele><time>2014-05-10T08:58:30.000Z</time></trkpt>
+      <trkpt lat="51.341364" lon="0.752550"><ele>15</ele><time>2014-05-10T08:58:31.000Z</time></trkpt>
+      <trkpt lat="51.341388" lon="0.752549"><ele>15</ele><time>2014-05-10T08:58:32.000Z</time></trkpt>
+      <trkpt lat="51.341413" lon="0.752539"><ele>15</ele><time>2014-05-10T08:58:33.000Z</time></trkpt>
+      <trkpt lat="51.341440" lon="0.752527"><ele>15</ele><time>2014-05-10T08:58:34.000Z</time></trkpt>
+      <trkpt lat="51.341467" lon="0.752520"><ele>15</ele><time>2014-05-10T08:58:35.000Z</time></trkpt>
+      <trkpt lat="51.341494" lon="0.752518"><ele>14</ele><time>2014-05-10T08:58:36.000Z</time></trkpt>
+      <trkpt lat="51.341521" lon="0.752521"><ele>14</ele><time>2014-05-10T08:58:37.000Z</time></trkpt>
+      <trkpt lat="51.341548" lon="0.752527"><ele>14</ele><time>2014-05-10T08:58:38.000Z</time></trkpt>
+      <trkpt lat="51.341576" lon="0.752535"><ele>14</ele><time>2014-05-10T08:58:39.000Z</time></trkpt>
+      <trkpt lat="51.341602" lon="0.752543"><ele>14</ele><time>2014-05-10T08:58:40.000Z</time></trkpt>
+      <trkpt lat="51.341629" lon="0.752553"><ele>14</ele><time>2014-05-10T08:58:41.000Z</time></trkpt>
+      <trkpt lat="51.341656" lon="0.752563"><ele>14</ele><time>2014-05-10T08:58:42.000Z</time></trkpt>
+    </trkseg>
+  </trk>
+</gpx>
+`;
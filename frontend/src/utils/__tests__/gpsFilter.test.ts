@@ -0,0 +1,183 @@
+import type { GpsCoordinate } from '@/types/outdoor';
+import { haversineDistance } from '@/utils/geo';
+import {
+  applyGpsFix,
+  getAutoPauseStart,
+  settleGpsFilter,
+  shouldAutoResume,
+  type GpsFilterState,
+} from '@/utils/gpsFilter';
+import { parseGpx } from '@/utils/routeFiles';
+
+import { RECORDED_RUN_GPX, RECORDED_RUN_STOP_INDEX } from '../__fixtures__/recordedRun';
+import { jogThenStand, jogWithJump, ORIGIN, shiftTrack, standingJitter, steadyJog, tunnelExit } from '../__fixtures__/gpsTracks';
+
+const METERS_PER_MILE = 1609.344;
+
+const metersBetween = (a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }) =>
+  haversineDistance(a, b) * METERS_PER_MILE;
+
+const pathMeters = (points: GpsCoordinate[]): number =>
+  points.slice(1).reduce((total, point, index) => total + metersBetween(points[index], point), 0);
+
+/** Feeds a track through the filter, collecting the state and the point for every fix */
+const runTrack = (track: GpsCoordinate[], initial: GpsFilterState | null = null) => {
+  let state = initial;
+  const steps = track.map((coord) => {
+    const result = applyGpsFix(state, coord);
+    state = result.state;
+    return result;
+  });
+  return { state: state as GpsFilterState, steps };
+};
+
+describe('applyGpsFix', () => {
+  it('starts the filter at the first fix', () => {
+    const [first] = steadyJog;
+    const { state, point } = applyGpsFix(null, first);
+
+    expect(point).toEqual(first);
+    expect(state).toMatchObject({ latitude: first.latitude, longitude: first.longitude, speedMps: 0 });
+  });
+
+  it('ignores fixes that are not newer than the last one', () => {
+    const { state } = runTrack(steadyJog.slice(0, 3));
+    const result = applyGpsFix(state, steadyJog[1]);
+
+    expect(result.point).toBeNull();
+    expect(result.state).toBe(state);
+  });
+
+  it('smooths jitter while standing still', () => {
+    const { steps } = runTrack(standingJitter);
+    const points = steps.map((step) => step.point).filter((point): point is GpsCoordinate => point !== null);
+
+    expect(points).toHaveLength(standingJitter.length);
+    expect(pathMeters(points)).toBeLessThan(pathMeters(standingJitter) / 2);
+    points.slice(1).forEach((point, index) => {
+      expect(metersBetween(point, ORIGIN)).toBeLessThanOrEqual(metersBetween(standingJitter[index + 1], ORIGIN));
+    });
+  });
+
+  it('follows a steady jog without adding the weave to its length', () => {
+    const { state, steps } = runTrack(steadyJog);
+    const points = steps.map((step) => step.point as GpsCoordinate);
+    const trueMeters = 54;
+
+    expect(pathMeters(points)).toBeGreaterThan(trueMeters * 0.8);
+    expect(pathMeters(points)).toBeLessThan(pathMeters(steadyJog));
+    expect(state.speedMps).toBeGreaterThan(2);
+    expect(state.slowSince).toBeNull();
+  });
+
+  it('rejects a single fix that implies an impossible jump', () => {
+    const { state, steps } = runTrack(jogWithJump);
+
+    expect(steps[3].point).toBeNull();
+    expect(steps[3].state.rejectedInRow).toBe(1);
+    expect(steps[4].point).not.toBeNull();
+    expect(state.rejectedInRow).toBe(0);
+    expect(metersBetween(state, jogWithJump[5])).toBeLessThan(5);
+  });
+
+  it('restarts at the new position after three jumps in a row', () => {
+    const { steps } = runTrack(tunnelExit);
+
+    expect(steps[2].point).toBeNull();
+    expect(steps[3].point).toBeNull();
+    expect(steps[4].point).toEqual(tunnelExit[4]);
+    expect(steps[4].state).toMatchObject({
+      latitude: tunnelExit[4].latitude,
+      longitude: tunnelExit[4].longitude,
+      speedMps: 0,
+      rejectedInRow: 0,
+    });
+    expect(steps[5].point).not.toBeNull();
+  });
+});
+
+describe('getAutoPauseStart', () => {
+  it('stays null while moving', () => {
+    const { state } = runTrack(steadyJog);
+
+    expect(getAutoPauseStart(state, state.timestamp)).toBeNull();
+  });
+
+  it('pauses from when the speed dropped, once stopped long enough', () => {
+    const { state } = runTrack(jogThenStand);
+
+    expect(state.slowSince).not.toBeNull();
+    const slowSince = state.slowSince as number;
+    expect(getAutoPauseStart(state, slowSince + 5000)).toBeNull();
+    expect(getAutoPauseStart(state, slowSince + 6000)).toBe(slowSince);
+  });
+
+  it('pauses from the last fix when fixes stop arriving', () => {
+    const { state } = runTrack(steadyJog);
+
+    expect(getAutoPauseStart(state, state.timestamp + 5000)).toBeNull();
+    expect(getAutoPauseStart(state, state.timestamp + 6000)).toBe(state.timestamp);
+  });
+});
+
+describe('shouldAutoResume', () => {
+  it('waits for sustained movement after a pause', () => {
+    const { state: standingState } = runTrack(standingJitter);
+    const settled = settleGpsFilter(standingState);
+    // Set off from where the user stood
+    const jog = shiftTrack(steadyJog, standingJitter[standingJitter.length - 1].timestamp - steadyJog[0].timestamp).slice(1);
+
+    expect(shouldAutoResume(settled)).toBe(false);
+
+    const { steps } = runTrack(jog, settled);
+    const resumedAt = steps.findIndex((step) => shouldAutoResume(step.state));
+
+    expect(resumedAt).toBeGreaterThan(0);
+    expect(resumedAt).toBeLessThan(5);
+  });
+
+  it('does not resume on jitter', () => {
+    const { state: standingState } = runTrack(standingJitter.slice(0, 4));
+    const { steps } = runTrack(standingJitter.slice(4), settleGpsFilter(standingState));
+
+    expect(steps.some((step) => shouldAutoResume(step.state))).toBe(false);
+  });
+});
+
+describe('recorded run with a stop', () => {
+  const recorded = parseGpx(RECORDED_RUN_GPX)?.coordinates ?? [];
+  const beforeStop = recorded.slice(0, RECORDED_RUN_STOP_INDEX);
+  const afterStop = recorded.slice(RECORDED_RUN_STOP_INDEX);
+
+  it('parses every fix', () => {
+    expect(beforeStop).toHaveLength(31);
+    expect(afterStop).toHaveLength(30);
+  });
+
+  it('keeps the distance of a real jog', () => {
+    const { state, steps } = runTrack(beforeStop);
+    const points = steps.map((step) => step.point).filter((point): point is GpsCoordinate => point !== null);
+
+    expect(points).toHaveLength(beforeStop.length);
+    expect(pathMeters(points)).toBeGreaterThan(pathMeters(beforeStop) * 0.9);
+    expect(pathMeters(points)).toBeLessThanOrEqual(pathMeters(beforeStop));
+    expect(state.speedMps).toBeGreaterThan(2);
+  });
+
+  it('pauses from the last fix before the stop', () => {
+    const { state } = runTrack(beforeStop);
+    const lastFix = beforeStop[beforeStop.length - 1].timestamp;
+
+    expect(getAutoPauseStart(state, lastFix + 5000)).toBeNull();
+    expect(getAutoPauseStart(state, lastFix + 6000)).toBe(lastFix);
+  });
+
+  it('resumes within a few fixes of setting off again', () => {
+    const { state } = runTrack(beforeStop);
+    const { steps } = runTrack(afterStop, settleGpsFilter(state));
+    const resumedAt = steps.findIndex((step) => shouldAutoResume(step.state));
+
+    expect(resumedAt).toBeGreaterThan(0);
+    expect(resumedAt).toBeLessThan(5);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * bodyMetrics
+ * Helpers for the dated body-metrics log: resolving the bodyweight in effect on a
+ * given day and building chart series. Values are in lbs and inches like storage.
+ */
+
+import type { SizeUnit } from '@/store/settingsStore';
+import type { BodyMetricEntry, BodyMetricKey } from '@/types/bodyMetrics';
+import { formatDateToLocalISO } from '@/utils/date';
+
+const LOCAL_ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CM_PER_INCH = 2.54;
+
+/** Converts a stored circumference (inches) to the user's size unit, rounded to 0.1 */
+export const convertInchesToSizeUnit = (inches: number, unit: SizeUnit): number => {
+  const value = unit === 'cm' ? inches * CM_PER_INCH : inches;
+  return Math.round(value * 10) / 10;
+};
+
+/** Converts a circumference entered in the user's size unit to inches for storage */
+export const convertSizeUnitToInches = (value: number, unit: SizeUnit): number => {
+  return unit === 'cm' ? value / CM_PER_INCH : value;
+};
+
+/** Local YYYY-MM-DD day for a workout date (full ISO timestamp or already a day) */
+export const toLocalDay = (date: string): string => {
+  return LOCAL_ISO_DATE_PATTERN.test(date) ? date : formatDateToLocalISO(new Date(date));
+};
+
+/**
+ * Builds a lookup for the bodyweight in effect on a date: the latest weigh-in on or
+ * before that day. Days before the first weigh-in use the first weigh-in, and with no
+ * weigh-ins at all every day uses the fallback (the profile weight).
+ * @param entries Body-metric entries sorted by date, oldest first
+ */
+export const createBodyWeightResolver = (
+  entries: BodyMetricEntry[],
+  fallbackLbs: number | null | undefined,
+): ((date: string) => number | undefined) => {
+  const weighIns = entries.filter((entry) => entry.weightLbs !== null && entry.weightLbs > 0);
+  const fallback = fallbackLbs && fallbackLbs > 0 ? fallbackLbs : undefined;
+
+  if (weighIns.length === 0) {
+    return () => fallback;
+  }
+
+  return (date: string) => {
+    const day = toLocalDay(date);
+
+    // Binary search for the last weigh-in on or before the day
+    let low = 0;
+    let high = weighIns.length - 1;
+    let match = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (weighIns[mid].date <= day) {
+        match = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return weighIns[Math.max(match, 0)].weightLbs as number;
+  };
+};
+
+/** Value of a chartable metric on an entry, or null when it was not recorded */
+export const getBodyMetricValue = (entry: BodyMetricEntry, key: BodyMetricKey): number | null => {
+  switch (key) {
+    case 'weight':
+      return entry.weightLbs;
+    case 'bodyFat':
+      return entry.bodyFatPercent;
+    default:
+      return entry.measurements[key] ?? null;
+  }
+};
+
+/**
+ * Chronological points for one metric, skipping entries that did not record it.
+ */
+export const getBodyMetricSeries = (
+  entries: BodyMetricEntry[],
+  key: BodyMetricKey,
+): { date: string; value: number }[] => {
+  return entries.flatMap((entry) => {
+    const value = getBodyMetricValue(entry, key);
+    return value !== null && value > 0 ? [{ date: entry.date, value }] : [];
+  });
+};
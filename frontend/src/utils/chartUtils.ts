@@ -120,6 +120,11 @@ export const getWeekStartDate = (date: Date): Date => {
   return d;
 };
 
+/**
+ * Key (YYYY-MM-DD of the Monday) for the week containing a date
+ */
+export const getWeekStartKey = (date: Date): string => formatLocalDate(getWeekStartDate(date));
+
 /**
  * Aggregate daily volume data by week
  * @param volumeByDate Raw daily volume data (YYYY-MM-DD -> volume)
@@ -0,0 +1,155 @@
+/**
+ * dataExport
+ * Serializes workout history and saved training data for export.
+ * CSV is a flat, spreadsheet-friendly view (one row per set, in the user's units);
+ * JSON is a lossless bundle of the stored records.
+ */
+
+import type { ExerciseType } from '@/types/exercise';
+import type { Workout } from '@/types/workout';
+import type { UserPlan } from '@/types/premadePlan';
+import type { BodyMetricDB, CustomExerciseDB, ScheduleDB, WorkoutTemplateDB } from '@/lib/supabaseQueries';
+import { getSetType } from '@/utils/setTypes';
+
+export const DATA_EXPORT_VERSION = 1;
+
+export type DataExportFormat = 'csv' | 'json';
+
+export interface DataExportBundle {
+  version: number;
+  exportedAt: string;
+  /** Units the stored values are expressed in */
+  units: {
+    weight: 'lbs';
+    /** Floor-based exercises store floor counts instead */
+    distance: 'miles';
+    duration: 'seconds';
+    /** Body-metric circumferences */
+    size: 'in';
+  };
+  workouts: Workout[];
+  templates: WorkoutTemplateDB[];
+  plans: UserPlan[];
+  schedules: ScheduleDB[];
+  customExercises: CustomExerciseDB[];
+  bodyMetrics: BodyMetricDB[];
+}
+
+/** Exercise metadata needed to label CSV rows */
+export interface ExportExerciseInfo {
+  exerciseType: ExerciseType;
+  distanceUnit?: 'miles' | 'meters' | 'floors';
+}
+
+/** Unit conversions from stored values to the user's display units */
+export interface ExportUnitConverter {
+  getWeightUnit: () => string;
+  convertWeight: (lbs: number) => number;
+  getDistanceUnitForExercise: (distanceUnit?: 'miles' | 'meters' | 'floors') => string;
+  convertDistanceForExercise: (miles: number, distanceUnit?: 'miles' | 'meters' | 'floors') => number;
+}
+
+const CSV_COLUMNS = [
+  'date',
+  'workout_id',
+  'workout_name',
+  'exercise',
+  'exercise_type',
+  'group_id',
+  'set_number',
+  'set_type',
+  'completed',
+  'weight',
+  'assistance_weight',
+  'weight_unit',
+  'reps',
+  'distance',
+  'distance_unit',
+  'duration_seconds',
+  'rpe',
+  'rest_seconds',
+] as const;
+
+const escapeCsvValue = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a CSV with one row per logged set, oldest workout first.
+ */
+export const buildWorkoutsCsv = (
+  workouts: Workout[],
+  getExerciseInfo: (exerciseName: string) => ExportExerciseInfo,
+  units: ExportUnitConverter,
+): string => {
+  const weightUnit = units.getWeightUnit();
+  const rows: string[] = [CSV_COLUMNS.join(',')];
+
+  const sortedWorkouts = [...workouts].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  sortedWorkouts.forEach((workout) => {
+    workout.exercises.forEach((exercise) => {
+      const { exerciseType, distanceUnit } = getExerciseInfo(exercise.name);
+      const usesWeight = exerciseType === 'weight' || exerciseType === 'assisted';
+      const usesDistance = exerciseType === 'cardio';
+
+      (exercise.sets ?? []).forEach((set, setIndex) => {
+        const values: Record<(typeof CSV_COLUMNS)[number], string | number | boolean | undefined> = {
+          date: workout.date,
+          workout_id: workout.id,
+          workout_name: workout.name ?? '',
+          exercise: exercise.name,
+          exercise_type: exerciseType,
+          group_id: exercise.groupId,
+          set_number: setIndex + 1,
+          set_type: getSetType(set),
+          completed: set.completed,
+          weight: set.weight !== undefined ? units.convertWeight(set.weight) : undefined,
+          assistance_weight: set.assistanceWeight !== undefined ? units.convertWeight(set.assistanceWeight) : undefined,
+          weight_unit: usesWeight ? weightUnit : undefined,
+          reps: set.reps,
+          distance: set.distance !== undefined ? units.convertDistanceForExercise(set.distance, distanceUnit) : undefined,
+          distance_unit: usesDistance ? units.getDistanceUnitForExercise(distanceUnit) : undefined,
+          duration_seconds: set.duration,
+          rpe: set.rpe,
+          rest_seconds: set.restSeconds,
+        };
+
+        rows.push(CSV_COLUMNS.map((column) => escapeCsvValue(values[column])).join(','));
+      });
+    });
+  });
+
+  return rows.join('\n');
+};
+
+/**
+ * Builds the lossless JSON export bundle.
+ */
+export const buildExportBundle = (
+  data: Pick<DataExportBundle, 'workouts' | 'templates' | 'plans' | 'schedules' | 'customExercises' | 'bodyMetrics'>,
+  exportedAt: Date = new Date(),
+): DataExportBundle => ({
+  version: DATA_EXPORT_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  units: {
+    weight: 'lbs',
+    distance: 'miles',
+    duration: 'seconds',
+    size: 'in',
+  },
+  ...data,
+});
+
+/**
+ * File name for an export, e.g. "hercules-export-2025-01-31.csv".
+ */
+export const getExportFileName = (format: DataExportFormat, exportedAt: Date = new Date()): string => {
+  const datePart = exportedAt.toISOString().slice(0, 10);
+  return `hercules-export-${datePart}.${format}`;
+};
@@ -0,0 +1,79 @@
+/**
+ * effort utils
+ * Helpers for per-set effort (RPE / reps in reserve).
+ * Effort is always stored as RPE; RIR is a display conversion (RIR = 10 - RPE).
+ */
+
+import type { EffortScale, SetLog } from '@/types/workout';
+import { RPE_MAX, RPE_MIN, RPE_STEP } from '@/types/workout';
+
+/**
+ * Clamps and snaps an RPE value to the supported half-point scale.
+ * Returns undefined for missing or non-numeric values.
+ */
+export const normalizeRpe = (value: unknown): number | undefined => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return undefined;
+  }
+
+  const snapped = Math.round(value / RPE_STEP) * RPE_STEP;
+  return Math.min(RPE_MAX, Math.max(RPE_MIN, snapped));
+};
+
+/**
+ * Converts a stored RPE to the value shown for the given scale.
+ */
+export const rpeToScaleValue = (rpe: number, scale: EffortScale): number => {
+  return scale === 'rir' ? RPE_MAX - rpe : rpe;
+};
+
+/**
+ * Steps an effort value up or down on the user's scale.
+ * Stepping below the lowest value clears the effort; stepping from unset starts at a sensible default.
+ */
+export const stepRpe = (current: number | undefined, direction: 1 | -1, scale: EffortScale): number | undefined => {
+  if (current === undefined) {
+    // RPE 8 (2 RIR) is the most common working-set target
+    return direction > 0 || scale === 'rir' ? 8 : undefined;
+  }
+
+  // Increasing RIR means decreasing RPE
+  const rpeDelta = (scale === 'rir' ? -direction : direction) * RPE_STEP;
+  const next = current + rpeDelta;
+
+  if (next < RPE_MIN) {
+    return undefined;
+  }
+
+  return normalizeRpe(next);
+};
+
+/**
+ * Formats effort for compact display (e.g., "RPE 8.5" or "2 RIR").
+ */
+export const formatEffort = (rpe: number | undefined, scale: EffortScale): string | null => {
+  if (rpe === undefined) {
+    return null;
+  }
+
+  const value = rpeToScaleValue(rpe, scale);
+  const formatted = value % 1 === 0 ? value.toFixed(0) : value.toFixed(1);
+  return scale === 'rir' ? `${formatted} RIR` : `RPE ${formatted}`;
+};
+
+/**
+ * Strips invalid effort values from a set before it is persisted.
+ */
+export const sanitizeSetEffort = (set: SetLog): SetLog => {
+  if (set.rpe === undefined) {
+    return set;
+  }
+
+  const rpe = normalizeRpe(set.rpe);
+  if (rpe === undefined) {
+    const { rpe: _discarded, ...rest } = set;
+    return rest;
+  }
+
+  return rpe === set.rpe ? set : { ...set, rpe };
+};
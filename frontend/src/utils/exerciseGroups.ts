@@ -0,0 +1,234 @@
+/**
+ * exerciseGroups
+ * Helpers for supersets and circuits.
+ * A group is a contiguous run of exercises sharing the same groupId; a run of one is not a group.
+ * All helpers are pure and return new arrays so they can be used by stores and builders alike.
+ */
+
+import type { ExerciseGrouping } from '@/types/workout';
+
+export interface ExerciseBlock<T> {
+  /** Shared groupId, or null for a standalone exercise */
+  groupId: string | null;
+  /** Index of the first exercise of the block in the flat list */
+  startIndex: number;
+  exercises: T[];
+}
+
+export const createExerciseGroupId = (): string => {
+  return `group-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * Two exercises make a superset; three or more make a circuit.
+ */
+export const getExerciseGroupLabel = (size: number): string => {
+  return size >= 3 ? 'Circuit' : 'Superset';
+};
+
+/**
+ * Extracts grouping fields from an untyped source (template rows, plan exercises).
+ */
+export const pickExerciseGrouping = (source: unknown): ExerciseGrouping => {
+  const groupId = (source as ExerciseGrouping | null)?.groupId;
+  return typeof groupId === 'string' && groupId.length > 0 ? { groupId } : {};
+};
+
+const withGroupId = <T extends ExerciseGrouping>(exercise: T, groupId: string | undefined): T => {
+  if (exercise.groupId === groupId) {
+    return exercise;
+  }
+
+  const { groupId: _previous, ...rest } = exercise;
+  return (groupId ? { ...rest, groupId } : rest) as T;
+};
+
+/**
+ * Returns the inclusive [start, end] range of the block containing the given index.
+ */
+export const getExerciseBlockRange = <T extends ExerciseGrouping>(
+  exercises: T[],
+  index: number,
+): { start: number; end: number } => {
+  const groupId = exercises[index]?.groupId;
+  let start = index;
+  let end = index;
+
+  if (!groupId) {
+    return { start, end };
+  }
+
+  while (start > 0 && exercises[start - 1].groupId === groupId) {
+    start -= 1;
+  }
+  while (end < exercises.length - 1 && exercises[end + 1].groupId === groupId) {
+    end += 1;
+  }
+
+  return { start, end };
+};
+
+/**
+ * Splits a flat exercise list into display blocks (groups and standalone exercises).
+ */
+export const buildExerciseBlocks = <T extends ExerciseGrouping>(exercises: T[]): ExerciseBlock<T>[] => {
+  const blocks: ExerciseBlock<T>[] = [];
+  let index = 0;
+
+  while (index < exercises.length) {
+    const { start, end } = getExerciseBlockRange(exercises, index);
+    const isGroup = end > start;
+
+    blocks.push({
+      groupId: isGroup ? exercises[start].groupId ?? null : null,
+      startIndex: start,
+      exercises: exercises.slice(start, end + 1),
+    });
+    index = end + 1;
+  }
+
+  return blocks;
+};
+
+/**
+ * Clears groupIds that no longer pair with a neighbour (e.g., after a removal).
+ */
+export const normalizeExerciseGroups = <T extends ExerciseGrouping>(exercises: T[]): T[] => {
+  let changed = false;
+
+  const next = exercises.map((exercise, index) => {
+    if (!exercise.groupId) {
+      return exercise;
+    }
+
+    const { start, end } = getExerciseBlockRange(exercises, index);
+    if (end > start) {
+      return exercise;
+    }
+
+    changed = true;
+    return withGroupId(exercise, undefined);
+  });
+
+  return changed ? next : exercises;
+};
+
+/**
+ * Links the exercise at index with the one after it, merging their blocks into a single group.
+ */
+export const linkExerciseWithNext = <T extends ExerciseGrouping>(exercises: T[], index: number): T[] => {
+  if (index < 0 || index >= exercises.length - 1) {
+    return exercises;
+  }
+
+  const current = getExerciseBlockRange(exercises, index);
+  const following = getExerciseBlockRange(exercises, index + 1);
+
+  if (current.start === following.start) {
+    return exercises;
+  }
+
+  const groupId = exercises[index].groupId ?? exercises[index + 1].groupId ?? createExerciseGroupId();
+
+  return exercises.map((exercise, position) => {
+    return position >= current.start && position <= following.end ? withGroupId(exercise, groupId) : exercise;
+  });
+};
+
+/**
+ * Breaks the link between the exercise at index and the one after it.
+ * The trailing part keeps grouping under a fresh id if it still has two or more exercises.
+ */
+export const unlinkExerciseFromNext = <T extends ExerciseGrouping>(exercises: T[], index: number): T[] => {
+  const groupId = exercises[index]?.groupId;
+
+  if (!groupId || exercises[index + 1]?.groupId !== groupId) {
+    return exercises;
+  }
+
+  const { end } = getExerciseBlockRange(exercises, index);
+  const trailingGroupId = createExerciseGroupId();
+
+  const next = exercises.map((exercise, position) => {
+    return position > index && position <= end ? withGroupId(exercise, trailingGroupId) : exercise;
+  });
+
+  return normalizeExerciseGroups(next);
+};
+
+/**
+ * Dissolves the whole group containing the exercise at index.
+ */
+export const ungroupExerciseBlock = <T extends ExerciseGrouping>(exercises: T[], index: number): T[] => {
+  if (!exercises[index]?.groupId) {
+    return exercises;
+  }
+
+  const { start, end } = getExerciseBlockRange(exercises, index);
+
+  return exercises.map((exercise, position) => {
+    return position >= start && position <= end ? withGroupId(exercise, undefined) : exercise;
+  });
+};
+
+/**
+ * Moves an exercise one step up or down.
+ * Within a group the exercise swaps with its neighbour; otherwise the whole block
+ * (the exercise or its group) moves past the adjacent block so groups stay intact.
+ */
+export const moveExercise = <T extends ExerciseGrouping>(exercises: T[], index: number, direction: 1 | -1): T[] => {
+  if (index < 0 || index >= exercises.length) {
+    return exercises;
+  }
+
+  const neighbourIndex = index + direction;
+  if (neighbourIndex < 0 || neighbourIndex >= exercises.length) {
+    return exercises;
+  }
+
+  const next = [...exercises];
+  const groupId = exercises[index].groupId;
+
+  if (groupId && exercises[neighbourIndex].groupId === groupId) {
+    [next[index], next[neighbourIndex]] = [next[neighbourIndex], next[index]];
+    return next;
+  }
+
+  const block = getExerciseBlockRange(exercises, index);
+  const neighbour = getExerciseBlockRange(exercises, neighbourIndex);
+  const first = direction < 0 ? neighbour : block;
+  const second = direction < 0 ? block : neighbour;
+
+  return [
+    ...exercises.slice(0, first.start),
+    ...exercises.slice(second.start, second.end + 1),
+    ...exercises.slice(first.start, first.end + 1),
+    ...exercises.slice(second.end + 1),
+  ];
+};
+
+/**
+ * Finds the exercise to perform after a set of the exercise at index, rotating through its group.
+ * Returns null for standalone exercises or when no other group member has sets remaining.
+ */
+export const getNextExerciseInGroup = <T extends ExerciseGrouping>(
+  exercises: T[],
+  index: number,
+  hasRemainingSets: (exercise: T) => boolean,
+): number | null => {
+  const { start, end } = getExerciseBlockRange(exercises, index);
+  const size = end - start + 1;
+
+  if (size < 2) {
+    return null;
+  }
+
+  for (let offset = 1; offset < size; offset += 1) {
+    const candidate = start + ((index - start + offset) % size);
+    if (hasRemainingSets(exercises[candidate])) {
+      return candidate;
+    }
+  }
+
+  return null;
+};
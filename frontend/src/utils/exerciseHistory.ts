@@ -168,14 +168,16 @@ export const createSetsWithHistory = (
     if (hasHistory) {
         const sets: SetLog[] = [];
 
-        // Add sets from history (mark as not completed)
+        // Add sets from history (mark as not completed). Set types carry over so
+        // warm-ups stay tagged; effort is per-session and starts blank.
         for (let i = 0; i < Math.min(historySetCount, targetSetCount); i++) {
-            sets.push({ ...historySets[i], completed: false });
+            const { rpe: _rpe, ...historySet } = historySets[i];
+            sets.push({ ...historySet, completed: false });
         }
 
         // If we need more sets than history provides, use the last history set's values
         if (targetSetCount > historySetCount) {
-            const lastHistorySet = historySets[historySetCount - 1];
+            const { rpe: _rpe, setType: _setType, ...lastHistorySet } = historySets[historySetCount - 1];
             for (let i = historySetCount; i < targetSetCount; i++) {
                 sets.push({ ...lastHistorySet, completed: false });
             }
@@ -0,0 +1,210 @@
+/**
+ * exerciseSubstitution
+ * Ranks catalog exercises by how well they stand in for another one, and carries
+ * history-based weights over to a swap that has no history of its own.
+ *
+ * Similarity blends:
+ * - Overlap of the muscle weightings (cosine similarity)
+ * - Sharing a movement pattern
+ * - Both being compound, or both isolation
+ * - Overlap of the equipment used
+ */
+
+import { exercises as exerciseCatalog } from '@/constants/exercises';
+import type { PrimaryGoal } from '@/store/userProfileStore';
+import type { EquipmentType, Exercise, ExerciseType } from '@/types/exercise';
+import {
+  EQUIPMENT_LOAD_FACTORS,
+  SUBSTITUTION_CONFIG,
+  type ExerciseSubstitute,
+  type SubstituteMatchReason,
+} from '@/types/exerciseSubstitution';
+import type { SetLog, Workout } from '@/types/workout';
+import {
+  createSetsWithSmartSuggestions,
+  getLastCompletedSetsForExercise,
+  type SmartSetsResult,
+} from '@/utils/exerciseHistory';
+import { isExerciseDoableWith } from '@/utils/gymProfiles';
+import { isWarmupSet } from '@/utils/setTypes';
+import { roundToIncrement } from '@/utils/smartSuggestions';
+
+/** Exercise types that log the same kind of sets and can stand in for each other */
+const SWAP_TYPE_GROUPS: ExerciseType[][] = [
+  ['weight', 'bodyweight', 'assisted', 'reps_only'],
+  ['duration'],
+  ['cardio'],
+];
+
+const areSwappableTypes = (a: ExerciseType, b: ExerciseType): boolean =>
+  SWAP_TYPE_GROUPS.some((group) => group.includes(a) && group.includes(b));
+
+const cosineSimilarity = (a: Record<string, number>, b: Record<string, number>): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  Object.entries(a).forEach(([muscle, weight]) => {
+    dot += weight * (b[muscle] ?? 0);
+    normA += weight * weight;
+  });
+  Object.values(b).forEach((weight) => {
+    normB += weight * weight;
+  });
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const jaccard = <T>(a: T[], b: T[]): number => {
+  if (a.length === 0 && b.length === 0) return 1;
+  const union = new Set([...a, ...b]);
+  const shared = a.filter((item) => b.includes(item)).length;
+  return union.size > 0 ? shared / union.size : 0;
+};
+
+/**
+ * Similarity of a candidate to the exercise it would replace, with what they share.
+ */
+export const scoreSubstitute = (
+  source: Exercise,
+  candidate: Exercise,
+): { score: number; reasons: SubstituteMatchReason[] } => {
+  const muscleSimilarity = cosineSimilarity(source.muscles, candidate.muscles);
+  const samePattern = source.movementPattern === candidate.movementPattern;
+  const sameCompound = source.isCompound === candidate.isCompound;
+  const equipmentOverlap = jaccard(source.equipment, candidate.equipment);
+
+  const score =
+    SUBSTITUTION_CONFIG.MUSCLE_WEIGHT * muscleSimilarity +
+    SUBSTITUTION_CONFIG.PATTERN_WEIGHT * (samePattern ? 1 : 0) +
+    SUBSTITUTION_CONFIG.COMPOUND_WEIGHT * (sameCompound ? 1 : 0) +
+    SUBSTITUTION_CONFIG.EQUIPMENT_WEIGHT * equipmentOverlap;
+
+  const reasons: SubstituteMatchReason[] = [];
+  if (samePattern) reasons.push('same_pattern');
+  if (muscleSimilarity >= SUBSTITUTION_CONFIG.SAME_MUSCLES_THRESHOLD) reasons.push('same_muscles');
+  if (equipmentOverlap === 1) reasons.push('same_equipment');
+
+  return { score, reasons };
+};
+
+interface SubstituteOptions {
+  /** Equipment the user has on hand; candidates needing anything else are left out */
+  equipment?: EquipmentType[];
+  /** Exercises to leave out, e.g. the ones already in the workout */
+  excludeNames?: string[];
+  limit?: number;
+}
+
+/**
+ * Best swaps for an exercise, most similar first.
+ * Empty for exercises outside the catalog (custom exercises have no muscle data to compare).
+ */
+export const getExerciseSubstitutes = (
+  exerciseName: string,
+  { equipment, excludeNames = [], limit = SUBSTITUTION_CONFIG.MAX_RESULTS }: SubstituteOptions = {},
+): ExerciseSubstitute[] => {
+  const source = exerciseCatalog.find((exercise) => exercise.name === exerciseName);
+  if (!source) {
+    return [];
+  }
+
+  const excluded = new Set([exerciseName, ...excludeNames]);
+  const substitutes: ExerciseSubstitute[] = [];
+
+  exerciseCatalog.forEach((candidate) => {
+    if (excluded.has(candidate.name)) return;
+    if (!areSwappableTypes(source.exerciseType, candidate.exerciseType)) return;
+    if (equipment && !isExerciseDoableWith(candidate, equipment)) return;
+
+    const { score, reasons } = scoreSubstitute(source, candidate);
+    if (score >= SUBSTITUTION_CONFIG.MIN_SCORE) {
+      substitutes.push({ exercise: candidate, score, reasons });
+    }
+  });
+
+  return substitutes.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+const getLoadFactor = (equipment: EquipmentType[]): number | null => {
+  for (const item of equipment) {
+    const factor = EQUIPMENT_LOAD_FACTORS[item];
+    if (factor !== undefined) return factor;
+  }
+  return null;
+};
+
+/**
+ * Working sets for a swap, estimated from the last session of the exercise it replaces.
+ * Only sensible between weighted lifts of the same movement on equipment with a known
+ * load factor (a barbell bench press says little about a cable fly). Returns null otherwise.
+ * Weights are in lbs, like history.
+ */
+export const estimateSetsFromRelatedLift = (
+  source: Exercise,
+  target: Exercise,
+  workouts: Workout[],
+): SetLog[] | null => {
+  if (
+    source.exerciseType !== 'weight' ||
+    target.exerciseType !== 'weight' ||
+    source.movementPattern !== target.movementPattern ||
+    source.isCompound !== target.isCompound
+  ) {
+    return null;
+  }
+
+  const sourceFactor = getLoadFactor(source.equipment);
+  const targetFactor = getLoadFactor(target.equipment);
+  if (!sourceFactor || !targetFactor) {
+    return null;
+  }
+
+  const lastSets = getLastCompletedSetsForExercise(source.name, workouts);
+  const workingSets = (lastSets ?? []).filter((set) => set.completed && !isWarmupSet(set) && (set.weight ?? 0) > 0);
+  if (workingSets.length === 0) {
+    return null;
+  }
+
+  const ratio = targetFactor / sourceFactor;
+  return workingSets.map((set) => ({
+    weight: roundToIncrement((set.weight ?? 0) * ratio, target.equipment),
+    reps: set.reps,
+    completed: false,
+  }));
+};
+
+/**
+ * Sets for an exercise swapped in for another. Uses the swap's own history when it has
+ * some, otherwise carries weights over from the replaced exercise where that makes sense.
+ */
+export const createSubstituteSets = (
+  replacedExerciseName: string,
+  substitute: Exercise,
+  workouts: Workout[],
+  smartSuggestionsEnabled: boolean,
+  customExercises?: { name: string; exerciseType: ExerciseType }[],
+  userGoal?: PrimaryGoal | null,
+): SmartSetsResult => {
+  const result = createSetsWithSmartSuggestions(
+    substitute.name,
+    workouts,
+    smartSuggestionsEnabled,
+    undefined,
+    undefined,
+    customExercises,
+    userGoal,
+  );
+
+  if (result.historySetCount > 0) {
+    return result;
+  }
+
+  const source = exerciseCatalog.find((exercise) => exercise.name === replacedExerciseName);
+  const carriedSets = source ? estimateSetsFromRelatedLift(source, substitute, workouts) : null;
+  if (!carriedSets) {
+    return result;
+  }
+
+  return { ...result, sets: carriedSets };
+};
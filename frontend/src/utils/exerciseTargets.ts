@@ -0,0 +1,166 @@
+/**
+ * exerciseTargets
+ * Helpers for the set-by-set targets stored on template exercises:
+ * carrying them through template mappings, merging them with suggested sets
+ * when a session starts, and summarizing them for display.
+ */
+
+import type { EquipmentType, ExerciseType } from '@/types/exercise';
+import { FATIGUE_CONFIG } from '@/types/fatigue';
+import type { ExerciseTargets, TemplateSetTarget } from '@/types/plan';
+import type { RepRange } from '@/types/smartSuggestions';
+import type { SmartSetsResult } from '@/utils/exerciseHistory';
+import { formatRestTime } from '@/utils/restTimer';
+import { isWarmupSet } from '@/utils/setTypes';
+import { roundToIncrement } from '@/utils/smartSuggestions';
+import { resolveTrainingMaxLoad } from '@/utils/trainingMax';
+
+export const MAX_TARGET_SETS = 10;
+
+const isRepRange = (value: unknown): value is RepRange => {
+  const range = value as RepRange | null;
+  return typeof range?.min === 'number' && typeof range?.max === 'number' && range.min > 0 && range.max >= range.min;
+};
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && value > 0;
+
+const sanitizeSetTarget = (value: unknown): TemplateSetTarget => {
+  const source = (value ?? {}) as TemplateSetTarget;
+  const target: TemplateSetTarget = {};
+  if (isRepRange(source.reps)) target.reps = { min: source.reps.min, max: source.reps.max };
+  if (source.amrap === true) target.amrap = true;
+  if (isPositiveNumber(source.weightLbs)) target.weightLbs = source.weightLbs;
+  else if (isPositiveNumber(source.percent1RM)) target.percent1RM = source.percent1RM;
+  else if (isPositiveNumber(source.percentTM)) target.percentTM = source.percentTM;
+  return target;
+};
+
+/**
+ * Extracts valid targets from a stored template exercise.
+ * Mirrors pickExerciseGrouping so targets survive the same catalog re-mappings.
+ */
+export const pickExerciseTargets = (source: unknown): { targets?: ExerciseTargets } => {
+  const targets = (source as { targets?: ExerciseTargets } | null)?.targets;
+  if (!targets || !Array.isArray(targets.sets) || targets.sets.length === 0) {
+    return {};
+  }
+
+  const sanitized: ExerciseTargets = {
+    sets: targets.sets.slice(0, MAX_TARGET_SETS).map(sanitizeSetTarget),
+  };
+  if (typeof targets.tempo === 'string' && targets.tempo.trim().length > 0) {
+    sanitized.tempo = targets.tempo.trim();
+  }
+  if (typeof targets.restSeconds === 'number' && targets.restSeconds >= 0) {
+    sanitized.restSeconds = Math.round(targets.restSeconds);
+  }
+  return { targets: sanitized };
+};
+
+/**
+ * Merges template targets into history/smart-suggested sets.
+ * Suggested reps are clamped into each set's target range (AMRAP sets start at their
+ * minimum) and a target weight, %1RM or %TM replaces the suggested weight, so history
+ * still fills in whatever the template leaves open. During an accepted deload week the
+ * target load is lightened the same way smart suggestions are.
+ */
+export const applyExerciseTargets = (
+  result: SmartSetsResult,
+  targets: ExerciseTargets,
+  options: {
+    exerciseType: ExerciseType;
+    equipment: EquipmentType[];
+    bestE1RM: number | null;
+    /** The exercise's training max in lbs, for %TM sets */
+    trainingMaxLbs: number | null;
+    /** Whether the session falls in a deload week the user accepted */
+    isAcceptedDeload: boolean;
+    /** Converts lbs to the unit session sets are entered in */
+    toDisplayWeight: (lbs: number) => number;
+  },
+): SmartSetsResult => {
+  const { exerciseType, equipment, bestE1RM, trainingMaxLbs, isAcceptedDeload, toDisplayWeight } = options;
+  if (exerciseType === 'cardio' || exerciseType === 'duration') {
+    return result;
+  }
+
+  let workingIndex = 0;
+  const setTargets = result.sets.map((set) => {
+    if (isWarmupSet(set)) return null;
+    const target = targets.sets[Math.min(workingIndex, targets.sets.length - 1)];
+    workingIndex += 1;
+    return target;
+  });
+
+  const sets = result.sets.map((set, index) => {
+    const target = setTargets[index];
+    if (!target) return set;
+
+    const next = { ...set };
+    if (target.amrap) {
+      next.reps = target.reps?.min ?? set.reps;
+    } else if (target.reps) {
+      next.reps = Math.min(target.reps.max, Math.max(target.reps.min, set.reps ?? target.reps.min));
+    }
+
+    if (exerciseType === 'weight') {
+      let targetLoadLbs: number | null = null;
+      if (target.weightLbs !== undefined) {
+        targetLoadLbs = target.weightLbs;
+      } else if (target.percent1RM !== undefined && bestE1RM) {
+        targetLoadLbs = roundToIncrement((bestE1RM * target.percent1RM) / 100, equipment);
+      } else if (target.percentTM !== undefined && trainingMaxLbs) {
+        targetLoadLbs = resolveTrainingMaxLoad(trainingMaxLbs, target.percentTM, equipment);
+      }
+
+      if (targetLoadLbs !== null) {
+        next.weight = toDisplayWeight(isAcceptedDeload
+          ? roundToIncrement(targetLoadLbs * FATIGUE_CONFIG.DELOAD_LOAD_FACTOR, equipment)
+          : targetLoadLbs);
+      }
+    }
+    return next;
+  });
+
+  // AMRAP sets have no upper bound to adapt toward, so they keep the suggested range
+  const repRanges = setTargets.map((target, index) => (
+    target && !target.amrap && target.reps ? { ...target.reps } : result.repRanges?.[index]
+  ));
+
+  return {
+    ...result,
+    sets,
+    smartSuggestedSets: result.smartSuggestedSets.length > 0 ? sets.map((set) => ({ ...set })) : [],
+    repRanges: repRanges.every((range): range is RepRange => Boolean(range)) ? repRanges : result.repRanges,
+  };
+};
+
+const formatSetTarget = (target: TemplateSetTarget, formatWeight: (lbs: number) => string): string => {
+  const reps = target.reps
+    ? (target.reps.min === target.reps.max ? `${target.reps.min}` : `${target.reps.min}–${target.reps.max}`)
+    : null;
+  const repsLabel = target.amrap ? (reps ? `AMRAP (${reps}+)` : 'AMRAP') : (reps ?? '—');
+
+  if (target.weightLbs !== undefined) return `${repsLabel} @ ${formatWeight(target.weightLbs)}`;
+  if (target.percent1RM !== undefined) return `${repsLabel} @ ${target.percent1RM}%`;
+  if (target.percentTM !== undefined) return `${repsLabel} @ ${target.percentTM}% TM`;
+  return repsLabel;
+};
+
+/**
+ * Short summary of an exercise's targets, e.g. "4 × 6–8 @ 185 lbs · tempo 3-1-1-0 · 1:30 rest".
+ * Sets that differ are listed individually: "8 @ 75%, 6 @ 80%, AMRAP (4+) @ 85%".
+ */
+export const formatExerciseTargets = (
+  targets: ExerciseTargets,
+  formatWeight: (lbs: number) => string,
+): string => {
+  const setLabels = targets.sets.map((target) => formatSetTarget(target, formatWeight));
+  const isUniform = setLabels.every((label) => label === setLabels[0]);
+  const parts = [isUniform ? `${setLabels.length} × ${setLabels[0]}` : setLabels.join(', ')];
+
+  if (targets.tempo) parts.push(`tempo ${targets.tempo}`);
+  if (targets.restSeconds !== undefined) parts.push(`${formatRestTime(targets.restSeconds)} rest`);
+
+  return parts.join(' · ');
+};
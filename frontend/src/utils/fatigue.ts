@@ -0,0 +1,222 @@
+/**
+ * fatigue
+ * Fatigue model behind deload recommendations.
+ * Combines two signals, and falls back on time since the last deload:
+ * - Weekly volume per muscle jumping well above its recent baseline
+ * - Reps falling at the same or a heavier load across recent sessions of an exercise
+ */
+
+import type { WeeklyMuscleVolume } from '@/types/analytics';
+import { FATIGUE_CONFIG, type FatigueAssessment, type FatigueSignal } from '@/types/fatigue';
+import { SMART_CONFIG } from '@/types/smartSuggestions';
+import type { Workout } from '@/types/workout';
+import { getWeekStartKey } from '@/utils/chartUtils';
+import { formatDateToLocalISO, parseLocalISODate } from '@/utils/date';
+import { extractDataPoints } from '@/utils/smartSuggestions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/** Whole weeks from one week key to a later one (rounded, so DST shifts don't matter) */
+const weeksBetween = (fromWeekStart: string, toWeekStart: string): number =>
+  Math.round((parseLocalISODate(toWeekStart).getTime() - parseLocalISODate(fromWeekStart).getTime()) / WEEK_MS);
+
+/**
+ * YYYY-MM-DD dates of the seven days in a Monday-start week.
+ */
+export const getWeekDates = (weekStart: string): string[] => {
+  const monday = parseLocalISODate(weekStart);
+  return Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(monday);
+    day.setDate(monday.getDate() + index);
+    return formatDateToLocalISO(day);
+  });
+};
+
+/**
+ * Muscles whose volume over the most recent complete weeks jumped above their baseline.
+ * Rest weeks and accepted deload weeks are left out of the baseline, since they'd make
+ * any normal week look like a spike.
+ */
+export const detectVolumeSpikes = (
+  weeks: WeeklyMuscleVolume[],
+  currentWeekStart: string,
+  deloadWeeks: string[],
+): FatigueSignal[] => {
+  const completeWeeks = weeks.filter((week) => week.weekStart < currentWeekStart);
+  const recent = completeWeeks.slice(-FATIGUE_CONFIG.RECENT_WEEKS);
+  const baseline = completeWeeks
+    .slice(-(FATIGUE_CONFIG.RECENT_WEEKS + FATIGUE_CONFIG.BASELINE_WEEKS), -FATIGUE_CONFIG.RECENT_WEEKS)
+    .filter((week) => week.total > 0 && !deloadWeeks.includes(week.weekStart));
+
+  if (recent.length < FATIGUE_CONFIG.RECENT_WEEKS || baseline.length < 2) {
+    return [];
+  }
+
+  const baselineTotal = average(baseline.map((week) => week.total));
+  const muscles = new Set(recent.flatMap((week) => Object.keys(week.mid)));
+  const signals: FatigueSignal[] = [];
+
+  muscles.forEach((muscle) => {
+    const baselineVolume = average(baseline.map((week) => week.mid[muscle] ?? 0));
+    // Muscles barely trained before would "spike" from almost any work
+    if (baselineVolume < baselineTotal * FATIGUE_CONFIG.MIN_MUSCLE_SHARE) return;
+
+    const ratio = average(recent.map((week) => week.mid[muscle] ?? 0)) / baselineVolume;
+    if (ratio >= FATIGUE_CONFIG.VOLUME_SPIKE_RATIO) {
+      signals.push({ type: 'volume_spike', subject: muscle, change: ratio - 1 });
+    }
+  });
+
+  return signals.sort((a, b) => b.change - a.change);
+};
+
+/**
+ * Exercises whose recent sessions lost reps at the same or a heavier load.
+ */
+export const detectRepDrops = (workouts: Workout[], now: number = Date.now()): FatigueSignal[] => {
+  const cutoff = now - SMART_CONFIG.STALE_GAP_DAYS * DAY_MS;
+  const exerciseNames = new Set<string>();
+  workouts.forEach((workout) => {
+    if (new Date(workout.date).getTime() < cutoff) return;
+    (workout.exercises ?? []).forEach((exercise) => exerciseNames.add(exercise.name));
+  });
+
+  const windowSize = FATIGUE_CONFIG.REP_DROP_SESSIONS;
+  const signals: FatigueSignal[] = [];
+
+  exerciseNames.forEach((name) => {
+    const points = extractDataPoints(name, workouts);
+    if (points.length < windowSize * 2) return;
+
+    const recent = points.slice(-windowSize);
+    const prior = points.slice(-windowSize * 2, -windowSize);
+
+    const recentLoad = average(recent.map((point) => point.topSetWeight));
+    const priorLoad = average(prior.map((point) => point.topSetWeight));
+    // Fewer reps at a lighter load is just a change of rep range
+    if (recentLoad < priorLoad * (1 - FATIGUE_CONFIG.REP_DROP_LOAD_TOLERANCE)) return;
+
+    const priorReps = average(prior.map((point) => point.avgReps));
+    if (priorReps <= 0) return;
+
+    const drop = 1 - average(recent.map((point) => point.avgReps)) / priorReps;
+    if (drop >= FATIGUE_CONFIG.REP_DROP_THRESHOLD) {
+      signals.push({ type: 'rep_drop', subject: name, change: -drop });
+    }
+  });
+
+  return signals.sort((a, b) => a.change - b.change);
+};
+
+/**
+ * Most recent week that was a deload, either accepted or evident from the history:
+ * total volume fell by more than DELOAD_VOLUME_DROP against the three weeks before it
+ * (a week off counts too). Null if none is found.
+ */
+export const findLastDeloadWeek = (
+  weeks: WeeklyMuscleVolume[],
+  currentWeekStart: string,
+  deloadWeeks: string[],
+): string | null => {
+  const accepted = deloadWeeks.filter((week) => week <= currentWeekStart);
+  let lastDeload = accepted.length > 0 ? accepted[accepted.length - 1] : null;
+
+  const completeWeeks = weeks.filter((week) => week.weekStart < currentWeekStart);
+  for (let i = completeWeeks.length - 1; i >= 3; i--) {
+    const week = completeWeeks[i];
+    if (lastDeload && week.weekStart <= lastDeload) break;
+
+    const previousAverage = average(completeWeeks.slice(i - 3, i).map((previous) => previous.total));
+    if (previousAverage > 0 && 1 - week.total / previousAverage > SMART_CONFIG.DELOAD_VOLUME_DROP) {
+      lastDeload = week.weekStart;
+      break;
+    }
+  }
+
+  return lastDeload;
+};
+
+interface AssessFatigueInput {
+  /** Per-muscle volume, oldest first, ending with the current week */
+  weeklyMuscleVolume: WeeklyMuscleVolume[];
+  workouts: Workout[];
+  /** Accepted deload weeks */
+  deloadWeeks: string[];
+  now?: number;
+}
+
+/**
+ * Scores accumulated fatigue and decides whether to recommend a deload week.
+ * Nothing is recommended without MIN_TRAINING_WEEKS of history, within COOLDOWN_WEEKS of
+ * the last deload, or while an accepted deload is current or upcoming. A deload is also
+ * recommended once MIN_WEEKS_DELOAD_AUTO weeks pass without one, whatever the score.
+ */
+export const assessFatigue = ({
+  weeklyMuscleVolume,
+  workouts,
+  deloadWeeks,
+  now = Date.now(),
+}: AssessFatigueInput): FatigueAssessment => {
+  const currentWeekStart = getWeekStartKey(new Date(now));
+
+  const volumeSpikes = detectVolumeSpikes(weeklyMuscleVolume, currentWeekStart, deloadWeeks);
+  const repDrops = detectRepDrops(workouts, now);
+
+  const volumeScore = Math.min(1, volumeSpikes.length / FATIGUE_CONFIG.SPIKES_FOR_FULL_SCORE);
+  const repScore = Math.min(1, repDrops.length / FATIGUE_CONFIG.REP_DROPS_FOR_FULL_SCORE);
+  const score =
+    FATIGUE_CONFIG.VOLUME_SCORE_WEIGHT * volumeScore + (1 - FATIGUE_CONFIG.VOLUME_SCORE_WEIGHT) * repScore;
+
+  const lastDeload = findLastDeloadWeek(weeklyMuscleVolume, currentWeekStart, deloadWeeks);
+  const weeksSinceDeload = lastDeload ? weeksBetween(lastDeload, currentWeekStart) : null;
+
+  const firstWorkoutMs = workouts.reduce(
+    (earliest, workout) => Math.min(earliest, new Date(workout.date).getTime()),
+    Number.POSITIVE_INFINITY,
+  );
+  const trainingWeeks = Number.isFinite(firstWorkoutMs) ? Math.floor((now - firstWorkoutMs) / WEEK_MS) : 0;
+
+  const isOverdue =
+    trainingWeeks >= SMART_CONFIG.MIN_WEEKS_DELOAD_AUTO &&
+    (weeksSinceDeload === null || weeksSinceDeload >= SMART_CONFIG.MIN_WEEKS_DELOAD_AUTO);
+
+  const signals: FatigueSignal[] = [...repDrops, ...volumeSpikes];
+  if (isOverdue) {
+    signals.push({ type: 'overdue', subject: null, change: weeksSinceDeload ?? trainingWeeks });
+  }
+
+  const hasScheduledDeload = deloadWeeks.some((week) => week >= currentWeekStart);
+  const isCoolingDown = weeksSinceDeload !== null && weeksSinceDeload < FATIGUE_CONFIG.COOLDOWN_WEEKS;
+  const shouldDeload =
+    trainingWeeks >= FATIGUE_CONFIG.MIN_TRAINING_WEEKS &&
+    !hasScheduledDeload &&
+    !isCoolingDown &&
+    (score >= FATIGUE_CONFIG.RECOMMEND_SCORE || isOverdue);
+
+  let recommendedWeekStart: string | null = null;
+  if (shouldDeload) {
+    // Start this week if it hasn't been trained yet, otherwise next week
+    const hasTrainedThisWeek = workouts.some(
+      (workout) => getWeekStartKey(new Date(workout.date)) === currentWeekStart,
+    );
+    if (hasTrainedThisWeek) {
+      const nextMonday = parseLocalISODate(currentWeekStart);
+      nextMonday.setDate(nextMonday.getDate() + 7);
+      recommendedWeekStart = formatDateToLocalISO(nextMonday);
+    } else {
+      recommendedWeekStart = currentWeekStart;
+    }
+  }
+
+  return {
+    score,
+    signals,
+    weeksSinceDeload,
+    shouldDeload,
+    recommendedWeekStart,
+  };
+};
@@ -1,11 +1,13 @@
 /**
  * Geographic utility functions for outdoor exercise tracking.
- * Haversine distance calculation and pace computation.
+ * Haversine distance calculation, pace computation and elevation analysis.
  */
 
-import type { GpsCoordinate } from '@/types/outdoor';
+import type { ElevationChange, ElevationProfilePoint, GpsCoordinate } from '@/types/outdoor';
 
 const EARTH_RADIUS_MILES = 3958.8;
+const METERS_PER_MILE = 1609.344;
+const FEET_PER_METER = 3.28084;
 
 /**
  * Calculates the distance between two GPS coordinates using the Haversine formula.
@@ -165,3 +167,143 @@ export const isRealisticMovement = (
 
   return true;
 };
+
+/** Altitude samples averaged on each side of a point; raw GPS altitude wanders by several meters */
+const ELEVATION_SMOOTHING_RADIUS = 4;
+
+/** Smoothed rises and drops smaller than this (meters) are noise, not climbing */
+const ELEVATION_NOISE_THRESHOLD_METERS = 3;
+
+/** Grades are measured over at least this much horizontal distance (miles, ≈ 50 m) */
+const MIN_GRADE_DISTANCE_MILES = 0.03;
+
+/** Grades beyond this are GPS error on any runnable route */
+const MAX_GRADE = 0.45;
+
+/**
+ * Smoothed elevation profile of a route from the points that carry altitude.
+ * Each point's grade is measured back to the previous profile point, which is at
+ * least MIN_GRADE_DISTANCE_MILES behind so a few meters of drift can't read as a wall.
+ * @returns Empty when fewer than two points have altitude.
+ */
+export const getElevationProfile = (coordinates: GpsCoordinate[]): ElevationProfilePoint[] => {
+  const samples: { distanceMiles: number; altitude: number }[] = [];
+  let distanceMiles = 0;
+
+  coordinates.forEach((coord, index) => {
+    if (index > 0) {
+      distanceMiles += haversineDistance(coordinates[index - 1], coord);
+    }
+    if (coord.altitude !== undefined && Number.isFinite(coord.altitude)) {
+      samples.push({ distanceMiles, altitude: coord.altitude });
+    }
+  });
+
+  if (samples.length < 2) return [];
+
+  const smoothed = samples.map((sample, index) => {
+    const from = Math.max(0, index - ELEVATION_SMOOTHING_RADIUS);
+    const to = Math.min(samples.length - 1, index + ELEVATION_SMOOTHING_RADIUS);
+    let sum = 0;
+    for (let i = from; i <= to; i++) {
+      sum += samples[i].altitude;
+    }
+    return { distanceMiles: sample.distanceMiles, altitudeMeters: sum / (to - from + 1) };
+  });
+
+  const profile: ElevationProfilePoint[] = [{ ...smoothed[0], grade: 0 }];
+  for (let i = 1; i < smoothed.length; i++) {
+    const previous = profile[profile.length - 1];
+    const run = smoothed[i].distanceMiles - previous.distanceMiles;
+    const isLast = i === smoothed.length - 1;
+
+    if (run < MIN_GRADE_DISTANCE_MILES && !(isLast && run > 0)) continue;
+
+    const rise = smoothed[i].altitudeMeters - previous.altitudeMeters;
+    const grade = Math.max(-MAX_GRADE, Math.min(MAX_GRADE, rise / (run * METERS_PER_MILE)));
+    profile.push({ ...smoothed[i], grade });
+  }
+
+  return profile;
+};
+
+/**
+ * Total elevation gain and loss over a route.
+ * Altitudes are smoothed first, and a climb or descent only counts once it exceeds
+ * ELEVATION_NOISE_THRESHOLD_METERS, so standing still doesn't rack up gain.
+ * @returns Null when the route has no altitude data.
+ */
+export const calculateElevationChange = (coordinates: GpsCoordinate[]): ElevationChange | null => {
+  const profile = getElevationProfile(coordinates);
+  if (profile.length < 2) return null;
+
+  let gainMeters = 0;
+  let lossMeters = 0;
+  let reference = profile[0].altitudeMeters;
+
+  for (const point of profile) {
+    const change = point.altitudeMeters - reference;
+    if (change >= ELEVATION_NOISE_THRESHOLD_METERS) {
+      gainMeters += change;
+      reference = point.altitudeMeters;
+    } else if (change <= -ELEVATION_NOISE_THRESHOLD_METERS) {
+      lossMeters -= change;
+      reference = point.altitudeMeters;
+    }
+  }
+
+  return { gainMeters, lossMeters };
+};
+
+/**
+ * Energy cost of running at a grade relative to the flat (Minetti et al., 2002).
+ * Gentle downhills are cheaper than the flat; steep ones cost more again.
+ */
+const getGradeCostFactor = (grade: number): number => {
+  const i = Math.max(-MAX_GRADE, Math.min(MAX_GRADE, grade));
+  const cost = 155.4 * i ** 5 - 30.4 * i ** 4 - 43.3 * i ** 3 + 46.3 * i ** 2 + 19.5 * i + 3.6;
+  return cost / 3.6;
+};
+
+/**
+ * Grade-adjusted pace: the flat-ground pace that takes the same effort as the actual
+ * pace over the route's hills.
+ * @param paceSecondsPerMile - Actual average pace over the route.
+ * @returns Seconds per mile, or null without a pace or altitude data.
+ */
+export const calculateGradeAdjustedPace = (
+  coordinates: GpsCoordinate[],
+  paceSecondsPerMile: number | null,
+): number | null => {
+  if (paceSecondsPerMile === null) return null;
+
+  const profile = getElevationProfile(coordinates);
+  if (profile.length < 2) return null;
+
+  let actualMiles = 0;
+  let equivalentMiles = 0;
+  for (let i = 1; i < profile.length; i++) {
+    const run = profile[i].distanceMiles - profile[i - 1].distanceMiles;
+    actualMiles += run;
+    equivalentMiles += run * getGradeCostFactor(profile[i].grade);
+  }
+
+  if (actualMiles <= 0 || equivalentMiles <= 0) return null;
+  return paceSecondsPerMile * (actualMiles / equivalentMiles);
+};
+
+/**
+ * Formats an elevation in meters as feet or meters to match the distance unit.
+ */
+export const formatElevation = (meters: number, distanceUnit: 'mi' | 'km'): string => {
+  if (distanceUnit === 'km') {
+    return `${Math.round(meters)} m`;
+  }
+  return `${Math.round(meters * FEET_PER_METER)} ft`;
+};
+
+/**
+ * Converts an elevation in meters to the display unit matching the distance unit.
+ */
+export const convertElevation = (meters: number, distanceUnit: 'mi' | 'km'): number =>
+  distanceUnit === 'km' ? meters : meters * FEET_PER_METER;
@@ -0,0 +1,154 @@
+/**
+ * gpsFilter
+ * Cleans up the raw GPS stream of an outdoor session before it reaches the route.
+ * A simple Kalman filter smooths positions by their reported accuracy, fixes that imply
+ * an impossible jump are rejected, and a smoothed speed drives auto-pause and auto-resume.
+ */
+
+import type { GpsCoordinate } from '@/types/outdoor';
+import { haversineDistance } from '@/utils/geo';
+
+const METERS_PER_MILE = 1609.344;
+
+/** How far (m/s) the true position is expected to wander between fixes; suits foot and bike speeds */
+const PROCESS_NOISE_MPS = 3;
+
+/** Accuracy assumed when the device doesn't report one (meters) */
+const DEFAULT_ACCURACY_METERS = 10;
+
+/** Faster than any run or ride (m/s ≈ 40 mph); anything quicker is a GPS jump */
+const MAX_SPEED_MPS = 17.9;
+
+/**
+ * After this many jumps in a row the fixes agree with each other, not with the filter:
+ * the filter is what's wrong (e.g. coming out of a tunnel), so it restarts at the new fix.
+ */
+const MAX_REJECTED_IN_ROW = 3;
+
+/** Weight of the newest fix in the smoothed speed */
+const SPEED_SMOOTHING = 0.3;
+
+/** Below this smoothed speed (m/s ≈ 1.3 mph) the user is standing, not moving */
+const AUTO_PAUSE_SPEED_MPS = 0.6;
+
+/** Above this smoothed speed (m/s ≈ 2.2 mph) a paused user has started moving again */
+const AUTO_RESUME_SPEED_MPS = 1.0;
+
+/**
+ * How long the user must be stopped before the session auto-pauses (ms). The location
+ * watchers only report after a few meters of movement, so no fixes for this long also
+ * means stopped.
+ */
+const AUTO_PAUSE_DELAY_MS = 6000;
+
+/** Running state of the filter, kept with the session so it survives restarts */
+export interface GpsFilterState {
+  latitude: number;
+  longitude: number;
+  /** Position uncertainty, in meters squared */
+  variance: number;
+  timestamp: number;
+  /** Smoothed speed, in meters per second */
+  speedMps: number;
+  /** When the speed dropped below the auto-pause threshold; null while moving */
+  slowSince: number | null;
+  rejectedInRow: number;
+}
+
+const getAccuracy = (coord: GpsCoordinate): number =>
+  Math.max(coord.accuracy ?? DEFAULT_ACCURACY_METERS, 1);
+
+const startFilter = (coord: GpsCoordinate): GpsFilterState => ({
+  latitude: coord.latitude,
+  longitude: coord.longitude,
+  variance: getAccuracy(coord) ** 2,
+  timestamp: coord.timestamp,
+  speedMps: 0,
+  slowSince: null,
+  rejectedInRow: 0,
+});
+
+/**
+ * Feeds one fix through the filter.
+ * @returns The new filter state, and the smoothed point to record (null when the fix was rejected)
+ */
+export const applyGpsFix = (
+  state: GpsFilterState | null,
+  coord: GpsCoordinate,
+): { state: GpsFilterState; point: GpsCoordinate | null } => {
+  if (!state) {
+    return { state: startFilter(coord), point: coord };
+  }
+
+  const dtSeconds = (coord.timestamp - state.timestamp) / 1000;
+  // Stale or duplicate fixes add nothing
+  if (dtSeconds <= 0) {
+    return { state, point: null };
+  }
+
+  const accuracy = getAccuracy(coord);
+  const jumpMeters = haversineDistance(state, coord) * METERS_PER_MILE;
+  // Both ends are uncertain, so only movement beyond the error circles counts toward speed
+  const plausibleMeters = Math.max(jumpMeters - accuracy - Math.sqrt(state.variance), 0);
+
+  if (plausibleMeters / dtSeconds > MAX_SPEED_MPS) {
+    if (state.rejectedInRow + 1 < MAX_REJECTED_IN_ROW) {
+      return { state: { ...state, rejectedInRow: state.rejectedInRow + 1 }, point: null };
+    }
+    return { state: startFilter(coord), point: coord };
+  }
+
+  const predictedVariance = state.variance + dtSeconds * PROCESS_NOISE_MPS ** 2;
+  const gain = predictedVariance / (predictedVariance + accuracy ** 2);
+  const latitude = state.latitude + gain * (coord.latitude - state.latitude);
+  const longitude = state.longitude + gain * (coord.longitude - state.longitude);
+
+  const movedMeters = haversineDistance(state, { latitude, longitude }) * METERS_PER_MILE;
+  const speedMps = SPEED_SMOOTHING * (movedMeters / dtSeconds) + (1 - SPEED_SMOOTHING) * state.speedMps;
+
+  let slowSince: number | null = null;
+  if (speedMps < AUTO_PAUSE_SPEED_MPS) {
+    slowSince = state.slowSince ?? coord.timestamp;
+  }
+
+  return {
+    state: {
+      latitude,
+      longitude,
+      variance: (1 - gain) * predictedVariance,
+      timestamp: coord.timestamp,
+      speedMps,
+      slowSince,
+      rejectedInRow: 0,
+    },
+    point: { ...coord, latitude, longitude },
+  };
+};
+
+/**
+ * When the user stopped, if they have been stopped long enough to auto-pause.
+ * @returns The time the pause should count from, or null while still moving
+ */
+export const getAutoPauseStart = (state: GpsFilterState, now: number): number | null => {
+  const stoppedSince = state.slowSince ?? state.timestamp;
+  const isStopped = state.slowSince !== null || now - state.timestamp >= AUTO_PAUSE_DELAY_MS;
+
+  return isStopped && now - stoppedSince >= AUTO_PAUSE_DELAY_MS ? stoppedSince : null;
+};
+
+/**
+ * Whether an auto-paused user is moving again. Resuming needs a higher speed than
+ * pausing so walking slowly right at the threshold doesn't flap.
+ */
+export const shouldAutoResume = (state: GpsFilterState): boolean =>
+  state.speedMps > AUTO_RESUME_SPEED_MPS;
+
+/**
+ * Filter state to carry through an auto-pause: the speed from before the stop would
+ * otherwise make the first fix afterwards look like moving again.
+ */
+export const settleGpsFilter = (state: GpsFilterState): GpsFilterState => ({
+  ...state,
+  speedMps: 0,
+  slowSince: null,
+});
@@ -0,0 +1,123 @@
+/**
+ * gymProfiles
+ * Defaults and helpers for gym profiles: which exercises a gym supports and
+ * which weight steps its equipment allows.
+ */
+
+import type { WeightUnit } from '@/store/settingsStore';
+import type { AvailableEquipment } from '@/store/userProfileStore';
+import { EQUIPMENT_TYPES } from '@/types/exercise';
+import type { EquipmentType, Exercise } from '@/types/exercise';
+import type { GymProfile, GymProfileForAI } from '@/types/gymProfile';
+import { DEFAULT_PLATE_INVENTORIES, getPlateIncrement, isPlateLoaded } from '@/utils/plates';
+
+export const DEFAULT_GYM_PROFILE_ID = 'commercial-gym';
+
+/** Equipment that steps like dumbbells: fixed weights in a rack */
+const DUMBBELL_EQUIPMENT: EquipmentType[] = ['Dumbbell', 'Kettlebell'];
+/** Equipment that steps by a selectorized weight stack */
+const STACK_EQUIPMENT: EquipmentType[] = ['Machine', 'Cable'];
+
+/** Bodyweight work needs no equipment, so every gym supports it */
+const ALWAYS_AVAILABLE_EQUIPMENT: EquipmentType[] = ['Bodyweight'];
+
+export const DEFAULT_DUMBBELL_INCREMENTS: Record<WeightUnit, number> = { lbs: 5, kg: 2 };
+export const DEFAULT_MACHINE_INCREMENTS: Record<WeightUnit, number> = { lbs: 5, kg: 5 };
+
+const HOME_GYM_EQUIPMENT: EquipmentType[] = ['Barbell', 'Dumbbell', 'Bodyweight', 'Kettlebell', 'Bands', 'Bench'];
+
+export const createGymProfile = (id: string, name: string, equipment: EquipmentType[] = EQUIPMENT_TYPES): GymProfile => ({
+  id,
+  name,
+  equipment: [...equipment],
+  dumbbellIncrements: { ...DEFAULT_DUMBBELL_INCREMENTS },
+  machineIncrements: { ...DEFAULT_MACHINE_INCREMENTS },
+  plateInventories: {
+    lbs: { ...DEFAULT_PLATE_INVENTORIES.lbs, plates: DEFAULT_PLATE_INVENTORIES.lbs.plates.map((plate) => ({ ...plate })) },
+    kg: { ...DEFAULT_PLATE_INVENTORIES.kg, plates: DEFAULT_PLATE_INVENTORIES.kg.plates.map((plate) => ({ ...plate })) },
+  },
+});
+
+/** Equipment implied by the "available equipment" answer on the user's profile */
+const AVAILABLE_EQUIPMENT_TYPES: Record<AvailableEquipment, EquipmentType[]> = {
+  'full-gym': EQUIPMENT_TYPES,
+  'home-gym': HOME_GYM_EQUIPMENT,
+  'dumbbells-only': ['Dumbbell', 'Bench'],
+  'resistance-bands': ['Bands'],
+  bodyweight: [],
+};
+
+export const DEFAULT_GYM_PROFILES: GymProfile[] = [
+  createGymProfile(DEFAULT_GYM_PROFILE_ID, 'Commercial Gym'),
+  createGymProfile('home-gym', 'Home Gym', HOME_GYM_EQUIPMENT),
+];
+
+/**
+ * Weight step for equipment at a gym, in the given unit.
+ * Plate-loaded equipment steps by the lightest pair of plates, dumbbells by the rack's
+ * jump and machines by the stack step. Null for equipment the profile doesn't cover.
+ */
+export const getGymProfileIncrement = (
+  profile: GymProfile,
+  equipment: EquipmentType[],
+  unit: WeightUnit,
+): number | null => {
+  if (isPlateLoaded(equipment)) {
+    const increment = getPlateIncrement(profile.plateInventories[unit]);
+    return increment > 0 ? increment : null;
+  }
+
+  for (const item of equipment) {
+    if (DUMBBELL_EQUIPMENT.includes(item)) return profile.dumbbellIncrements[unit];
+    if (STACK_EQUIPMENT.includes(item)) return profile.machineIncrements[unit];
+  }
+  return null;
+};
+
+/**
+ * Whether an exercise can be done with the given equipment: every piece it needs is on hand.
+ * Equipment outside the known types (e.g. a landmine attachment) doesn't rule an exercise out.
+ */
+export const isExerciseDoableWith = (exercise: Pick<Exercise, 'equipment'>, equipment: EquipmentType[]): boolean => {
+  return exercise.equipment.every((item) =>
+    !EQUIPMENT_TYPES.includes(item)
+    || ALWAYS_AVAILABLE_EQUIPMENT.includes(item)
+    || equipment.includes(item),
+  );
+};
+
+/**
+ * Whether an exercise can be done at a gym: every piece of equipment it needs is available.
+ */
+export const isExerciseAvailable = (exercise: Pick<Exercise, 'equipment'>, profile: GymProfile): boolean => {
+  return isExerciseDoableWith(exercise, profile.equipment);
+};
+
+/**
+ * Equipment the user can train with: the active gym's equipment, narrowed by the
+ * "available equipment" answer on their profile when they gave one.
+ */
+export const getUsableEquipment = (
+  profile: GymProfile,
+  availableEquipment: AvailableEquipment | null | undefined,
+): EquipmentType[] => {
+  if (!availableEquipment) {
+    return profile.equipment;
+  }
+
+  const available = AVAILABLE_EQUIPMENT_TYPES[availableEquipment] ?? EQUIPMENT_TYPES;
+  return profile.equipment.filter((item) => available.includes(item));
+};
+
+export const toGymProfileForAI = (profile: GymProfile, unit: WeightUnit): GymProfileForAI => {
+  const inventory = profile.plateInventories[unit];
+  return {
+    name: profile.name,
+    equipment: profile.equipment,
+    weightUnit: unit,
+    dumbbellIncrement: profile.dumbbellIncrements[unit],
+    machineIncrement: profile.machineIncrements[unit],
+    barWeight: inventory.barWeight,
+    plates: inventory.plates.filter((plate) => plate.pairs > 0).map((plate) => plate.weight),
+  };
+};
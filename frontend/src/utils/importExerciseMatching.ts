@@ -0,0 +1,152 @@
+/**
+ * importExerciseMatching
+ * Maps exercise names from other apps onto the exercise catalog (built-in and custom).
+ * Names are compared as word sets so "Bench Press (Barbell)" matches "Barbell Bench Press".
+ */
+
+import type { ExerciseCatalogItem, ExerciseType } from '@/types/exercise';
+import type { Workout } from '@/types/workout';
+import type { ImportExerciseMatch, ImportExerciseResolution } from '@/types/workoutImport';
+import { normalizeExerciseGroups } from '@/utils/exerciseGroups';
+import { migrateExerciseName } from '@/utils/exerciseMigration';
+import { searchExercises } from '@/utils/exerciseSearch';
+import { normalizeSearchText } from '@/utils/strings';
+
+/** Words other apps add that carry no meaning for matching */
+const IGNORED_WORDS = new Set(['the', 'a', 'on', 'with', 'exercise']);
+
+/** Minimum share of the imported name's words a suggestion must contain */
+const SUGGESTION_MIN_OVERLAP = 0.5;
+
+const singularize = (word: string): string => {
+  if (word.length > 3 && word.endsWith('es') && /(ch|sh|ss|x)es$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+};
+
+const toWordKey = (name: string): string[] => {
+  return normalizeSearchText(name)
+    .split(' ')
+    .filter((word) => word && !IGNORED_WORDS.has(word))
+    .map(singularize)
+    .sort();
+};
+
+const sameWords = (a: string[], b: string[]): boolean => {
+  return a.length === b.length && a.every((word, index) => word === b[index]);
+};
+
+const overlapRatio = (source: string[], candidate: string[]): number => {
+  if (source.length === 0) return 0;
+  const candidateWords = new Set(candidate);
+  return source.filter((word) => candidateWords.has(word)).length / source.length;
+};
+
+/**
+ * Matches one imported exercise name against the catalog.
+ */
+export const matchImportedExercise = (
+  sourceName: string,
+  catalog: ExerciseCatalogItem[],
+): ImportExerciseMatch => {
+  const migratedName = migrateExerciseName(sourceName);
+  const sourceWords = toWordKey(migratedName);
+
+  const exact = catalog.find((exercise) => sameWords(toWordKey(exercise.name), sourceWords));
+  if (exact) {
+    return { sourceName, status: 'exact', matchedName: exact.name };
+  }
+
+  // Drop parentheses so "Bench Press (Barbell)" searches as "Bench Press Barbell"
+  const query = migratedName.replace(/[()]/g, ' ');
+  const [best] = searchExercises(query, [...catalog], { limit: 1 });
+
+  if (best && overlapRatio(sourceWords, toWordKey(best.name)) >= SUGGESTION_MIN_OVERLAP) {
+    return { sourceName, status: 'suggested', matchedName: best.name };
+  }
+
+  return { sourceName, status: 'unmatched', matchedName: null };
+};
+
+/**
+ * Matches every imported exercise name against the catalog.
+ */
+export const matchImportedExercises = (
+  sourceNames: string[],
+  catalog: ExerciseCatalogItem[],
+): ImportExerciseMatch[] => {
+  return sourceNames.map((name) => matchImportedExercise(name, catalog));
+};
+
+/**
+ * Default resolution for a match: use the catalog exercise when one was found,
+ * otherwise create a custom exercise under the imported name.
+ */
+export const getDefaultResolution = (match: ImportExerciseMatch): ImportExerciseResolution => {
+  return match.matchedName ? { type: 'existing', exerciseName: match.matchedName } : { type: 'custom' };
+};
+
+/**
+ * Guesses the exercise type of an unknown exercise from the sets logged for it.
+ */
+export const inferImportedExerciseType = (workouts: Workout[], sourceName: string): ExerciseType => {
+  let hasWeight = false;
+  let hasReps = false;
+  let hasDistance = false;
+  let hasDuration = false;
+
+  workouts.forEach((workout) => {
+    workout.exercises
+      .filter((exercise) => exercise.name === sourceName)
+      .forEach((exercise) => {
+        exercise.sets.forEach((set) => {
+          hasWeight = hasWeight || (set.weight ?? 0) > 0;
+          hasReps = hasReps || (set.reps ?? 0) > 0;
+          hasDistance = hasDistance || (set.distance ?? 0) > 0;
+          hasDuration = hasDuration || (set.duration ?? 0) > 0;
+        });
+      });
+  });
+
+  if (hasDistance) return 'cardio';
+  if (hasWeight) return 'weight';
+  if (hasReps) return 'reps_only';
+  if (hasDuration) return 'duration';
+  return 'weight';
+};
+
+/**
+ * Renames imported exercises to their resolved names and drops skipped ones.
+ * Workouts left with no exercises are removed.
+ * @param resolvedNames Map of imported name to final exercise name (absent = skip)
+ */
+export const applyImportResolutions = (
+  workouts: Workout[],
+  resolvedNames: Map<string, string>,
+): Workout[] => {
+  return workouts
+    .map((workout) => {
+      const exercises: Workout['exercises'] = [];
+
+      workout.exercises.forEach((exercise) => {
+        const name = resolvedNames.get(exercise.name);
+        if (!name) return;
+
+        // Two imported names can resolve to the same exercise; merge their sets
+        const existing = exercises.find((item) => item.name === name);
+        if (existing) {
+          existing.sets = [...existing.sets, ...exercise.sets];
+          return;
+        }
+
+        exercises.push({ ...exercise, name });
+      });
+
+      return { ...workout, exercises: normalizeExerciseGroups(exercises) };
+    })
+    .filter((workout) => workout.exercises.length > 0);
+};
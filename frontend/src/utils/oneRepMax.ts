@@ -0,0 +1,98 @@
+/**
+ * oneRepMax
+ * Estimated one-rep max (e1RM) helpers shared by insights, personal records and history charts.
+ * Weights are in lbs like everything else in storage; convert for display at the call site.
+ */
+
+import type { SetLog } from '@/types/workout';
+import { isWarmupSet } from '@/utils/setTypes';
+
+export type E1RMFormula = 'epley' | 'brzycki';
+
+export const E1RM_FORMULA_LABELS: Record<E1RMFormula, string> = {
+  epley: 'Epley',
+  brzycki: 'Brzycki',
+};
+
+export const DEFAULT_E1RM_FORMULA: E1RMFormula = 'epley';
+
+/**
+ * Sets above this rep count are too far from a true max to estimate from reliably,
+ * so they are left out of e1RM records and charts.
+ */
+export const E1RM_MAX_REPS = 12;
+
+/** Brzycki divides by (37 - reps); clamp well before the formula breaks down */
+const BRZYCKI_REP_LIMIT = 36;
+
+/**
+ * Estimates a one-rep max from a weight lifted for a number of reps.
+ * A single rep is its own max under every formula.
+ */
+export const estimateE1RM = (
+  weight: number,
+  reps: number,
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA,
+): number => {
+  if (weight <= 0 || reps <= 0) return 0;
+  if (reps === 1) return weight;
+
+  switch (formula) {
+    case 'brzycki':
+      return (weight * 36) / (37 - Math.min(reps, BRZYCKI_REP_LIMIT));
+    case 'epley':
+    default:
+      return weight * (1 + reps / 30);
+  }
+};
+
+/**
+ * Inverse of estimateE1RM: the weight that can be lifted for a number of reps
+ * given an estimated one-rep max.
+ */
+export const estimateWeightForReps = (
+  e1rm: number,
+  reps: number,
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA,
+): number => {
+  if (e1rm <= 0 || reps <= 0) return 0;
+  if (reps === 1) return e1rm;
+
+  switch (formula) {
+    case 'brzycki':
+      return (e1rm * (37 - Math.min(reps, BRZYCKI_REP_LIMIT))) / 36;
+    case 'epley':
+    default:
+      return e1rm / (1 + reps / 30);
+  }
+};
+
+/**
+ * e1RM for a logged set, or null when the set should not count
+ * (not completed, warm-up, missing weight, or too many reps).
+ */
+export const getSetE1RM = (set: SetLog, formula: E1RMFormula = DEFAULT_E1RM_FORMULA): number | null => {
+  if (!set.completed || isWarmupSet(set)) return null;
+
+  const weight = set.weight ?? 0;
+  const reps = set.reps ?? 0;
+  if (weight <= 0 || reps <= 0 || reps > E1RM_MAX_REPS) return null;
+
+  return estimateE1RM(weight, reps, formula);
+};
+
+/**
+ * Best e1RM across a list of sets, or null when no set qualifies.
+ */
+export const getBestE1RM = (sets: SetLog[], formula: E1RMFormula = DEFAULT_E1RM_FORMULA): number | null => {
+  let best: number | null = null;
+
+  sets.forEach((set) => {
+    const e1rm = getSetE1RM(set, formula);
+    if (e1rm !== null && (best === null || e1rm > best)) {
+      best = e1rm;
+    }
+  });
+
+  return best;
+};
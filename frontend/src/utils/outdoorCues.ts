@@ -0,0 +1,277 @@
+/**
+ * outdoorCues
+ * Target checks and cue text for outdoor sessions: current pace against a pace range,
+ * what's left of a distance or time goal, and which cues are due as the session goes on.
+ */
+
+import type { GpsCoordinate, OutdoorTarget, PaceTargetStatus, SplitMark, SplitUnit } from '@/types/outdoor';
+import { formatElapsedTime, formatPace, haversineDistance } from '@/utils/geo';
+import type { HapticPattern } from '@/utils/haptics';
+
+const MILES_TO_KM = 1.609344;
+
+/** Current pace is measured over this much recent route, so one slow corner doesn't trigger a cue */
+const RECENT_PACE_WINDOW_SECONDS = 60;
+
+/** Less route than this in the window (miles, ≈ 50 m) is too little to judge pace from */
+const MIN_RECENT_DISTANCE_MILES = 0.03;
+
+const PACE_CHECK_INTERVAL_MS = 15000;
+
+/** Still outside the target range after this long repeats the cue */
+const PACE_REMINDER_MS = 120000;
+
+const PACE_CUE_HAPTICS: Record<PaceTargetStatus, HapticPattern> = {
+  slow: 'warning',
+  'on-target': 'success',
+  fast: 'medium',
+};
+
+/** A cue to announce: a haptic, plus a short message that is shown and read aloud */
+export interface OutdoorCue {
+  message: string;
+  haptic: HapticPattern;
+}
+
+/** What a session has already been cued about, so each cue fires once */
+export interface OutdoorCueState {
+  splitCount: number;
+  /** 0, 0.5 once halfway was cued, 1 once the goal was */
+  goalProgress: number;
+  paceStatus: PaceTargetStatus | null;
+  lastPaceCheckAt: number;
+  lastPaceCueAt: number;
+}
+
+export const INITIAL_CUE_STATE: OutdoorCueState = {
+  splitCount: 0,
+  goalProgress: 0,
+  paceStatus: null,
+  lastPaceCheckAt: 0,
+  lastPaceCueAt: 0,
+};
+
+interface CueSession {
+  target: OutdoorTarget | null;
+  splitUnit: SplitUnit;
+  splitMarks: SplitMark[];
+  distanceMiles: number;
+  elapsedSeconds: number;
+  coordinates: GpsCoordinate[];
+}
+
+/**
+ * Pace over the last minute of route, in seconds per mile.
+ * @returns Null until there's enough recent movement to measure.
+ */
+export const getRecentPace = (coordinates: GpsCoordinate[]): number | null => {
+  if (coordinates.length < 2) return null;
+
+  const latest = coordinates[coordinates.length - 1];
+  let distanceMiles = 0;
+  let earliest = latest;
+
+  for (let i = coordinates.length - 1; i > 0; i--) {
+    const previous = coordinates[i - 1];
+    if ((latest.timestamp - previous.timestamp) / 1000 > RECENT_PACE_WINDOW_SECONDS) break;
+    distanceMiles += haversineDistance(previous, coordinates[i]);
+    earliest = previous;
+  }
+
+  const seconds = (latest.timestamp - earliest.timestamp) / 1000;
+  if (distanceMiles < MIN_RECENT_DISTANCE_MILES || seconds <= 0) return null;
+  return seconds / distanceMiles;
+};
+
+export const getPaceTargetStatus = (
+  paceSecondsPerMile: number | null,
+  target: OutdoorTarget | null,
+): PaceTargetStatus | null => {
+  if (paceSecondsPerMile === null || target?.type !== 'pace') return null;
+  if (paceSecondsPerMile > target.slowestPaceSecondsPerMile) return 'slow';
+  if (paceSecondsPerMile < target.fastestPaceSecondsPerMile) return 'fast';
+  return 'on-target';
+};
+
+/**
+ * Share of a distance or time goal completed, from 0 to 1. Null for pace targets.
+ */
+export const getGoalProgress = (
+  target: OutdoorTarget | null,
+  distanceMiles: number,
+  elapsedSeconds: number,
+): number | null => {
+  if (target?.type === 'distance') {
+    return Math.min(distanceMiles / target.distanceMiles, 1);
+  }
+  if (target?.type === 'time') {
+    return Math.min(elapsedSeconds / target.durationSeconds, 1);
+  }
+  return null;
+};
+
+const formatUnitDistance = (miles: number, unit: SplitUnit): string => {
+  const value = unit === 'km' ? miles * MILES_TO_KM : miles;
+  return `${value.toFixed(2)} ${unit}`;
+};
+
+const formatUnitPace = (paceSecondsPerMile: number, unit: SplitUnit): string =>
+  `${formatPace(unit === 'km' ? paceSecondsPerMile / MILES_TO_KM : paceSecondsPerMile)} /${unit}`;
+
+/**
+ * Short label for a target, e.g. "8:00–8:30 /mi", "5.00 km" or "30:00".
+ */
+export const formatOutdoorTarget = (target: OutdoorTarget, unit: SplitUnit): string => {
+  switch (target.type) {
+    case 'pace': {
+      const fastest = unit === 'km' ? target.fastestPaceSecondsPerMile / MILES_TO_KM : target.fastestPaceSecondsPerMile;
+      const slowest = unit === 'km' ? target.slowestPaceSecondsPerMile / MILES_TO_KM : target.slowestPaceSecondsPerMile;
+      return `${formatPace(fastest)}–${formatPace(slowest)} /${unit}`;
+    }
+    case 'distance':
+      return formatUnitDistance(target.distanceMiles, unit);
+    case 'time':
+      return formatElapsedTime(target.durationSeconds);
+  }
+};
+
+/**
+ * What's left of a distance or time goal, e.g. "1.20 mi to go". Null for pace targets.
+ */
+export const formatGoalRemaining = (
+  target: OutdoorTarget | null,
+  distanceMiles: number,
+  elapsedSeconds: number,
+  unit: SplitUnit,
+): string | null => {
+  if (target?.type === 'distance') {
+    return `${formatUnitDistance(Math.max(target.distanceMiles - distanceMiles, 0), unit)} to go`;
+  }
+  if (target?.type === 'time') {
+    return `${formatElapsedTime(Math.max(target.durationSeconds - elapsedSeconds, 0))} to go`;
+  }
+  return null;
+};
+
+const PACE_STATUS_LABELS: Record<PaceTargetStatus, string> = {
+  slow: 'Behind target pace',
+  'on-target': 'On target pace',
+  fast: 'Ahead of target pace',
+};
+
+/**
+ * Cue text for a finished split, e.g. "Mile 3 · 8:12 · On target pace".
+ */
+export const buildSplitCueMessage = (
+  splitNumber: number,
+  splitSeconds: number,
+  unit: SplitUnit,
+  paceStatus: PaceTargetStatus | null,
+  goalRemaining: string | null,
+): string => {
+  const parts = [`${unit === 'km' ? 'Km' : 'Mile'} ${splitNumber}`, formatElapsedTime(Math.round(splitSeconds))];
+  if (paceStatus) parts.push(PACE_STATUS_LABELS[paceStatus]);
+  if (goalRemaining) parts.push(goalRemaining);
+  return parts.join(' · ');
+};
+
+/**
+ * Cue text for a change against the target pace, e.g. "Behind target pace · 8:52 /mi".
+ */
+export const buildPaceCueMessage = (
+  paceStatus: PaceTargetStatus,
+  paceSecondsPerMile: number,
+  unit: SplitUnit,
+): string => `${PACE_STATUS_LABELS[paceStatus]} · ${formatUnitPace(paceSecondsPerMile, unit)}`;
+
+const pluralizeUnit = (count: number, unit: string): string => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+/**
+ * Cue text as it should be read aloud: clock times become hours, minutes and seconds and
+ * unit abbreviations are spelled out, e.g. "Mile 3, 8 minutes 12 seconds, On target pace".
+ */
+export const getSpokenCueText = (message: string): string =>
+  message
+    .replace(/ · /g, ', ')
+    .replace(/\b(?:(\d+):)?(\d{1,2}):(\d{2})\b/g, (_match, hours: string | undefined, minutes: string, seconds: string) => {
+      const parts = [
+        hours ? pluralizeUnit(Number(hours), 'hour') : null,
+        Number(minutes) > 0 ? pluralizeUnit(Number(minutes), 'minute') : null,
+        Number(seconds) > 0 || (!hours && Number(minutes) === 0) ? pluralizeUnit(Number(seconds), 'second') : null,
+      ];
+      return parts.filter(Boolean).join(' ');
+    })
+    .replace(/ \/mi\b/g, ' per mile')
+    .replace(/ \/km\b/g, ' per kilometer')
+    .replace(/\bKm (\d)/g, 'Kilometer $1')
+    .replace(/(\d) mi\b/g, '$1 miles')
+    .replace(/(\d) km\b/g, '$1 kilometers');
+
+/**
+ * Cues due since the last check: a finished split, halfway and the end of a distance or
+ * time goal, and the pace drifting out of (or back into) the target range.
+ */
+export const getDueOutdoorCues = (
+  session: CueSession,
+  cueState: OutdoorCueState,
+  now: number,
+): { cues: OutdoorCue[]; cueState: OutdoorCueState } => {
+  const { target, splitUnit, splitMarks, distanceMiles, elapsedSeconds, coordinates } = session;
+  const cues: OutdoorCue[] = [];
+  const next = { ...cueState };
+
+  if (splitMarks.length > cueState.splitCount) {
+    next.splitCount = splitMarks.length;
+
+    const mark = splitMarks[splitMarks.length - 1];
+    const previous = splitMarks.length > 1 ? splitMarks[splitMarks.length - 2] : { distanceMiles: 0, elapsedSeconds: 0 };
+    const splitSeconds = mark.elapsedSeconds - previous.elapsedSeconds;
+    const splitPace = splitSeconds / (mark.distanceMiles - previous.distanceMiles);
+
+    cues.push({
+      message: buildSplitCueMessage(
+        splitMarks.length,
+        splitSeconds,
+        splitUnit,
+        getPaceTargetStatus(splitPace, target),
+        formatGoalRemaining(target, mark.distanceMiles, mark.elapsedSeconds, splitUnit),
+      ),
+      haptic: 'success',
+    });
+  }
+
+  const progress = getGoalProgress(target, distanceMiles, elapsedSeconds);
+  if (progress !== null) {
+    if (progress >= 1 && cueState.goalProgress < 1) {
+      next.goalProgress = 1;
+      cues.push({ message: 'Goal reached!', haptic: 'success' });
+    } else if (progress >= 0.5 && cueState.goalProgress < 0.5) {
+      next.goalProgress = 0.5;
+      cues.push({
+        message: `Halfway · ${formatGoalRemaining(target, distanceMiles, elapsedSeconds, splitUnit)}`,
+        haptic: 'light',
+      });
+    }
+  }
+
+  if (target?.type === 'pace' && now - cueState.lastPaceCheckAt >= PACE_CHECK_INTERVAL_MS) {
+    next.lastPaceCheckAt = now;
+
+    const pace = getRecentPace(coordinates);
+    const paceStatus = getPaceTargetStatus(pace, target);
+    if (pace !== null && paceStatus !== null) {
+      const changed = cueState.paceStatus !== paceStatus;
+      const needsReminder = paceStatus !== 'on-target' && now - cueState.lastPaceCueAt >= PACE_REMINDER_MS;
+      next.paceStatus = paceStatus;
+
+      // Settling into the range at the start isn't news
+      const isFirstOnTarget = cueState.paceStatus === null && paceStatus === 'on-target';
+      if (!isFirstOnTarget && (changed || needsReminder)) {
+        next.lastPaceCueAt = now;
+        cues.push({ message: buildPaceCueMessage(paceStatus, pace, splitUnit), haptic: PACE_CUE_HAPTICS[paceStatus] });
+      }
+    }
+  }
+
+  return { cues, cueState: next };
+};
@@ -0,0 +1,107 @@
+/**
+ * outdoorSplits
+ * Automatic per-mile/km splits and manual laps for outdoor sessions.
+ * Split and lap ends are recorded live as marks (cumulative distance and moving time);
+ * the saved splits are the pieces between consecutive marks.
+ */
+
+import type { OutdoorSplit, SplitMark, SplitUnit } from '@/types/outdoor';
+import { calculatePace } from '@/utils/geo';
+
+/** Length of one automatic split, in miles */
+export const SPLIT_DISTANCE_MILES: Record<SplitUnit, number> = {
+  mi: 1,
+  km: 1 / 1.609344,
+};
+
+/** A trailing piece shorter than this (miles) is GPS noise after the last mark, not a split */
+const MIN_FINAL_SPLIT_MILES = 0.01;
+
+/**
+ * Moving seconds since the session started at a given time, excluding paused time.
+ */
+export const getMovingSeconds = (timestamp: number, startTime: number, pausedDurationMs: number): number =>
+  Math.max((timestamp - startTime - pausedDurationMs) / 1000, 0);
+
+/**
+ * Split ends passed while moving from one point to the next, with times interpolated
+ * along the way. Usually empty or a single mark.
+ */
+export const getCrossedSplitMarks = (
+  previous: SplitMark,
+  next: SplitMark,
+  unit: SplitUnit,
+): SplitMark[] => {
+  const splitMiles = SPLIT_DISTANCE_MILES[unit];
+  const marks: SplitMark[] = [];
+  const covered = next.distanceMiles - previous.distanceMiles;
+
+  let boundary = (Math.floor(previous.distanceMiles / splitMiles) + 1) * splitMiles;
+  while (covered > 0 && boundary <= next.distanceMiles) {
+    const fraction = (boundary - previous.distanceMiles) / covered;
+    marks.push({
+      distanceMiles: boundary,
+      elapsedSeconds: previous.elapsedSeconds + fraction * (next.elapsedSeconds - previous.elapsedSeconds),
+    });
+    boundary += splitMiles;
+  }
+
+  return marks;
+};
+
+/**
+ * Splits from their end marks, plus the unfinished piece up to the end of the session.
+ */
+export const buildSplitsFromMarks = (marks: SplitMark[], end: SplitMark): OutdoorSplit[] => {
+  const splits: OutdoorSplit[] = [];
+  let previous: SplitMark = { distanceMiles: 0, elapsedSeconds: 0 };
+
+  for (const mark of marks) {
+    splits.push({
+      distanceMiles: mark.distanceMiles - previous.distanceMiles,
+      durationSeconds: Math.round(mark.elapsedSeconds - previous.elapsedSeconds),
+    });
+    previous = mark;
+  }
+
+  const remainingMiles = end.distanceMiles - previous.distanceMiles;
+  if (remainingMiles >= MIN_FINAL_SPLIT_MILES) {
+    splits.push({
+      distanceMiles: remainingMiles,
+      durationSeconds: Math.max(Math.round(end.elapsedSeconds - previous.elapsedSeconds), 0),
+    });
+  }
+
+  return splits;
+};
+
+export const getSplitPace = (split: OutdoorSplit): number | null =>
+  calculatePace(split.distanceMiles, split.durationSeconds);
+
+/**
+ * Indexes of the fastest and slowest splits by pace.
+ * A partial last split only counts when it is at least half a full split, so a short
+ * jog to the door doesn't win "fastest". Null when fewer than two splits qualify.
+ */
+export const getSplitExtremes = (
+  splits: OutdoorSplit[],
+  fullSplitMiles?: number,
+): { fastestIndex: number; slowestIndex: number } | null => {
+  const candidates = splits
+    .map((split, index) => ({ index, pace: getSplitPace(split), distanceMiles: split.distanceMiles }))
+    .filter((item): item is { index: number; pace: number; distanceMiles: number } =>
+      item.pace !== null && (!fullSplitMiles || item.distanceMiles >= fullSplitMiles / 2));
+
+  if (candidates.length < 2) {
+    return null;
+  }
+
+  let fastest = candidates[0];
+  let slowest = candidates[0];
+  candidates.forEach((candidate) => {
+    if (candidate.pace < fastest.pace) fastest = candidate;
+    if (candidate.pace > slowest.pace) slowest = candidate;
+  });
+
+  return fastest.index === slowest.index ? null : { fastestIndex: fastest.index, slowestIndex: slowest.index };
+};
@@ -0,0 +1,297 @@
+/**
+ * personalRecords
+ * Builds full personal-record history for weighted exercises from workout history:
+ * rep maxes (1RM–12RM), best volume set, best session volume and a timeline of broken records.
+ */
+
+import { getExerciseTypeByName } from '@/constants/exercises';
+import type { ExerciseType } from '@/types/exercise';
+import type {
+  ExerciseBests,
+  ExercisePersonalRecords,
+  PersonalRecordEvent,
+  RepMaxRecord,
+  SetPersonalRecord,
+  SetPersonalRecordType,
+  VolumeSetRecord,
+} from '@/types/personalRecords';
+import type { SetLog, Workout, WorkoutExercise } from '@/types/workout';
+import { getSetE1RM } from '@/utils/oneRepMax';
+import type { E1RMFormula } from '@/utils/oneRepMax';
+import { isWarmupSet } from '@/utils/setTypes';
+
+/** Highest rep count with its own rep-max record */
+export const REP_MAX_LIMIT = 12;
+
+const getWorkoutTime = (workout: Workout): number => {
+  return workout.startTime ?? new Date(workout.date).getTime();
+};
+
+const createEmptyRecords = (exerciseName: string, date: string): ExercisePersonalRecords => ({
+  exerciseName,
+  repMaxes: Array.from({ length: REP_MAX_LIMIT }, () => null),
+  bestVolumeSet: null,
+  bestSessionVolume: null,
+  timeline: [],
+  lastPerformed: date,
+});
+
+/**
+ * Computes personal records for every weighted exercise in history.
+ * Only the best set of each session counts toward the timeline, so three
+ * progressively heavier sets in one workout produce a single PR event.
+ * @returns Records sorted by most recently performed exercise first
+ */
+export const computePersonalRecords = (
+  workouts: Workout[],
+  customExercises: { name: string; exerciseType: ExerciseType }[],
+): ExercisePersonalRecords[] => {
+  const recordsByExercise = new Map<string, ExercisePersonalRecords>();
+  const typeCache = new Map<string, ExerciseType>();
+
+  const isWeighted = (name: string): boolean => {
+    let type = typeCache.get(name);
+    if (!type) {
+      type = getExerciseTypeByName(name, customExercises);
+      typeCache.set(name, type);
+    }
+    return type === 'weight';
+  };
+
+  const chronological = [...workouts].sort((a, b) => getWorkoutTime(a) - getWorkoutTime(b));
+
+  chronological.forEach((workout) => {
+    (workout.exercises ?? []).forEach((exercise) => {
+      if (!isWeighted(exercise.name)) return;
+
+      const source = { workoutId: workout.id, date: workout.date };
+      const sessionRepMaxes = new Map<number, RepMaxRecord>();
+      let sessionBestSet: VolumeSetRecord | null = null;
+      let sessionVolume = 0;
+
+      for (const set of exercise.sets ?? []) {
+        if (!set.completed || isWarmupSet(set)) continue;
+
+        const weight = set.weight ?? 0;
+        const reps = set.reps ?? 0;
+        if (weight <= 0 || reps <= 0) continue;
+
+        const volume = weight * reps;
+        sessionVolume += volume;
+
+        if (!sessionBestSet || volume > sessionBestSet.volume) {
+          sessionBestSet = { ...source, weight, reps, volume };
+        }
+
+        if (reps <= REP_MAX_LIMIT) {
+          const current = sessionRepMaxes.get(reps);
+          if (!current || weight > current.weight) {
+            sessionRepMaxes.set(reps, { ...source, reps, weight });
+          }
+        }
+      }
+
+      if (sessionVolume === 0) return;
+
+      const records = recordsByExercise.get(exercise.name) ?? createEmptyRecords(exercise.name, workout.date);
+      recordsByExercise.set(exercise.name, records);
+      records.lastPerformed = workout.date;
+
+      const events: PersonalRecordEvent[] = [];
+
+      [...sessionRepMaxes.values()]
+        .sort((a, b) => a.reps - b.reps)
+        .forEach((candidate) => {
+          const previous = records.repMaxes[candidate.reps - 1];
+          if (previous && candidate.weight <= previous.weight) return;
+
+          records.repMaxes[candidate.reps - 1] = candidate;
+          // The first time a rep count is lifted sets a baseline, not a broken record
+          if (previous) {
+            events.push({
+              ...source,
+              kind: 'rep_max',
+              exerciseName: exercise.name,
+              reps: candidate.reps,
+              weight: candidate.weight,
+              value: candidate.weight,
+              previousValue: previous.weight,
+            });
+          }
+        });
+
+      if (sessionBestSet && (!records.bestVolumeSet || sessionBestSet.volume > records.bestVolumeSet.volume)) {
+        if (records.bestVolumeSet) {
+          events.push({
+            ...source,
+            kind: 'volume_set',
+            exerciseName: exercise.name,
+            reps: sessionBestSet.reps,
+            weight: sessionBestSet.weight,
+            value: sessionBestSet.volume,
+            previousValue: records.bestVolumeSet.volume,
+          });
+        }
+        records.bestVolumeSet = sessionBestSet;
+      }
+
+      if (!records.bestSessionVolume || sessionVolume > records.bestSessionVolume.volume) {
+        if (records.bestSessionVolume) {
+          events.push({
+            ...source,
+            kind: 'session_volume',
+            exerciseName: exercise.name,
+            value: sessionVolume,
+            previousValue: records.bestSessionVolume.volume,
+          });
+        }
+        records.bestSessionVolume = { ...source, volume: sessionVolume };
+      }
+
+      // Newest first; events from one session keep their rep-max → volume order
+      records.timeline = [...events, ...records.timeline];
+    });
+  });
+
+  return [...recordsByExercise.values()].sort(
+    (a, b) => new Date(b.lastPerformed).getTime() - new Date(a.lastPerformed).getTime(),
+  );
+};
+
+/**
+ * Merges every exercise's timeline into one list, newest first.
+ */
+export const getPersonalRecordTimeline = (records: ExercisePersonalRecords[]): PersonalRecordEvent[] => {
+  return records
+    .flatMap((record) => record.timeline)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
+
+const createEmptyBests = (): ExerciseBests => ({
+  maxWeight: 0,
+  repMaxes: Array.from({ length: REP_MAX_LIMIT }, () => 0),
+  bestE1RM: 0,
+});
+
+/** Returns the set's weight and reps if it counts toward records (completed, working, weighted) */
+const getRecordSetValues = (set: SetLog): { weight: number; reps: number } | null => {
+  if (!set.completed || isWarmupSet(set)) return null;
+
+  const weight = set.weight ?? 0;
+  const reps = set.reps ?? 0;
+  return weight > 0 && reps > 0 ? { weight, reps } : null;
+};
+
+/**
+ * Folds a set into an exercise's bests, returning new bests.
+ */
+export const addSetToBests = (bests: ExerciseBests, set: SetLog, formula: E1RMFormula): ExerciseBests => {
+  const values = getRecordSetValues(set);
+  if (!values) return bests;
+
+  const repMaxes = [...bests.repMaxes];
+  if (values.reps <= REP_MAX_LIMIT) {
+    repMaxes[values.reps - 1] = Math.max(repMaxes[values.reps - 1], values.weight);
+  }
+
+  return {
+    maxWeight: Math.max(bests.maxWeight, values.weight),
+    repMaxes,
+    bestE1RM: Math.max(bests.bestE1RM, getSetE1RM(set, formula) ?? 0),
+  };
+};
+
+/**
+ * Best weight, rep maxes and e1RM for each named exercise across workout history.
+ */
+export const getExerciseBests = (
+  workouts: Workout[],
+  exerciseNames: string[],
+  formula: E1RMFormula,
+): Map<string, ExerciseBests> => {
+  const names = new Set(exerciseNames);
+  const bestsByExercise = new Map<string, ExerciseBests>();
+
+  workouts.forEach((workout) => {
+    (workout.exercises ?? []).forEach((exercise) => {
+      if (!names.has(exercise.name)) return;
+
+      let bests = bestsByExercise.get(exercise.name) ?? createEmptyBests();
+      (exercise.sets ?? []).forEach((set) => {
+        bests = addSetToBests(bests, set, formula);
+      });
+      bestsByExercise.set(exercise.name, bests);
+    });
+  });
+
+  return bestsByExercise;
+};
+
+/**
+ * Records a set breaks against the given bests.
+ * A record needs something to beat, so the first time an exercise or rep count
+ * is logged sets a baseline rather than a PR.
+ */
+export const detectSetPersonalRecords = (
+  set: SetLog,
+  bests: ExerciseBests | undefined,
+  formula: E1RMFormula,
+): SetPersonalRecordType[] => {
+  const values = getRecordSetValues(set);
+  if (!values || !bests) return [];
+
+  const types: SetPersonalRecordType[] = [];
+
+  if (bests.maxWeight > 0 && values.weight > bests.maxWeight) {
+    types.push('weight');
+  }
+
+  const previousRepMax = values.reps <= REP_MAX_LIMIT ? bests.repMaxes[values.reps - 1] : 0;
+  if (previousRepMax > 0 && values.weight > previousRepMax) {
+    types.push('rep_max');
+  }
+
+  const e1rm = getSetE1RM(set, formula) ?? 0;
+  if (bests.bestE1RM > 0 && e1rm > bests.bestE1RM) {
+    types.push('e1rm');
+  }
+
+  return types;
+};
+
+/**
+ * Every record broken in a session, in set order.
+ * Sets are compared against history plus the session's earlier sets, so a PR
+ * repeated on the next set does not count twice.
+ * @param exercises Session exercises with weights in lbs
+ * @param historyBests Bests from workouts before this session (see getExerciseBests)
+ */
+export const computeSessionPersonalRecords = (
+  exercises: WorkoutExercise[],
+  historyBests: Map<string, ExerciseBests>,
+  formula: E1RMFormula,
+): SetPersonalRecord[] => {
+  const records: SetPersonalRecord[] = [];
+
+  exercises.forEach((exercise) => {
+    let bests = historyBests.get(exercise.name);
+    if (!bests) return;
+
+    for (const [setIndex, set] of (exercise.sets ?? []).entries()) {
+      const types = detectSetPersonalRecords(set, bests, formula);
+      if (types.length > 0) {
+        records.push({
+          exerciseName: exercise.name,
+          setIndex,
+          types,
+          weight: set.weight ?? 0,
+          reps: set.reps ?? 0,
+          e1rm: getSetE1RM(set, formula) ?? 0,
+        });
+      }
+      bests = addSetToBests(bests, set, formula);
+    }
+  });
+
+  return records;
+};
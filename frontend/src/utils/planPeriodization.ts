@@ -0,0 +1,177 @@
+/**
+ * planPeriodization
+ * Resolves a plan exercise's prescription for a given program week and applies it
+ * to the sets a session starts with.
+ */
+
+import type { EquipmentType, ExerciseType } from '@/types/exercise';
+import { FATIGUE_CONFIG } from '@/types/fatigue';
+import type { PlanMetadata } from '@/types/premadePlan';
+import type { PlanExercise, PlanWeekContext, PlanWeekPrescription } from '@/types/plan';
+import type { SmartSetsResult } from '@/utils/exerciseHistory';
+import { estimateWeightForReps } from '@/utils/oneRepMax';
+import type { E1RMFormula } from '@/utils/oneRepMax';
+import { isWarmupSet } from '@/utils/setTypes';
+import { roundToIncrement } from '@/utils/smartSuggestions';
+
+/** Deload weeks keep this share of the week's working sets */
+const DELOAD_SET_FACTOR = 0.5;
+/** Deload weeks keep this share of the week's load */
+const DELOAD_LOAD_FACTOR = 0.9;
+/** Deload weeks lower a target RPE by this much */
+const DELOAD_RPE_DROP = 2;
+const MIN_TARGET_RPE = 5;
+
+/** Exercise types whose sets carry reps */
+const REP_BASED_TYPES: ExerciseType[] = ['weight', 'bodyweight', 'assisted', 'reps_only'];
+
+/**
+ * Maps a schedule week onto the program, restarting from week 1 once the
+ * program's declared length has run out.
+ */
+export const getPlanWeekContext = (
+  scheduleWeek: number,
+  metadata: Pick<PlanMetadata, 'durationWeeks' | 'deloadWeeks'> | undefined,
+): PlanWeekContext => {
+  const totalWeeks = metadata?.durationWeeks && metadata.durationWeeks > 0 ? metadata.durationWeeks : undefined;
+  const week = totalWeeks ? ((scheduleWeek - 1) % totalWeeks) + 1 : scheduleWeek;
+
+  return {
+    week,
+    totalWeeks,
+    isDeload: (metadata?.deloadWeeks ?? []).includes(week),
+  };
+};
+
+/**
+ * This week's prescription for a plan exercise, or null when the exercise has
+ * nothing beyond its fixed set count and the week is a normal one.
+ */
+export const resolveWeekPrescription = (
+  exercise: Pick<PlanExercise, 'sets' | 'weeks'>,
+  context: PlanWeekContext,
+): PlanWeekPrescription | null => {
+  const weeks = exercise.weeks ?? [];
+  if (weeks.length === 0 && !context.isDeload) {
+    return null;
+  }
+
+  const base: PlanWeekPrescription = weeks.length > 0
+    ? weeks[(context.week - 1) % weeks.length]
+    : {};
+  const sets = base.sets ?? (exercise.sets > 0 ? exercise.sets : undefined);
+
+  if (!context.isDeload) {
+    return { ...base, sets };
+  }
+
+  return {
+    ...base,
+    sets: sets !== undefined ? Math.max(1, Math.round(sets * DELOAD_SET_FACTOR)) : undefined,
+    percent1RM: base.percent1RM !== undefined ? Math.round(base.percent1RM * DELOAD_LOAD_FACTOR) : undefined,
+    percentTM: base.percentTM !== undefined ? Math.round(base.percentTM * DELOAD_LOAD_FACTOR) : undefined,
+    rpe: base.rpe !== undefined ? Math.max(MIN_TARGET_RPE, base.rpe - DELOAD_RPE_DROP) : undefined,
+  };
+};
+
+/**
+ * Seeds session sets with a week's prescription.
+ * History-based reps are clamped into the prescribed range, and weight comes from the
+ * exercise's training max for a %TM target or its best e1RM for a %1RM or RPE target.
+ * Without a load target a deload week takes the history-based weight down instead.
+ * A deload week the user accepted lightens the load target too, unless the plan week
+ * is already a deload. Loads are worked out and rounded in lbs, then converted to the unit sets are entered in.
+ */
+export const applyWeekPrescription = (
+  result: SmartSetsResult,
+  prescription: PlanWeekPrescription,
+  options: {
+    exerciseType: ExerciseType;
+    equipment: EquipmentType[];
+    bestE1RM: number | null;
+    trainingMaxLbs: number | null;
+    isDeload: boolean;
+    /** Whether the session falls in a deload week the user accepted */
+    isAcceptedDeload: boolean;
+    formula: E1RMFormula;
+    /** Converts lbs to the unit session sets are entered in */
+    toDisplayWeight: (lbs: number) => number;
+    /** Converts a session set weight back to lbs */
+    fromDisplayWeight: (weight: number) => number;
+  },
+): SmartSetsResult => {
+  const { exerciseType, equipment, bestE1RM, trainingMaxLbs, isDeload, isAcceptedDeload, formula, toDisplayWeight, fromDisplayWeight } = options;
+  if (!REP_BASED_TYPES.includes(exerciseType)) {
+    return result;
+  }
+
+  const { reps: repRange, percent1RM, percentTM, rpe } = prescription;
+  const usesWeight = exerciseType === 'weight';
+
+  const sets = result.sets.map((set) => {
+    if (isWarmupSet(set)) return set;
+
+    const next = { ...set };
+    if (repRange) {
+      next.reps = Math.min(repRange.max, Math.max(repRange.min, set.reps ?? repRange.min));
+    }
+
+    if (!usesWeight) return next;
+
+    let targetLoadLbs: number | null = null;
+    if (trainingMaxLbs && percentTM !== undefined) {
+      targetLoadLbs = (trainingMaxLbs * percentTM) / 100;
+    } else if (bestE1RM && percent1RM !== undefined) {
+      targetLoadLbs = (bestE1RM * percent1RM) / 100;
+    } else if (bestE1RM && rpe !== undefined) {
+      // Reps in reserve count toward the effort of the set
+      targetLoadLbs = estimateWeightForReps(bestE1RM, (next.reps ?? 1) + (10 - rpe), formula);
+    } else if (isDeload && next.weight) {
+      targetLoadLbs = fromDisplayWeight(next.weight) * DELOAD_LOAD_FACTOR;
+    }
+
+    // History-based weights were already lightened with the smart suggestions
+    if (targetLoadLbs !== null && isAcceptedDeload && !isDeload) {
+      targetLoadLbs *= FATIGUE_CONFIG.DELOAD_LOAD_FACTOR;
+    }
+
+    if (targetLoadLbs !== null) {
+      next.weight = toDisplayWeight(roundToIncrement(targetLoadLbs, equipment));
+    }
+    return next;
+  });
+
+  return {
+    ...result,
+    sets,
+    smartSuggestedSets: result.smartSuggestedSets.length > 0 ? sets.map((set) => ({ ...set })) : [],
+    repRanges: repRange ? sets.map(() => ({ ...repRange })) : result.repRanges,
+  };
+};
+
+/** Short summary of a prescription, e.g. "4 × 6–8 · 75% 1RM · RPE 8" */
+export const formatWeekPrescription = (prescription: PlanWeekPrescription): string => {
+  const { sets, reps, percent1RM, percentTM, rpe } = prescription;
+  const parts: string[] = [];
+
+  const repsLabel = reps ? (reps.min === reps.max ? `${reps.min}` : `${reps.min}–${reps.max}`) : null;
+  if (sets !== undefined && repsLabel) {
+    parts.push(`${sets} × ${repsLabel}`);
+  } else if (sets !== undefined) {
+    parts.push(`${sets} ${sets === 1 ? 'set' : 'sets'}`);
+  } else if (repsLabel) {
+    parts.push(`${repsLabel} reps`);
+  }
+
+  if (percentTM !== undefined) parts.push(`${percentTM}% TM`);
+  else if (percent1RM !== undefined) parts.push(`${percent1RM}% 1RM`);
+  if (rpe !== undefined) parts.push(`RPE ${rpe}`);
+
+  return parts.join(' · ');
+};
+
+/** e.g. "Week 3 of 12", "Week 4 · Deload" */
+export const formatPlanWeekLabel = (context: PlanWeekContext): string => {
+  const week = context.totalWeeks ? `Week ${context.week} of ${context.totalWeeks}` : `Week ${context.week}`;
+  return context.isDeload ? `${week} · Deload` : week;
+};
@@ -0,0 +1,170 @@
+/**
+ * plates
+ * Plate math for plate-loaded equipment: which plates go on each side of the bar,
+ * and which totals the user's plate inventory can actually build.
+ * Weights here are in the inventory's own unit (lbs or kg), not storage lbs.
+ */
+
+import type { WeightUnit } from '@/store/settingsStore';
+import type { EquipmentType } from '@/types/exercise';
+import type { PlateInventory, PlateStock } from '@/types/gymProfile';
+
+export interface PlateBreakdown {
+  /** Plates for one side, heaviest first */
+  perSide: number[];
+  /** Bar plus both sides */
+  loadedWeight: number;
+  /** Part of the requested weight the inventory could not load */
+  remainder: number;
+}
+
+/** Equipment loaded with plates, whose weights must be buildable from the inventory */
+export const PLATE_LOADED_EQUIPMENT: EquipmentType[] = ['Barbell', 'Smith Machine', 'Trap Bar'];
+
+export const MAX_PLATE_PAIRS = 10;
+
+export const DEFAULT_PLATE_INVENTORIES: Record<WeightUnit, PlateInventory> = {
+  lbs: {
+    barWeight: 45,
+    plates: [
+      { weight: 55, pairs: 0 },
+      { weight: 45, pairs: 6 },
+      { weight: 35, pairs: 1 },
+      { weight: 25, pairs: 1 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 1 },
+      { weight: 2.5, pairs: 1 },
+      { weight: 1.25, pairs: 0 },
+    ],
+  },
+  kg: {
+    barWeight: 20,
+    plates: [
+      { weight: 25, pairs: 4 },
+      { weight: 20, pairs: 2 },
+      { weight: 15, pairs: 1 },
+      { weight: 10, pairs: 1 },
+      { weight: 5, pairs: 1 },
+      { weight: 2.5, pairs: 1 },
+      { weight: 1.25, pairs: 1 },
+      { weight: 0.5, pairs: 0 },
+    ],
+  },
+};
+
+/** Floating-point slack when matching plate sums */
+const EPSILON = 0.001;
+
+/** Plate sums are matched in hundredths so e.g. 2.5 + 1.25 compares exactly */
+const toHundredths = (weight: number): number => Math.round(weight * 100);
+
+export const isPlateLoaded = (equipment: EquipmentType[]): boolean => {
+  return equipment.some((item) => PLATE_LOADED_EQUIPMENT.includes(item));
+};
+
+const availablePlates = (inventory: PlateInventory): PlateStock[] => {
+  return inventory.plates
+    .filter((plate) => plate.weight > 0 && plate.pairs > 0)
+    .sort((a, b) => b.weight - a.weight);
+};
+
+/**
+ * Every per-side load the inventory can build, keyed in hundredths, with the fewest plates
+ * that build it (heaviest first). Limited pairs make heaviest-first loading miss totals:
+ * with one pair of 25s and two of 20s, 40 a side is 20 + 20, but taking the 25 first strands 15.
+ */
+const getLoadablePerSide = (inventory: PlateInventory): Map<number, number[]> => {
+  let loads = new Map<number, number[]>([[0, []]]);
+
+  availablePlates(inventory).forEach((plate) => {
+    const next = new Map(loads);
+    const step = toHundredths(plate.weight);
+    const maxCount = Math.min(plate.pairs, MAX_PLATE_PAIRS);
+
+    loads.forEach((plates, load) => {
+      for (let count = 1; count <= maxCount; count += 1) {
+        const candidate = [...plates, ...Array<number>(count).fill(plate.weight)];
+        const existing = next.get(load + step * count);
+        if (!existing || candidate.length < existing.length) {
+          next.set(load + step * count, candidate);
+        }
+      }
+    });
+    loads = next;
+  });
+
+  return loads;
+};
+
+/**
+ * Plates per side for a total, heaviest first, using each plate size no more
+ * often than the inventory has pairs. When the total can't be built exactly,
+ * loads the heaviest total below it.
+ */
+export const calculatePlateBreakdown = (totalWeight: number, inventory: PlateInventory): PlateBreakdown => {
+  const loads = getLoadablePerSide(inventory);
+  const targetPerSide = toHundredths(Math.max(0, (totalWeight - inventory.barWeight) / 2));
+
+  let bestLoad = 0;
+  loads.forEach((_, load) => {
+    if (load <= targetPerSide && load > bestLoad) {
+      bestLoad = load;
+    }
+  });
+  const perSide = loads.get(bestLoad) ?? [];
+
+  const loadedWeight = inventory.barWeight + perSide.reduce((sum, plate) => sum + plate, 0) * 2;
+  const remainder = Math.max(0, totalWeight - loadedWeight);
+
+  return {
+    perSide,
+    loadedWeight,
+    remainder: remainder < EPSILON ? 0 : Math.round(remainder * 100) / 100,
+  };
+};
+
+/** Smallest jump between loadable totals: a pair of the lightest plate */
+export const getPlateIncrement = (inventory: PlateInventory): number => {
+  const plates = availablePlates(inventory);
+  return plates.length > 0 ? plates[plates.length - 1].weight * 2 : 0;
+};
+
+/** Heaviest total the inventory can build */
+export const getMaxLoadableWeight = (inventory: PlateInventory): number => {
+  return inventory.barWeight + availablePlates(inventory).reduce((sum, plate) => sum + plate.weight * plate.pairs * 2, 0);
+};
+
+/**
+ * Rounds a weight to a total the inventory can build: down by default (for safety),
+ * or to the nearest loadable total when allowRoundUp is set.
+ * Nothing lighter than the empty bar can be loaded, so lighter weights become the bar.
+ */
+export const roundToLoadableWeight = (
+  weight: number,
+  inventory: PlateInventory,
+  allowRoundUp: boolean = false,
+): number => {
+  const { barWeight } = inventory;
+  const maxWeight = getMaxLoadableWeight(inventory);
+
+  if (weight <= barWeight || maxWeight <= barWeight) return barWeight;
+  if (weight >= maxWeight) return maxWeight;
+
+  // Closest loadable per-side totals on either side of the target
+  const targetPerSide = toHundredths((weight - barWeight) / 2);
+  let belowPerSide = 0;
+  let abovePerSide = Infinity;
+  getLoadablePerSide(inventory).forEach((_, load) => {
+    if (load <= targetPerSide && load > belowPerSide) belowPerSide = load;
+    if (load >= targetPerSide && load < abovePerSide) abovePerSide = load;
+  });
+
+  const below = barWeight + (belowPerSide / 100) * 2;
+  if (!allowRoundUp || abovePerSide === Infinity) return below;
+
+  const above = barWeight + (abovePerSide / 100) * 2;
+  return above - weight < weight - below ? above : below;
+};
+
+/** e.g. "45 · 25 · 2.5" */
+export const formatPlateList = (plates: number[]): string => plates.join(' · ');
@@ -0,0 +1,77 @@
+/**
+ * restTimer
+ * Default rest durations and helpers for the between-set rest countdown.
+ */
+
+import type { SetType } from '@/types/workout';
+
+export const REST_STEP_SECONDS = 15;
+export const REST_MIN_SECONDS = 0;
+export const REST_MAX_SECONDS = 600;
+
+export const DEFAULT_REST_DURATIONS: Record<SetType, number> = {
+  warmup: 60,
+  working: 120,
+  drop: 15,
+  failure: 180,
+  backoff: 90,
+};
+
+/** Set types whose rest always comes from the set-type default, never the exercise override */
+const TRANSITION_SET_TYPES: SetType[] = ['warmup', 'drop'];
+
+export interface RestTimer {
+  /** Exercise whose set started the rest */
+  exerciseName: string;
+  /** Epoch ms when the rest started */
+  startedAt: number;
+  durationSeconds: number;
+  /** Scheduled local notification, if one could be scheduled */
+  notificationId: string | null;
+}
+
+export const clampRestSeconds = (seconds: number): number => {
+  if (!Number.isFinite(seconds)) {
+    return REST_MIN_SECONDS;
+  }
+
+  return Math.min(REST_MAX_SECONDS, Math.max(REST_MIN_SECONDS, Math.round(seconds)));
+};
+
+/**
+ * Picks the rest length after a set.
+ * Warm-ups and drop sets are short transitions and always use their set-type default;
+ * other sets use the exercise's own rest when one is configured.
+ */
+export const resolveRestDuration = (
+  setType: SetType,
+  exerciseName: string,
+  restDurations: Record<SetType, number>,
+  exerciseRestDurations: Record<string, number>,
+): number => {
+  const exerciseOverride = exerciseRestDurations[exerciseName];
+
+  if (exerciseOverride !== undefined && !TRANSITION_SET_TYPES.includes(setType)) {
+    return clampRestSeconds(exerciseOverride);
+  }
+
+  return clampRestSeconds(restDurations[setType] ?? DEFAULT_REST_DURATIONS[setType]);
+};
+
+/**
+ * Seconds left on a rest timer; derived from the start time so it stays correct across backgrounding.
+ */
+export const getRestRemainingSeconds = (timer: RestTimer, now: number = Date.now()): number => {
+  const elapsed = Math.floor((now - timer.startedAt) / 1000);
+  return Math.max(timer.durationSeconds - elapsed, 0);
+};
+
+/**
+ * Formats rest seconds as m:ss (e.g., "1:30").
+ */
+export const formatRestTime = (seconds: number): string => {
+  const safeSeconds = Math.max(Math.round(seconds), 0);
+  const mins = Math.floor(safeSeconds / 60);
+  const secs = safeSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
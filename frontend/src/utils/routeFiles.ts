@@ -0,0 +1,289 @@
+/**
+ * routeFiles
+ * Converts outdoor sessions to and from standard GPS route files.
+ * Exports GPX 1.1 and TCX (Garmin Training Center v2); imports GPX tracks
+ * recorded elsewhere, e.g. on a watch, as cardio workouts.
+ */
+
+import type { GpsCoordinate, ParsedRoute, RouteFileFormat } from '@/types/outdoor';
+import type { Workout } from '@/types/workout';
+import { calculateRouteDistance, haversineDistance } from '@/utils/geo';
+
+const METERS_PER_MILE = 1609.344;
+
+/** Built-in outdoor exercises a route can be imported as */
+export const OUTDOOR_ROUTE_EXERCISES = ['Outdoor Run', 'Outdoor Cycling', 'Outdoor Walk'] as const;
+
+/** Average speeds (mph) used to tell activities apart when a file has no activity type */
+const WALK_MAX_MPH = 4.5;
+const RUN_MAX_MPH = 12;
+
+type RouteActivity = 'running' | 'cycling' | 'walking';
+
+const TCX_SPORTS: Record<RouteActivity, string> = {
+  running: 'Running',
+  cycling: 'Biking',
+  walking: 'Other',
+};
+
+const ACTIVITY_EXERCISES: Record<RouteActivity, (typeof OUTDOOR_ROUTE_EXERCISES)[number]> = {
+  running: 'Outdoor Run',
+  cycling: 'Outdoor Cycling',
+  walking: 'Outdoor Walk',
+};
+
+/** Reads an activity out of an exercise name or a file's free-form activity type */
+const matchActivity = (label: string | null | undefined): RouteActivity | null => {
+  const normalized = (label ?? '').toLowerCase();
+  if (/cycl|bik|ride/.test(normalized)) return 'cycling';
+  if (/walk|hik/.test(normalized)) return 'walking';
+  if (/run|jog/.test(normalized)) return 'running';
+  return null;
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const unescapeXml = (value: string): string =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toISOString();
+
+const getRouteExerciseName = (workout: Workout): string =>
+  (workout.exercises ?? [])[0]?.name ?? workout.name ?? 'Outdoor Session';
+
+/**
+ * Distance in miles recorded for an outdoor session; falls back to the route length.
+ */
+const getSessionDistanceMiles = (workout: Workout): number => {
+  const recorded = (workout.exercises ?? [])[0]?.sets?.[0]?.distance;
+  return recorded ?? calculateRouteDistance(workout.routeCoordinates ?? []);
+};
+
+/**
+ * Builds a GPX 1.1 document for an outdoor session's route.
+ */
+export const buildGpx = (workout: Workout): string => {
+  const points = workout.routeCoordinates ?? [];
+  const exerciseName = getRouteExerciseName(workout);
+  const activity = matchActivity(exerciseName);
+
+  const trackPoints = points.map((point) => [
+    `      <trkpt lat="${point.latitude}" lon="${point.longitude}">`,
+    ...(point.altitude !== undefined ? [`        <ele>${point.altitude.toFixed(1)}</ele>`] : []),
+    `        <time>${formatTime(point.timestamp)}</time>`,
+    '      </trkpt>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Hercules" xmlns="http://www.topografix.com/GPX/1/1"'
+      + ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"'
+      + ' xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+    '  <metadata>',
+    `    <name>${escapeXml(workout.name ?? exerciseName)}</name>`,
+    `    <time>${formatTime(workout.startTime)}</time>`,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${escapeXml(exerciseName)}</name>`,
+    ...(activity ? [`    <type>${activity}</type>`] : []),
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Builds a TCX document for an outdoor session as a single-lap activity.
+ * Track points carry cumulative distance so importers don't have to recompute it.
+ */
+export const buildTcx = (workout: Workout): string => {
+  const points = workout.routeCoordinates ?? [];
+  const activity = matchActivity(getRouteExerciseName(workout));
+  const sport = activity ? TCX_SPORTS[activity] : 'Other';
+  const startTime = formatTime(workout.startTime);
+  const distanceMeters = getSessionDistanceMiles(workout) * METERS_PER_MILE;
+
+  let cumulativeMiles = 0;
+  const trackPoints = points.map((point, index) => {
+    if (index > 0) {
+      cumulativeMiles += haversineDistance(points[index - 1], point);
+    }
+
+    return [
+      '            <Trackpoint>',
+      `              <Time>${formatTime(point.timestamp)}</Time>`,
+      '              <Position>',
+      `                <LatitudeDegrees>${point.latitude}</LatitudeDegrees>`,
+      `                <LongitudeDegrees>${point.longitude}</LongitudeDegrees>`,
+      '              </Position>',
+      ...(point.altitude !== undefined ? [`              <AltitudeMeters>${point.altitude.toFixed(1)}</AltitudeMeters>`] : []),
+      `              <DistanceMeters>${(cumulativeMiles * METERS_PER_MILE).toFixed(1)}</DistanceMeters>`,
+      '            </Trackpoint>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"'
+      + ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"'
+      + ' xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd">',
+    '  <Activities>',
+    `    <Activity Sport="${sport}">`,
+    `      <Id>${startTime}</Id>`,
+    `      <Lap StartTime="${startTime}">`,
+    `        <TotalTimeSeconds>${workout.duration ?? 0}</TotalTimeSeconds>`,
+    `        <DistanceMeters>${distanceMeters.toFixed(1)}</DistanceMeters>`,
+    '        <Calories>0</Calories>',
+    '        <Intensity>Active</Intensity>',
+    '        <TriggerMethod>Manual</TriggerMethod>',
+    '        <Track>',
+    ...trackPoints,
+    '        </Track>',
+    '      </Lap>',
+    '    </Activity>',
+    '  </Activities>',
+    '</TrainingCenterDatabase>',
+    '',
+  ].join('\n');
+};
+
+export const buildRouteFile = (workout: Workout, format: RouteFileFormat): string =>
+  format === 'gpx' ? buildGpx(workout) : buildTcx(workout);
+
+export const getRouteFileName = (workout: Workout, format: RouteFileFormat): string => {
+  const slug = getRouteExerciseName(workout).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const datePart = new Date(workout.startTime).toISOString().slice(0, 10);
+  return `hercules-${slug || 'route'}-${datePart}.${format}`;
+};
+
+const readTag = (xml: string, tag: string): string | null => {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? unescapeXml(match[1]) || null : null;
+};
+
+const readAttribute = (attributes: string, name: string): number => {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`));
+  return match ? Number(match[1]) : NaN;
+};
+
+/**
+ * Reads the track points of a GPX file. Route points (rtept) are read when the
+ * file has no track. Points without a position or timestamp are skipped.
+ * @returns The parsed route, or null if the text is not a GPX document
+ */
+export const parseGpx = (text: string): ParsedRoute | null => {
+  if (!/<gpx[\s>]/.test(text)) {
+    return null;
+  }
+
+  const track = text.match(/<trk\b[^>]*>([\s\S]*?)<\/trk>/)?.[1] ?? null;
+  // Track name and type sit before the segments; points have their own <name> and <type> tags
+  const trackHeader = track ? track.replace(/<trkseg\b[\s\S]*<\/trkseg>/, '') : null;
+  const metadata = text.match(/<metadata\b[^>]*>([\s\S]*?)<\/metadata>/)?.[1] ?? null;
+  const pointPattern = track ? /<trkpt\b([^>]*)>([\s\S]*?)<\/trkpt>/g : /<rtept\b([^>]*)>([\s\S]*?)<\/rtept>/g;
+
+  const coordinates: GpsCoordinate[] = [];
+  for (const [, attributes, body] of text.matchAll(pointPattern)) {
+    const latitude = readAttribute(attributes, 'lat');
+    const longitude = readAttribute(attributes, 'lon');
+    const time = readTag(body, 'time');
+    const timestamp = time ? Date.parse(time) : NaN;
+
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || !Number.isFinite(timestamp)) {
+      continue;
+    }
+
+    const elevation = readTag(body, 'ele');
+    const altitude = elevation !== null ? Number(elevation) : NaN;
+    coordinates.push({
+      latitude,
+      longitude,
+      ...(Number.isFinite(altitude) ? { altitude } : {}),
+      timestamp,
+    });
+  }
+
+  coordinates.sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    name: (trackHeader ? readTag(trackHeader, 'name') : null) ?? (metadata ? readTag(metadata, 'name') : null),
+    activityType: trackHeader ? readTag(trackHeader, 'type') : null,
+    coordinates,
+  };
+};
+
+/**
+ * Best built-in outdoor exercise for an imported route: the file's activity type
+ * when it names one, otherwise judged from the average speed.
+ */
+export const guessRouteExercise = (route: ParsedRoute): (typeof OUTDOOR_ROUTE_EXERCISES)[number] => {
+  const activity = matchActivity(route.activityType) ?? matchActivity(route.name);
+  if (activity) {
+    return ACTIVITY_EXERCISES[activity];
+  }
+
+  const { coordinates } = route;
+  const hours = coordinates.length >= 2
+    ? (coordinates[coordinates.length - 1].timestamp - coordinates[0].timestamp) / 3600000
+    : 0;
+  const averageMph = hours > 0 ? calculateRouteDistance(coordinates) / hours : 0;
+
+  if (averageMph > RUN_MAX_MPH) return 'Outdoor Cycling';
+  if (averageMph > 0 && averageMph <= WALK_MAX_MPH) return 'Outdoor Walk';
+  return 'Outdoor Run';
+};
+
+/**
+ * Creates a completed cardio workout from an imported route.
+ * Duration is the time from the first to the last point; distance is the route length.
+ */
+export const createWorkoutFromRoute = (route: ParsedRoute, exerciseName: string): Workout => {
+  const { coordinates } = route;
+  const startTime = coordinates[0].timestamp;
+  const endTime = coordinates[coordinates.length - 1].timestamp;
+  const durationSeconds = Math.round((endTime - startTime) / 1000);
+
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    planId: null,
+    name: exerciseName,
+    date: new Date(startTime).toISOString(),
+    startTime,
+    endTime,
+    duration: durationSeconds,
+    exercises: [
+      {
+        name: exerciseName,
+        sets: [
+          {
+            completed: true,
+            duration: durationSeconds,
+            distance: calculateRouteDistance(coordinates),
+          },
+        ],
+      },
+    ],
+    routeCoordinates: coordinates.map((c) => ({
+      latitude: c.latitude,
+      longitude: c.longitude,
+      ...(c.altitude !== undefined ? { altitude: c.altitude } : {}),
+      timestamp: c.timestamp,
+    })),
+  };
+};
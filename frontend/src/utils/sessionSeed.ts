@@ -0,0 +1,217 @@
+/**
+ * sessionSeed
+ * Builds everything a workout session starts with from a template's exercises:
+ * history/smart-suggested sets merged with the template's set targets, intra-session
+ * caches and, when the template belongs to the plan driving the active schedule, that
+ * plan week's prescriptions.
+ */
+
+import { exercises as exerciseCatalog, getExerciseTypeByName } from '@/constants/exercises';
+import { useActiveScheduleStore } from '@/store/activeScheduleStore';
+import { useDeloadStore } from '@/store/deloadStore';
+import { useProgramsStore } from '@/store/programsStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useTrainingMaxStore } from '@/store/trainingMaxStore';
+import { useUserProfileStore } from '@/store/userProfileStore';
+import { useWorkoutSessionsStore } from '@/store/workoutSessionsStore';
+import type { ExerciseType } from '@/types/exercise';
+import type { ExerciseTargets, PlanExercise, PlanWeekContext, PlanWeekPrescription, SessionPlanWeek } from '@/types/plan';
+import type { ExerciseBests } from '@/types/personalRecords';
+import type { ExerciseDataPoint, RepRange } from '@/types/smartSuggestions';
+import type { ExerciseGrouping, SetLog, WorkoutExercise } from '@/types/workout';
+import { pickExerciseGrouping } from '@/utils/exerciseGroups';
+import { createSetsWithSmartSuggestions } from '@/utils/exerciseHistory';
+import { applyExerciseTargets, pickExerciseTargets } from '@/utils/exerciseTargets';
+import { getExerciseBests } from '@/utils/personalRecords';
+import { applyWeekPrescription, getPlanWeekContext, resolveWeekPrescription } from '@/utils/planPeriodization';
+import { detectCompoundIsolationSplit } from '@/utils/smartSuggestions';
+import { getPlanCycleIndex, getPlanCycleLength } from '@/utils/trainingMax';
+
+/** Template exercise as stored on workouts and plan workouts; plan fields are optional */
+export type SessionTemplateExercise = ExerciseGrouping & {
+  name: string;
+  sets?: number;
+  weeks?: PlanExercise['weeks'];
+  targets?: ExerciseTargets;
+};
+
+export interface SessionSeed {
+  exercises: WorkoutExercise[];
+  historySetCounts: Record<string, number>;
+  suggestedSets: Record<string, SetLog[]>;
+  exerciseDataPoints: Record<string, ExerciseDataPoint[]>;
+  exerciseRepRanges: Record<string, RepRange[]>;
+  hasCompoundIsolationSplit: boolean;
+  planWeek: SessionPlanWeek | null;
+  /** Template targets keyed by exercise name */
+  exerciseTargets: Record<string, ExerciseTargets>;
+}
+
+/**
+ * Where the plan is in its program today, if it is the plan driving the active schedule.
+ */
+export const getActivePlanWeekContext = (planId: string | null): PlanWeekContext | null => {
+  if (!planId) return null;
+
+  const scheduleWeek = useActiveScheduleStore.getState().getPlanWeek(planId);
+  if (scheduleWeek === null) return null;
+
+  const plan = useProgramsStore.getState().userPrograms.find((program) => program.id === planId);
+  return getPlanWeekContext(scheduleWeek, plan?.metadata);
+};
+
+const usesTrainingMax = (exercise: Pick<SessionTemplateExercise, 'weeks' | 'targets'>): boolean => {
+  return Boolean(exercise.weeks?.some((week) => week.percentTM !== undefined)
+    || exercise.targets?.sets?.some((target) => target.percentTM !== undefined));
+};
+
+/**
+ * Prepares the training maxes a session's %TM loads read: missing ones are seeded from
+ * e1RM history, and when the plan driving the active schedule has moved into a new
+ * cycle the maxes are bumped for each cycle completed.
+ */
+const prepareTrainingMaxes = async (planId: string | null, exerciseNames: string[]) => {
+  const trainingMaxStore = useTrainingMaxStore.getState();
+  await trainingMaxStore.seedFromHistory(exerciseNames);
+
+  if (!planId) return;
+  const scheduleWeek = useActiveScheduleStore.getState().getPlanWeek(planId);
+  const plan = useProgramsStore.getState().userPrograms.find((program) => program.id === planId);
+  if (scheduleWeek === null || !plan) return;
+
+  const planExercises = plan.workouts.flatMap((workout) => workout.exercises ?? []);
+  const cycleLength = getPlanCycleLength(planExercises, plan.metadata);
+  if (cycleLength) {
+    // Bump every %TM lift in the plan, not just today's, since the cycle is only recorded once
+    const planTrainingMaxNames = planExercises.filter(usesTrainingMax).map((exercise) => exercise.name);
+    trainingMaxStore.applyPlanCycle(planId, getPlanCycleIndex(scheduleWeek, cycleLength), planTrainingMaxNames);
+  }
+};
+
+/**
+ * Pages in the whole workout history first: %1RM, RPE and %TM loads come from all-time bests.
+ */
+export const buildSessionSeed = async (
+  templateExercises: SessionTemplateExercise[],
+  options: {
+    planId: string | null;
+    smartSuggestionsEnabled: boolean;
+    customExercises: { name: string; exerciseType: ExerciseType }[];
+  },
+): Promise<SessionSeed> => {
+  const { planId, smartSuggestionsEnabled, customExercises } = options;
+  await useWorkoutSessionsStore.getState().loadOlderWorkouts();
+  const { workouts, hasMoreHistory } = useWorkoutSessionsStore.getState();
+  const userGoal = useUserProfileStore.getState().profile?.primaryGoal;
+  const { e1rmFormula, convertWeight, convertWeightToLbs } = useSettingsStore.getState();
+  const weekContext = getActivePlanWeekContext(planId);
+  // Smart suggestions lighten themselves in an accepted deload week; targets merged over them must too
+  const isAcceptedDeload = useDeloadStore.getState().isDeloadWeek(Date.now());
+
+  const prescriptions: Record<string, PlanWeekPrescription> = {};
+  if (weekContext) {
+    templateExercises.forEach((exercise) => {
+      const prescription = resolveWeekPrescription({ sets: exercise.sets ?? 0, weeks: exercise.weeks }, weekContext);
+      if (prescription) {
+        prescriptions[exercise.name] = prescription;
+      }
+    });
+  }
+
+  const exerciseTargets: Record<string, ExerciseTargets> = {};
+  templateExercises.forEach((exercise) => {
+    const { targets } = pickExerciseTargets(exercise);
+    if (targets) {
+      exerciseTargets[exercise.name] = targets;
+    }
+  });
+
+  const trainingMaxNames = templateExercises.filter(usesTrainingMax).map((exercise) => exercise.name);
+  if (trainingMaxNames.length > 0) {
+    await prepareTrainingMaxes(planId, trainingMaxNames);
+  }
+  const { trainingMaxes } = useTrainingMaxStore.getState();
+
+  // Best e1RMs back %1RM and RPE loads; without all of history they'd come out too light
+  const loadedNames = Array.from(new Set([...Object.keys(prescriptions), ...Object.keys(exerciseTargets)]));
+  const bests = loadedNames.length > 0 && !hasMoreHistory
+    ? getExerciseBests(workouts, loadedNames, e1rmFormula)
+    : new Map<string, ExerciseBests>();
+
+  const seed: SessionSeed = {
+    exercises: [],
+    historySetCounts: {},
+    suggestedSets: {},
+    exerciseDataPoints: {},
+    exerciseRepRanges: {},
+    hasCompoundIsolationSplit: detectCompoundIsolationSplit(
+      workouts,
+      (name) => exerciseCatalog.find((e) => e.name === name)?.isCompound ?? false,
+    ),
+    planWeek: weekContext ? { ...weekContext, prescriptions } : null,
+    exerciseTargets,
+  };
+
+  templateExercises.forEach((exercise) => {
+    const prescription = prescriptions[exercise.name];
+    const targets = exerciseTargets[exercise.name];
+    let result = createSetsWithSmartSuggestions(
+      exercise.name,
+      workouts,
+      smartSuggestionsEnabled,
+      undefined,
+      prescription?.sets ?? targets?.sets.length,
+      customExercises,
+      userGoal,
+    );
+
+    const exerciseType = getExerciseTypeByName(exercise.name, customExercises);
+    const equipment = exerciseCatalog.find((e) => e.name === exercise.name)?.equipment ?? [];
+    const bestE1RM = bests.get(exercise.name)?.bestE1RM || null;
+    const trainingMaxLbs = trainingMaxes[exercise.name]?.weightLbs ?? null;
+
+    if (targets) {
+      result = applyExerciseTargets(result, targets, {
+        exerciseType,
+        equipment,
+        bestE1RM,
+        trainingMaxLbs,
+        isAcceptedDeload,
+        toDisplayWeight: convertWeight,
+      });
+    }
+
+    // The plan week's prescription takes precedence over the template's fixed targets
+    if (prescription && weekContext) {
+      result = applyWeekPrescription(result, prescription, {
+        exerciseType,
+        equipment,
+        bestE1RM,
+        trainingMaxLbs,
+        isDeload: weekContext.isDeload,
+        isAcceptedDeload,
+        formula: e1rmFormula,
+        toDisplayWeight: convertWeight,
+        fromDisplayWeight: convertWeightToLbs,
+      });
+    }
+
+    seed.historySetCounts[exercise.name] = result.historySetCount;
+    if (result.smartSuggestedSets.length > 0) {
+      seed.suggestedSets[exercise.name] = result.smartSuggestedSets;
+    }
+    if (result.dataPoints && result.dataPoints.length > 0) {
+      seed.exerciseDataPoints[exercise.name] = result.dataPoints;
+    }
+    if (result.repRanges && result.repRanges.length > 0) {
+      seed.exerciseRepRanges[exercise.name] = result.repRanges;
+    }
+    seed.exercises.push({
+      name: exercise.name,
+      sets: result.sets,
+      ...pickExerciseGrouping(exercise),
+    });
+  });
+
+  return seed;
+};
@@ -0,0 +1,40 @@
+/**
+ * setTypes
+ * Labels and filtering helpers for warm-up, working, drop, failure, and back-off sets.
+ */
+
+import type { SetLog, SetType } from '@/types/workout';
+
+export interface SetTypeOption {
+  value: SetType;
+  label: string;
+  /** Single-letter badge shown next to the set number */
+  badge: string;
+}
+
+export const SET_TYPE_OPTIONS: SetTypeOption[] = [
+  { value: 'warmup', label: 'Warm-up', badge: 'W' },
+  { value: 'working', label: 'Working', badge: '' },
+  { value: 'drop', label: 'Drop set', badge: 'D' },
+  { value: 'failure', label: 'To failure', badge: 'F' },
+  { value: 'backoff', label: 'Back-off', badge: 'B' },
+];
+
+/**
+ * Resolves a set's type, treating untagged (legacy) sets as working sets.
+ */
+export const getSetType = (set: Pick<SetLog, 'setType'> | null | undefined): SetType => {
+  return set?.setType ?? 'working';
+};
+
+export const getSetTypeOption = (setType: SetType | undefined): SetTypeOption => {
+  return SET_TYPE_OPTIONS.find((option) => option.value === (setType ?? 'working')) ?? SET_TYPE_OPTIONS[1];
+};
+
+/**
+ * Warm-up sets are logged for completeness but excluded from volume, balance,
+ * PRs, insights, and smart-suggestion history.
+ */
+export const isWarmupSet = (set: Pick<SetLog, 'setType'> | null | undefined): boolean => {
+  return getSetType(set) === 'warmup';
+};
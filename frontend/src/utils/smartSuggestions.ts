@@ -6,6 +6,7 @@
  */
 
 import type { SetLog, Workout } from '@/types/workout';
+import { isWarmupSet } from '@/utils/setTypes';
 import type { EquipmentType } from '@/types/exercise';
 import {
   type ExerciseDataPoint,
@@ -25,17 +26,38 @@ import {
   GOAL_REP_RANGES,
   DEFAULT_REP_RANGES,
 } from '@/types/smartSuggestions';
+import { FATIGUE_CONFIG } from '@/types/fatigue';
 import type { PrimaryGoal } from '@/store/userProfileStore';
+import { useDeloadStore } from '@/store/deloadStore';
+import { useGymProfileStore } from '@/store/gymProfileStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { getGymProfileIncrement } from '@/utils/gymProfiles';
+import { isPlateLoaded, roundToLoadableWeight } from '@/utils/plates';
 
 // ---------------------------------------------------------------------------
 // Utility: Equipment-aware weight rounding
 // ---------------------------------------------------------------------------
 
+/**
+ * Weight step for the equipment at the active gym profile, in the user's weight unit.
+ * Null for equipment the profile doesn't cover.
+ */
+const getActiveGymIncrement = (equipment: EquipmentType[]): number | null => {
+  const { weightUnit } = useSettingsStore.getState();
+  return getGymProfileIncrement(useGymProfileStore.getState().getActiveProfile(), equipment, weightUnit);
+};
+
 /**
  * Get the weight increment config for a given equipment list.
- * Uses the first recognized equipment type.
+ * Barbells, dumbbells and machines step as the active gym profile allows;
+ * otherwise uses the first recognized equipment type.
  */
 export const getWeightIncrement = (equipment: EquipmentType[]): WeightIncrement => {
+  const gymIncrement = getActiveGymIncrement(equipment);
+  if (gymIncrement) {
+    return { increment: useSettingsStore.getState().convertWeightToLbs(gymIncrement), roundDirection: 'down' };
+  }
+
   for (const eq of equipment) {
     const config = EQUIPMENT_INCREMENTS[eq];
     if (config) {
@@ -48,12 +70,29 @@ export const getWeightIncrement = (equipment: EquipmentType[]): WeightIncrement
 /**
  * Round a weight value to the nearest achievable increment.
  * Always rounds DOWN for safety unless the pattern strongly supports rounding up.
+ * Equipment covered by the active gym profile rounds to weights that gym can actually load.
  */
 export const roundToIncrement = (
   weight: number,
   equipment: EquipmentType[],
   allowRoundUp: boolean = false,
 ): number => {
+  if (weight > 0) {
+    // Gym profiles are kept in the user's unit; weights here are in lbs
+    const { weightUnit, convertWeight, convertWeightToLbs } = useSettingsStore.getState();
+
+    if (isPlateLoaded(equipment)) {
+      const inventory = useGymProfileStore.getState().getActiveProfile().plateInventories[weightUnit];
+      return convertWeightToLbs(roundToLoadableWeight(convertWeight(weight), inventory, allowRoundUp));
+    }
+
+    const gymIncrement = getActiveGymIncrement(equipment);
+    if (gymIncrement) {
+      const value = convertWeight(weight) / gymIncrement;
+      return convertWeightToLbs(Math.max(0, (allowRoundUp ? Math.round(value) : Math.floor(value)) * gymIncrement));
+    }
+  }
+
   const config = getWeightIncrement(equipment);
   const { increment } = config;
 
@@ -141,6 +180,7 @@ const stddev = (values: number[]): number => {
  * Extract historical data points for a specific exercise from workout history.
  * Returns data points sorted chronologically (oldest first).
  * Now includes per-set-position data for pyramid/pattern detection.
+ * Sessions from accepted deload weeks are left out, so they don't read as regressions.
  */
 export const extractDataPoints = (
   exerciseName: string,
@@ -148,6 +188,7 @@ export const extractDataPoints = (
   currentWorkoutId?: string,
 ): ExerciseDataPoint[] => {
   const cutoff = Date.now() - SMART_CONFIG.LOOKBACK_MS;
+  const { isDeloadWeek } = useDeloadStore.getState();
 
   const points: ExerciseDataPoint[] = [];
 
@@ -156,11 +197,13 @@ export const extractDataPoints = (
 
     const workoutDate = new Date(workout.date).getTime();
     if (workoutDate < cutoff) continue;
+    if (isDeloadWeek(workoutDate)) continue;
 
     const exercise = (workout.exercises ?? []).find((ex) => ex.name === exerciseName);
     if (!exercise) continue;
 
-    const completedSets = (exercise.sets ?? []).filter((s) => s.completed);
+    // Warm-ups would drag averages and regressions down, so only working-type sets count
+    const completedSets = (exercise.sets ?? []).filter((s) => s.completed && !isWarmupSet(s));
     if (completedSets.length === 0) continue;
 
     // Only consider sets with weight data for weight-based analysis
@@ -689,6 +732,21 @@ const generateStableSuggestionSets = (
   return perSet;
 };
 
+/**
+ * Lighten suggestions for an accepted deload week: fewer sets at a reduced load.
+ */
+const applyDeloadWeek = (
+  suggestions: { weight: number; reps: number }[],
+  equipment: EquipmentType[],
+): { weight: number; reps: number }[] => {
+  const setCount = Math.max(1, Math.round(suggestions.length * FATIGUE_CONFIG.DELOAD_SET_FACTOR));
+
+  return suggestions.slice(0, setCount).map((s) => ({
+    weight: roundToIncrement(s.weight * FATIGUE_CONFIG.DELOAD_LOAD_FACTOR, equipment),
+    reps: s.reps,
+  }));
+};
+
 // ---------------------------------------------------------------------------
 // Main entry point: create smart suggestion sets
 // ---------------------------------------------------------------------------
@@ -696,6 +754,7 @@ const generateStableSuggestionSets = (
 /**
  * Generate smart set suggestions for an exercise.
  * Now produces per-set differentiated targets based on historical set-position analysis.
+ * During an accepted deload week the targets are lightened and the pattern is 'deload'.
  *
  * @param exerciseName - Exercise name
  * @param workouts - All historical workouts
@@ -728,7 +787,7 @@ export const createSmartSuggestionSets = (
     };
   }
 
-  const suggestionSets = generateSuggestionSets(
+  const patternSets = generateSuggestionSets(
     analysis,
     isCompound,
     equipment,
@@ -736,6 +795,9 @@ export const createSmartSuggestionSets = (
     requestedSetCount,
   );
 
+  const isDeloadWeek = useDeloadStore.getState().isDeloadWeek(Date.now());
+  const suggestionSets = isDeloadWeek ? applyDeloadWeek(patternSets, equipment) : patternSets;
+
   // Build SetLog[] with clamped reps
   const sets: SetLog[] = suggestionSets.map((s) => ({
     weight: s.weight,
@@ -745,8 +807,8 @@ export const createSmartSuggestionSets = (
 
   return {
     sets,
-    historySetCount: requestedSetCount,
-    pattern: analysis.pattern,
+    historySetCount: isDeloadWeek ? sets.length : requestedSetCount,
+    pattern: isDeloadWeek ? 'deload' : analysis.pattern,
     confidence: analysis.confidence,
     clusters: analysis.clusters,
     setPattern: analysis.setPattern,
@@ -1186,7 +1248,7 @@ export const detectCompoundIsolationSplit = (
     const isolationReps: number[] = [];
 
     for (const exercise of (workout.exercises ?? [])) {
-      const completedSets = (exercise.sets ?? []).filter((s) => s.completed && s.reps !== undefined && s.reps > 0);
+      const completedSets = (exercise.sets ?? []).filter((s) => s.completed && !isWarmupSet(s) && s.reps !== undefined && s.reps > 0);
       if (completedSets.length === 0) continue;
 
       const avgReps = completedSets.reduce((sum, s) => sum + (s.reps ?? 0), 0) / completedSets.length;
@@ -0,0 +1,75 @@
+/**
+ * trainingMax
+ * Helpers for percentage-of-training-max programming: seeding a training max from
+ * e1RM history, resolving %TM loads, and the end-of-cycle bump.
+ */
+
+import type { Exercise } from '@/types/exercise';
+import type { PlanMetadata } from '@/types/premadePlan';
+import type { PlanExercise } from '@/types/plan';
+import { getWeightIncrement, roundToIncrement } from '@/utils/smartSuggestions';
+
+/** Share of the best e1RM a seeded training max starts at (the usual 5/3/1 convention) */
+export const TRAINING_MAX_E1RM_PERCENT = 90;
+
+/** Lower-body lifts move twice the equipment increment per cycle, upper-body lifts one */
+const LOWER_BODY_BUMP_STEPS = 2;
+const UPPER_BODY_BUMP_STEPS = 1;
+
+const LOWER_BODY_PATTERNS: Exercise['movementPattern'][] = ['Squat', 'Hinge', 'Lunge'];
+const LOWER_BODY_GROUPS: Exercise['muscleGroup'][] = ['Legs', 'Glutes'];
+
+/**
+ * Training max seeded from an exercise's best e1RM, rounded down to a loadable weight.
+ */
+export const seedTrainingMaxFromE1RM = (
+  bestE1RM: number,
+  equipment: Exercise['equipment'],
+): number => {
+  return roundToIncrement((bestE1RM * TRAINING_MAX_E1RM_PERCENT) / 100, equipment);
+};
+
+/**
+ * Load for a percentage of a training max, rounded down to a loadable weight.
+ */
+export const resolveTrainingMaxLoad = (
+  trainingMaxLbs: number,
+  percent: number,
+  equipment: Exercise['equipment'],
+): number => {
+  return roundToIncrement((trainingMaxLbs * percent) / 100, equipment);
+};
+
+/**
+ * How much a training max rises when a cycle completes, e.g. +5 lbs for a barbell
+ * press and +10 lbs for a barbell squat.
+ */
+export const getTrainingMaxBump = (
+  exercise: Pick<Exercise, 'equipment' | 'movementPattern' | 'muscleGroup'> | undefined,
+): number => {
+  const { increment } = getWeightIncrement(exercise?.equipment ?? []);
+  const isLowerBody = Boolean(exercise)
+    && (LOWER_BODY_PATTERNS.includes(exercise!.movementPattern) || LOWER_BODY_GROUPS.includes(exercise!.muscleGroup));
+  return increment * (isLowerBody ? LOWER_BODY_BUMP_STEPS : UPPER_BODY_BUMP_STEPS);
+};
+
+/**
+ * Length of one cycle of a plan in weeks: the program's declared length, or else its
+ * longest week-by-week wave. Null when the plan has neither.
+ */
+export const getPlanCycleLength = (
+  exercises: Pick<PlanExercise, 'weeks'>[],
+  metadata: Pick<PlanMetadata, 'durationWeeks'> | undefined,
+): number | null => {
+  if (metadata?.durationWeeks && metadata.durationWeeks > 0) {
+    return metadata.durationWeeks;
+  }
+
+  const longestWave = exercises.reduce((longest, exercise) => Math.max(longest, exercise.weeks?.length ?? 0), 0);
+  return longestWave > 0 ? longestWave : null;
+};
+
+/** 0-based cycle a schedule week falls in */
+export const getPlanCycleIndex = (scheduleWeek: number, cycleLength: number): number => {
+  return Math.floor((scheduleWeek - 1) / cycleLength);
+};
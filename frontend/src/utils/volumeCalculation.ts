@@ -8,9 +8,11 @@
  * - For bodyweight exercises: addedWeight = 0; BW multiplier is the sole volume source
  * - For assisted exercises: addedWeight = -(assistanceWeight); net = BW×mult - assistance
  * - For cardio/duration/reps_only: returns 0
+ * - Warm-up sets never contribute volume
  */
 
 import type { ExerciseType } from '@/types/exercise';
+import { isWarmupSet } from '@/utils/setTypes';
 
 /**
  * Computes the volume contribution of a single completed set.
@@ -27,6 +29,8 @@ export const computeSetVolume = (
   userBodyWeight: number | undefined | null,
   bwMultiplier: number,
 ): number => {
+  if (isWarmupSet(set)) return 0;
+
   const reps = set.reps ?? 0;
   if (reps <= 0) return 0;
 
@@ -0,0 +1,516 @@
+/**
+ * workoutImport
+ * Parses CSV exports from Strong, Hevy and FitNotes into app workouts.
+ * Weights are converted to lbs and distances to miles (storage units); every imported set is completed.
+ */
+
+import type { SetLog, SetType, Workout, WorkoutExercise } from '@/types/workout';
+import type { ParsedWorkoutImport, WorkoutImportSource } from '@/types/workoutImport';
+import type { DistanceUnit, WeightUnit } from '@/store/settingsStore';
+import { normalizeRpe } from '@/utils/effort';
+import { normalizeExerciseGroups } from '@/utils/exerciseGroups';
+
+const KG_TO_LBS = 2.20462;
+const KM_TO_MILES = 0.621371;
+const METERS_TO_MILES = 0.000621371;
+const FEET_TO_MILES = 0.000189394;
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+/** Units assumed when an export does not say which ones it uses */
+export interface ImportUnitDefaults {
+  weightUnit: WeightUnit;
+  distanceUnit: DistanceUnit;
+}
+
+type CsvRow = Record<string, string>;
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+const detectDelimiter = (headerLine: string): string => {
+  const commas = (headerLine.match(/,/g) ?? []).length;
+  const semicolons = (headerLine.match(/;/g) ?? []).length;
+  return semicolons > commas ? ';' : ',';
+};
+
+/**
+ * Parses CSV text (comma or semicolon separated, RFC 4180 quoting) into rows of cells.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input.split(/\r?\n/, 1)[0] ?? '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim().length > 0));
+};
+
+const toRecords = (rows: string[][]): { headers: string[]; records: CsvRow[] } => {
+  const [headerRow = [], ...dataRows] = rows;
+  const headers = headerRow.map((header) => header.trim().toLowerCase());
+
+  const records = dataRows.map((cells) => {
+    const record: CsvRow = {};
+    headers.forEach((header, index) => {
+      record[header] = (cells[index] ?? '').trim();
+    });
+    return record;
+  });
+
+  return { headers, records };
+};
+
+// ============================================================================
+// VALUE PARSING
+// ============================================================================
+
+const parseNumber = (value: string | undefined): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  // Semicolon exports use decimal commas
+  const normalized = value.includes('.') ? value.replace(/,/g, '') : value.replace(',', '.');
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const toLbs = (value: number | undefined, unit: string): number | undefined => {
+  if (value === undefined) return undefined;
+  return round(unit.startsWith('kg') ? value * KG_TO_LBS : value, 2);
+};
+
+const toMiles = (value: number | undefined, unit: string): number | undefined => {
+  if (value === undefined) return undefined;
+
+  switch (unit) {
+    case 'km':
+    case 'kms':
+    case 'kilometers':
+      return round(value * KM_TO_MILES, 4);
+    case 'm':
+    case 'meters':
+    case 'metres':
+      return round(value * METERS_TO_MILES, 4);
+    case 'ft':
+    case 'feet':
+      return round(value * FEET_TO_MILES, 4);
+    default:
+      return round(value, 4);
+  }
+};
+
+/**
+ * Parses "H:MM:SS", "MM:SS" or plain seconds.
+ */
+const parseClockSeconds = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+
+  if (!value.includes(':')) {
+    return parseNumber(value);
+  }
+
+  const parts = value.split(':').map((part) => Number(part));
+  if (parts.some((part) => !Number.isFinite(part))) {
+    return undefined;
+  }
+
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+/**
+ * Parses Strong's workout duration, e.g. "1h 5m", "45m" or "30s".
+ */
+const parseStrongDuration = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+
+  const plain = parseNumber(value);
+  if (plain !== undefined) return plain;
+
+  const hours = Number(value.match(/(\d+)\s*h/)?.[1] ?? 0);
+  const minutes = Number(value.match(/(\d+)\s*m(?!s)/)?.[1] ?? 0);
+  const seconds = Number(value.match(/(\d+)\s*s/)?.[1] ?? 0);
+  const total = hours * 3600 + minutes * 60 + seconds;
+  return total > 0 ? total : undefined;
+};
+
+/**
+ * Parses "YYYY-MM-DD HH:mm:ss" (local time), "YYYY-MM-DD", or "15 Jan 2023, 18:04".
+ */
+const parseDateTime = (value: string | undefined): number | null => {
+  if (!value) return null;
+
+  const isoMatch = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (isoMatch) {
+    const [, year, month, day, hours = '12', minutes = '0', seconds = '0'] = isoMatch;
+    return new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)).getTime();
+  }
+
+  const namedMatch = value.match(/^(\d{1,2}) ([A-Za-z]{3})[a-z]* (\d{4}),? (\d{1,2}):(\d{2})/);
+  if (namedMatch) {
+    const [, day, monthName, year, hours, minutes] = namedMatch;
+    const month = MONTHS[monthName.toLowerCase()];
+    if (month !== undefined) {
+      return new Date(Number(year), month, Number(day), Number(hours), Number(minutes)).getTime();
+    }
+  }
+
+  const fallback = Date.parse(value);
+  return Number.isNaN(fallback) ? null : fallback;
+};
+
+/** Finds the first header starting with a prefix, e.g. "weight" matches "weight (kg)" */
+const findHeader = (headers: string[], prefix: string): string | undefined => {
+  return headers.find((header) => header === prefix || header.startsWith(`${prefix} (`) || header.startsWith(`${prefix}_`));
+};
+
+/** Unit embedded in a header such as "weight (kg)", "weight_lbs" or "distance (meters)" */
+const getHeaderUnit = (header: string | undefined): string | null => {
+  if (!header) return null;
+  const match = header.match(/\(([^)]+)\)$/) ?? header.match(/_([a-z]+)$/);
+  return match ? match[1] : null;
+};
+
+const normalizeWeightUnit = (unit: string | null | undefined, fallback: WeightUnit): string => {
+  const value = (unit ?? '').toLowerCase();
+  if (value.startsWith('kg')) return 'kg';
+  if (value.startsWith('lb')) return 'lbs';
+  return fallback;
+};
+
+const normalizeDistanceUnit = (unit: string | null | undefined, fallback: DistanceUnit): string => {
+  const value = (unit ?? '').toLowerCase();
+  if (!value) return fallback === 'km' ? 'km' : 'mi';
+  if (value === 'miles' || value === 'mile') return 'mi';
+  return value;
+};
+
+// ============================================================================
+// WORKOUT ASSEMBLY
+// ============================================================================
+
+interface WorkoutBuilder {
+  workout: Workout;
+  groupIds: Map<string, string>;
+}
+
+const createImportId = (index: number): string => {
+  return `import-${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+const getOrCreateWorkout = (
+  builders: Map<string, WorkoutBuilder>,
+  key: string,
+  init: () => Omit<Workout, 'id' | 'exercises' | 'planId'>,
+): WorkoutBuilder => {
+  let builder = builders.get(key);
+  if (!builder) {
+    builder = {
+      workout: { id: createImportId(builders.size), planId: null, exercises: [], ...init() },
+      groupIds: new Map(),
+    };
+    builders.set(key, builder);
+  }
+  return builder;
+};
+
+/**
+ * Appends a set to the named exercise, creating the exercise on first use.
+ * A workout can only hold one entry per exercise name, so repeated blocks are merged.
+ */
+const appendSet = (builder: WorkoutBuilder, exerciseName: string, set: SetLog, groupKey?: string): void => {
+  const { workout } = builder;
+  let exercise = workout.exercises.find((item) => item.name === exerciseName);
+
+  if (!exercise) {
+    exercise = { name: exerciseName, sets: [] };
+
+    if (groupKey) {
+      let groupId = builder.groupIds.get(groupKey);
+      if (!groupId) {
+        groupId = `${workout.id}-group-${builder.groupIds.size}`;
+        builder.groupIds.set(groupKey, groupId);
+      }
+      exercise.groupId = groupId;
+    }
+
+    workout.exercises.push(exercise);
+  }
+
+  exercise.sets.push(set);
+};
+
+const buildSet = (fields: Omit<SetLog, 'completed'>): SetLog => {
+  const set: SetLog = { completed: true };
+
+  (Object.keys(fields) as (keyof typeof fields)[]).forEach((key) => {
+    const value = fields[key];
+    if (value !== undefined && value !== null && !(typeof value === 'number' && Number.isNaN(value))) {
+      (set as unknown as Record<string, unknown>)[key] = value;
+    }
+  });
+
+  return set;
+};
+
+const finalizeWorkouts = (builders: Map<string, WorkoutBuilder>): Workout[] => {
+  return Array.from(builders.values())
+    .map(({ workout }) => ({
+      ...workout,
+      exercises: normalizeExerciseGroups(workout.exercises.filter((exercise) => exercise.sets.length > 0)),
+    }))
+    .filter((workout) => workout.exercises.length > 0)
+    .sort((a, b) => b.startTime - a.startTime);
+};
+
+const collectExerciseNames = (workouts: Workout[]): string[] => {
+  const names = new Set<string>();
+  // Oldest first so names appear in the order the user first logged them
+  [...workouts].reverse().forEach((workout) => {
+    workout.exercises.forEach((exercise: WorkoutExercise) => names.add(exercise.name));
+  });
+  return Array.from(names);
+};
+
+// ============================================================================
+// FORMATS
+// ============================================================================
+
+const STRONG_SET_TYPES: Record<string, SetType> = {
+  w: 'warmup',
+  d: 'drop',
+  f: 'failure',
+};
+
+const parseStrong = (headers: string[], records: CsvRow[], defaults: ImportUnitDefaults) => {
+  const builders = new Map<string, WorkoutBuilder>();
+  const weightHeader = findHeader(headers, 'weight');
+  const distanceHeader = findHeader(headers, 'distance');
+  const durationHeader = findHeader(headers, 'duration') ?? findHeader(headers, 'workout duration');
+  const headerWeightUnit = getHeaderUnit(weightHeader);
+  const headerDistanceUnit = getHeaderUnit(distanceHeader);
+  let skippedRows = 0;
+
+  records.forEach((record) => {
+    const startTime = parseDateTime(record['date']);
+    const exerciseName = record['exercise name'];
+    if (startTime === null || !exerciseName) {
+      skippedRows++;
+      return;
+    }
+
+    const workoutName = record['workout name'] || null;
+    const builder = getOrCreateWorkout(builders, `${record['date']}|${workoutName ?? ''}`, () => {
+      const duration = durationHeader
+        ? (getHeaderUnit(durationHeader) ? parseNumber(record[durationHeader]) : parseStrongDuration(record[durationHeader]))
+        : undefined;
+      return {
+        name: workoutName,
+        date: new Date(startTime).toISOString(),
+        startTime,
+        ...(duration ? { duration, endTime: startTime + duration * 1000 } : {}),
+      };
+    });
+
+    const setOrder = (record['set order'] ?? '').toLowerCase();
+    const seconds = parseNumber(record['seconds']);
+
+    // Strong logs completed rest timers as their own rows; attach them to the preceding set
+    if (setOrder === 'rest timer') {
+      const lastSet = builder.workout.exercises.find((item) => item.name === exerciseName)?.sets.slice(-1)[0];
+      if (lastSet && seconds) {
+        lastSet.restSeconds = seconds;
+      }
+      return;
+    }
+
+    const weightUnit = normalizeWeightUnit(record['weight unit'] || headerWeightUnit, defaults.weightUnit);
+    const distanceUnit = normalizeDistanceUnit(record['distance unit'] || headerDistanceUnit, defaults.distanceUnit);
+
+    appendSet(builder, exerciseName, buildSet({
+      setType: STRONG_SET_TYPES[setOrder],
+      weight: toLbs(weightHeader ? parseNumber(record[weightHeader]) || undefined : undefined, weightUnit),
+      reps: parseNumber(record['reps']) || undefined,
+      distance: toMiles(distanceHeader ? parseNumber(record[distanceHeader]) || undefined : undefined, distanceUnit),
+      duration: seconds || undefined,
+      rpe: normalizeRpe(parseNumber(record['rpe'])),
+    }));
+  });
+
+  return { workouts: finalizeWorkouts(builders), skippedRows };
+};
+
+const HEVY_SET_TYPES: Record<string, SetType> = {
+  normal: 'working',
+  warmup: 'warmup',
+  dropset: 'drop',
+  failure: 'failure',
+};
+
+const parseHevy = (headers: string[], records: CsvRow[], defaults: ImportUnitDefaults) => {
+  const builders = new Map<string, WorkoutBuilder>();
+  const weightHeader = findHeader(headers, 'weight');
+  const distanceHeader = findHeader(headers, 'distance');
+  const weightUnit = normalizeWeightUnit(getHeaderUnit(weightHeader), defaults.weightUnit);
+  const distanceUnit = normalizeDistanceUnit(getHeaderUnit(distanceHeader), defaults.distanceUnit);
+  let skippedRows = 0;
+
+  records.forEach((record) => {
+    const startTime = parseDateTime(record['start_time']);
+    const exerciseName = record['exercise_title'];
+    if (startTime === null || !exerciseName) {
+      skippedRows++;
+      return;
+    }
+
+    const builder = getOrCreateWorkout(builders, `${record['start_time']}|${record['title'] ?? ''}`, () => {
+      const endTime = parseDateTime(record['end_time']);
+      return {
+        name: record['title'] || null,
+        date: new Date(startTime).toISOString(),
+        startTime,
+        ...(endTime !== null && endTime > startTime
+          ? { endTime, duration: Math.round((endTime - startTime) / 1000) }
+          : {}),
+      };
+    });
+
+    const supersetId = record['superset_id'];
+
+    appendSet(builder, exerciseName, buildSet({
+      setType: HEVY_SET_TYPES[(record['set_type'] ?? '').toLowerCase()],
+      weight: toLbs(weightHeader ? parseNumber(record[weightHeader]) || undefined : undefined, weightUnit),
+      reps: parseNumber(record['reps']) || undefined,
+      distance: toMiles(distanceHeader ? parseNumber(record[distanceHeader]) || undefined : undefined, distanceUnit),
+      duration: parseNumber(record['duration_seconds']) || undefined,
+      rpe: normalizeRpe(parseNumber(record['rpe'])),
+    }), supersetId ? `superset-${supersetId}` : undefined);
+  });
+
+  return { workouts: finalizeWorkouts(builders), skippedRows };
+};
+
+const parseFitNotes = (headers: string[], records: CsvRow[], defaults: ImportUnitDefaults) => {
+  const builders = new Map<string, WorkoutBuilder>();
+  const weightHeader = findHeader(headers, 'weight');
+  const headerWeightUnit = getHeaderUnit(weightHeader);
+  let skippedRows = 0;
+
+  records.forEach((record) => {
+    const startTime = parseDateTime(record['date']);
+    const exerciseName = record['exercise'];
+    if (startTime === null || !exerciseName) {
+      skippedRows++;
+      return;
+    }
+
+    // FitNotes has no session concept; each training day becomes one workout
+    const builder = getOrCreateWorkout(builders, record['date'], () => ({
+      name: null,
+      date: new Date(startTime).toISOString(),
+      startTime,
+    }));
+
+    const weightUnit = normalizeWeightUnit(record['weight unit'] || headerWeightUnit, defaults.weightUnit);
+    const distanceUnit = normalizeDistanceUnit(record['distance unit'], defaults.distanceUnit);
+
+    appendSet(builder, exerciseName, buildSet({
+      weight: toLbs(weightHeader ? parseNumber(record[weightHeader]) || undefined : undefined, weightUnit),
+      reps: parseNumber(record['reps']) || undefined,
+      distance: toMiles(parseNumber(record['distance']) || undefined, distanceUnit),
+      duration: parseClockSeconds(record['time']) || undefined,
+    }));
+  });
+
+  return { workouts: finalizeWorkouts(builders), skippedRows };
+};
+
+/**
+ * Identifies which app produced an export from its header row.
+ */
+export const detectImportSource = (headers: string[]): WorkoutImportSource | null => {
+  const has = (name: string) => headers.includes(name);
+
+  if (has('exercise_title') && has('start_time')) return 'hevy';
+  if (has('exercise name') && has('set order')) return 'strong';
+  if (has('exercise') && has('category') && has('date')) return 'fitnotes';
+  return null;
+};
+
+/**
+ * Parses an export from Strong, Hevy or FitNotes.
+ * @returns The parsed import, or null when the file is not a recognized export
+ */
+export const parseWorkoutImport = (text: string, defaults: ImportUnitDefaults): ParsedWorkoutImport | null => {
+  const { headers, records } = toRecords(parseCsv(text));
+  const source = detectImportSource(headers);
+
+  if (!source) {
+    return null;
+  }
+
+  const parsers = {
+    strong: parseStrong,
+    hevy: parseHevy,
+    fitnotes: parseFitNotes,
+  };
+
+  const { workouts, skippedRows } = parsers[source](headers, records, defaults);
+
+  return {
+    source,
+    workouts,
+    exerciseNames: collectExerciseNames(workouts),
+    skippedRows,
+  };
+};
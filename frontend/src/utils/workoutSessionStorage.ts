@@ -1,34 +1,77 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
+import type { WorkoutSessionsCursor } from '@/lib/supabaseQueries';
 import type { Workout } from '@/types/workout';
 import { canUseAsyncStorage } from '@/utils/environment';
 
 const WORKOUTS_STORAGE_KEY = 'hercules/workouts';
 
+/**
+ * Only the newest workouts are cached; AsyncStorage entries are capped at ~2 MB on Android.
+ * Older history is paged in from Supabase when a screen needs it.
+ */
+const MAX_CACHED_WORKOUTS = 200;
+
+/** Workout history cached on disk so screens can render before Supabase responds */
+export interface WorkoutSessionsSnapshot {
+  userId: string;
+  workouts: Workout[];
+  /** Epoch ms when the snapshot was last reconciled with Supabase */
+  syncedAt: number;
+  /** Where to resume paging through older history; null once all of it is cached */
+  nextCursor: WorkoutSessionsCursor | null;
+  /** Workouts the next sync re-fetches whatever their updated_at, including those cached without their GPS route */
+  staleWorkoutIds: string[];
+}
+
+const storageKeyFor = (userId: string): string => `${WORKOUTS_STORAGE_KEY}/${userId}`;
+
 const logError = (message: string, error: unknown): void => {
   console.error(`[workoutSessionStorage] ${message}`, error);
 };
 
-const serializeWorkouts = (workouts: Workout[]): string => {
-  return JSON.stringify(workouts);
+/**
+ * Trims a snapshot to the newest workouts and drops GPS routes, the bulk of a long history.
+ * Expects workouts newest first.
+ */
+const serializeSnapshot = (snapshot: WorkoutSessionsSnapshot): string => {
+  const { workouts } = snapshot;
+  const cached = workouts.slice(0, MAX_CACHED_WORKOUTS);
+  const oldestCached = cached[cached.length - 1];
+  const strippedRouteIds = cached.filter((workout) => workout.routeCoordinates).map((workout) => workout.id);
+
+  return JSON.stringify({
+    ...snapshot,
+    workouts: cached.map((workout) => (workout.routeCoordinates ? { ...workout, routeCoordinates: undefined } : workout)),
+    nextCursor: workouts.length > cached.length && oldestCached
+      ? { date: oldestCached.date, id: oldestCached.id }
+      : snapshot.nextCursor,
+    staleWorkoutIds: [...new Set([...snapshot.staleWorkoutIds, ...strippedRouteIds])],
+  });
 };
 
-const parseWorkouts = (value: string | null): Workout[] => {
+const parseSnapshot = (value: string | null, userId: string): WorkoutSessionsSnapshot | null => {
   if (!value) {
-    return [];
+    return null;
   }
 
   try {
-    const parsed = JSON.parse(value) as Workout[];
+    const parsed = JSON.parse(value) as WorkoutSessionsSnapshot;
 
-    if (!Array.isArray(parsed)) {
-      return [];
+    if (!parsed || parsed.userId !== userId || !Array.isArray(parsed.workouts)) {
+      return null;
     }
 
-    return parsed.filter((workout) => Boolean(workout?.id));
+    return {
+      userId,
+      workouts: parsed.workouts.filter((workout) => Boolean(workout?.id)),
+      syncedAt: typeof parsed.syncedAt === 'number' ? parsed.syncedAt : 0,
+      nextCursor: parsed.nextCursor ?? null,
+      staleWorkoutIds: Array.isArray(parsed.staleWorkoutIds) ? parsed.staleWorkoutIds : [],
+    };
   } catch (error) {
     logError('Failed to parse workouts snapshot', error);
-    return [];
+    return null;
   }
 };
 
@@ -36,42 +79,44 @@ const warnAsyncStorageUnavailable = (operation: string): void => {
   console.warn(`[workoutSessionStorage] ${operation} skipped because AsyncStorage is unavailable in this environment.`);
 };
 
-export const loadStoredWorkoutSessions = async (): Promise<Workout[]> => {
+export const loadStoredWorkoutSessions = async (userId: string): Promise<WorkoutSessionsSnapshot | null> => {
   if (!canUseAsyncStorage()) {
-    return [];
+    return null;
   }
 
   try {
-    const stored = await AsyncStorage.getItem(WORKOUTS_STORAGE_KEY);
-    return parseWorkouts(stored);
+    const stored = await AsyncStorage.getItem(storageKeyFor(userId));
+    // Before the cache was kept per user, all of it lived under the bare key
+    await AsyncStorage.removeItem(WORKOUTS_STORAGE_KEY);
+    return parseSnapshot(stored, userId);
   } catch (error) {
     logError('Failed to load stored workouts', error);
-    return [];
+    return null;
   }
 };
 
-export const persistStoredWorkoutSessions = async (workouts: Workout[]): Promise<void> => {
+export const persistStoredWorkoutSessions = async (snapshot: WorkoutSessionsSnapshot): Promise<void> => {
   if (!canUseAsyncStorage()) {
     warnAsyncStorageUnavailable('persistStoredWorkoutSessions');
     return;
   }
 
   try {
-    await AsyncStorage.setItem(WORKOUTS_STORAGE_KEY, serializeWorkouts(workouts));
+    await AsyncStorage.setItem(storageKeyFor(snapshot.userId), serializeSnapshot(snapshot));
   } catch (error) {
     logError('Failed to persist workouts snapshot', error);
     throw new Error('Unable to persist workouts');
   }
 };
 
-export const clearStoredWorkoutSessions = async (): Promise<void> => {
+export const clearStoredWorkoutSessions = async (userId: string): Promise<void> => {
   if (!canUseAsyncStorage()) {
     warnAsyncStorageUnavailable('clearStoredWorkoutSessions');
     return;
   }
 
   try {
-    await AsyncStorage.removeItem(WORKOUTS_STORAGE_KEY);
+    await AsyncStorage.removeItem(storageKeyFor(userId));
   } catch (error) {
     logError('Failed to clear stored workouts', error);
     throw new Error('Unable to clear stored workouts');
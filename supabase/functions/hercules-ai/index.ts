@@ -18,7 +18,7 @@ import {
 import { callOpenRouter, type ToolCall, type OpenRouterUsage } from './openrouter.ts';
 import { buildContextMessage, SYSTEM_PROMPT } from './prompts.ts';
 import { parseAssistantResponse, constructActionFromMessage, crossValidateActionPayload } from './response.ts';
-import { executeStatFunction, type StatFunction } from './stats.ts';
+import { executeStatFunction, type GymProfileContext, type StatFunction } from './stats.ts';
 import { createSupabaseAdmin } from './supabase.ts';
 import { STAT_TOOLS } from './tools.ts';
 import type { ChatMessage, ChatRole } from './types.ts';
@@ -40,6 +40,7 @@ interface ChatRequestBody {
   title?: string;
   timezone?: string;
   appStats?: AppStats;
+  gymProfile?: GymProfileContext;
 }
 
 interface ActionDecisionRequestBody {
@@ -364,7 +365,7 @@ Deno.serve(async (request: Request): Promise<Response> => {
 
     const modelMessages: ChatMessage[] = [
       buildChatMessage('system', SYSTEM_PROMPT),
-      buildChatMessage('system', buildContextMessage(context, body.timezone, body.appStats)),
+      buildChatMessage('system', buildContextMessage(context, body.timezone, body.appStats, body.gymProfile)),
       ...kbMessages,
       ...recentMessages,
       ...recencySeparator,
@@ -429,7 +430,7 @@ Deno.serve(async (request: Request): Promise<Response> => {
         }
 
         console.log(`[HerculesAI] Executing tool: ${functionName}`, args);
-        const statResult = await executeStatFunction(supabase, userId, functionName, args, body.timezone, body.appStats);
+        const statResult = await executeStatFunction(supabase, userId, functionName, args, body.timezone, body.appStats, body.gymProfile);
 
         const toolMessage: ChatMessage = {
           role: 'tool',
@@ -390,6 +390,7 @@ STEP 1: Call getExercisesByMuscleGroup tool FIRST
 
 STEP 2: Select 4-6 exercises from the tool results (follow volume guidelines above)
 - Pick exercises with DIFFERENT equipment types (mix barbells, dumbbells, cables, machines)
+- If the context has an ACTIVE GYM PROFILE, only use equipment it lists (the tool results are already filtered to it)
 - DO NOT use exercises from the user's existing workouts shown in context
 - If user already has a workout with similar name, pick COMPLETELY DIFFERENT exercises
 - Start with compound movements, then isolation exercises
@@ -1285,7 +1286,37 @@ const buildAppStatsBlock = (appStats?: AppStatsForContext): string => {
   return lines.join('\n');
 };
 
-export const buildContextMessage = (context: unknown, timezone?: string, appStats?: AppStatsForContext): string => {
+interface GymProfileForContext {
+  name: string;
+  equipment: string[];
+  weightUnit: string;
+  dumbbellIncrement: number;
+  machineIncrement: number;
+  barWeight: number;
+  plates: number[];
+}
+
+const buildGymProfileBlock = (gymProfile?: GymProfileForContext): string => {
+  if (!gymProfile) return '';
+
+  const unit = gymProfile.weightUnit || 'lbs';
+  const lines: string[] = ['=== ACTIVE GYM PROFILE (WHERE THE USER TRAINS NOW — OVERRIDES "Available Equipment") ==='];
+  lines.push(`Gym: ${gymProfile.name}`);
+  lines.push(`Equipment: ${gymProfile.equipment.length > 0 ? gymProfile.equipment.join(', ') : 'None'} (bodyweight is always available)`);
+  lines.push(`Dumbbell jumps: ${gymProfile.dumbbellIncrement} ${unit}`);
+  lines.push(`Machine/cable stack steps: ${gymProfile.machineIncrement} ${unit}`);
+  lines.push(`Barbell: ${gymProfile.barWeight} ${unit} bar, plates ${gymProfile.plates.length > 0 ? gymProfile.plates.join(', ') : 'none'} ${unit}`);
+  lines.push('Only program exercises this gym has equipment for, and only suggest loads this equipment can make.');
+
+  return lines.join('\n');
+};
+
+export const buildContextMessage = (
+  context: unknown,
+  timezone?: string,
+  appStats?: AppStatsForContext,
+  gymProfile?: GymProfileForContext,
+): string => {
   const tz = timezone || 'UTC';
   const now = new Date();
 
@@ -1322,14 +1353,19 @@ export const buildContextMessage = (context: unknown, timezone?: string, appStat
   const workoutsBlock = buildWorkoutsBlock(ctx);
   const sessionsBlock = buildRecentSessionsBlock(ctx);
   const statsBlock = buildAppStatsBlock(appStats);
+  const gymProfileBlock = buildGymProfileBlock(gymProfile);
 
   const parts = [
     `Current date/time: ${dayOfWeek}, ${dateStr} at ${timeStr} (${tz})`,
     profileBlock,
-    workoutsBlock,
-    sessionsBlock,
   ];
 
+  if (gymProfileBlock) {
+    parts.push(gymProfileBlock);
+  }
+
+  parts.push(workoutsBlock, sessionsBlock);
+
   if (statsBlock) {
     parts.push(statsBlock);
   }
@@ -42,6 +42,28 @@ export interface AppStats {
   weightUnit: string;
 }
 
+/** Active gym profile sent by the app: equipment on hand and the weight steps it allows */
+export interface GymProfileContext {
+  name: string;
+  equipment: string[];
+  weightUnit: string;
+  dumbbellIncrement: number;
+  machineIncrement: number;
+  barWeight: number;
+  plates: number[];
+}
+
+/** Equipment types a gym profile can list; anything else (e.g. "Rack") doesn't rule an exercise out */
+const GYM_PROFILE_EQUIPMENT = [
+  'Barbell', 'Dumbbell', 'Cable', 'Machine', 'Kettlebell', 'Bands',
+  'Smith Machine', 'Trap Bar', 'Bench', 'Cardio Machine',
+];
+
+const isAvailableAtGym = (equipment: string[], gymProfile?: GymProfileContext): boolean => {
+  if (!gymProfile) return true;
+  return equipment.every((item) => !GYM_PROFILE_EQUIPMENT.includes(item) || gymProfile.equipment.includes(item));
+};
+
 const parseExercises = (exercises: unknown): SessionExercise[] => {
   if (!Array.isArray(exercises)) return [];
   return exercises as SessionExercise[];
@@ -1841,7 +1863,7 @@ const EXERCISE_MUSCLE_GROUPS: Record<string, string[]> = {
   ],
 };
 
-export const getExercisesByMuscleGroup = (muscleGroups: string): StatResult => {
+export const getExercisesByMuscleGroup = (muscleGroups: string, gymProfile?: GymProfileContext): StatResult => {
   const groups = muscleGroups.split(',').map(g => g.trim().toLowerCase()).filter(Boolean);
   
   const results: Record<string, Array<{ id: string; name: string; equipment: string[] }>> = {};
@@ -1852,7 +1874,7 @@ export const getExercisesByMuscleGroup = (muscleGroups: string): StatResult => {
     
     for (const name of exerciseNames) {
       const catalogEntry = EXERCISE_CATALOG.find(e => e.name === name);
-      if (catalogEntry) {
+      if (catalogEntry && isAvailableAtGym(catalogEntry.equipment, gymProfile)) {
         exercises.push({
           id: catalogEntry.id,
           name: catalogEntry.name,
@@ -1869,6 +1891,7 @@ export const getExercisesByMuscleGroup = (muscleGroups: string): StatResult => {
     data: {
       muscleGroups: results,
       availableGroups: Object.keys(EXERCISE_MUSCLE_GROUPS),
+      ...(gymProfile ? { filteredForGym: gymProfile.name } : {}),
       message: 'Select exercises from these options. CRITICAL: Use the EXACT exercise names as shown here — do NOT rename, abbreviate, or paraphrase them. Copy names character-for-character into both the message and payload.',
     },
   };
@@ -1962,7 +1985,8 @@ export const executeStatFunction = async (
   functionName: StatFunction,
   params: Record<string, unknown>,
   timezone?: string,
-  appStats?: AppStats
+  appStats?: AppStats,
+  gymProfile?: GymProfileContext
 ): Promise<StatResult> => {
   const tz = timezone || 'UTC';
   switch (functionName) {
@@ -1989,7 +2013,7 @@ export const executeStatFunction = async (
     case 'lookupExercises':
       return lookupExercises(params.exerciseNames as string);
     case 'getExercisesByMuscleGroup':
-      return getExercisesByMuscleGroup(params.muscleGroups as string);
+      return getExercisesByMuscleGroup(params.muscleGroups as string, gymProfile);
     default:
       return { success: false, data: null, error: `Unknown function: ${functionName}` };
   }